@@ -0,0 +1,688 @@
+CREATE TYPE "public"."appointment_status" AS ENUM('SCHEDULED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'NO_SHOW');--> statement-breakpoint
+CREATE TYPE "public"."medication_status" AS ENUM('ACTIVE', 'DISCONTINUED', 'OUT_OF_STOCK', 'EXPIRED');--> statement-breakpoint
+CREATE TYPE "public"."notification_status" AS ENUM('PENDING', 'SENT', 'DELIVERED', 'FAILED', 'READ');--> statement-breakpoint
+CREATE TYPE "public"."notification_type" AS ENUM('SMS', 'EMAIL', 'PUSH', 'IN_APP');--> statement-breakpoint
+CREATE TYPE "public"."scoring_algorithm" AS ENUM('MEWS', 'NEWS2', 'SATS', 'ESI', 'PEWS');--> statement-breakpoint
+ALTER TYPE "public"."lab_order_status" ADD VALUE 'FAILED';--> statement-breakpoint
+ALTER TYPE "public"."queue_status" ADD VALUE 'SKIPPED';--> statement-breakpoint
+ALTER TYPE "public"."resource_status" ADD VALUE 'RESERVED';--> statement-breakpoint
+ALTER TYPE "public"."resource_type" ADD VALUE 'ECG';--> statement-breakpoint
+ALTER TYPE "public"."resource_type" ADD VALUE 'XRAY';--> statement-breakpoint
+ALTER TYPE "public"."user_role" ADD VALUE 'lab_tech';--> statement-breakpoint
+ALTER TYPE "public"."user_role" ADD VALUE 'radiologist';--> statement-breakpoint
+CREATE TABLE "appointment_reminders" (
+	"reminder_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"offset_minutes" integer NOT NULL,
+	"appointment_date" date NOT NULL,
+	"start_time" time NOT NULL,
+	"channel" varchar(10) DEFAULT 'SMS' NOT NULL,
+	"delivered" boolean DEFAULT false NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	"response" varchar(20),
+	"responded_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "appointments" (
+	"appointment_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"doctor_id" uuid,
+	"department_id" uuid,
+	"appointment_date" date NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"reason" text,
+	"status" "appointment_status" DEFAULT 'SCHEDULED' NOT NULL,
+	"is_walk_in" boolean DEFAULT false NOT NULL,
+	"checked_in_at" timestamp,
+	"checked_in_by" uuid,
+	"queue_id" uuid,
+	"encounter_id" uuid,
+	"notes" text,
+	"reminder_sent" boolean DEFAULT false NOT NULL,
+	"confirmed_at" timestamp,
+	"booked_by" uuid,
+	"cancelled_at" timestamp,
+	"cancellation_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"log_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"action" varchar(50) NOT NULL,
+	"entity_type" varchar(50) NOT NULL,
+	"entity_id" uuid,
+	"old_values" jsonb,
+	"new_values" jsonb,
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"details" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "availability_exceptions" (
+	"exception_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doctor_id" uuid,
+	"exception_type" varchar(20) NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"start_time" time,
+	"end_time" time,
+	"reason" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "department_staff" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"department_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"assigned_at" timestamp DEFAULT now() NOT NULL,
+	"assigned_by" uuid
+);
+--> statement-breakpoint
+CREATE TABLE "discharge_summaries" (
+	"summary_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"encounter_id" uuid NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"content" jsonb NOT NULL,
+	"html" text NOT NULL,
+	"pdf_data" text NOT NULL,
+	"access_token_hash" varchar(64),
+	"access_token_expires_at" timestamp,
+	"generated_by" uuid,
+	"last_sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "discharge_summaries_encounter_id_unique" UNIQUE("encounter_id")
+);
+--> statement-breakpoint
+CREATE TABLE "display_devices" (
+	"device_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"department_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_seen_at" timestamp,
+	"created_by" uuid,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "display_devices_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "doctor_availability" (
+	"availability_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doctor_id" uuid NOT NULL,
+	"department_id" uuid NOT NULL,
+	"day_of_week" integer NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"effective_from" date,
+	"effective_to" date,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "encounters" (
+	"encounter_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"department_id" uuid,
+	"status" varchar(20) DEFAULT 'OPEN' NOT NULL,
+	"opened_by" uuid,
+	"opened_at" timestamp DEFAULT now() NOT NULL,
+	"disposition" varchar(20),
+	"disposition_notes" text,
+	"ward" varchar(100),
+	"bed_resource_id" uuid,
+	"discharge_instructions" text,
+	"follow_up_appointment_id" uuid,
+	"closed_by" uuid,
+	"closed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "handover_acknowledgements" (
+	"acknowledgement_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"handover_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"notes" text,
+	"acknowledged_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "handover_reports" (
+	"handover_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"department_id" uuid NOT NULL,
+	"shift_start" timestamp NOT NULL,
+	"shift_end" timestamp NOT NULL,
+	"content" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'DRAFT' NOT NULL,
+	"outgoing_notes" text,
+	"submitted_by" uuid,
+	"submitted_at" timestamp,
+	"generated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "imaging_addenda" (
+	"addendum_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"imaging_id" uuid NOT NULL,
+	"radiologist_id" uuid NOT NULL,
+	"text" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lab_critical_alerts" (
+	"alert_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"doctor_id" uuid NOT NULL,
+	"critical_values" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'OPEN' NOT NULL,
+	"raised_by" uuid,
+	"raised_at" timestamp DEFAULT now() NOT NULL,
+	"escalated_at" timestamp,
+	"escalated_to" uuid,
+	"acknowledged_by" uuid,
+	"acknowledged_at" timestamp,
+	"acknowledgement_notes" text
+);
+--> statement-breakpoint
+CREATE TABLE "lab_panel_components" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"panel_id" uuid NOT NULL,
+	"test_id" uuid NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lab_tests" (
+	"test_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" varchar(20) NOT NULL,
+	"name" varchar(150) NOT NULL,
+	"is_panel" boolean DEFAULT false NOT NULL,
+	"specimen_type" varchar(50) NOT NULL,
+	"container" varchar(50) NOT NULL,
+	"unit" varchar(30),
+	"reference_ranges" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"price" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"turnaround_minutes" integer DEFAULT 240 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "lab_tests_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"notification_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"patient_id" uuid,
+	"type" "notification_type" NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"message" text NOT NULL,
+	"status" "notification_status" DEFAULT 'PENDING' NOT NULL,
+	"priority" "urgency_level" DEFAULT 'GREEN' NOT NULL,
+	"metadata" jsonb,
+	"sent_at" timestamp,
+	"delivered_at" timestamp,
+	"read_at" timestamp,
+	"retry_count" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "patient_merges" (
+	"merge_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"surviving_patient_id" uuid NOT NULL,
+	"merged_patient_id" uuid NOT NULL,
+	"status" varchar(20) DEFAULT 'MERGED' NOT NULL,
+	"moved_records" jsonb NOT NULL,
+	"match_score" integer,
+	"reason" text NOT NULL,
+	"merged_by" uuid NOT NULL,
+	"reverted_by" uuid,
+	"revert_reason" text,
+	"reverted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "referrals" (
+	"referral_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"encounter_id" uuid,
+	"referred_by" uuid NOT NULL,
+	"destination_facility" varchar(200) NOT NULL,
+	"destination_facility_code" varchar(20),
+	"destination_department" varchar(100),
+	"reason" text NOT NULL,
+	"clinical_summary" text,
+	"urgency" "urgency_level" DEFAULT 'GREEN' NOT NULL,
+	"transport_mode" varchar(30),
+	"status" varchar(20) DEFAULT 'PENDING' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "routing_rules" (
+	"rule_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"department_id" uuid NOT NULL,
+	"priority" integer DEFAULT 100 NOT NULL,
+	"conditions" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"is_fallback" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shift_swaps" (
+	"swap_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" uuid NOT NULL,
+	"requested_by" uuid NOT NULL,
+	"target_user_id" uuid NOT NULL,
+	"target_shift_id" uuid,
+	"reason" text,
+	"status" varchar(20) DEFAULT 'PENDING' NOT NULL,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"review_notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shifts" (
+	"shift_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"department_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"is_on_call" boolean DEFAULT false NOT NULL,
+	"status" varchar(20) DEFAULT 'SCHEDULED' NOT NULL,
+	"notes" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "stra_id_sequences" (
+	"prefix" varchar(10) PRIMARY KEY NOT NULL,
+	"last_value" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "system_settings" (
+	"setting_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" varchar(100) NOT NULL,
+	"value" jsonb NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"description" text,
+	"is_editable" boolean DEFAULT true NOT NULL,
+	"updated_by" uuid,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "system_settings_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "triage_discriminators" (
+	"discriminator_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"symptom_conditions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"complaint_keywords" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"minimum_urgency" "urgency_level" NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "triage_discriminators_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "urgency_history" (
+	"history_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"queue_id" uuid NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"previous_session_id" uuid,
+	"new_session_id" uuid NOT NULL,
+	"previous_urgency" "urgency_level" NOT NULL,
+	"new_urgency" "urgency_level" NOT NULL,
+	"direction" varchar(20) NOT NULL,
+	"previous_position" integer NOT NULL,
+	"new_position" integer NOT NULL,
+	"previous_score" integer,
+	"new_score" integer NOT NULL,
+	"reason" text,
+	"changed_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "vitals_history" (
+	"vital_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"encounter_id" uuid,
+	"recorded_by" uuid NOT NULL,
+	"temperature" numeric(4, 2),
+	"systolic_bp" integer,
+	"diastolic_bp" integer,
+	"heart_rate" integer,
+	"respiratory_rate" integer,
+	"oxygen_saturation" numeric(4, 2),
+	"blood_glucose" numeric(5, 2),
+	"pain_scale" integer,
+	"weight" numeric(5, 2),
+	"height" numeric(5, 2),
+	"bmi" numeric(4, 2),
+	"notes" text,
+	"is_critical" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "department_queues" DROP CONSTRAINT "department_queues_department_id_departments_department_id_fk";
+--> statement-breakpoint
+ALTER TABLE "resources" DROP CONSTRAINT "resources_department_id_departments_department_id_fk";
+--> statement-breakpoint
+DROP INDEX "imaging_patient_id_idx";--> statement-breakpoint
+DROP INDEX "lab_orders_patient_id_idx";--> statement-breakpoint
+DROP INDEX "prescriptions_patient_id_idx";--> statement-breakpoint
+DROP INDEX "prescriptions_doctor_id_idx";--> statement-breakpoint
+DROP INDEX "prescriptions_created_idx";--> statement-breakpoint
+ALTER TABLE "department_queues" ALTER COLUMN "urgency_level" SET DATA TYPE "public"."urgency_level" USING "urgency_level"::"public"."urgency_level";--> statement-breakpoint
+ALTER TABLE "medication_stock" ALTER COLUMN "current_stock" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "medication_stock" ALTER COLUMN "minimum_threshold" SET DEFAULT 10;--> statement-breakpoint
+ALTER TABLE "medication_stock" ALTER COLUMN "reorder_quantity" SET DEFAULT 100;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ALTER COLUMN "pain_scale" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "encounter_id" uuid;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "triage_session_id" uuid;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "assigned_room" varchar(50);--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "wait_notes" text;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "retriage_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "retriage_due_reason" varchar(30);--> statement-breakpoint
+ALTER TABLE "department_queues" ADD COLUMN "last_retriage_reminder_at" timestamp;--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "location" varchar(200);--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "phone_extension" varchar(10);--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "appointment_slot_minutes" integer DEFAULT 15 NOT NULL;--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "head_user_id" uuid;--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "color_code" varchar(7) DEFAULT '#3B82F6';--> statement-breakpoint
+ALTER TABLE "departments" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "encounter_id" uuid;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "priority" "urgency_level" DEFAULT 'GREEN' NOT NULL;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "duration_minutes" integer;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "resource_id" uuid;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "scheduled_by" uuid;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "reported_at" timestamp;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "signed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "report_url" text;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "cancellation_reason" text;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "accession_number" varchar(16);--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "study_instance_uid" varchar(64);--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "mpps_instance_uid" varchar(64);--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "doctor_assignments" ADD COLUMN "encounter_id" uuid;--> statement-breakpoint
+ALTER TABLE "doctor_assignments" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "doctor_assignments" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "encounter_id" uuid;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "priority" "urgency_level" DEFAULT 'GREEN' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "total_price" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "specimen_barcode" varchar(32);--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "received_at" timestamp;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "resulted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "received_by" uuid;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "resulted_by" uuid;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "unit" varchar(20) NOT NULL;--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "barcode" varchar(100);--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "selling_price" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "supplier_name" varchar(200);--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "storage_conditions" text;--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "status" "medication_status" DEFAULT 'ACTIVE' NOT NULL;--> statement-breakpoint
+ALTER TABLE "medication_stock" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "facility_code" varchar(4);--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "emergency_contact_name" varchar(100);--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "nhif_number" varchar(50);--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "county" varchar(100);--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "sub_county" varchar(100);--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "blood_group" varchar(5);--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "allergies" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "chronic_conditions" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "is_active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "merged_into_patient_id" uuid;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "encounter_id" uuid;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "clinical_notes" text;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "instructions" text;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "start_date" date NOT NULL;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "end_date" date;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "refills_allowed" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "refills_remaining" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "pharmacy_notes" text;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "asset_tag" varchar(50);--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "location" varchar(200);--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "current_patient_id" uuid;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "next_maintenance" date;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "purchase_date" date;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "warranty_expiry" date;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "purchase_cost" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "encounter_id" uuid;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "parent_session_id" uuid;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "blood_glucose" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "weight" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "height" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "bmi" numeric(4, 2);--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "chief_complaint" text;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "scoring_algorithm" "scoring_algorithm" DEFAULT 'MEWS' NOT NULL;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "score_breakdown" jsonb;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "discriminator_override" jsonb;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "routing_rule_id" uuid;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "synced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "specialization" varchar(200);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "license_number" varchar(50);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "avatar_url" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_login_at" timestamp;--> statement-breakpoint
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_appointment_id_appointments_appointment_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("appointment_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_doctor_id_users_user_id_fk" FOREIGN KEY ("doctor_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_checked_in_by_users_user_id_fk" FOREIGN KEY ("checked_in_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_queue_id_department_queues_queue_id_fk" FOREIGN KEY ("queue_id") REFERENCES "public"."department_queues"("queue_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_booked_by_users_user_id_fk" FOREIGN KEY ("booked_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_user_id_users_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "availability_exceptions" ADD CONSTRAINT "availability_exceptions_doctor_id_users_user_id_fk" FOREIGN KEY ("doctor_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "availability_exceptions" ADD CONSTRAINT "availability_exceptions_created_by_users_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "department_staff" ADD CONSTRAINT "department_staff_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "department_staff" ADD CONSTRAINT "department_staff_user_id_users_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "department_staff" ADD CONSTRAINT "department_staff_assigned_by_users_user_id_fk" FOREIGN KEY ("assigned_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discharge_summaries" ADD CONSTRAINT "discharge_summaries_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discharge_summaries" ADD CONSTRAINT "discharge_summaries_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discharge_summaries" ADD CONSTRAINT "discharge_summaries_generated_by_users_user_id_fk" FOREIGN KEY ("generated_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "display_devices" ADD CONSTRAINT "display_devices_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "display_devices" ADD CONSTRAINT "display_devices_created_by_users_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "doctor_availability" ADD CONSTRAINT "doctor_availability_doctor_id_users_user_id_fk" FOREIGN KEY ("doctor_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "doctor_availability" ADD CONSTRAINT "doctor_availability_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "doctor_availability" ADD CONSTRAINT "doctor_availability_created_by_users_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "encounters" ADD CONSTRAINT "encounters_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "encounters" ADD CONSTRAINT "encounters_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "encounters" ADD CONSTRAINT "encounters_opened_by_users_user_id_fk" FOREIGN KEY ("opened_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "encounters" ADD CONSTRAINT "encounters_bed_resource_id_resources_resource_id_fk" FOREIGN KEY ("bed_resource_id") REFERENCES "public"."resources"("resource_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "encounters" ADD CONSTRAINT "encounters_follow_up_appointment_id_appointments_appointment_id_fk" FOREIGN KEY ("follow_up_appointment_id") REFERENCES "public"."appointments"("appointment_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "encounters" ADD CONSTRAINT "encounters_closed_by_users_user_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "handover_acknowledgements" ADD CONSTRAINT "handover_acknowledgements_handover_id_handover_reports_handover_id_fk" FOREIGN KEY ("handover_id") REFERENCES "public"."handover_reports"("handover_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "handover_acknowledgements" ADD CONSTRAINT "handover_acknowledgements_user_id_users_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "handover_reports" ADD CONSTRAINT "handover_reports_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "handover_reports" ADD CONSTRAINT "handover_reports_submitted_by_users_user_id_fk" FOREIGN KEY ("submitted_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "imaging_addenda" ADD CONSTRAINT "imaging_addenda_imaging_id_diagnostic_imaging_imaging_id_fk" FOREIGN KEY ("imaging_id") REFERENCES "public"."diagnostic_imaging"("imaging_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "imaging_addenda" ADD CONSTRAINT "imaging_addenda_radiologist_id_users_user_id_fk" FOREIGN KEY ("radiologist_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_critical_alerts" ADD CONSTRAINT "lab_critical_alerts_order_id_lab_orders_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."lab_orders"("order_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_critical_alerts" ADD CONSTRAINT "lab_critical_alerts_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_critical_alerts" ADD CONSTRAINT "lab_critical_alerts_doctor_id_users_user_id_fk" FOREIGN KEY ("doctor_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_critical_alerts" ADD CONSTRAINT "lab_critical_alerts_raised_by_users_user_id_fk" FOREIGN KEY ("raised_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_critical_alerts" ADD CONSTRAINT "lab_critical_alerts_escalated_to_users_user_id_fk" FOREIGN KEY ("escalated_to") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_critical_alerts" ADD CONSTRAINT "lab_critical_alerts_acknowledged_by_users_user_id_fk" FOREIGN KEY ("acknowledged_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_panel_components" ADD CONSTRAINT "lab_panel_components_panel_id_lab_tests_test_id_fk" FOREIGN KEY ("panel_id") REFERENCES "public"."lab_tests"("test_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_panel_components" ADD CONSTRAINT "lab_panel_components_test_id_lab_tests_test_id_fk" FOREIGN KEY ("test_id") REFERENCES "public"."lab_tests"("test_id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_surviving_patient_id_patients_patient_id_fk" FOREIGN KEY ("surviving_patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_merged_patient_id_patients_patient_id_fk" FOREIGN KEY ("merged_patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_merged_by_users_user_id_fk" FOREIGN KEY ("merged_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_reverted_by_users_user_id_fk" FOREIGN KEY ("reverted_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referred_by_users_user_id_fk" FOREIGN KEY ("referred_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routing_rules" ADD CONSTRAINT "routing_rules_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routing_rules" ADD CONSTRAINT "routing_rules_created_by_users_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routing_rules" ADD CONSTRAINT "routing_rules_updated_by_users_user_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swaps" ADD CONSTRAINT "shift_swaps_shift_id_shifts_shift_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("shift_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swaps" ADD CONSTRAINT "shift_swaps_requested_by_users_user_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swaps" ADD CONSTRAINT "shift_swaps_target_user_id_users_user_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swaps" ADD CONSTRAINT "shift_swaps_target_shift_id_shifts_shift_id_fk" FOREIGN KEY ("target_shift_id") REFERENCES "public"."shifts"("shift_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swaps" ADD CONSTRAINT "shift_swaps_reviewed_by_users_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_user_id_users_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_created_by_users_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_updated_by_users_user_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "triage_discriminators" ADD CONSTRAINT "triage_discriminators_created_by_users_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "urgency_history" ADD CONSTRAINT "urgency_history_queue_id_department_queues_queue_id_fk" FOREIGN KEY ("queue_id") REFERENCES "public"."department_queues"("queue_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "urgency_history" ADD CONSTRAINT "urgency_history_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "urgency_history" ADD CONSTRAINT "urgency_history_previous_session_id_triage_sessions_session_id_fk" FOREIGN KEY ("previous_session_id") REFERENCES "public"."triage_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "urgency_history" ADD CONSTRAINT "urgency_history_new_session_id_triage_sessions_session_id_fk" FOREIGN KEY ("new_session_id") REFERENCES "public"."triage_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "urgency_history" ADD CONSTRAINT "urgency_history_changed_by_users_user_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vitals_history" ADD CONSTRAINT "vitals_history_patient_id_patients_patient_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vitals_history" ADD CONSTRAINT "vitals_history_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vitals_history" ADD CONSTRAINT "vitals_history_recorded_by_users_user_id_fk" FOREIGN KEY ("recorded_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "appointment_reminders_unique_idx" ON "appointment_reminders" USING btree ("appointment_id","offset_minutes","appointment_date","start_time");--> statement-breakpoint
+CREATE INDEX "appointment_reminders_appointment_idx" ON "appointment_reminders" USING btree ("appointment_id");--> statement-breakpoint
+CREATE INDEX "appointments_patient_idx" ON "appointments" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "appointments_doctor_idx" ON "appointments" USING btree ("doctor_id");--> statement-breakpoint
+CREATE INDEX "appointments_doctor_date_idx" ON "appointments" USING btree ("doctor_id","appointment_date");--> statement-breakpoint
+CREATE INDEX "appointments_date_idx" ON "appointments" USING btree ("appointment_date");--> statement-breakpoint
+CREATE INDEX "appointments_status_idx" ON "appointments" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "audit_user_idx" ON "audit_logs" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "audit_action_idx" ON "audit_logs" USING btree ("action");--> statement-breakpoint
+CREATE INDEX "audit_entity_idx" ON "audit_logs" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_created_idx" ON "audit_logs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "availability_exceptions_doctor_idx" ON "availability_exceptions" USING btree ("doctor_id");--> statement-breakpoint
+CREATE INDEX "availability_exceptions_dates_idx" ON "availability_exceptions" USING btree ("start_date","end_date");--> statement-breakpoint
+CREATE UNIQUE INDEX "department_staff_unique_idx" ON "department_staff" USING btree ("department_id","user_id");--> statement-breakpoint
+CREATE INDEX "department_staff_dept_idx" ON "department_staff" USING btree ("department_id");--> statement-breakpoint
+CREATE INDEX "department_staff_user_idx" ON "department_staff" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "discharge_summaries_patient_idx" ON "discharge_summaries" USING btree ("patient_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "display_devices_token_idx" ON "display_devices" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX "display_devices_dept_idx" ON "display_devices" USING btree ("department_id");--> statement-breakpoint
+CREATE INDEX "doctor_availability_doctor_idx" ON "doctor_availability" USING btree ("doctor_id","day_of_week");--> statement-breakpoint
+CREATE INDEX "doctor_availability_dept_idx" ON "doctor_availability" USING btree ("department_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "encounters_open_patient_idx" ON "encounters" USING btree ("patient_id") WHERE "encounters"."status" = 'OPEN';--> statement-breakpoint
+CREATE INDEX "encounters_patient_status_idx" ON "encounters" USING btree ("patient_id","status");--> statement-breakpoint
+CREATE INDEX "encounters_department_idx" ON "encounters" USING btree ("department_id");--> statement-breakpoint
+CREATE INDEX "encounters_opened_idx" ON "encounters" USING btree ("opened_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "handover_acknowledgements_unique_idx" ON "handover_acknowledgements" USING btree ("handover_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "handover_reports_dept_end_idx" ON "handover_reports" USING btree ("department_id","shift_end");--> statement-breakpoint
+CREATE INDEX "handover_reports_status_idx" ON "handover_reports" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "imaging_addenda_imaging_idx" ON "imaging_addenda" USING btree ("imaging_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "lab_critical_alerts_order_idx" ON "lab_critical_alerts" USING btree ("order_id");--> statement-breakpoint
+CREATE INDEX "lab_critical_alerts_status_idx" ON "lab_critical_alerts" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "lab_critical_alerts_doctor_idx" ON "lab_critical_alerts" USING btree ("doctor_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "lab_panel_components_unique_idx" ON "lab_panel_components" USING btree ("panel_id","test_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "lab_tests_code_idx" ON "lab_tests" USING btree ("code");--> statement-breakpoint
+CREATE INDEX "lab_tests_active_idx" ON "lab_tests" USING btree ("is_active");--> statement-breakpoint
+CREATE INDEX "notifications_user_idx" ON "notifications" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "notifications_status_idx" ON "notifications" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "notifications_type_idx" ON "notifications" USING btree ("type");--> statement-breakpoint
+CREATE INDEX "notifications_created_idx" ON "notifications" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "patient_merges_surviving_idx" ON "patient_merges" USING btree ("surviving_patient_id");--> statement-breakpoint
+CREATE INDEX "patient_merges_merged_idx" ON "patient_merges" USING btree ("merged_patient_id");--> statement-breakpoint
+CREATE INDEX "patient_merges_status_idx" ON "patient_merges" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "referrals_patient_idx" ON "referrals" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "referrals_encounter_idx" ON "referrals" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "referrals_status_idx" ON "referrals" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "routing_rules_priority_idx" ON "routing_rules" USING btree ("is_active","priority");--> statement-breakpoint
+CREATE INDEX "routing_rules_department_idx" ON "routing_rules" USING btree ("department_id");--> statement-breakpoint
+CREATE INDEX "shift_swaps_shift_idx" ON "shift_swaps" USING btree ("shift_id");--> statement-breakpoint
+CREATE INDEX "shift_swaps_status_idx" ON "shift_swaps" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "shifts_dept_time_idx" ON "shifts" USING btree ("department_id","starts_at","ends_at");--> statement-breakpoint
+CREATE INDEX "shifts_user_time_idx" ON "shifts" USING btree ("user_id","starts_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "settings_key_idx" ON "system_settings" USING btree ("key");--> statement-breakpoint
+CREATE INDEX "settings_category_idx" ON "system_settings" USING btree ("category");--> statement-breakpoint
+CREATE UNIQUE INDEX "discriminators_name_idx" ON "triage_discriminators" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "discriminators_active_idx" ON "triage_discriminators" USING btree ("is_active");--> statement-breakpoint
+CREATE INDEX "urgency_history_queue_idx" ON "urgency_history" USING btree ("queue_id","created_at");--> statement-breakpoint
+CREATE INDEX "urgency_history_patient_idx" ON "urgency_history" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "urgency_history_direction_idx" ON "urgency_history" USING btree ("direction");--> statement-breakpoint
+CREATE INDEX "vitals_patient_id_idx" ON "vitals_history" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "vitals_encounter_idx" ON "vitals_history" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "vitals_created_idx" ON "vitals_history" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "vitals_critical_idx" ON "vitals_history" USING btree ("is_critical");--> statement-breakpoint
+ALTER TABLE "department_queues" ADD CONSTRAINT "department_queues_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD CONSTRAINT "department_queues_triage_session_id_triage_sessions_session_id_fk" FOREIGN KEY ("triage_session_id") REFERENCES "public"."triage_sessions"("session_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD CONSTRAINT "department_queues_assigned_doctor_id_users_user_id_fk" FOREIGN KEY ("assigned_doctor_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "department_queues" ADD CONSTRAINT "department_queues_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "departments" ADD CONSTRAINT "departments_head_user_id_users_user_id_fk" FOREIGN KEY ("head_user_id") REFERENCES "public"."users"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_resource_id_resources_resource_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("resource_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_scheduled_by_users_user_id_fk" FOREIGN KEY ("scheduled_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_radiologist_id_users_user_id_fk" FOREIGN KEY ("radiologist_id") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "doctor_assignments" ADD CONSTRAINT "doctor_assignments_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD CONSTRAINT "lab_orders_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD CONSTRAINT "lab_orders_collected_by_users_user_id_fk" FOREIGN KEY ("collected_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD CONSTRAINT "lab_orders_received_by_users_user_id_fk" FOREIGN KEY ("received_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD CONSTRAINT "lab_orders_resulted_by_users_user_id_fk" FOREIGN KEY ("resulted_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD CONSTRAINT "lab_orders_completed_by_users_user_id_fk" FOREIGN KEY ("completed_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patients" ADD CONSTRAINT "patients_merged_into_fk" FOREIGN KEY ("merged_into_patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_dispensed_by_users_user_id_fk" FOREIGN KEY ("dispensed_by") REFERENCES "public"."users"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "resources" ADD CONSTRAINT "resources_current_patient_id_patients_patient_id_fk" FOREIGN KEY ("current_patient_id") REFERENCES "public"."patients"("patient_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "resources" ADD CONSTRAINT "resources_department_id_departments_department_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("department_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD CONSTRAINT "triage_sessions_encounter_id_encounters_encounter_id_fk" FOREIGN KEY ("encounter_id") REFERENCES "public"."encounters"("encounter_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD CONSTRAINT "triage_sessions_routing_rule_id_routing_rules_rule_id_fk" FOREIGN KEY ("routing_rule_id") REFERENCES "public"."routing_rules"("rule_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "triage_sessions" ADD CONSTRAINT "triage_parent_session_fk" FOREIGN KEY ("parent_session_id") REFERENCES "public"."triage_sessions"("session_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "queue_encounter_idx" ON "department_queues" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "queue_assigned_doctor_idx" ON "department_queues" USING btree ("assigned_doctor_id");--> statement-breakpoint
+CREATE INDEX "queue_created_idx" ON "department_queues" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "departments_active_idx" ON "departments" USING btree ("is_active");--> statement-breakpoint
+CREATE INDEX "imaging_patient_idx" ON "diagnostic_imaging" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "imaging_encounter_idx" ON "diagnostic_imaging" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "imaging_modality_idx" ON "diagnostic_imaging" USING btree ("modality");--> statement-breakpoint
+CREATE INDEX "imaging_resource_time_idx" ON "diagnostic_imaging" USING btree ("resource_id","scheduled_time");--> statement-breakpoint
+CREATE INDEX "assignments_encounter_idx" ON "doctor_assignments" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "lab_orders_patient_idx" ON "lab_orders" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "lab_orders_encounter_idx" ON "lab_orders" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "lab_orders_priority_idx" ON "lab_orders" USING btree ("priority");--> statement-breakpoint
+CREATE INDEX "medication_status_idx" ON "medication_stock" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "medication_expiry_idx" ON "medication_stock" USING btree ("expiry_date");--> statement-breakpoint
+CREATE INDEX "patients_national_id_idx" ON "patients" USING btree ("national_id");--> statement-breakpoint
+CREATE INDEX "patients_name_idx" ON "patients" USING btree ("first_name","last_name");--> statement-breakpoint
+CREATE INDEX "prescriptions_patient_idx" ON "prescriptions" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "prescriptions_encounter_idx" ON "prescriptions" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "prescriptions_doctor_idx" ON "prescriptions" USING btree ("doctor_id");--> statement-breakpoint
+CREATE INDEX "prescriptions_dispensed_idx" ON "prescriptions" USING btree ("is_dispensed");--> statement-breakpoint
+CREATE INDEX "prescriptions_date_idx" ON "prescriptions" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "resources_serial_idx" ON "resources" USING btree ("serial_number");--> statement-breakpoint
+CREATE INDEX "resources_asset_idx" ON "resources" USING btree ("asset_tag");--> statement-breakpoint
+CREATE INDEX "triage_encounter_idx" ON "triage_sessions" USING btree ("encounter_id");--> statement-breakpoint
+CREATE INDEX "triage_parent_session_idx" ON "triage_sessions" USING btree ("parent_session_id");--> statement-breakpoint
+CREATE INDEX "triage_created_idx" ON "triage_sessions" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "users_active_idx" ON "users" USING btree ("is_active");--> statement-breakpoint
+ALTER TABLE "medication_stock" DROP COLUMN "is_active";--> statement-breakpoint
+ALTER TABLE "prescriptions" DROP COLUMN "notes";--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_accession_number_unique" UNIQUE("accession_number");--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_mpps_instance_uid_unique" UNIQUE("mpps_instance_uid");--> statement-breakpoint
+ALTER TABLE "lab_orders" ADD CONSTRAINT "lab_orders_specimen_barcode_unique" UNIQUE("specimen_barcode");--> statement-breakpoint
+ALTER TABLE "patients" ADD CONSTRAINT "patients_national_id_unique" UNIQUE("national_id");--> statement-breakpoint
+ALTER TABLE "resources" ADD CONSTRAINT "resources_serial_number_unique" UNIQUE("serial_number");
\ No newline at end of file
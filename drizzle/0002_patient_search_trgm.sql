@@ -0,0 +1,6 @@
+-- Custom SQL migration file, put your code below! --
+-- Patient search ranks names with pg_trgm similarity (the % operator). db:push never creates
+-- extensions, so a database set up with push needs CREATE EXTENSION pg_trgm run by hand.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "patients_first_name_trgm_idx" ON "patients" USING gin (lower("first_name") gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "patients_last_name_trgm_idx" ON "patients" USING gin (lower("last_name") gin_trgm_ops);
@@ -0,0 +1,12 @@
+-- Custom SQL migration file, put your code below! --
+-- Backstop for the advisory locks in AppointmentService and RadiologyService: overlapping bookings
+-- are rejected by the database with 23P01. btree_gist lets uuid equality share a gist index with ranges.
+CREATE EXTENSION IF NOT EXISTS btree_gist;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_doctor_no_overlap" EXCLUDE USING gist (
+	"doctor_id" WITH =,
+	tsrange("appointment_date" + "start_time", "appointment_date" + "end_time") WITH &&
+) WHERE ("doctor_id" IS NOT NULL AND "status" IN ('SCHEDULED', 'CHECKED_IN', 'IN_PROGRESS'));--> statement-breakpoint
+ALTER TABLE "diagnostic_imaging" ADD CONSTRAINT "diagnostic_imaging_resource_no_overlap" EXCLUDE USING gist (
+	"resource_id" WITH =,
+	tsrange("scheduled_time", "scheduled_time" + make_interval(mins => COALESCE("duration_minutes", 15))) WITH &&
+) WHERE ("resource_id" IS NOT NULL AND "scheduled_time" IS NOT NULL AND "status" IN ('SCHEDULED', 'IN_PROGRESS'));
@@ -2,4 +2,4 @@ import { config } from "dotenv";
 
 config({path: `.env.${process.env.NODE_ENV || 'development'}.local`});
 
-export const {PORT, NODE_ENV, DATABASE_URL, JWT_SECRET, JWT_EXPIRY, JWT_REFRESH_SECRET, JWT_REFRESH_EXPIRY, LOG_LEVEL} = process.env;
\ No newline at end of file
+export const {PORT, NODE_ENV, DATABASE_URL, JWT_SECRET, JWT_EXPIRY, JWT_REFRESH_SECRET, JWT_REFRESH_EXPIRY, LOG_LEVEL, SMS_WEBHOOK_SECRET, PUBLIC_BASE_URL, DICOM_PORT, DICOM_AE_TITLE, DICOM_ALLOWED_AE_TITLES, DICOM_ALLOWED_HOSTS, IMAGING_WEBHOOK_SECRET, REDIS_URL, AFRICASTALKING_API_KEY, AFRICASTALKING_USERNAME, SENDGRID_API_KEY, EMAIL_FROM, RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS, FACILITY_TZ} = process.env;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import winston from 'winston';
 import DailyRotateFile from 'winston-daily-rotate-file';
-import { NODE_ENV } from '../config/env.js';
+// @ts-ignore
+import { NODE_ENV, LOG_LEVEL } from '../config/env.js';
 
 const { combine, timestamp, printf, colorize, errors } = winston.format;
 
@@ -39,7 +40,7 @@ if (NODE_ENV === 'production') {
 }
 
 export const logger = winston.createLogger({
-  level: env.LOG_LEVEL,
+  level: LOG_LEVEL || 'info',
   format: combine(
     errors({ stack: true }),
     timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
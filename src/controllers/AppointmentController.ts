@@ -0,0 +1,237 @@
+import { Request, Response } from 'express';
+import { AppointmentService } from '../services/AppointmentService';
+import {
+  appointmentBookSchema,
+  appointmentRescheduleSchema,
+  appointmentCancelSchema,
+  appointmentCheckInSchema,
+  appointmentQuerySchema,
+  appointmentPolicySchema
+} from '../utils/validators';
+
+const appointmentService = new AppointmentService();
+
+export class AppointmentController {
+  async getAppointments(req: Request, res: Response) {
+    try {
+      const filters = appointmentQuerySchema.parse(req.query);
+      const result = await appointmentService.getAppointments(filters);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Appointments retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getAppointment(req: Request, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+      const appointment = await appointmentService.getAppointment(appointmentId);
+
+      res.json({
+        success: true,
+        data: appointment,
+        message: 'Appointment retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async bookAppointment(req: Request, res: Response) {
+    try {
+      const data = appointmentBookSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const bookedBy = req.user.userId;
+
+      const appointment = await appointmentService.bookAppointment({ ...data, bookedBy });
+
+      res.status(201).json({
+        success: true,
+        data: appointment,
+        message: 'Appointment booked successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async rescheduleAppointment(req: Request, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+      const data = appointmentRescheduleSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const rescheduledBy = req.user.userId;
+
+      const appointment = await appointmentService.rescheduleAppointment(appointmentId, { ...data, rescheduledBy });
+
+      res.json({
+        success: true,
+        data: appointment,
+        message: 'Appointment rescheduled successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async confirmAppointment(req: Request, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+      // @ts-ignore - user is added by auth middleware
+      const confirmedBy = req.user.userId;
+
+      const appointment = await appointmentService.confirmAppointment(appointmentId, { confirmedBy, via: 'STAFF' });
+
+      res.json({
+        success: true,
+        data: appointment,
+        message: 'Appointment confirmed successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async cancelAppointment(req: Request, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+      const { reason } = appointmentCancelSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const cancelledBy = req.user.userId;
+
+      const appointment = await appointmentService.cancelAppointment(appointmentId, { reason, cancelledBy });
+
+      res.json({
+        success: true,
+        data: appointment,
+        message: 'Appointment cancelled successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async checkInAppointment(req: Request, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+      const data = appointmentCheckInSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const checkedInBy = req.user.userId;
+
+      const result = await appointmentService.checkInAppointment(appointmentId, { ...data, checkedInBy });
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Patient checked in successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getPolicy(req: Request, res: Response) {
+    try {
+      const policy = await appointmentService.getPolicy();
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async updatePolicy(req: Request, res: Response) {
+    try {
+      const update = appointmentPolicySchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const updatedBy = req.user.userId;
+
+      const policy = await appointmentService.updatePolicy(update, updatedBy);
+
+      res.json({
+        success: true,
+        data: policy,
+        message: 'Appointment policy updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { Request, Response } from 'express';
+import { AvailabilityService } from '../services/AvailabilityService';
+import {
+  availabilityTemplateSchema,
+  availabilityExceptionSchema,
+  availabilityExceptionQuerySchema,
+  openSlotsQuerySchema,
+  slotLengthSchema
+} from '../utils/validators';
+
+const availabilityService = new AvailabilityService();
+
+export class AvailabilityController {
+  async getOpenSlots(req: Request, res: Response) {
+    try {
+      const filters = openSlotsQuerySchema.parse(req.query);
+      const slots = await availabilityService.getOpenSlots(filters);
+
+      res.json({
+        success: true,
+        data: slots,
+        message: `${slots.length} open slots found`,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getDoctorTemplate(req: Request, res: Response) {
+    try {
+      const { doctorId } = req.params;
+      const template = await availabilityService.getDoctorTemplate(doctorId);
+
+      res.json({
+        success: true,
+        data: template,
+        message: 'Availability template retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async setDoctorTemplate(req: Request, res: Response) {
+    try {
+      const { doctorId } = req.params;
+      // @ts-ignore - user is added by auth middleware
+      const { userId, role } = req.user;
+
+      // Doctors manage their own clinic hours
+      if (role !== 'admin' && userId !== doctorId) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to change another doctor\'s availability',
+        });
+        return;
+      }
+
+      const data = availabilityTemplateSchema.parse(req.body);
+      const template = await availabilityService.setDoctorTemplate(doctorId, { ...data, updatedBy: userId });
+
+      res.json({
+        success: true,
+        data: template,
+        message: 'Availability template updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getExceptions(req: Request, res: Response) {
+    try {
+      const filters = availabilityExceptionQuerySchema.parse(req.query);
+      const exceptions = await availabilityService.getExceptions(filters);
+
+      res.json({
+        success: true,
+        data: exceptions,
+        message: 'Availability exceptions retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async addException(req: Request, res: Response) {
+    try {
+      const data = availabilityExceptionSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const { userId, role } = req.user;
+
+      // Doctors may record their own leave; holidays and closures are for admin
+      if (role !== 'admin' && data.doctorId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to add this exception',
+        });
+        return;
+      }
+
+      const result = await availabilityService.addException({ ...data, createdBy: userId });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: result.affectedAppointments.length > 0
+          ? `Exception added; ${result.affectedAppointments.length} booked appointments need rescheduling`
+          : 'Exception added successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async removeException(req: Request, res: Response) {
+    try {
+      const { exceptionId } = req.params;
+      await availabilityService.removeException(exceptionId);
+
+      res.json({
+        success: true,
+        message: 'Exception removed successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async setDepartmentSlotLength(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.params;
+      const { slotMinutes } = slotLengthSchema.parse(req.body);
+
+      const department = await availabilityService.setDepartmentSlotLength(departmentId, slotMinutes);
+
+      res.json({
+        success: true,
+        data: department,
+        message: 'Slot length updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { DisplayService } from '../services/DisplayService';
+import { DeviceRequest } from '../middleware/device-auth';
+import { displayDeviceSchema } from '../utils/validators';
+import { logger } from '../config/logger';
+
+const displayService = new DisplayService();
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export class DisplayController {
+  async getFeed(req: DeviceRequest, res: Response) {
+    try {
+      const feed = await displayService.getDisplayFeed(req.device!.departmentId);
+
+      res.json({
+        success: true,
+        data: feed,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async streamFeed(req: DeviceRequest, res: Response) {
+    const { departmentId, deviceId } = req.device!;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    try {
+      const feed = await displayService.getDisplayFeed(departmentId);
+      res.write(`event: display_update\ndata: ${JSON.stringify(feed)}\n\n`);
+    } catch (error) {
+      logger.error('Failed to send initial display feed:', error);
+    }
+
+    const removeClient = displayService.addStreamClient(departmentId, res);
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    logger.info(`Display stream opened`, { deviceId, departmentId });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      removeClient();
+      logger.info(`Display stream closed`, { deviceId, departmentId });
+    });
+  }
+
+  async registerDevice(req: Request, res: Response) {
+    try {
+      const data = displayDeviceSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const createdBy = req.user.userId;
+
+      const result = await displayService.registerDevice({ ...data, createdBy });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Display device registered. Store the token now; it will not be shown again.',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async listDevices(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.query;
+      const devices = await displayService.listDevices(departmentId as string | undefined);
+
+      res.json({
+        success: true,
+        data: devices,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async revokeDevice(req: Request, res: Response) {
+    try {
+      const { deviceId } = req.params;
+      await displayService.revokeDevice(deviceId);
+
+      res.json({
+        success: true,
+        message: 'Display device revoked',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
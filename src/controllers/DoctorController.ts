@@ -1,13 +1,16 @@
 import { Request, Response } from 'express';
 import { DoctorService } from '../services/DoctorService';
+import { LabService } from '../services/LabService';
 import { validate } from '../middleware/validation';
 import { 
   labOrderSchema, 
   prescriptionSchema,
-  vitalSignsSchema
+  vitalSignsSchema,
+  dispositionSchema
 } from '../utils/validators';
 
 const doctorService = new DoctorService();
+const labService = new LabService();
 
 export class DoctorController {
   async getDoctorQueue(req: Request, res: Response) {
@@ -32,7 +35,8 @@ export class DoctorController {
   async getPatientDetails(req: Request, res: Response) {
     try {
       const { patientId } = req.params;
-      const details = await doctorService.getPatientDetails(patientId);
+      const { encounterId } = req.query;
+      const details = await doctorService.getPatientDetails(patientId, encounterId as string | undefined);
       
       res.json({
         success: true,
@@ -143,27 +147,32 @@ export class DoctorController {
   async updatePatientDisposition(req: Request, res: Response) {
     try {
       const { patientId } = req.params;
-      const { action, departmentId, ward, bedNumber, dischargeInstructions, followUpDate, notes } = req.body;
+      const data = dispositionSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const disposedBy = req.user.userId;
       
-      await doctorService.updatePatientDisposition(patientId, {
-        action,
-        departmentId,
-        ward,
-        bedNumber,
-        dischargeInstructions,
-        followUpDate: followUpDate ? new Date(followUpDate) : undefined,
-        notes,
+      const result = await doctorService.updatePatientDisposition(patientId, {
+        ...data,
+        disposedBy,
       });
       
       res.json({
         success: true,
-        message: `Patient ${action.toLowerCase()} completed successfully`,
+        data: result,
+        message: `Patient ${data.action.toLowerCase()} completed successfully`,
       });
     } catch (error: any) {
-      res.status(error.statusCode || 500).json({
-        success: false,
-        error: error.message,
-      });
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
     }
   }
 
@@ -227,27 +236,11 @@ export class DoctorController {
   async getPatientLabResults(req: Request, res: Response) {
     try {
       const { patientId } = req.params;
-      // In production, this would fetch from a lab system
-      // For now, return mock data
-      
-      const mockResults = [
-        {
-          testName: 'Complete Blood Count',
-          result: 'Within normal limits',
-          date: new Date().toISOString(),
-          status: 'COMPLETED',
-        },
-        {
-          testName: 'Basic Metabolic Panel',
-          result: 'Normal',
-          date: new Date().toISOString(),
-          status: 'COMPLETED',
-        },
-      ];
+      const results = await labService.getPatientResults(patientId);
       
       res.json({
         success: true,
-        data: mockResults,
+        data: results,
       });
     } catch (error: any) {
       res.status(error.statusCode || 500).json({
@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { EncounterService } from '../services/EncounterService';
+import { DischargeSummaryService } from '../services/DischargeSummaryService';
+import { dischargeSummarySendSchema } from '../utils/validators';
+
+const encounterService = new EncounterService();
+const dischargeSummaryService = new DischargeSummaryService();
+
+export class EncounterController {
+  async getEncounter(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      const encounter = await encounterService.getEncounter(encounterId);
+
+      res.json({
+        success: true,
+        data: encounter,
+        message: 'Encounter retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getTimeline(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      const timeline = await encounterService.getTimeline(encounterId);
+
+      res.json({
+        success: true,
+        data: timeline,
+        message: 'Encounter timeline retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async generateDischargeSummary(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      // @ts-ignore - user is added by auth middleware
+      const generatedBy = req.user.userId;
+
+      const summary = await dischargeSummaryService.generate(encounterId, generatedBy);
+
+      res.status(201).json({
+        success: true,
+        data: summary,
+        message: 'Discharge summary generated successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getDischargeSummary(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      const summary = await dischargeSummaryService.getMetadata(encounterId);
+
+      res.json({
+        success: true,
+        data: summary,
+        message: 'Discharge summary retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getDischargeSummaryHtml(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      const html = await dischargeSummaryService.getHtml(encounterId);
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(html);
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getDischargeSummaryPdf(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      const { fileName, pdf } = await dischargeSummaryService.getPdf(encounterId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async sendDischargeSummary(req: Request, res: Response) {
+    try {
+      const { encounterId } = req.params;
+      const options = dischargeSummarySendSchema.parse(req.body);
+
+      const result = await dischargeSummaryService.send(encounterId, options);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Discharge summary sent',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
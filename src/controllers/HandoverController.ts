@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { HandoverService } from '../services/HandoverService';
+import {
+  handoverGenerateSchema,
+  handoverNotesSchema,
+  handoverAcknowledgeSchema,
+  handoverQuerySchema
+} from '../utils/validators';
+
+const handoverService = new HandoverService();
+
+export class HandoverController {
+  async getHandovers(req: Request, res: Response) {
+    try {
+      const filters = handoverQuerySchema.parse(req.query);
+      const handovers = await handoverService.getHandovers(filters);
+
+      res.json({
+        success: true,
+        data: handovers,
+        message: 'Handovers retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getHandover(req: Request, res: Response) {
+    try {
+      const { handoverId } = req.params;
+      const handover = await handoverService.getHandover(handoverId);
+
+      res.json({
+        success: true,
+        data: handover,
+        message: 'Handover retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async generateHandover(req: Request, res: Response) {
+    try {
+      const { departmentId, shiftStart, shiftEnd } = handoverGenerateSchema.parse(req.body);
+      const handover = await handoverService.generateHandover(departmentId, { shiftStart, shiftEnd });
+
+      res.status(201).json({
+        success: true,
+        data: handover,
+        message: 'Handover report prepared',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async updateNotes(req: Request, res: Response) {
+    try {
+      const { handoverId } = req.params;
+      const data = handoverNotesSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const userId = req.user.userId;
+
+      const handover = await handoverService.updateNotes(handoverId, { ...data, userId });
+
+      res.json({
+        success: true,
+        data: handover,
+        message: data.submit ? 'Handover submitted to the incoming team' : 'Handover notes saved',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async acknowledge(req: Request, res: Response) {
+    try {
+      const { handoverId } = req.params;
+      const { notes } = handoverAcknowledgeSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const userId = req.user.userId;
+
+      const handover = await handoverService.acknowledge(handoverId, { userId, notes });
+
+      res.json({
+        success: true,
+        data: handover,
+        message: 'Handover acknowledged',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
@@ -2,17 +2,10 @@ import { Request, Response } from 'express';
 import { InventoryService } from '../services/InventoryService';
 import { validate } from '../middleware/validation';
 import { z } from 'zod';
+import { stockUpdateSchema } from '../utils/validators';
 
 const inventoryService = new InventoryService();
 
-const stockUpdateSchema = z.object({
-  adjustment: z.number().int(),
-  reason: z.string().min(1),
-  notes: z.string().optional(),
-  transactionType: z.enum(['RESTOCK', 'DISPENSE', 'ADJUSTMENT', 'WASTE']),
-  referenceId: z.string().optional(),
-});
-
 export class InventoryController {
   async getMedicationStock(req: Request, res: Response) {
     try {
@@ -0,0 +1,446 @@
+import { Request, Response } from 'express';
+import { LabService } from '../services/LabService';
+import { LabCriticalAlertService } from '../services/LabCriticalAlertService';
+import { LabCatalogueService } from '../services/LabCatalogueService';
+import {
+  labWorklistQuerySchema,
+  specimenCollectionSchema,
+  labResultEntrySchema,
+  labVerificationSchema,
+  specimenRejectionSchema,
+  labCriticalAlertQuerySchema,
+  labCriticalAcknowledgeSchema,
+  labCriticalPolicySchema,
+  labCatalogueEntrySchema,
+  labCatalogueUpdateSchema,
+  labCatalogueQuerySchema
+} from '../utils/validators';
+
+const labService = new LabService();
+const criticalAlertService = new LabCriticalAlertService();
+const catalogueService = new LabCatalogueService();
+
+export class LabController {
+  async getWorklist(req: Request, res: Response) {
+    try {
+      const filters = labWorklistQuerySchema.parse(req.query);
+      const worklist = await labService.getWorklist(filters);
+
+      res.json({
+        success: true,
+        data: worklist,
+        message: 'Lab worklist retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getOrder(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+      const order = await labService.getOrder(orderId);
+
+      res.json({
+        success: true,
+        data: order,
+        message: 'Lab order retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getOrderByBarcode(req: Request, res: Response) {
+    try {
+      const { barcode } = req.params;
+      const order = await labService.getOrderByBarcode(barcode);
+
+      res.json({
+        success: true,
+        data: order,
+        message: 'Lab order retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async collectSpecimen(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+      const data = specimenCollectionSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const collectedBy = req.user.userId;
+
+      const order = await labService.collectSpecimen(orderId, { ...data, collectedBy });
+
+      res.json({
+        success: true,
+        data: order,
+        message: `Specimen collected with barcode ${order.specimenBarcode}`,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async receiveSpecimen(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+      // @ts-ignore - user is added by auth middleware
+      const receivedBy = req.user.userId;
+
+      const order = await labService.receiveSpecimen(orderId, receivedBy);
+
+      res.json({
+        success: true,
+        data: order,
+        message: 'Specimen received; processing started',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async enterResults(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+      const data = labResultEntrySchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const resultedBy = req.user.userId;
+
+      const order = await labService.enterResults(orderId, { ...data, resultedBy });
+
+      res.json({
+        success: true,
+        data: order,
+        message: 'Results saved; awaiting verification',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async verifyResults(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+      const data = labVerificationSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const verifiedBy = req.user.userId;
+
+      const order = await labService.verifyResults(orderId, { ...data, verifiedBy });
+
+      res.json({
+        success: true,
+        data: order,
+        message: data.approve ? 'Results verified and released' : 'Results returned for correction',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async rejectSpecimen(req: Request, res: Response) {
+    try {
+      const { orderId } = req.params;
+      const { reason } = specimenRejectionSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const rejectedBy = req.user.userId;
+
+      const order = await labService.rejectSpecimen(orderId, { rejectedBy, reason });
+
+      res.json({
+        success: true,
+        data: order,
+        message: 'Specimen rejected; ordering doctor notified',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getCriticalAlerts(req: Request, res: Response) {
+    try {
+      const { mine, ...filters } = labCriticalAlertQuerySchema.parse(req.query);
+      // @ts-ignore - user is added by auth middleware
+      const userId = req.user.userId;
+
+      const alerts = await criticalAlertService.getAlerts({
+        ...filters,
+        doctorId: mine ? userId : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: alerts,
+        message: 'Critical alerts retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async acknowledgeCriticalAlert(req: Request, res: Response) {
+    try {
+      const { alertId } = req.params;
+      const { notes } = labCriticalAcknowledgeSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const acknowledgedBy = req.user.userId;
+
+      const alert = await criticalAlertService.acknowledge(alertId, { acknowledgedBy, notes });
+
+      res.json({
+        success: true,
+        data: alert,
+        message: 'Critical result acknowledged',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getCriticalPolicy(req: Request, res: Response) {
+    try {
+      const policy = await criticalAlertService.getPolicy();
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async updateCriticalPolicy(req: Request, res: Response) {
+    try {
+      const update = labCriticalPolicySchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const updatedBy = req.user.userId;
+
+      const policy = await criticalAlertService.updatePolicy(update, updatedBy);
+
+      res.json({
+        success: true,
+        data: policy,
+        message: 'Critical result policy updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getCatalogue(req: Request, res: Response) {
+    try {
+      const filters = labCatalogueQuerySchema.parse(req.query);
+      const catalogue = await catalogueService.getCatalogue(filters);
+
+      res.json({
+        success: true,
+        data: catalogue,
+        message: 'Lab catalogue retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getCatalogueEntry(req: Request, res: Response) {
+    try {
+      const { code } = req.params;
+      const entry = await catalogueService.getEntry(code);
+
+      res.json({
+        success: true,
+        data: entry,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async createCatalogueEntry(req: Request, res: Response) {
+    try {
+      const data = labCatalogueEntrySchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const createdBy = req.user.userId;
+
+      const entry = await catalogueService.createEntry(data, createdBy);
+
+      res.status(201).json({
+        success: true,
+        data: entry,
+        message: `${entry.isPanel ? 'Panel' : 'Test'} ${entry.code} added to the catalogue`,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async updateCatalogueEntry(req: Request, res: Response) {
+    try {
+      const { code } = req.params;
+      const update = labCatalogueUpdateSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const updatedBy = req.user.userId;
+
+      const entry = await catalogueService.updateEntry(code, update, updatedBy);
+
+      res.json({
+        success: true,
+        data: entry,
+        message: 'Catalogue entry updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async installCatalogueDefaults(req: Request, res: Response) {
+    try {
+      // @ts-ignore - user is added by auth middleware
+      const createdBy = req.user.userId;
+
+      const result = await catalogueService.installDefaults(createdBy);
+
+      res.json({
+        success: true,
+        data: result,
+        message: result.installed.length > 0
+          ? `Installed ${result.installed.length} catalogue entries`
+          : 'Starter catalogue already installed',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { PatientMergeService } from '../services/PatientMergeService';
+import { PatientSearchService } from '../services/PatientSearchService';
+import { EncounterService } from '../services/EncounterService';
+import {
+  duplicateCheckSchema,
+  patientSearchSchema,
+  patientMergeSchema,
+  patientMergeRevertSchema
+} from '../utils/validators';
+
+const patientMergeService = new PatientMergeService();
+const patientSearchService = new PatientSearchService();
+const encounterService = new EncounterService();
+
+export class PatientController {
+  async searchPatients(req: Request, res: Response) {
+    try {
+      const filters = patientSearchSchema.parse(req.query);
+      // @ts-ignore - user is added by auth middleware
+      const role = req.user.role;
+
+      // Inactive and merged records are for records administration only
+      if (filters.status && filters.status !== 'active' && role !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to search inactive records',
+        });
+        return;
+      }
+
+      const result = await patientSearchService.searchPatients(filters);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Patient search completed',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getPatientEncounters(req: Request, res: Response) {
+    try {
+      const { patientId } = req.params;
+      const encounters = await encounterService.getPatientEncounters(patientId);
+
+      res.json({
+        success: true,
+        data: encounters,
+        message: 'Patient encounters retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async checkDuplicates(req: Request, res: Response) {
+    try {
+      const candidate = duplicateCheckSchema.parse(req.body);
+      const matches = await patientMergeService.findPotentialDuplicates(candidate);
+
+      res.json({
+        success: true,
+        data: matches,
+        message: matches.length > 0 ? 'Possible duplicate records found' : 'No duplicate records found',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async mergePatients(req: Request, res: Response) {
+    try {
+      const data = patientMergeSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const mergedBy = req.user.userId;
+
+      const merge = await patientMergeService.mergePatients({ ...data, mergedBy });
+
+      res.status(201).json({
+        success: true,
+        data: merge,
+        message: 'Patient records merged successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async revertMerge(req: Request, res: Response) {
+    try {
+      const { mergeId } = req.params;
+      const { reason } = patientMergeRevertSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const revertedBy = req.user.userId;
+
+      const merge = await patientMergeService.revertMerge(mergeId, { reason, revertedBy });
+
+      res.json({
+        success: true,
+        data: merge,
+        message: 'Patient merge reverted successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getMerges(req: Request, res: Response) {
+    try {
+      const { patientId } = req.query;
+      const merges = await patientMergeService.listMerges(patientId as string | undefined);
+
+      res.json({
+        success: true,
+        data: merges,
+        message: 'Patient merges retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { PatientLookupService } from '../services/PatientLookupService';
+import { InboundSmsService } from '../services/InboundSmsService';
+import { DischargeSummaryService } from '../services/DischargeSummaryService';
+import { ModalityWorklistService } from '../services/ModalityWorklistService';
+import { queuePositionLookupSchema, inboundSmsSchema, imagingCompletionSchema } from '../utils/validators';
+// @ts-ignore
+import { SMS_WEBHOOK_SECRET, IMAGING_WEBHOOK_SECRET } from '../config/env.js';
+
+const patientLookupService = new PatientLookupService();
+const inboundSmsService = new InboundSmsService();
+const dischargeSummaryService = new DischargeSummaryService();
+const modalityWorklistService = new ModalityWorklistService();
+
+// Constant-time comparison; an unconfigured secret never matches
+const secretMatches = (provided: unknown, expected: string | undefined): boolean => {
+  if (!expected || typeof provided !== 'string') return false;
+
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export class PublicController {
+  async lookupQueuePosition(req: Request, res: Response) {
+    try {
+      const { straId, dateOfBirth } = queuePositionLookupSchema.parse(req.body);
+      const position = await patientLookupService.lookupQueuePosition(straId, dateOfBirth);
+
+      res.json({
+        success: true,
+        data: position,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async receiveInboundSms(req: Request, res: Response) {
+    try {
+      // Replies confirm and cancel appointments, so an unset secret must not open the webhook
+      if (!secretMatches(req.query.secret, SMS_WEBHOOK_SECRET)) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid webhook secret.',
+        });
+      }
+
+      const message = inboundSmsSchema.parse(req.body);
+      const reply = await inboundSmsService.handleMessage(message);
+
+      res.json({
+        success: true,
+        data: { reply },
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  // PACS callback that completes studies; like the SMS webhook the secret is mandatory
+  async receiveImagingCompletion(req: Request, res: Response) {
+    try {
+      if (!secretMatches(req.query.secret, IMAGING_WEBHOOK_SECRET)) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid webhook secret.',
+        });
+      }
+
+      const completion = imagingCompletionSchema.parse(req.body);
+      const study = await modalityWorklistService.recordProcedureCompleted({ ...completion, source: 'WEBHOOK' });
+
+      res.json({
+        success: true,
+        data: {
+          imagingId: study.imagingId,
+          status: study.status,
+          studyInstanceUid: study.studyInstanceUid,
+          completedAt: study.completedAt,
+        },
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async downloadDischargeSummary(req: Request, res: Response) {
+    try {
+      const { summaryId } = req.params;
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+      const { fileName, pdf } = await dischargeSummaryService.getPdfByToken(summaryId, token);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { Request, Response } from 'express';
+import { QueueService } from '../services/QueueService';
+import {
+  queueCallNextSchema,
+  queueCompleteSchema,
+  queueSkipSchema,
+  queuePositionSchema,
+  queueReturnSchema
+} from '../utils/validators';
+
+const queueService = new QueueService();
+
+export class QueueController {
+  async getQueueStatus(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.params;
+      const queue = await queueService.getQueueStatus(departmentId);
+
+      res.json({
+        success: true,
+        data: queue,
+        message: 'Queue retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getQueueStatistics(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.query;
+      const statistics = await queueService.getQueueStatistics(departmentId as string | undefined);
+
+      res.json({
+        success: true,
+        data: statistics,
+        message: 'Queue statistics retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async callNextPatient(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.params;
+      const { reason, room } = queueCallNextSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const doctorId = req.user.userId;
+
+      const nextPatient = await queueService.callNextPatient(departmentId, doctorId, { reason, room });
+
+      res.json({
+        success: true,
+        data: nextPatient,
+        message: 'Patient called successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async completePatient(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const { reason } = queueCompleteSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const performedBy = req.user.userId;
+
+      await queueService.completePatient(queueId, { performedBy, reason });
+
+      res.json({
+        success: true,
+        message: 'Patient treatment completed',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async skipPatient(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const { reason } = queueSkipSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const performedBy = req.user.userId;
+
+      await queueService.skipPatient(queueId, reason, performedBy);
+
+      res.json({
+        success: true,
+        message: 'Patient skipped',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async updatePosition(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const { position, reason } = queuePositionSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const performedBy = req.user.userId;
+
+      await queueService.updatePatientPosition(queueId, position, { performedBy, reason });
+
+      res.json({
+        success: true,
+        message: 'Queue position updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async returnToQueue(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const { reason } = queueReturnSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const performedBy = req.user.userId;
+
+      const entry = await queueService.returnToQueue(queueId, reason, performedBy);
+
+      res.json({
+        success: true,
+        data: entry,
+        message: 'Patient returned to queue',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getQueueActions(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const actions = await queueService.getQueueActions(queueId);
+
+      res.json({
+        success: true,
+        data: actions,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
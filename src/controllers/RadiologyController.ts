@@ -0,0 +1,231 @@
+import { Request, Response } from 'express';
+import { RadiologyService } from '../services/RadiologyService';
+import {
+  radiologyWorklistQuerySchema,
+  imagingScheduleSchema,
+  imagingReportSchema,
+  imagingAddendumSchema,
+  imagingCancelSchema
+} from '../utils/validators';
+
+const radiologyService = new RadiologyService();
+
+export class RadiologyController {
+  async getWorklist(req: Request, res: Response) {
+    try {
+      const filters = radiologyWorklistQuerySchema.parse(req.query);
+      const worklist = await radiologyService.getWorklist(filters);
+
+      res.json({
+        success: true,
+        data: worklist,
+        message: 'Radiology worklist retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getStudy(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      const study = await radiologyService.getStudy(imagingId);
+
+      res.json({
+        success: true,
+        data: study,
+        message: 'Imaging study retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getReport(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      const report = await radiologyService.getReport(imagingId);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async scheduleStudy(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      const data = imagingScheduleSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const scheduledBy = req.user.userId;
+
+      const study = await radiologyService.scheduleStudy(imagingId, { ...data, scheduledBy });
+
+      res.json({
+        success: true,
+        data: study,
+        message: 'Imaging study scheduled',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async startStudy(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      // @ts-ignore - user is added by auth middleware
+      const startedBy = req.user.userId;
+
+      const study = await radiologyService.startStudy(imagingId, startedBy);
+
+      res.json({
+        success: true,
+        data: study,
+        message: 'Imaging study started',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async completeStudy(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      // @ts-ignore - user is added by auth middleware
+      const completedBy = req.user.userId;
+
+      const study = await radiologyService.completeStudy(imagingId, completedBy);
+
+      res.json({
+        success: true,
+        data: study,
+        message: 'Images acquired; study ready for reporting',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async saveReport(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      const data = imagingReportSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const radiologistId = req.user.userId;
+
+      const study = await radiologyService.saveReport(imagingId, { ...data, radiologistId });
+
+      res.json({
+        success: true,
+        data: study,
+        message: data.sign ? 'Report signed; ordering doctor notified' : 'Preliminary report saved',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async addAddendum(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      const { text } = imagingAddendumSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const radiologistId = req.user.userId;
+
+      const addendum = await radiologyService.addAddendum(imagingId, { radiologistId, text });
+
+      res.status(201).json({
+        success: true,
+        data: addendum,
+        message: 'Addendum added to the report',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async cancelStudy(req: Request, res: Response) {
+    try {
+      const { imagingId } = req.params;
+      const { reason } = imagingCancelSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const cancelledBy = req.user.userId;
+
+      const study = await radiologyService.cancelStudy(imagingId, { cancelledBy, reason });
+
+      res.json({
+        success: true,
+        data: study,
+        message: 'Imaging study cancelled',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
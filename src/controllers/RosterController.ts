@@ -0,0 +1,248 @@
+import { Request, Response } from 'express';
+import { RosterService } from '../services/RosterService';
+import {
+  shiftSchema,
+  shiftCancelSchema,
+  rosterQuerySchema,
+  onDutyQuerySchema,
+  shiftSwapSchema,
+  shiftSwapReviewSchema,
+  shiftSwapQuerySchema,
+  departmentHeadSchema
+} from '../utils/validators';
+
+const rosterService = new RosterService();
+
+// Roles that plan the roster and approve swaps
+const ROSTER_MANAGERS = ['admin', 'management'];
+
+export class RosterController {
+  async getRoster(req: Request, res: Response) {
+    try {
+      const filters = rosterQuerySchema.parse(req.query);
+      const roster = await rosterService.getRoster(filters);
+
+      res.json({
+        success: true,
+        data: roster,
+        message: 'Roster retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getOnDuty(req: Request, res: Response) {
+    try {
+      const { departmentId, role, includeOnCall } = onDutyQuerySchema.parse(req.query);
+      const staff = await rosterService.getOnDutyStaff({
+        departmentId,
+        roles: role ? [role] : undefined,
+        includeOnCall,
+      });
+
+      res.json({
+        success: true,
+        data: staff,
+        message: 'On-duty staff retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async createShift(req: Request, res: Response) {
+    try {
+      const data = shiftSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const createdBy = req.user.userId;
+
+      const shift = await rosterService.createShift({ ...data, createdBy });
+
+      res.status(201).json({
+        success: true,
+        data: shift,
+        message: 'Shift created successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async cancelShift(req: Request, res: Response) {
+    try {
+      const { shiftId } = req.params;
+      const { reason } = shiftCancelSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const cancelledBy = req.user.userId;
+
+      const shift = await rosterService.cancelShift(shiftId, { reason, cancelledBy });
+
+      res.json({
+        success: true,
+        data: shift,
+        message: 'Shift cancelled successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getSwaps(req: Request, res: Response) {
+    try {
+      const filters = shiftSwapQuerySchema.parse(req.query);
+      // @ts-ignore - user is added by auth middleware
+      const { userId, role } = req.user;
+
+      // Staff see their own requests; managers see everything
+      const swaps = await rosterService.getSwaps({
+        ...filters,
+        userId: ROSTER_MANAGERS.includes(role) ? undefined : userId,
+      });
+
+      res.json({
+        success: true,
+        data: swaps,
+        message: 'Shift swaps retrieved successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async requestSwap(req: Request, res: Response) {
+    try {
+      const data = shiftSwapSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const requestedBy = req.user.userId;
+
+      const swap = await rosterService.requestSwap({ ...data, requestedBy });
+
+      res.status(201).json({
+        success: true,
+        data: swap,
+        message: 'Shift swap requested; awaiting approval',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async reviewSwap(req: Request, res: Response) {
+    try {
+      const { swapId } = req.params;
+      const data = shiftSwapReviewSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const reviewedBy = req.user.userId;
+
+      const swap = await rosterService.reviewSwap(swapId, { ...data, reviewedBy });
+
+      res.json({
+        success: true,
+        data: swap,
+        message: data.decision === 'APPROVED' ? 'Shift swap approved' : 'Shift swap rejected',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async setDepartmentHead(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.params;
+      const { userId } = departmentHeadSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const updatedBy = req.user.userId;
+
+      const department = await rosterService.setDepartmentHead(departmentId, { userId, updatedBy });
+
+      res.json({
+        success: true,
+        data: department,
+        message: userId ? 'Department head assigned' : 'Department head cleared',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { RoutingService } from '../services/RoutingService';
+import {
+  routingRuleSchema,
+  routingRuleUpdateSchema,
+  routingDryRunSchema
+} from '../utils/validators';
+
+const routingService = new RoutingService();
+
+export class RoutingController {
+  async getRules(req: Request, res: Response) {
+    try {
+      const { includeInactive } = req.query;
+      const rules = await routingService.listRules(includeInactive === 'true');
+      
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getRule(req: Request, res: Response) {
+    try {
+      const { ruleId } = req.params;
+      const rule = await routingService.getRule(ruleId as string);
+      
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async createRule(req: Request, res: Response) {
+    try {
+      const data = routingRuleSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const createdBy = req.user.userId;
+      
+      const rule = await routingService.createRule({ ...data, createdBy });
+      
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Routing rule created successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async updateRule(req: Request, res: Response) {
+    try {
+      const { ruleId } = req.params;
+      const data = routingRuleUpdateSchema.parse(req.body);
+      // @ts-ignore
+      const updatedBy = req.user.userId;
+      
+      const rule = await routingService.updateRule(ruleId as string, { ...data, updatedBy });
+      
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Routing rule updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async deleteRule(req: Request, res: Response) {
+    try {
+      const { ruleId } = req.params;
+      await routingService.deleteRule(ruleId as string);
+      
+      res.json({
+        success: true,
+        message: 'Routing rule deleted successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async dryRun(req: Request, res: Response) {
+    try {
+      const payload = routingDryRunSchema.parse(req.body);
+      const result = await routingService.dryRun(payload);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+}
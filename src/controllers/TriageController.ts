@@ -1,27 +1,40 @@
 import { Request, Response } from 'express';
 import { TriageService } from '../services/TriageService';
 import { QueueService } from '../services/QueueService';
+import { DiscriminatorService } from '../services/DiscriminatorService';
+import { RetriageReminderService } from '../services/RetriageReminderService';
+import { PatientLookupService } from '../services/PatientLookupService';
 import { validate } from '../middleware/validation';
 import { 
   patientRegistrationSchema, 
   triageSchema, 
-  queueUpdateSchema 
+  queueUpdateSchema,
+  scoringEngineConfigSchema,
+  retriagePolicySchema,
+  discriminatorSchema,
+  discriminatorUpdateSchema,
+  retriageSchema
 } from '../utils/validators';
-import { AppError } from '../middleware/error';
 
 const triageService = new TriageService();
 const queueService = new QueueService();
+const discriminatorService = new DiscriminatorService();
+const retriageReminderService = new RetriageReminderService();
+const patientLookupService = new PatientLookupService();
 
 export class TriageController {
   async registerPatient(req: Request, res: Response) {
     try {
       const patientData = patientRegistrationSchema.parse(req.body);
-      const patient = await triageService.registerPatient(patientData);
+      const { patient, possibleDuplicates } = await triageService.registerPatient(patientData);
       
       res.status(201).json({
         success: true,
         data: patient,
-        message: 'Patient registered successfully',
+        possibleDuplicates,
+        message: possibleDuplicates.length > 0
+          ? 'Patient registered; possible duplicate records found'
+          : 'Patient registered successfully',
       });
     } catch (error: any) {
       if (error.name === 'ZodError') {
@@ -63,6 +76,52 @@ export class TriageController {
     }
   }
 
+  async retriagePatient(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const data = retriageSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const nurseId = req.user.userId;
+      
+      const result = await triageService.retriageQueueEntry(queueId as string, { ...data, nurseId });
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Re-triage completed (${result.change?.direction.toLowerCase()})`,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getUrgencyHistory(req: Request, res: Response) {
+    try {
+      const { queueId } = req.params;
+      const history = await triageService.getUrgencyHistory(queueId as string);
+      
+      res.json({
+        success: true,
+        data: history,
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
   async getPatientDetails(req: Request, res: Response) {
     try {
       const { patientId } = req.params;
@@ -81,6 +140,24 @@ export class TriageController {
     }
   }
 
+  async lookupPatientByStraId(req: Request, res: Response) {
+    try {
+      const { straId } = req.params;
+      const patient = await patientLookupService.lookupByStraId(straId);
+      
+      res.json({
+        success: true,
+        data: patient,
+        message: 'Patient retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
   async getQueue(req: Request, res: Response) {
     try {
       const { departmentId } = req.params;
@@ -99,21 +176,79 @@ export class TriageController {
     }
   }
 
-  async callNextPatient(req: Request, res: Response) {
+  async updateQueuePosition(req: Request, res: Response) {
     try {
-      const { departmentId } = req.params;
-      const { doctorId } = req.body;
+      const { queueId } = req.params;
+      const { position, reason } = queueUpdateSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const performedBy = req.user.userId;
+      
+      await queueService.updatePatientPosition(queueId, position, { performedBy, reason });
       
-      if (!doctorId) {
-        throw new AppError('Doctor ID is required', 400);
+      res.json({
+        success: true,
+        message: 'Queue position updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
       }
+    }
+  }
+
+  async prioritizeQueue(req: Request, res: Response) {
+    try {
+      const { departmentId } = req.params;
+      await triageService.prioritizeCriticalPatients(departmentId);
+      
+      res.json({
+        success: true,
+        message: 'Queue prioritized successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getStatistics(req: Request, res: Response) {
+    try {
+      const { timeFrame = 'today' } = req.query;
+      const stats = await triageService.getTriageStatistics(timeFrame as any);
       
-      const nextPatient = await queueService.callNextPatient(departmentId, doctorId);
+      res.json({
+        success: true,
+        data: stats,
+        message: 'Statistics retrieved successfully',
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getScoringEngines(req: Request, res: Response) {
+    try {
+      const config = await triageService.getScoringEngineConfig();
       
       res.json({
         success: true,
-        data: nextPatient,
-        message: 'Patient called successfully',
+        data: {
+          engines: triageService.getScoringEngines(),
+          config,
+        },
       });
     } catch (error: any) {
       res.status(error.statusCode || 500).json({
@@ -123,14 +258,41 @@ export class TriageController {
     }
   }
 
-  async completePatient(req: Request, res: Response) {
+  async updateScoringEngine(req: Request, res: Response) {
     try {
-      const { queueId } = req.params;
-      await queueService.completePatient(queueId);
+      const update = scoringEngineConfigSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const updatedBy = req.user.userId;
+      
+      const config = await triageService.updateScoringEngineConfig(update, updatedBy);
+      
+      res.json({
+        success: true,
+        data: config,
+        message: 'Scoring engine updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async getRetriagePolicy(req: Request, res: Response) {
+    try {
+      const policy = await retriageReminderService.getPolicy();
       
       res.json({
         success: true,
-        message: 'Patient treatment completed',
+        data: policy,
       });
     } catch (error: any) {
       res.status(error.statusCode || 500).json({
@@ -140,16 +302,18 @@ export class TriageController {
     }
   }
 
-  async updateQueuePosition(req: Request, res: Response) {
+  async updateRetriagePolicy(req: Request, res: Response) {
     try {
-      const { queueId } = req.params;
-      const { position } = queueUpdateSchema.parse(req.body);
+      const update = retriagePolicySchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const updatedBy = req.user.userId;
       
-      await queueService.updatePatientPosition(queueId, position);
+      const policy = await retriageReminderService.updatePolicy(update, updatedBy);
       
       res.json({
         success: true,
-        message: 'Queue position updated successfully',
+        data: policy,
+        message: 'Re-triage policy updated successfully',
       });
     } catch (error: any) {
       if (error.name === 'ZodError') {
@@ -166,14 +330,14 @@ export class TriageController {
     }
   }
 
-  async prioritizeQueue(req: Request, res: Response) {
+  async getDiscriminators(req: Request, res: Response) {
     try {
-      const { departmentId } = req.params;
-      await triageService.prioritizeCriticalPatients(departmentId);
+      const { includeInactive } = req.query;
+      const discriminators = await discriminatorService.listDiscriminators(includeInactive === 'true');
       
       res.json({
         success: true,
-        message: 'Queue prioritized successfully',
+        data: discriminators,
       });
     } catch (error: any) {
       res.status(error.statusCode || 500).json({
@@ -183,15 +347,69 @@ export class TriageController {
     }
   }
 
-  async getStatistics(req: Request, res: Response) {
+  async createDiscriminator(req: Request, res: Response) {
     try {
-      const { timeFrame = 'today' } = req.query;
-      const stats = await triageService.getTriageStatistics(timeFrame as any);
+      const data = discriminatorSchema.parse(req.body);
+      // @ts-ignore - user is added by auth middleware
+      const createdBy = req.user.userId;
+      
+      const discriminator = await discriminatorService.createDiscriminator({ ...data, createdBy });
+      
+      res.status(201).json({
+        success: true,
+        data: discriminator,
+        message: 'Discriminator created successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async updateDiscriminator(req: Request, res: Response) {
+    try {
+      const { discriminatorId } = req.params;
+      const data = discriminatorUpdateSchema.parse(req.body);
+      
+      const discriminator = await discriminatorService.updateDiscriminator(discriminatorId as string, data);
       
       res.json({
         success: true,
-        data: stats,
-        message: 'Statistics retrieved successfully',
+        data: discriminator,
+        message: 'Discriminator updated successfully',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          errors: error.errors,
+        });
+      } else {
+        res.status(error.statusCode || 500).json({
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  async deleteDiscriminator(req: Request, res: Response) {
+    try {
+      const { discriminatorId } = req.params;
+      await discriminatorService.deleteDiscriminator(discriminatorId as string);
+      
+      res.json({
+        success: true,
+        message: 'Discriminator deleted successfully',
       });
     } catch (error: any) {
       res.status(error.statusCode || 500).json({
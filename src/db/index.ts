@@ -1,6 +1,19 @@
 // @ts-ignore
 import { DATABASE_URL } from '../config/env.js';
-import { drizzle } from 'drizzle-orm/neon-http';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
 import { sql, gte } from 'drizzle-orm';
-export const db = drizzle(DATABASE_URL!);
+import ws from 'ws';
+
+// The WebSocket pool supports interactive transactions, which the HTTP driver does not; Node 20 has no global WebSocket
+neonConfig.webSocketConstructor = ws;
+
+export const pool = new Pool({ connectionString: DATABASE_URL });
+export const db = drizzle({ client: pool });
+
+// SQLSTATE of a failed query; drizzle wraps the driver's error in a DrizzleQueryError
+export const pgErrorCode = (error: unknown): string | undefined => {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  return (cause as { code?: string } | null)?.code;
+};
 export {sql, gte}
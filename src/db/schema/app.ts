@@ -1,7 +1,7 @@
 import { 
   pgTable, uuid, varchar, timestamp, text, integer, 
-  decimal, boolean, jsonb, pgEnum, date, uniqueIndex, 
-  index, primaryKey, foreignKey 
+  decimal, boolean, jsonb, pgEnum, date, time, uniqueIndex, 
+  index, primaryKey, foreignKey, type AnyPgColumn 
 } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 
@@ -16,6 +16,7 @@ export const appointmentStatusEnum = pgEnum('appointment_status', ['SCHEDULED',
 export const medicationStatusEnum = pgEnum('medication_status', ['ACTIVE', 'DISCONTINUED', 'OUT_OF_STOCK', 'EXPIRED']);
 export const notificationTypeEnum = pgEnum('notification_type', ['SMS', 'EMAIL', 'PUSH', 'IN_APP']);
 export const notificationStatusEnum = pgEnum('notification_status', ['PENDING', 'SENT', 'DELIVERED', 'FAILED', 'READ']);
+export const scoringAlgorithmEnum = pgEnum('scoring_algorithm', ['MEWS', 'NEWS2', 'SATS', 'ESI', 'PEWS']);
 
 // ==================== USERS ====================
 export const users = pgTable('users', {
@@ -52,9 +53,11 @@ export const usersRelations = relations(users, ({ many }) => ({
 }));
 
 // ==================== PATIENTS ====================
+// Name search needs pg_trgm and the trigram indexes from drizzle/0002_patient_search_trgm.sql; db:push creates neither
 export const patients = pgTable('patients', {
   patientId: uuid('patient_id').primaryKey().defaultRandom(),
   straId: varchar('stra_id', { length: 20 }).notNull().unique(),
+  facilityCode: varchar('facility_code', { length: 4 }),
   firstName: varchar('first_name', { length: 100 }).notNull(),
   lastName: varchar('last_name', { length: 100 }).notNull(),
   dateOfBirth: date('date_of_birth').notNull(),
@@ -71,9 +74,15 @@ export const patients = pgTable('patients', {
   allergies: jsonb('allergies').default([]),
   chronicConditions: jsonb('chronic_conditions').default([]),
   isActive: boolean('is_active').notNull().default(true),
+  mergedIntoPatientId: uuid('merged_into_patient_id'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
+  foreignKey({
+    columns: [table.mergedIntoPatientId],
+    foreignColumns: [table.patientId],
+    name: 'patients_merged_into_fk',
+  }),
   uniqueIndex('patients_stra_id_idx').on(table.straId),
   index('patients_phone_idx').on(table.phoneNumber),
   index('patients_national_id_idx').on(table.nationalId),
@@ -90,6 +99,35 @@ export const patientsRelations = relations(patients, ({ many }) => ({
   vitalsHistory: many(vitalsHistory),
 }));
 
+// ==================== PATIENT MERGES ====================
+export const patientMerges = pgTable('patient_merges', {
+  mergeId: uuid('merge_id').primaryKey().defaultRandom(),
+  survivingPatientId: uuid('surviving_patient_id').notNull().references(() => patients.patientId),
+  mergedPatientId: uuid('merged_patient_id').notNull().references(() => patients.patientId),
+  status: varchar('status', { length: 20 }).notNull().default('MERGED'),
+  // Ids of every re-pointed row, per table, so the merge can be undone exactly
+  movedRecords: jsonb('moved_records').notNull(),
+  matchScore: integer('match_score'),
+  reason: text('reason').notNull(),
+  mergedBy: uuid('merged_by').notNull().references(() => users.userId),
+  revertedBy: uuid('reverted_by').references(() => users.userId),
+  revertReason: text('revert_reason'),
+  revertedAt: timestamp('reverted_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('patient_merges_surviving_idx').on(table.survivingPatientId),
+  index('patient_merges_merged_idx').on(table.mergedPatientId),
+  index('patient_merges_status_idx').on(table.status),
+]);
+
+// ==================== STRA-ID SEQUENCES ====================
+// One counter row per ID prefix (STRA, STRA-NBI, ...), advanced atomically
+export const straIdSequences = pgTable('stra_id_sequences', {
+  prefix: varchar('prefix', { length: 10 }).primaryKey(),
+  lastValue: integer('last_value').notNull().default(0),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
 // ==================== DEPARTMENTS ====================
 export const departments = pgTable('departments', {
   departmentId: uuid('department_id').primaryKey().defaultRandom(),
@@ -101,6 +139,9 @@ export const departments = pgTable('departments', {
   currentPatientLoad: integer('current_patient_load').notNull().default(0),
   maxCapacity: integer('max_capacity').notNull().default(50),
   averageTreatmentTime: integer('average_treatment_time').notNull().default(20),
+  appointmentSlotMinutes: integer('appointment_slot_minutes').notNull().default(15),
+  // Escalation point for unacknowledged critical results
+  headUserId: uuid('head_user_id').references(() => users.userId, { onDelete: 'set null' }),
   colorCode: varchar('color_code', { length: 7 }).default('#3B82F6'),
   isActive: boolean('is_active').notNull().default(true),
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -132,11 +173,125 @@ export const departmentStaff = pgTable('department_staff', {
   index('department_staff_user_idx').on(table.userId),
 ]);
 
+// ==================== STAFF ROSTER ====================
+// On-call shifts are reachable for pages but not expected on the floor
+export const shifts = pgTable('shifts', {
+  shiftId: uuid('shift_id').primaryKey().defaultRandom(),
+  departmentId: uuid('department_id').notNull().references(() => departments.departmentId, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.userId, { onDelete: 'cascade' }),
+  startsAt: timestamp('starts_at').notNull(),
+  endsAt: timestamp('ends_at').notNull(),
+  isOnCall: boolean('is_on_call').notNull().default(false),
+  status: varchar('status', { length: 20 }).notNull().default('SCHEDULED'), // SCHEDULED, CANCELLED
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => users.userId),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('shifts_dept_time_idx').on(table.departmentId, table.startsAt, table.endsAt),
+  index('shifts_user_time_idx').on(table.userId, table.startsAt),
+]);
+
+export const shiftsRelations = relations(shifts, ({ one }) => ({
+  department: one(departments, {
+    fields: [shifts.departmentId],
+    references: [departments.departmentId],
+  }),
+}));
+
+// A colleague covers the shift, or exchanges it for one of theirs when targetShiftId is set
+export const shiftSwaps = pgTable('shift_swaps', {
+  swapId: uuid('swap_id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.shiftId, { onDelete: 'cascade' }),
+  requestedBy: uuid('requested_by').notNull().references(() => users.userId),
+  targetUserId: uuid('target_user_id').notNull().references(() => users.userId),
+  targetShiftId: uuid('target_shift_id').references(() => shifts.shiftId, { onDelete: 'cascade' }),
+  reason: text('reason'),
+  status: varchar('status', { length: 20 }).notNull().default('PENDING'), // PENDING, APPROVED, REJECTED, CANCELLED
+  reviewedBy: uuid('reviewed_by').references(() => users.userId),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNotes: text('review_notes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('shift_swaps_shift_idx').on(table.shiftId),
+  index('shift_swaps_status_idx').on(table.status),
+]);
+
+// ==================== SHIFT HANDOVERS ====================
+// Snapshot of a department at shift end; content is rebuilt from live data until submitted
+export const handoverReports = pgTable('handover_reports', {
+  handoverId: uuid('handover_id').primaryKey().defaultRandom(),
+  departmentId: uuid('department_id').notNull().references(() => departments.departmentId, { onDelete: 'cascade' }),
+  shiftStart: timestamp('shift_start').notNull(),
+  shiftEnd: timestamp('shift_end').notNull(),
+  content: jsonb('content').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('DRAFT'), // DRAFT, SUBMITTED, ACKNOWLEDGED
+  outgoingNotes: text('outgoing_notes'),
+  submittedBy: uuid('submitted_by').references(() => users.userId),
+  submittedAt: timestamp('submitted_at'),
+  generatedAt: timestamp('generated_at').notNull().defaultNow(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('handover_reports_dept_end_idx').on(table.departmentId, table.shiftEnd),
+  index('handover_reports_status_idx').on(table.status),
+]);
+
+export const handoverAcknowledgements = pgTable('handover_acknowledgements', {
+  acknowledgementId: uuid('acknowledgement_id').primaryKey().defaultRandom(),
+  handoverId: uuid('handover_id').notNull().references(() => handoverReports.handoverId, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.userId),
+  notes: text('notes'),
+  acknowledgedAt: timestamp('acknowledged_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('handover_acknowledgements_unique_idx').on(table.handoverId, table.userId),
+]);
+
+// ==================== ENCOUNTERS ====================
+// One visit: opened at registration or triage, closed at final disposition
+export const encounters = pgTable('encounters', {
+  encounterId: uuid('encounter_id').primaryKey().defaultRandom(),
+  patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  departmentId: uuid('department_id').references(() => departments.departmentId, { onDelete: 'set null' }),
+  status: varchar('status', { length: 20 }).notNull().default('OPEN'),
+  openedBy: uuid('opened_by').references(() => users.userId),
+  openedAt: timestamp('opened_at').notNull().defaultNow(),
+  disposition: varchar('disposition', { length: 20 }),
+  dispositionNotes: text('disposition_notes'),
+  ward: varchar('ward', { length: 100 }),
+  bedResourceId: uuid('bed_resource_id').references(() => resources.resourceId, { onDelete: 'set null' }),
+  dischargeInstructions: text('discharge_instructions'),
+  followUpAppointmentId: uuid('follow_up_appointment_id').references(() => appointments.appointmentId, { onDelete: 'set null' }),
+  closedBy: uuid('closed_by').references(() => users.userId),
+  closedAt: timestamp('closed_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('encounters_open_patient_idx').on(table.patientId).where(sql`${table.status} = 'OPEN'`),
+  index('encounters_patient_status_idx').on(table.patientId, table.status),
+  index('encounters_department_idx').on(table.departmentId),
+  index('encounters_opened_idx').on(table.openedAt),
+]);
+
+export const encountersRelations = relations(encounters, ({ one }) => ({
+  patient: one(patients, {
+    fields: [encounters.patientId],
+    references: [patients.patientId],
+  }),
+  department: one(departments, {
+    fields: [encounters.departmentId],
+    references: [departments.departmentId],
+  }),
+}));
+
 // ==================== TRIAGE SESSIONS ====================
 export const triageSessions = pgTable('triage_sessions', {
   sessionId: uuid('session_id').primaryKey().defaultRandom(),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   nurseId: uuid('nurse_id').notNull().references(() => users.userId),
+  parentSessionId: uuid('parent_session_id'),
   temperature: decimal('temperature', { precision: 4, scale: 2 }),
   systolicBp: integer('systolic_bp'),
   diastolicBp: integer('diastolic_bp'),
@@ -151,6 +306,10 @@ export const triageSessions = pgTable('triage_sessions', {
   symptoms: jsonb('symptoms').notNull().default({}),
   chiefComplaint: text('chief_complaint'),
   triageScore: integer('triage_score').notNull(),
+  scoringAlgorithm: scoringAlgorithmEnum('scoring_algorithm').notNull().default('MEWS'),
+  scoreBreakdown: jsonb('score_breakdown'),
+  discriminatorOverride: jsonb('discriminator_override'),
+  routingRuleId: uuid('routing_rule_id').references(() => routingRules.ruleId, { onDelete: 'set null' }),
   urgencyLevel: urgencyLevelEnum('urgency_level').notNull(),
   recommendedDept: varchar('recommended_dept', { length: 50 }).notNull(),
   estimatedWaitMinutes: integer('estimated_wait_minutes').notNull(),
@@ -160,7 +319,14 @@ export const triageSessions = pgTable('triage_sessions', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
+  foreignKey({
+    columns: [table.parentSessionId],
+    foreignColumns: [table.sessionId],
+    name: 'triage_parent_session_fk',
+  }).onDelete('set null'),
   index('triage_patient_id_idx').on(table.patientId),
+  index('triage_encounter_idx').on(table.encounterId),
+  index('triage_parent_session_idx').on(table.parentSessionId),
   index('triage_urgency_idx').on(table.urgencyLevel, table.createdAt),
   index('triage_nurse_id_idx').on(table.nurseId),
   index('triage_created_idx').on(table.createdAt),
@@ -177,10 +343,54 @@ export const triageSessionsRelations = relations(triageSessions, ({ one }) => ({
   }),
 }));
 
+// ==================== TRIAGE DISCRIMINATORS ====================
+export const triageDiscriminators = pgTable('triage_discriminators', {
+  discriminatorId: uuid('discriminator_id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  description: text('description'),
+  symptomConditions: jsonb('symptom_conditions').notNull().default([]),
+  complaintKeywords: jsonb('complaint_keywords').notNull().default([]),
+  minimumUrgency: urgencyLevelEnum('minimum_urgency').notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  createdBy: uuid('created_by').references(() => users.userId),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('discriminators_name_idx').on(table.name),
+  index('discriminators_active_idx').on(table.isActive),
+]);
+
+// ==================== DEPARTMENT ROUTING RULES ====================
+export const routingRules = pgTable('routing_rules', {
+  ruleId: uuid('rule_id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  departmentId: uuid('department_id').notNull().references(() => departments.departmentId, { onDelete: 'cascade' }),
+  priority: integer('priority').notNull().default(100),
+  conditions: jsonb('conditions').notNull().default({}),
+  isFallback: boolean('is_fallback').notNull().default(false),
+  isActive: boolean('is_active').notNull().default(true),
+  createdBy: uuid('created_by').references(() => users.userId),
+  updatedBy: uuid('updated_by').references(() => users.userId),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('routing_rules_priority_idx').on(table.isActive, table.priority),
+  index('routing_rules_department_idx').on(table.departmentId),
+]);
+
+export const routingRulesRelations = relations(routingRules, ({ one }) => ({
+  department: one(departments, {
+    fields: [routingRules.departmentId],
+    references: [departments.departmentId],
+  }),
+}));
+
 // ==================== VITAL SIGNS HISTORY ====================
 export const vitalsHistory = pgTable('vitals_history', {
   vitalId: uuid('vital_id').primaryKey().defaultRandom(),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   recordedBy: uuid('recorded_by').notNull().references(() => users.userId),
   temperature: decimal('temperature', { precision: 4, scale: 2 }),
   systolicBp: integer('systolic_bp'),
@@ -198,6 +408,7 @@ export const vitalsHistory = pgTable('vitals_history', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => [
   index('vitals_patient_id_idx').on(table.patientId),
+  index('vitals_encounter_idx').on(table.encounterId),
   index('vitals_created_idx').on(table.createdAt),
   index('vitals_critical_idx').on(table.isCritical),
 ]);
@@ -207,6 +418,7 @@ export const departmentQueues = pgTable('department_queues', {
   queueId: uuid('queue_id').primaryKey().defaultRandom(),
   departmentId: uuid('department_id').notNull().references(() => departments.departmentId, { onDelete: 'cascade' }),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   triageSessionId: uuid('triage_session_id').references(() => triageSessions.sessionId),
   urgencyLevel: urgencyLevelEnum('urgency_level').notNull(),
   positionInQueue: integer('position_in_queue').notNull(),
@@ -218,11 +430,15 @@ export const departmentQueues = pgTable('department_queues', {
   assignedDoctorId: uuid('assigned_doctor_id').references(() => users.userId),
   assignedRoom: varchar('assigned_room', { length: 50 }),
   waitNotes: text('wait_notes'),
+  retriageDueAt: timestamp('retriage_due_at'),
+  retriageDueReason: varchar('retriage_due_reason', { length: 30 }),
+  lastRetriageReminderAt: timestamp('last_retriage_reminder_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
   index('queue_dept_status_idx').on(table.departmentId, table.status, table.positionInQueue),
   index('queue_patient_id_idx').on(table.patientId),
+  index('queue_encounter_idx').on(table.encounterId),
   index('queue_urgency_idx').on(table.urgencyLevel),
   index('queue_assigned_doctor_idx').on(table.assignedDoctorId),
   index('queue_created_idx').on(table.createdAt),
@@ -247,7 +463,31 @@ export const departmentQueuesRelations = relations(departmentQueues, ({ one }) =
   }),
 }));
 
+// ==================== URGENCY HISTORY ====================
+export const urgencyHistory = pgTable('urgency_history', {
+  historyId: uuid('history_id').primaryKey().defaultRandom(),
+  queueId: uuid('queue_id').notNull().references(() => departmentQueues.queueId, { onDelete: 'cascade' }),
+  patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  previousSessionId: uuid('previous_session_id').references(() => triageSessions.sessionId),
+  newSessionId: uuid('new_session_id').notNull().references(() => triageSessions.sessionId),
+  previousUrgency: urgencyLevelEnum('previous_urgency').notNull(),
+  newUrgency: urgencyLevelEnum('new_urgency').notNull(),
+  direction: varchar('direction', { length: 20 }).notNull(),
+  previousPosition: integer('previous_position').notNull(),
+  newPosition: integer('new_position').notNull(),
+  previousScore: integer('previous_score'),
+  newScore: integer('new_score').notNull(),
+  reason: text('reason'),
+  changedBy: uuid('changed_by').notNull().references(() => users.userId),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('urgency_history_queue_idx').on(table.queueId, table.createdAt),
+  index('urgency_history_patient_idx').on(table.patientId),
+  index('urgency_history_direction_idx').on(table.direction),
+]);
+
 // ==================== APPOINTMENTS ====================
+// A doctor's active bookings cannot overlap: exclusion constraint in drizzle/0003_booking_overlap_constraints.sql
 export const appointments = pgTable('appointments', {
   appointmentId: uuid('appointment_id').primaryKey().defaultRandom(),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
@@ -261,17 +501,112 @@ export const appointments = pgTable('appointments', {
   isWalkIn: boolean('is_walk_in').notNull().default(false),
   checkedInAt: timestamp('checked_in_at'),
   checkedInBy: uuid('checked_in_by').references(() => users.userId),
+  queueId: uuid('queue_id').references((): AnyPgColumn => departmentQueues.queueId, { onDelete: 'set null' }),
+  encounterId: uuid('encounter_id').references((): AnyPgColumn => encounters.encounterId, { onDelete: 'set null' }),
   notes: text('notes'),
   reminderSent: boolean('reminder_sent').notNull().default(false),
+  confirmedAt: timestamp('confirmed_at'),
+  bookedBy: uuid('booked_by').references(() => users.userId),
+  cancelledAt: timestamp('cancelled_at'),
+  cancellationReason: text('cancellation_reason'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
   index('appointments_patient_idx').on(table.patientId),
   index('appointments_doctor_idx').on(table.doctorId),
+  index('appointments_doctor_date_idx').on(table.doctorId, table.appointmentDate),
   index('appointments_date_idx').on(table.appointmentDate),
   index('appointments_status_idx').on(table.status),
 ]);
 
+export const appointmentsRelations = relations(appointments, ({ one }) => ({
+  patient: one(patients, {
+    fields: [appointments.patientId],
+    references: [patients.patientId],
+  }),
+  doctor: one(users, {
+    fields: [appointments.doctorId],
+    references: [users.userId],
+  }),
+  department: one(departments, {
+    fields: [appointments.departmentId],
+    references: [departments.departmentId],
+  }),
+}));
+
+// ==================== APPOINTMENT REMINDERS ====================
+// One row per reminder offset per booked time, so a rescheduled appointment is reminded afresh
+export const appointmentReminders = pgTable('appointment_reminders', {
+  reminderId: uuid('reminder_id').primaryKey().defaultRandom(),
+  appointmentId: uuid('appointment_id').notNull().references(() => appointments.appointmentId, { onDelete: 'cascade' }),
+  offsetMinutes: integer('offset_minutes').notNull(),
+  appointmentDate: date('appointment_date').notNull(),
+  startTime: time('start_time').notNull(),
+  channel: varchar('channel', { length: 10 }).notNull().default('SMS'),
+  delivered: boolean('delivered').notNull().default(false),
+  sentAt: timestamp('sent_at').notNull().defaultNow(),
+  response: varchar('response', { length: 20 }), // CONFIRMED, CANCELLED
+  respondedAt: timestamp('responded_at'),
+}, (table) => [
+  uniqueIndex('appointment_reminders_unique_idx').on(table.appointmentId, table.offsetMinutes, table.appointmentDate, table.startTime),
+  index('appointment_reminders_appointment_idx').on(table.appointmentId),
+]);
+
+export const appointmentRemindersRelations = relations(appointmentReminders, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [appointmentReminders.appointmentId],
+    references: [appointments.appointmentId],
+  }),
+}));
+
+// ==================== DOCTOR AVAILABILITY ====================
+// Weekly clinic hours; dayOfWeek follows Date.getDay() (0 = Sunday)
+export const doctorAvailability = pgTable('doctor_availability', {
+  availabilityId: uuid('availability_id').primaryKey().defaultRandom(),
+  doctorId: uuid('doctor_id').notNull().references(() => users.userId, { onDelete: 'cascade' }),
+  departmentId: uuid('department_id').notNull().references(() => departments.departmentId, { onDelete: 'cascade' }),
+  dayOfWeek: integer('day_of_week').notNull(),
+  startTime: time('start_time').notNull(),
+  endTime: time('end_time').notNull(),
+  effectiveFrom: date('effective_from'),
+  effectiveTo: date('effective_to'),
+  createdBy: uuid('created_by').references(() => users.userId),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('doctor_availability_doctor_idx').on(table.doctorId, table.dayOfWeek),
+  index('doctor_availability_dept_idx').on(table.departmentId),
+]);
+
+export const doctorAvailabilityRelations = relations(doctorAvailability, ({ one }) => ({
+  doctor: one(users, {
+    fields: [doctorAvailability.doctorId],
+    references: [users.userId],
+  }),
+  department: one(departments, {
+    fields: [doctorAvailability.departmentId],
+    references: [departments.departmentId],
+  }),
+}));
+
+// Leave and public holidays; a null doctorId closes booking for everyone
+export const availabilityExceptions = pgTable('availability_exceptions', {
+  exceptionId: uuid('exception_id').primaryKey().defaultRandom(),
+  doctorId: uuid('doctor_id').references(() => users.userId, { onDelete: 'cascade' }),
+  exceptionType: varchar('exception_type', { length: 20 }).notNull(), // LEAVE, PUBLIC_HOLIDAY, OTHER
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  // Both null for whole days
+  startTime: time('start_time'),
+  endTime: time('end_time'),
+  reason: text('reason'),
+  createdBy: uuid('created_by').references(() => users.userId),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('availability_exceptions_doctor_idx').on(table.doctorId),
+  index('availability_exceptions_dates_idx').on(table.startDate, table.endDate),
+]);
+
 // ==================== RESOURCES ====================
 export const resources = pgTable('resources', {
   resourceId: uuid('resource_id').primaryKey().defaultRandom(),
@@ -347,7 +682,7 @@ export const prescriptions = pgTable('prescriptions', {
   prescriptionId: uuid('prescription_id').primaryKey().defaultRandom(),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
   doctorId: uuid('doctor_id').notNull().references(() => users.userId),
-  encounterId: uuid('encounter_id'),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   medications: jsonb('medications').notNull(),
   diagnosis: text('diagnosis'),
   clinicalNotes: text('clinical_notes'),
@@ -364,6 +699,7 @@ export const prescriptions = pgTable('prescriptions', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
   index('prescriptions_patient_idx').on(table.patientId),
+  index('prescriptions_encounter_idx').on(table.encounterId),
   index('prescriptions_doctor_idx').on(table.doctorId),
   index('prescriptions_dispensed_idx').on(table.isDispensed),
   index('prescriptions_date_idx').on(table.createdAt),
@@ -380,27 +716,70 @@ export const prescriptionsRelations = relations(prescriptions, ({ one }) => ({
   }),
 }));
 
+// ==================== LAB TEST CATALOGUE ====================
+// Orderable tests and panels; a panel expands into its component tests when ordered
+export const labTests = pgTable('lab_tests', {
+  testId: uuid('test_id').primaryKey().defaultRandom(),
+  code: varchar('code', { length: 20 }).notNull().unique(),
+  name: varchar('name', { length: 150 }).notNull(),
+  isPanel: boolean('is_panel').notNull().default(false),
+  specimenType: varchar('specimen_type', { length: 50 }).notNull(),
+  container: varchar('container', { length: 50 }).notNull(),
+  unit: varchar('unit', { length: 30 }),
+  // [{ sex?, minAgeYears?, maxAgeYears?, low?, high?, text? }]; most specific match wins
+  referenceRanges: jsonb('reference_ranges').notNull().default([]),
+  price: decimal('price', { precision: 10, scale: 2 }).notNull().default('0'),
+  turnaroundMinutes: integer('turnaround_minutes').notNull().default(240),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('lab_tests_code_idx').on(table.code),
+  index('lab_tests_active_idx').on(table.isActive),
+]);
+
+export const labPanelComponents = pgTable('lab_panel_components', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  panelId: uuid('panel_id').notNull().references(() => labTests.testId, { onDelete: 'cascade' }),
+  testId: uuid('test_id').notNull().references(() => labTests.testId, { onDelete: 'restrict' }),
+  sortOrder: integer('sort_order').notNull().default(0),
+}, (table) => [
+  uniqueIndex('lab_panel_components_unique_idx').on(table.panelId, table.testId),
+]);
+
 // ==================== LAB ORDERS ====================
 export const labOrders = pgTable('lab_orders', {
   orderId: uuid('order_id').primaryKey().defaultRandom(),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   doctorId: uuid('doctor_id').notNull().references(() => users.userId),
   tests: jsonb('tests').notNull(),
   priority: urgencyLevelEnum('priority').notNull().default('GREEN'),
   status: labOrderStatusEnum('status').notNull().default('PENDING'),
   orderedAt: timestamp('ordered_at').notNull().defaultNow(),
+  // Ordered time plus the slowest test's target turnaround
+  dueAt: timestamp('due_at'),
+  totalPrice: decimal('total_price', { precision: 10, scale: 2 }),
+  specimenBarcode: varchar('specimen_barcode', { length: 32 }).unique(),
   collectedAt: timestamp('collected_at'),
+  receivedAt: timestamp('received_at'),
+  resultedAt: timestamp('resulted_at'),
+  // Set when a second technician verifies the results; only then are they released
   completedAt: timestamp('completed_at'),
   collectedBy: uuid('collected_by').references(() => users.userId),
+  receivedBy: uuid('received_by').references(() => users.userId),
+  resultedBy: uuid('resulted_by').references(() => users.userId),
   completedBy: uuid('completed_by').references(() => users.userId),
   results: jsonb('results'),
   interpretation: text('interpretation'),
   isCritical: boolean('is_critical').notNull().default(false),
+  rejectionReason: text('rejection_reason'),
   notes: text('notes'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
   index('lab_orders_patient_idx').on(table.patientId),
+  index('lab_orders_encounter_idx').on(table.encounterId),
   index('lab_orders_status_idx').on(table.status),
   index('lab_orders_critical_idx').on(table.isCritical),
   index('lab_orders_priority_idx').on(table.priority),
@@ -417,10 +796,34 @@ export const labOrdersRelations = relations(labOrders, ({ one }) => ({
   }),
 }));
 
+// Critical result callback: open until a clinician acknowledges or corrected results resolve it, escalated if overdue
+export const labCriticalAlerts = pgTable('lab_critical_alerts', {
+  alertId: uuid('alert_id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').notNull().references(() => labOrders.orderId, { onDelete: 'cascade' }),
+  patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  doctorId: uuid('doctor_id').notNull().references(() => users.userId),
+  criticalValues: jsonb('critical_values').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('OPEN'),
+  raisedBy: uuid('raised_by').references(() => users.userId),
+  raisedAt: timestamp('raised_at').notNull().defaultNow(),
+  escalatedAt: timestamp('escalated_at'),
+  escalatedTo: uuid('escalated_to').references(() => users.userId),
+  acknowledgedBy: uuid('acknowledged_by').references(() => users.userId),
+  acknowledgedAt: timestamp('acknowledged_at'),
+  acknowledgementNotes: text('acknowledgement_notes'),
+}, (table) => [
+  uniqueIndex('lab_critical_alerts_order_idx').on(table.orderId),
+  index('lab_critical_alerts_status_idx').on(table.status),
+  index('lab_critical_alerts_doctor_idx').on(table.doctorId),
+]);
+
 // ==================== DIAGNOSTIC IMAGING ====================
+// PENDING -> SCHEDULED -> IN_PROGRESS -> COMPLETED (acquired) -> PRELIMINARY -> FINAL; CANCELLED
+// Booked studies cannot overlap on one machine: exclusion constraint in drizzle/0003_booking_overlap_constraints.sql
 export const diagnosticImaging = pgTable('diagnostic_imaging', {
   imagingId: uuid('imaging_id').primaryKey().defaultRandom(),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   doctorId: uuid('doctor_id').notNull().references(() => users.userId),
   modality: varchar('modality', { length: 50 }).notNull(),
   bodyPart: varchar('body_part', { length: 100 }).notNull(),
@@ -428,18 +831,43 @@ export const diagnosticImaging = pgTable('diagnostic_imaging', {
   priority: urgencyLevelEnum('priority').notNull().default('GREEN'),
   status: varchar('status', { length: 20 }).notNull().default('PENDING'),
   scheduledTime: timestamp('scheduled_time'),
+  durationMinutes: integer('duration_minutes'),
+  resourceId: uuid('resource_id').references(() => resources.resourceId, { onDelete: 'set null' }),
+  scheduledBy: uuid('scheduled_by').references(() => users.userId),
+  startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   findings: text('findings'),
   impression: text('impression'),
   radiologistId: uuid('radiologist_id').references(() => users.userId),
+  reportedAt: timestamp('reported_at'),
+  signedAt: timestamp('signed_at'),
   reportUrl: text('report_url'),
+  cancellationReason: text('cancellation_reason'),
+  // DICOM identifiers: the accession number is published on the modality worklist,
+  // the study and MPPS UIDs are reported back by the modality
+  accessionNumber: varchar('accession_number', { length: 16 }).unique(),
+  studyInstanceUid: varchar('study_instance_uid', { length: 64 }),
+  mppsInstanceUid: varchar('mpps_instance_uid', { length: 64 }).unique(),
   notes: text('notes'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
   index('imaging_patient_idx').on(table.patientId),
+  index('imaging_encounter_idx').on(table.encounterId),
   index('imaging_status_idx').on(table.status),
   index('imaging_modality_idx').on(table.modality),
+  index('imaging_resource_time_idx').on(table.resourceId, table.scheduledTime),
+]);
+
+// Signed reports are never edited; corrections and additions are appended here
+export const imagingAddenda = pgTable('imaging_addenda', {
+  addendumId: uuid('addendum_id').primaryKey().defaultRandom(),
+  imagingId: uuid('imaging_id').notNull().references(() => diagnosticImaging.imagingId, { onDelete: 'cascade' }),
+  radiologistId: uuid('radiologist_id').notNull().references(() => users.userId),
+  text: text('text').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('imaging_addenda_imaging_idx').on(table.imagingId),
 ]);
 
 // ==================== DOCTOR ASSIGNMENTS ====================
@@ -447,6 +875,7 @@ export const doctorAssignments = pgTable('doctor_assignments', {
   assignmentId: uuid('assignment_id').primaryKey().defaultRandom(),
   doctorId: uuid('doctor_id').notNull().references(() => users.userId),
   patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
   status: varchar('status', { length: 20 }).notNull().default('ACTIVE'),
   assignedAt: timestamp('assigned_at').notNull().defaultNow(),
   startedAt: timestamp('started_at'),
@@ -457,6 +886,7 @@ export const doctorAssignments = pgTable('doctor_assignments', {
 }, (table) => [
   index('assignments_doctor_patient_idx').on(table.doctorId, table.patientId),
   index('assignments_status_idx').on(table.status),
+  index('assignments_encounter_idx').on(table.encounterId),
 ]);
 
 export const doctorAssignmentsRelations = relations(doctorAssignments, ({ one }) => ({
@@ -470,6 +900,82 @@ export const doctorAssignmentsRelations = relations(doctorAssignments, ({ one })
   }),
 }));
 
+// ==================== REFERRALS ====================
+export const referrals = pgTable('referrals', {
+  referralId: uuid('referral_id').primaryKey().defaultRandom(),
+  patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  encounterId: uuid('encounter_id').references(() => encounters.encounterId, { onDelete: 'set null' }),
+  referredBy: uuid('referred_by').notNull().references(() => users.userId),
+  destinationFacility: varchar('destination_facility', { length: 200 }).notNull(),
+  destinationFacilityCode: varchar('destination_facility_code', { length: 20 }),
+  destinationDepartment: varchar('destination_department', { length: 100 }),
+  reason: text('reason').notNull(),
+  clinicalSummary: text('clinical_summary'),
+  urgency: urgencyLevelEnum('urgency').notNull().default('GREEN'),
+  transportMode: varchar('transport_mode', { length: 30 }),
+  status: varchar('status', { length: 20 }).notNull().default('PENDING'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('referrals_patient_idx').on(table.patientId),
+  index('referrals_encounter_idx').on(table.encounterId),
+  index('referrals_status_idx').on(table.status),
+]);
+
+export const referralsRelations = relations(referrals, ({ one }) => ({
+  patient: one(patients, {
+    fields: [referrals.patientId],
+    references: [patients.patientId],
+  }),
+  referringDoctor: one(users, {
+    fields: [referrals.referredBy],
+    references: [users.userId],
+  }),
+}));
+
+// ==================== DISCHARGE SUMMARIES ====================
+export const dischargeSummaries = pgTable('discharge_summaries', {
+  summaryId: uuid('summary_id').primaryKey().defaultRandom(),
+  encounterId: uuid('encounter_id').notNull().unique().references(() => encounters.encounterId, { onDelete: 'cascade' }),
+  patientId: uuid('patient_id').notNull().references(() => patients.patientId, { onDelete: 'cascade' }),
+  version: integer('version').notNull().default(1),
+  content: jsonb('content').notNull(),
+  html: text('html').notNull(),
+  // Base64 so the document survives drivers without bytea support
+  pdfData: text('pdf_data').notNull(),
+  accessTokenHash: varchar('access_token_hash', { length: 64 }),
+  accessTokenExpiresAt: timestamp('access_token_expires_at'),
+  generatedBy: uuid('generated_by').references(() => users.userId),
+  lastSentAt: timestamp('last_sent_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('discharge_summaries_patient_idx').on(table.patientId),
+]);
+
+// ==================== DISPLAY DEVICES ====================
+export const displayDevices = pgTable('display_devices', {
+  deviceId: uuid('device_id').primaryKey().defaultRandom(),
+  departmentId: uuid('department_id').notNull().references(() => departments.departmentId, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  isActive: boolean('is_active').notNull().default(true),
+  lastSeenAt: timestamp('last_seen_at'),
+  createdBy: uuid('created_by').references(() => users.userId),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('display_devices_token_idx').on(table.tokenHash),
+  index('display_devices_dept_idx').on(table.departmentId),
+]);
+
+export const displayDevicesRelations = relations(displayDevices, ({ one }) => ({
+  department: one(departments, {
+    fields: [displayDevices.departmentId],
+    references: [departments.departmentId],
+  }),
+}));
+
 // ==================== NOTIFICATIONS ====================
 export const notifications = pgTable('notifications', {
   notificationId: uuid('notification_id').primaryKey().defaultRandom(),
@@ -541,12 +1047,53 @@ export type NewPatient = typeof patients.$inferInsert;
 export type TriageSession = typeof triageSessions.$inferSelect;
 export type NewTriageSession = typeof triageSessions.$inferInsert;
 
+export type TriageDiscriminator = typeof triageDiscriminators.$inferSelect;
+export type NewTriageDiscriminator = typeof triageDiscriminators.$inferInsert;
+
+export type RoutingRule = typeof routingRules.$inferSelect;
+export type NewRoutingRule = typeof routingRules.$inferInsert;
+
+export type PatientMerge = typeof patientMerges.$inferSelect;
+export type NewPatientMerge = typeof patientMerges.$inferInsert;
+
+export type StraIdSequence = typeof straIdSequences.$inferSelect;
+
+export type Shift = typeof shifts.$inferSelect;
+export type NewShift = typeof shifts.$inferInsert;
+
+export type ShiftSwap = typeof shiftSwaps.$inferSelect;
+export type NewShiftSwap = typeof shiftSwaps.$inferInsert;
+
+export type HandoverReport = typeof handoverReports.$inferSelect;
+export type NewHandoverReport = typeof handoverReports.$inferInsert;
+
+export type HandoverAcknowledgement = typeof handoverAcknowledgements.$inferSelect;
+export type NewHandoverAcknowledgement = typeof handoverAcknowledgements.$inferInsert;
+
+export type Encounter = typeof encounters.$inferSelect;
+export type NewEncounter = typeof encounters.$inferInsert;
+
 export type Department = typeof departments.$inferSelect;
 export type NewDepartment = typeof departments.$inferInsert;
 
 export type DepartmentQueue = typeof departmentQueues.$inferSelect;
 export type NewDepartmentQueue = typeof departmentQueues.$inferInsert;
 
+export type UrgencyHistory = typeof urgencyHistory.$inferSelect;
+export type NewUrgencyHistory = typeof urgencyHistory.$inferInsert;
+
+export type Appointment = typeof appointments.$inferSelect;
+export type NewAppointment = typeof appointments.$inferInsert;
+
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+export type NewAppointmentReminder = typeof appointmentReminders.$inferInsert;
+
+export type DoctorAvailability = typeof doctorAvailability.$inferSelect;
+export type NewDoctorAvailability = typeof doctorAvailability.$inferInsert;
+
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
+export type NewAvailabilityException = typeof availabilityExceptions.$inferInsert;
+
 export type Resource = typeof resources.$inferSelect;
 export type NewResource = typeof resources.$inferInsert;
 
@@ -556,12 +1103,36 @@ export type NewMedicationStock = typeof medicationStock.$inferInsert;
 export type Prescription = typeof prescriptions.$inferSelect;
 export type NewPrescription = typeof prescriptions.$inferInsert;
 
+export type LabTest = typeof labTests.$inferSelect;
+export type NewLabTest = typeof labTests.$inferInsert;
+
+export type LabPanelComponent = typeof labPanelComponents.$inferSelect;
+export type NewLabPanelComponent = typeof labPanelComponents.$inferInsert;
+
 export type LabOrder = typeof labOrders.$inferSelect;
 export type NewLabOrder = typeof labOrders.$inferInsert;
 
+export type LabCriticalAlert = typeof labCriticalAlerts.$inferSelect;
+export type NewLabCriticalAlert = typeof labCriticalAlerts.$inferInsert;
+
+export type DiagnosticImaging = typeof diagnosticImaging.$inferSelect;
+export type NewDiagnosticImaging = typeof diagnosticImaging.$inferInsert;
+
+export type ImagingAddendum = typeof imagingAddenda.$inferSelect;
+export type NewImagingAddendum = typeof imagingAddenda.$inferInsert;
+
 export type DoctorAssignment = typeof doctorAssignments.$inferSelect;
 export type NewDoctorAssignment = typeof doctorAssignments.$inferInsert;
 
+export type Referral = typeof referrals.$inferSelect;
+export type NewReferral = typeof referrals.$inferInsert;
+
+export type DischargeSummary = typeof dischargeSummaries.$inferSelect;
+export type NewDischargeSummary = typeof dischargeSummaries.$inferInsert;
+
+export type DisplayDevice = typeof displayDevices.$inferSelect;
+export type NewDisplayDevice = typeof displayDevices.$inferInsert;
+
 export type Notification = typeof notifications.$inferSelect;
 export type NewNotification = typeof notifications.$inferInsert;
 
@@ -572,11 +1143,17 @@ export type NewAuditLog = typeof auditLogs.$inferInsert;
 export const schema = {
   users,
   patients,
+  patientMerges,
+  straIdSequences,
   departments,
   departmentStaff,
+  encounters,
   triageSessions,
+  triageDiscriminators,
+  routingRules,
   vitalsHistory,
   departmentQueues,
+  urgencyHistory,
   appointments,
   resources,
   medicationStock,
@@ -584,6 +1161,9 @@ export const schema = {
   labOrders,
   diagnosticImaging,
   doctorAssignments,
+  referrals,
+  dischargeSummaries,
+  displayDevices,
   notifications,
   auditLogs,
   systemSettings,
@@ -1,12 +1,38 @@
 import express from 'express';
+import { createServer } from 'http';
 // @ts-ignore
-import {PORT} from './config/env.js';
+import {PORT, DICOM_PORT, DICOM_AE_TITLE, DICOM_ALLOWED_AE_TITLES, DICOM_ALLOWED_HOSTS} from './config/env.js';
+import { startJobs } from './jobs';
+import { SocketService } from './services/SocketService';
+import { DicomService } from './services/DicomService';
+import { setupRoutes } from './routes';
+import { errorHandler } from './middleware/error';
 const app = express();
+const server = createServer(app);
+
+// Africa's Talking posts inbound SMS form-encoded
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
 
 app.get('/', (req, res) => {
   res.send('Welcomr to a Smart Triage System!');
 });
 
-app.listen(PORT, () => {
+setupRoutes(app);
+app.use(errorHandler);
+
+SocketService.getInstance().initialize(server);
+
+server.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT}`);
+    startJobs();
+
+    // Modality worklist is only published when a DICOM port is configured
+    if (DICOM_PORT) {
+        DicomService.getInstance().start(Number(DICOM_PORT), {
+            aeTitle: DICOM_AE_TITLE,
+            allowedAeTitles: DICOM_ALLOWED_AE_TITLES,
+            allowedHosts: DICOM_ALLOWED_HOSTS,
+        });
+    }
 })
@@ -0,0 +1,44 @@
+import { SchedulerService } from '../services/SchedulerService';
+import { RetriageReminderService } from '../services/RetriageReminderService';
+import { AppointmentService } from '../services/AppointmentService';
+import { AppointmentReminderService } from '../services/AppointmentReminderService';
+import { HandoverService } from '../services/HandoverService';
+import { LabCriticalAlertService } from '../services/LabCriticalAlertService';
+
+const RETRIAGE_CHECK_INTERVAL_MS = 60 * 1000;
+const NO_SHOW_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const APPOINTMENT_REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+const HANDOVER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const LAB_CRITICAL_ESCALATION_INTERVAL_MS = 60 * 1000;
+
+export const startJobs = (): SchedulerService => {
+  const scheduler = SchedulerService.getInstance();
+  const retriageReminderService = new RetriageReminderService();
+  const appointmentService = new AppointmentService();
+  const appointmentReminderService = new AppointmentReminderService();
+  const handoverService = new HandoverService();
+  const labCriticalAlertService = new LabCriticalAlertService();
+
+  scheduler.register('retriage-reminders', RETRIAGE_CHECK_INTERVAL_MS, async () => {
+    await retriageReminderService.runCheck();
+  });
+
+  scheduler.register('appointment-no-shows', NO_SHOW_CHECK_INTERVAL_MS, async () => {
+    await appointmentService.markNoShows();
+  });
+
+  scheduler.register('appointment-reminders', APPOINTMENT_REMINDER_INTERVAL_MS, async () => {
+    await appointmentReminderService.runCheck();
+  });
+
+  scheduler.register('shift-handovers', HANDOVER_CHECK_INTERVAL_MS, async () => {
+    await handoverService.runCheck();
+  });
+
+  scheduler.register('lab-critical-escalation', LAB_CRITICAL_ESCALATION_INTERVAL_MS, async () => {
+    await labCriticalAlertService.runEscalation();
+  });
+
+  scheduler.start();
+  return scheduler;
+};
@@ -53,4 +53,4 @@ export const authorize = (...roles: string[]) => {
 
     next();
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { DisplayService } from '../services/DisplayService';
+
+const displayService = new DisplayService();
+
+export interface DeviceRequest extends Request {
+  device?: {
+    deviceId: string;
+    departmentId: string;
+    name: string;
+  };
+}
+
+// Display screens use a long-lived device token instead of a staff JWT.
+// EventSource cannot set headers, so the token may also arrive as ?token=
+export const authenticateDevice = async (req: DeviceRequest, res: Response, next: NextFunction) => {
+  try {
+    const token = req.header('X-Device-Token') || (typeof req.query.token === 'string' ? req.query.token : undefined);
+
+    if (!token) {
+      return res.status(401).json({
+        success: false,
+        error: 'Access denied. No device token provided.',
+      });
+    }
+
+    const device = await displayService.authenticateDevice(token);
+
+    if (!device) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid device token.',
+      });
+    }
+
+    req.device = device;
+    next();
+  } catch (error) {
+    logger.error('Device authentication error:', error);
+    res.status(401).json({
+      success: false,
+      error: 'Invalid device token.',
+    });
+  }
+};
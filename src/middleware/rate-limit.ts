@@ -1,9 +1,10 @@
 import rateLimit from 'express-rate-limit';
+// @ts-ignore
 import { RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS } from '../config/env.js';
 
 export const apiLimiter = rateLimit({
-  windowMs: RATE_LIMIT_WINDOW_MS!,
-  max: RATE_LIMIT_MAX!,
+  windowMs: Number(RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000,
+  max: Number(RATE_LIMIT_MAX) || 100,
   message: {
     success: false,
     error: 'Too many requests from this IP, please try again later.',
@@ -19,4 +20,15 @@ export const authLimiter = rateLimit({
     success: false,
     error: 'Too many login attempts, please try again later.',
   },
-});
\ No newline at end of file
+});
+
+export const publicLookupLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: {
+    success: false,
+    error: 'Too many lookup attempts, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -1,22 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodObject, ZodError } from 'zod';
 
+// Schemas describe the request body; controllers parse again to get the typed values
 export const validate = (schema: ZodObject<any>) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      await schema.parseAsync({
-        body: req.body,
-        query: req.query,
-        params: req.params,
-      });
+      await schema.parseAsync(req.body);
       next();
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({
           success: false,
-          errors: error.errors.map(err => ({
-            path: err.path.join('.'),
-            message: err.message,
+          errors: error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
           })),
         });
       }
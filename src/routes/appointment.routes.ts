@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { AppointmentController } from '../controllers/AppointmentController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const appointmentController = new AppointmentController();
+
+// No-show grace period, default length and reminder offsets
+router.get(
+  '/policy',
+  authenticate,
+  authorize('admin'),
+  appointmentController.getPolicy
+);
+
+router.put(
+  '/policy',
+  authenticate,
+  authorize('admin'),
+  appointmentController.updatePolicy
+);
+
+// Appointment list by patient, doctor, department or date range
+router.get(
+  '/',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  appointmentController.getAppointments
+);
+
+router.get(
+  '/:appointmentId',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  appointmentController.getAppointment
+);
+
+// Book an appointment
+router.post(
+  '/',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  appointmentController.bookAppointment
+);
+
+// Move to another time or doctor
+router.put(
+  '/:appointmentId/reschedule',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  appointmentController.rescheduleAppointment
+);
+
+// Patient confirmed attendance, e.g. by phone
+router.post(
+  '/:appointmentId/confirm',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  appointmentController.confirmAppointment
+);
+
+// Cancel an appointment
+router.post(
+  '/:appointmentId/cancel',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  appointmentController.cancelAppointment
+);
+
+// Patient arrival
+router.post(
+  '/:appointmentId/check-in',
+  authenticate,
+  authorize('nurse', 'admin'),
+  appointmentController.checkInAppointment
+);
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { AvailabilityController } from '../controllers/AvailabilityController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const availabilityController = new AvailabilityController();
+
+// Bookable slots for a department or doctor
+router.get(
+  '/slots',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  availabilityController.getOpenSlots
+);
+
+// Weekly clinic hours
+router.get(
+  '/doctors/:doctorId',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  availabilityController.getDoctorTemplate
+);
+
+router.put(
+  '/doctors/:doctorId',
+  authenticate,
+  authorize('doctor', 'admin'),
+  availabilityController.setDoctorTemplate
+);
+
+// Leave and public holidays
+router.get(
+  '/exceptions',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  availabilityController.getExceptions
+);
+
+router.post(
+  '/exceptions',
+  authenticate,
+  authorize('doctor', 'admin'),
+  availabilityController.addException
+);
+
+router.delete(
+  '/exceptions/:exceptionId',
+  authenticate,
+  authorize('admin'),
+  availabilityController.removeException
+);
+
+// Appointment slot length
+router.put(
+  '/departments/:departmentId/slot-length',
+  authenticate,
+  authorize('admin'),
+  availabilityController.setDepartmentSlotLength
+);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { DisplayController } from '../controllers/DisplayController';
+import { authenticate, authorize } from '../middleware/auth';
+import { authenticateDevice } from '../middleware/device-auth';
+import { validate } from '../middleware/validation';
+import { displayDeviceSchema } from '../utils/validators';
+
+const router = Router();
+const displayController = new DisplayController();
+
+// Waiting-room feed for the device's department
+router.get(
+  '/feed',
+  authenticateDevice,
+  displayController.getFeed
+);
+
+// Live feed (server-sent events)
+router.get(
+  '/stream',
+  authenticateDevice,
+  displayController.streamFeed
+);
+
+// Device management
+router.get(
+  '/devices',
+  authenticate,
+  authorize('admin'),
+  displayController.listDevices
+);
+
+router.post(
+  '/devices',
+  authenticate,
+  authorize('admin'),
+  validate(displayDeviceSchema),
+  displayController.registerDevice
+);
+
+router.delete(
+  '/devices/:deviceId',
+  authenticate,
+  authorize('admin'),
+  displayController.revokeDevice
+);
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { EncounterController } from '../controllers/EncounterController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const encounterController = new EncounterController();
+
+// Encounter summary
+router.get(
+  '/:encounterId',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  encounterController.getEncounter
+);
+
+// Full visit timeline
+router.get(
+  '/:encounterId/timeline',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  encounterController.getTimeline
+);
+
+// Discharge summary
+router.get(
+  '/:encounterId/discharge-summary',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  encounterController.getDischargeSummary
+);
+
+router.post(
+  '/:encounterId/discharge-summary',
+  authenticate,
+  authorize('doctor'),
+  encounterController.generateDischargeSummary
+);
+
+router.get(
+  '/:encounterId/discharge-summary/html',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  encounterController.getDischargeSummaryHtml
+);
+
+router.get(
+  '/:encounterId/discharge-summary/pdf',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  encounterController.getDischargeSummaryPdf
+);
+
+// Send to patient by SMS link and/or email
+router.post(
+  '/:encounterId/discharge-summary/send',
+  authenticate,
+  authorize('doctor', 'nurse'),
+  encounterController.sendDischargeSummary
+);
+
+export default router;
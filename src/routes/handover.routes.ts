@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { HandoverController } from '../controllers/HandoverController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const handoverController = new HandoverController();
+
+// Handover reports by department
+router.get(
+  '/',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin', 'management'),
+  handoverController.getHandovers
+);
+
+router.get(
+  '/:handoverId',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin', 'management'),
+  handoverController.getHandover
+);
+
+// Prepare or refresh the draft for the current shift
+router.post(
+  '/',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  handoverController.generateHandover
+);
+
+// Outgoing notes, optionally submitting to the incoming team
+router.put(
+  '/:handoverId/notes',
+  authenticate,
+  authorize('doctor', 'nurse'),
+  handoverController.updateNotes
+);
+
+// Incoming team confirms receipt
+router.post(
+  '/:handoverId/acknowledge',
+  authenticate,
+  authorize('doctor', 'nurse'),
+  handoverController.acknowledge
+);
+
+export default router;
@@ -5,6 +5,18 @@ import analyticsRoutes from './analytics.routes';
 import authRoutes from './auth.routes';
 import inventoryRoutes from './inventory.routes';
 import resourceRoutes from './resource.routes';
+import routingRoutes from './routing.routes';
+import queueRoutes from './queue.routes';
+import displayRoutes from './display.routes';
+import publicRoutes from './public.routes';
+import patientRoutes from './patient.routes';
+import encounterRoutes from './encounter.routes';
+import appointmentRoutes from './appointment.routes';
+import availabilityRoutes from './availability.routes';
+import rosterRoutes from './roster.routes';
+import handoverRoutes from './handover.routes';
+import labRoutes from './lab.routes';
+import radiologyRoutes from './radiology.routes';
 // import swaggerUi from 'swagger-ui-express';
 // import swaggerDocument from '../docs/swagger.json';
 
@@ -19,4 +31,16 @@ export const setupRoutes = (app: Application) => {
   app.use('/api/v1/analytics', analyticsRoutes);
   app.use('/api/v1/inventory', inventoryRoutes);
   app.use('/api/v1/resources', resourceRoutes);
+  app.use('/api/v1/routing-rules', routingRoutes);
+  app.use('/api/v1/queues', queueRoutes);
+  app.use('/api/v1/display', displayRoutes);
+  app.use('/api/v1/public', publicRoutes);
+  app.use('/api/v1/patients', patientRoutes);
+  app.use('/api/v1/encounters', encounterRoutes);
+  app.use('/api/v1/appointments', appointmentRoutes);
+  app.use('/api/v1/availability', availabilityRoutes);
+  app.use('/api/v1/roster', rosterRoutes);
+  app.use('/api/v1/handovers', handoverRoutes);
+  app.use('/api/v1/lab', labRoutes);
+  app.use('/api/v1/radiology', radiologyRoutes);
 };
\ No newline at end of file
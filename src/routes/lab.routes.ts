@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { LabController } from '../controllers/LabController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const labController = new LabController();
+
+// Test catalogue
+router.get(
+  '/catalogue',
+  authenticate,
+  authorize('doctor', 'nurse', 'lab_tech', 'admin'),
+  labController.getCatalogue
+);
+
+router.post(
+  '/catalogue/defaults',
+  authenticate,
+  authorize('admin'),
+  labController.installCatalogueDefaults
+);
+
+router.get(
+  '/catalogue/:code',
+  authenticate,
+  authorize('doctor', 'nurse', 'lab_tech', 'admin'),
+  labController.getCatalogueEntry
+);
+
+router.post(
+  '/catalogue',
+  authenticate,
+  authorize('admin'),
+  labController.createCatalogueEntry
+);
+
+router.put(
+  '/catalogue/:code',
+  authenticate,
+  authorize('admin'),
+  labController.updateCatalogueEntry
+);
+
+// Lab work-queue
+router.get(
+  '/worklist',
+  authenticate,
+  authorize('lab_tech', 'admin'),
+  labController.getWorklist
+);
+
+// Scan a specimen label
+router.get(
+  '/specimens/:barcode',
+  authenticate,
+  authorize('lab_tech', 'nurse', 'admin'),
+  labController.getOrderByBarcode
+);
+
+router.get(
+  '/orders/:orderId',
+  authenticate,
+  authorize('lab_tech', 'doctor', 'nurse', 'admin'),
+  labController.getOrder
+);
+
+// Specimen handling
+router.post(
+  '/orders/:orderId/collect',
+  authenticate,
+  authorize('lab_tech', 'nurse'),
+  labController.collectSpecimen
+);
+
+router.post(
+  '/orders/:orderId/receive',
+  authenticate,
+  authorize('lab_tech'),
+  labController.receiveSpecimen
+);
+
+router.post(
+  '/orders/:orderId/reject',
+  authenticate,
+  authorize('lab_tech'),
+  labController.rejectSpecimen
+);
+
+// Result entry and second-technician verification
+router.put(
+  '/orders/:orderId/results',
+  authenticate,
+  authorize('lab_tech'),
+  labController.enterResults
+);
+
+router.post(
+  '/orders/:orderId/verify',
+  authenticate,
+  authorize('lab_tech'),
+  labController.verifyResults
+);
+
+// Critical result callbacks
+router.get(
+  '/critical-alerts',
+  authenticate,
+  authorize('doctor', 'nurse', 'lab_tech', 'admin', 'management'),
+  labController.getCriticalAlerts
+);
+
+router.post(
+  '/critical-alerts/:alertId/acknowledge',
+  authenticate,
+  authorize('doctor', 'nurse'),
+  labController.acknowledgeCriticalAlert
+);
+
+// Critical thresholds and escalation deadline
+router.get(
+  '/critical-policy',
+  authenticate,
+  authorize('lab_tech', 'doctor', 'admin'),
+  labController.getCriticalPolicy
+);
+
+router.put(
+  '/critical-policy',
+  authenticate,
+  authorize('admin'),
+  labController.updateCriticalPolicy
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { PatientController } from '../controllers/PatientController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  duplicateCheckSchema,
+  patientMergeSchema,
+  patientMergeRevertSchema
+} from '../utils/validators';
+
+const router = Router();
+const patientController = new PatientController();
+
+// Search patients by name, phone or identifier
+router.get(
+  '/search',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin', 'pharmacist', 'lab_tech', 'radiologist'),
+  patientController.searchPatients
+);
+
+// Visits for a patient
+router.get(
+  '/:patientId/encounters',
+  authenticate,
+  authorize('doctor', 'nurse', 'admin'),
+  patientController.getPatientEncounters
+);
+
+// Check for existing records before registering
+router.post(
+  '/duplicate-check',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  validate(duplicateCheckSchema),
+  patientController.checkDuplicates
+);
+
+// Merge history
+router.get(
+  '/merges',
+  authenticate,
+  authorize('admin'),
+  patientController.getMerges
+);
+
+// Merge duplicate records
+router.post(
+  '/merges',
+  authenticate,
+  authorize('admin'),
+  validate(patientMergeSchema),
+  patientController.mergePatients
+);
+
+// Undo a merge
+router.post(
+  '/merges/:mergeId/revert',
+  authenticate,
+  authorize('admin'),
+  validate(patientMergeRevertSchema),
+  patientController.revertMerge
+);
+
+export default router;
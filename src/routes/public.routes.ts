@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { PublicController } from '../controllers/PublicController';
+import { publicLookupLimiter } from '../middleware/rate-limit';
+import { validate } from '../middleware/validation';
+import { queuePositionLookupSchema, inboundSmsSchema, imagingCompletionSchema } from '../utils/validators';
+
+const router = Router();
+const publicController = new PublicController();
+
+// Patient self-service queue position
+router.post(
+  '/queue-position',
+  publicLookupLimiter,
+  validate(queuePositionLookupSchema),
+  publicController.lookupQueuePosition
+);
+
+// Inbound SMS webhook (Africa's Talking); no per-IP limit as every message comes from the gateway
+router.post(
+  '/sms/inbound',
+  validate(inboundSmsSchema),
+  publicController.receiveInboundSms
+);
+
+// Study-completion webhook from PACS / modality gateway
+router.post(
+  '/imaging/study-completed',
+  validate(imagingCompletionSchema),
+  publicController.receiveImagingCompletion
+);
+
+// Discharge summary download link sent to patients
+router.get(
+  '/discharge-summaries/:summaryId',
+  publicLookupLimiter,
+  publicController.downloadDischargeSummary
+);
+
+export default router;
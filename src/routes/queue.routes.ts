@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { QueueController } from '../controllers/QueueController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  queueCallNextSchema,
+  queueCompleteSchema,
+  queueSkipSchema,
+  queuePositionSchema,
+  queueReturnSchema
+} from '../utils/validators';
+
+const router = Router();
+const queueController = new QueueController();
+
+// Queue statistics
+router.get(
+  '/statistics',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin', 'management'),
+  queueController.getQueueStatistics
+);
+
+// Department queue
+router.get(
+  '/departments/:departmentId',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin', 'management'),
+  queueController.getQueueStatus
+);
+
+// Call next patient
+router.post(
+  '/departments/:departmentId/call-next',
+  authenticate,
+  authorize('doctor'),
+  validate(queueCallNextSchema),
+  queueController.callNextPatient
+);
+
+// Complete treatment
+router.post(
+  '/:queueId/complete',
+  authenticate,
+  authorize('doctor', 'nurse'),
+  validate(queueCompleteSchema),
+  queueController.completePatient
+);
+
+// Skip patient
+router.post(
+  '/:queueId/skip',
+  authenticate,
+  authorize('doctor', 'nurse'),
+  validate(queueSkipSchema),
+  queueController.skipPatient
+);
+
+// Reorder patient
+router.patch(
+  '/:queueId/position',
+  authenticate,
+  authorize('nurse', 'admin'),
+  validate(queuePositionSchema),
+  queueController.updatePosition
+);
+
+// Return skipped patient to queue
+router.post(
+  '/:queueId/return',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  validate(queueReturnSchema),
+  queueController.returnToQueue
+);
+
+// Action history with reasons
+router.get(
+  '/:queueId/actions',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin', 'management'),
+  queueController.getQueueActions
+);
+
+export default router;
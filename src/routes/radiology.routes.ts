@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { RadiologyController } from '../controllers/RadiologyController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const radiologyController = new RadiologyController();
+
+// Radiology worklist
+router.get(
+  '/worklist',
+  authenticate,
+  authorize('radiologist', 'admin'),
+  radiologyController.getWorklist
+);
+
+router.get(
+  '/studies/:imagingId',
+  authenticate,
+  authorize('radiologist', 'doctor', 'nurse', 'admin'),
+  radiologyController.getStudy
+);
+
+// Booking and acquisition
+router.post(
+  '/studies/:imagingId/schedule',
+  authenticate,
+  authorize('radiologist', 'admin'),
+  radiologyController.scheduleStudy
+);
+
+router.post(
+  '/studies/:imagingId/start',
+  authenticate,
+  authorize('radiologist'),
+  radiologyController.startStudy
+);
+
+router.post(
+  '/studies/:imagingId/complete',
+  authenticate,
+  authorize('radiologist'),
+  radiologyController.completeStudy
+);
+
+router.post(
+  '/studies/:imagingId/cancel',
+  authenticate,
+  authorize('radiologist', 'doctor', 'admin'),
+  radiologyController.cancelStudy
+);
+
+// Reporting
+router.get(
+  '/studies/:imagingId/report',
+  authenticate,
+  authorize('radiologist', 'doctor', 'nurse', 'admin'),
+  radiologyController.getReport
+);
+
+router.put(
+  '/studies/:imagingId/report',
+  authenticate,
+  authorize('radiologist'),
+  radiologyController.saveReport
+);
+
+router.post(
+  '/studies/:imagingId/addenda',
+  authenticate,
+  authorize('radiologist'),
+  radiologyController.addAddendum
+);
+
+export default router;
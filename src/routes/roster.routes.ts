@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { RosterController } from '../controllers/RosterController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+const rosterController = new RosterController();
+
+const ALL_STAFF = ['admin', 'doctor', 'nurse', 'pharmacist', 'management', 'lab_tech', 'radiologist'];
+
+// Who is on duty now
+router.get(
+  '/on-duty',
+  authenticate,
+  authorize(...ALL_STAFF),
+  rosterController.getOnDuty
+);
+
+// Shifts over a date range
+router.get(
+  '/shifts',
+  authenticate,
+  authorize(...ALL_STAFF),
+  rosterController.getRoster
+);
+
+router.post(
+  '/shifts',
+  authenticate,
+  authorize('admin', 'management'),
+  rosterController.createShift
+);
+
+router.post(
+  '/shifts/:shiftId/cancel',
+  authenticate,
+  authorize('admin', 'management'),
+  rosterController.cancelShift
+);
+
+// Shift swaps
+router.get(
+  '/swaps',
+  authenticate,
+  authorize(...ALL_STAFF),
+  rosterController.getSwaps
+);
+
+router.post(
+  '/swaps',
+  authenticate,
+  authorize(...ALL_STAFF),
+  rosterController.requestSwap
+);
+
+router.post(
+  '/swaps/:swapId/review',
+  authenticate,
+  authorize('admin', 'management'),
+  rosterController.reviewSwap
+);
+
+// Department head (escalation contact)
+router.put(
+  '/departments/:departmentId/head',
+  authenticate,
+  authorize('admin', 'management'),
+  rosterController.setDepartmentHead
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { RoutingController } from '../controllers/RoutingController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  routingRuleSchema,
+  routingRuleUpdateSchema,
+  routingDryRunSchema
+} from '../utils/validators';
+
+const router = Router();
+const routingController = new RoutingController();
+
+// List routing rules
+router.get(
+  '/',
+  authenticate,
+  authorize('admin', 'nurse', 'doctor'),
+  routingController.getRules
+);
+
+// Dry-run a sample triage payload
+router.post(
+  '/dry-run',
+  authenticate,
+  authorize('admin', 'nurse'),
+  validate(routingDryRunSchema),
+  routingController.dryRun
+);
+
+// Get routing rule
+router.get(
+  '/:ruleId',
+  authenticate,
+  authorize('admin'),
+  routingController.getRule
+);
+
+// Create routing rule
+router.post(
+  '/',
+  authenticate,
+  authorize('admin'),
+  validate(routingRuleSchema),
+  routingController.createRule
+);
+
+// Update routing rule
+router.put(
+  '/:ruleId',
+  authenticate,
+  authorize('admin'),
+  validate(routingRuleUpdateSchema),
+  routingController.updateRule
+);
+
+// Delete routing rule
+router.delete(
+  '/:ruleId',
+  authenticate,
+  authorize('admin'),
+  routingController.deleteRule
+);
+
+export default router;
@@ -5,7 +5,12 @@ import { validate } from '../middleware/validation';
 import { 
   patientRegistrationSchema, 
   triageSchema, 
-  queueUpdateSchema 
+  queueUpdateSchema,
+  scoringEngineConfigSchema,
+  retriagePolicySchema,
+  discriminatorSchema,
+  discriminatorUpdateSchema,
+  retriageSchema
 } from '../utils/validators';
 
 const router = Router();
@@ -29,6 +34,31 @@ router.post(
   triageController.performTriage
 );
 
+// Re-triage a queued patient
+router.post(
+  '/queue/:queueId/retriage',
+  authenticate,
+  authorize('nurse', 'doctor'),
+  validate(retriageSchema),
+  triageController.retriagePatient
+);
+
+// Urgency escalation timeline
+router.get(
+  '/queue/:queueId/urgency-history',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  triageController.getUrgencyHistory
+);
+
+// Look up patient by STRA-ID (validates the check digit)
+router.get(
+  '/patients/by-stra-id/:straId',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  triageController.lookupPatientByStraId
+);
+
 // Get patient details
 router.get(
   '/patients/:patientId',
@@ -69,4 +99,67 @@ router.get(
   triageController.getStatistics
 );
 
+// Scoring engines
+router.get(
+  '/scoring-engines',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  triageController.getScoringEngines
+);
+
+router.put(
+  '/scoring-engines',
+  authenticate,
+  authorize('admin'),
+  validate(scoringEngineConfigSchema),
+  triageController.updateScoringEngine
+);
+
+// Re-triage reminder policy
+router.get(
+  '/retriage-policy',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  triageController.getRetriagePolicy
+);
+
+router.put(
+  '/retriage-policy',
+  authenticate,
+  authorize('admin'),
+  validate(retriagePolicySchema),
+  triageController.updateRetriagePolicy
+);
+
+// Red-flag discriminators
+router.get(
+  '/discriminators',
+  authenticate,
+  authorize('nurse', 'doctor', 'admin'),
+  triageController.getDiscriminators
+);
+
+router.post(
+  '/discriminators',
+  authenticate,
+  authorize('admin'),
+  validate(discriminatorSchema),
+  triageController.createDiscriminator
+);
+
+router.put(
+  '/discriminators/:discriminatorId',
+  authenticate,
+  authorize('admin'),
+  validate(discriminatorUpdateSchema),
+  triageController.updateDiscriminator
+);
+
+router.delete(
+  '/discriminators/:discriminatorId',
+  authenticate,
+  authorize('admin'),
+  triageController.deleteDiscriminator
+);
+
 export default router;
\ No newline at end of file
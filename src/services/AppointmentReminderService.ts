@@ -0,0 +1,179 @@
+import { db, sql } from '../db';
+import { appointments, appointmentReminders, patients, users, departments } from '../db/schema';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { logger } from '../config/logger';
+import { NotificationService } from './NotificationService';
+import { AppointmentService } from './AppointmentService';
+import { ClinicTime } from '../utils/ClinicTime';
+
+export type ReminderResponse = 'CONFIRMED' | 'CANCELLED';
+
+// Appointment start as a facility-local timestamp, comparable with ClinicTime.timestamp()
+const appointmentStart = sql`(${appointments.appointmentDate} + ${appointments.startTime})`;
+
+export class AppointmentReminderService {
+  private notificationService: NotificationService;
+  private appointmentService: AppointmentService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.appointmentService = new AppointmentService();
+  }
+
+  async runCheck(): Promise<{ sent: number }> {
+    const policy = await this.appointmentService.getPolicy();
+    const offsets = policy.reminderOffsetsMinutes;
+
+    if (offsets.length === 0) {
+      return { sent: 0 };
+    }
+
+    const now = sql`${ClinicTime.timestamp()}::timestamp`;
+
+    const upcoming = await db
+      .select({
+        appointmentId: appointments.appointmentId,
+        patientId: appointments.patientId,
+        straId: patients.straId,
+        appointmentDate: appointments.appointmentDate,
+        startTime: appointments.startTime,
+        doctorLastName: users.lastName,
+        departmentName: departments.name,
+        minutesUntil: sql<number>`EXTRACT(EPOCH FROM (${appointmentStart} - ${now})) / 60`,
+      })
+      .from(appointments)
+      .innerJoin(patients, eq(appointments.patientId, patients.patientId))
+      .leftJoin(users, eq(appointments.doctorId, users.userId))
+      .leftJoin(departments, eq(appointments.departmentId, departments.departmentId))
+      .where(
+        and(
+          eq(appointments.status, 'SCHEDULED'),
+          sql`${appointmentStart} > ${now}`,
+          sql`${appointmentStart} <= ${now} + make_interval(mins => ${Math.max(...offsets)})`
+        )
+      );
+
+    if (upcoming.length === 0) {
+      return { sent: 0 };
+    }
+
+    const alreadySent = await db
+      .select({
+        appointmentId: appointmentReminders.appointmentId,
+        offsetMinutes: appointmentReminders.offsetMinutes,
+        appointmentDate: appointmentReminders.appointmentDate,
+        startTime: appointmentReminders.startTime,
+      })
+      .from(appointmentReminders)
+      .where(inArray(appointmentReminders.appointmentId, upcoming.map(a => a.appointmentId)));
+
+    let sent = 0;
+
+    for (const appointment of upcoming) {
+      // Only the nearest due offset is sent, so a late booking gets one reminder rather than several at once
+      const due = offsets.filter(offset => Number(appointment.minutesUntil) <= offset);
+      if (due.length === 0) continue;
+      const offsetMinutes = Math.min(...due);
+
+      const reminded = alreadySent.some(r =>
+        r.appointmentId === appointment.appointmentId
+        && r.offsetMinutes === offsetMinutes
+        && r.appointmentDate === appointment.appointmentDate
+        && r.startTime === appointment.startTime
+      );
+      if (reminded) continue;
+
+      // The unique index claims the reminder before sending so overlapping runs cannot send it twice
+      const [reminder] = await db
+        .insert(appointmentReminders)
+        .values({
+          appointmentId: appointment.appointmentId,
+          offsetMinutes,
+          appointmentDate: appointment.appointmentDate,
+          startTime: appointment.startTime,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!reminder) continue;
+
+      const delivered = await this.notificationService.sendPatientNotification(appointment.patientId, 'appointment', {
+        appointmentId: appointment.appointmentId,
+        date: appointment.appointmentDate,
+        time: appointment.startTime.slice(0, 5),
+        doctor: appointment.doctorLastName
+          ? `Dr. ${appointment.doctorLastName}`
+          : appointment.departmentName || 'the clinic',
+        replyCode: appointment.straId,
+      });
+
+      await db
+        .update(appointmentReminders)
+        .set({ delivered })
+        .where(eq(appointmentReminders.reminderId, reminder.reminderId));
+
+      await db
+        .update(appointments)
+        .set({ reminderSent: true, updatedAt: new Date() })
+        .where(eq(appointments.appointmentId, appointment.appointmentId));
+
+      sent++;
+    }
+
+    if (sent > 0) {
+      logger.info(`Appointment reminders sent: ${sent}`);
+    }
+
+    return { sent };
+  }
+
+  // Applies a YES/NO reply to the patient's next booked appointment
+  async handleReply(patientId: string, response: ReminderResponse): Promise<string> {
+    const [appointment] = await db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          eq(appointments.patientId, patientId),
+          eq(appointments.status, 'SCHEDULED'),
+          sql`${appointmentStart} > ${ClinicTime.timestamp()}::timestamp`
+        )
+      )
+      .orderBy(asc(appointments.appointmentDate), asc(appointments.startTime))
+      .limit(1);
+
+    if (!appointment) {
+      return 'You have no upcoming appointment to confirm or cancel.';
+    }
+
+    const when = `${appointment.appointmentDate} at ${appointment.startTime.slice(0, 5)}`;
+
+    if (response === 'CONFIRMED') {
+      await this.appointmentService.confirmAppointment(appointment.appointmentId, { via: 'SMS' });
+    } else {
+      await this.appointmentService.cancelAppointment(appointment.appointmentId, {
+        reason: 'Cancelled by patient by SMS reply',
+      });
+    }
+
+    const [latestReminder] = await db
+      .select({ reminderId: appointmentReminders.reminderId })
+      .from(appointmentReminders)
+      .where(eq(appointmentReminders.appointmentId, appointment.appointmentId))
+      .orderBy(desc(appointmentReminders.sentAt))
+      .limit(1);
+
+    if (latestReminder) {
+      await db
+        .update(appointmentReminders)
+        .set({ response, respondedAt: new Date() })
+        .where(eq(appointmentReminders.reminderId, latestReminder.reminderId));
+    }
+
+    logger.info(`Appointment ${response.toLowerCase()} by SMS`, { appointmentId: appointment.appointmentId });
+
+    return response === 'CONFIRMED'
+      ? `Thank you. Your appointment on ${when} is confirmed.`
+      : `Your appointment on ${when} has been cancelled. Please call the hospital to book a new time.`;
+  }
+}
@@ -0,0 +1,692 @@
+import { db, sql, pgErrorCode } from '../db';
+import {
+  appointments, appointmentReminders, patients, users, departments, departmentStaff, departmentQueues, auditLogs
+} from '../db/schema';
+import { eq, and, ne, lt, gt, gte, lte, asc, count, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { ClinicTime } from '../utils/ClinicTime';
+import { EncounterService } from './EncounterService';
+import { QueueService } from './QueueService';
+import { SettingsService } from './SettingsService';
+import type { UrgencyLevel } from '../utils/ScoringEngines';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const APPOINTMENT_POLICY_SETTING = 'appointment_policy';
+
+export interface AppointmentPolicy {
+  defaultDurationMinutes: number;
+  noShowGraceMinutes: number;
+  reminderOffsetsMinutes: number[];
+}
+
+export const DEFAULT_APPOINTMENT_POLICY: AppointmentPolicy = {
+  defaultDurationMinutes: 15,
+  noShowGraceMinutes: 30,
+  reminderOffsetsMinutes: [24 * 60, 2 * 60],
+};
+
+// Bookings in these states hold the doctor's time
+const ACTIVE_STATUSES = ['SCHEDULED', 'CHECKED_IN', 'IN_PROGRESS'] as const;
+
+export class AppointmentService {
+  private encounterService: EncounterService;
+  private queueService: QueueService;
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.encounterService = new EncounterService();
+    this.queueService = new QueueService();
+    this.settingsService = new SettingsService();
+  }
+
+  async getPolicy(): Promise<AppointmentPolicy> {
+    const policy = await this.settingsService.get<Partial<AppointmentPolicy>>(APPOINTMENT_POLICY_SETTING, {});
+    return { ...DEFAULT_APPOINTMENT_POLICY, ...policy };
+  }
+
+  async updatePolicy(update: {
+    defaultDurationMinutes?: number | undefined;
+    noShowGraceMinutes?: number | undefined;
+    reminderOffsetsMinutes?: number[] | undefined;
+  }, updatedBy: string): Promise<AppointmentPolicy> {
+    const current = await this.getPolicy();
+    const policy: AppointmentPolicy = {
+      defaultDurationMinutes: update.defaultDurationMinutes ?? current.defaultDurationMinutes,
+      noShowGraceMinutes: update.noShowGraceMinutes ?? current.noShowGraceMinutes,
+      reminderOffsetsMinutes: update.reminderOffsetsMinutes
+        ? [...new Set(update.reminderOffsetsMinutes)].sort((a, b) => b - a)
+        : current.reminderOffsetsMinutes,
+    };
+
+    await this.settingsService.set(APPOINTMENT_POLICY_SETTING, policy, {
+      category: 'appointments',
+      description: 'Fallback appointment length, no-show grace period and reminder offsets',
+      updatedBy,
+    });
+
+    return policy;
+  }
+
+  async bookAppointment(data: {
+    patientId: string;
+    doctorId: string;
+    departmentId?: string | undefined;
+    appointmentDate: string;
+    startTime: string;
+    durationMinutes?: number | undefined;
+    reason?: string | undefined;
+    notes?: string | undefined;
+    bookedBy: string;
+  }): Promise<any> {
+    try {
+      if (data.appointmentDate < ClinicTime.today()) {
+        throw new AppError('Cannot book an appointment in the past', 400);
+      }
+
+      const policy = await this.getPolicy();
+
+      return await db.transaction(async (tx) => {
+        const [patient] = await tx
+          .select({ patientId: patients.patientId, isActive: patients.isActive })
+          .from(patients)
+          .where(eq(patients.patientId, data.patientId));
+
+        if (!patient || !patient.isActive) {
+          throw new AppError('Patient not found', 404);
+        }
+
+        const departmentId = data.departmentId || await this.getDoctorDepartment(tx, data.doctorId);
+
+        // Bookings fill one of the department's slots unless told otherwise
+        let durationMinutes = data.durationMinutes;
+        if (!durationMinutes && departmentId) {
+          const [department] = await tx
+            .select({ slotMinutes: departments.appointmentSlotMinutes })
+            .from(departments)
+            .where(eq(departments.departmentId, departmentId));
+          durationMinutes = department?.slotMinutes;
+        }
+
+        const appointment = await this.createAppointment(tx, {
+          patientId: data.patientId,
+          doctorId: data.doctorId,
+          departmentId,
+          appointmentDate: data.appointmentDate,
+          startTime: data.startTime,
+          durationMinutes: durationMinutes ?? policy.defaultDurationMinutes,
+          reason: data.reason,
+          notes: data.notes,
+          bookedBy: data.bookedBy,
+        });
+
+        await this.recordAction(tx, appointment.appointmentId, 'APPOINTMENT_BOOK', data.bookedBy, {}, {
+          doctorId: appointment.doctorId,
+          departmentId: appointment.departmentId,
+          appointmentDate: appointment.appointmentDate,
+          startTime: appointment.startTime,
+          endTime: appointment.endTime,
+        });
+
+        logger.info(`Appointment booked for patient ${data.patientId}`, {
+          appointmentId: appointment.appointmentId,
+          doctorId: data.doctorId,
+        });
+
+        return appointment;
+      });
+    } catch (error) {
+      logger.error('Failed to book appointment:', error);
+      if (error instanceof AppError) throw error;
+      if (pgErrorCode(error) === '23P01') {
+        throw new AppError('Doctor already has an appointment at that time', 409);
+      }
+      throw new AppError('Failed to book appointment', 500);
+    }
+  }
+
+  // Inserts a booking after checking the doctor's diary; shared with follow-ups made at discharge
+  async createAppointment(tx: Transaction, data: {
+    patientId: string;
+    doctorId: string;
+    departmentId: string | null;
+    appointmentDate: string;
+    startTime: string;
+    durationMinutes: number;
+    reason?: string | undefined;
+    notes?: string | undefined;
+    bookedBy?: string | undefined;
+  }): Promise<any> {
+    const [doctor] = await tx
+      .select({ userId: users.userId, role: users.role, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.userId, data.doctorId));
+
+    if (!doctor || doctor.role !== 'doctor' || !doctor.isActive) {
+      throw new AppError('Doctor not found', 404);
+    }
+
+    const startTime = ClinicTime.fromMinutes(ClinicTime.toMinutes(data.startTime));
+    const endTime = this.endTimeFor(startTime, data.durationMinutes);
+
+    await this.assertNoConflicts(tx, {
+      patientId: data.patientId,
+      doctorId: data.doctorId,
+      appointmentDate: data.appointmentDate,
+      startTime,
+      endTime,
+    });
+
+    const [appointment] = await tx
+      .insert(appointments)
+      .values({
+        patientId: data.patientId,
+        doctorId: data.doctorId,
+        departmentId: data.departmentId,
+        appointmentDate: data.appointmentDate,
+        startTime,
+        endTime,
+        reason: data.reason,
+        notes: data.notes,
+        bookedBy: data.bookedBy,
+        status: 'SCHEDULED',
+      })
+      .returning();
+
+    return appointment;
+  }
+
+  async rescheduleAppointment(appointmentId: string, data: {
+    appointmentDate?: string | undefined;
+    startTime?: string | undefined;
+    durationMinutes?: number | undefined;
+    doctorId?: string | undefined;
+    reason?: string | undefined;
+    rescheduledBy: string;
+  }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const appointment = await this.getForUpdate(tx, appointmentId);
+
+        if (appointment.status !== 'SCHEDULED') {
+          throw new AppError(`Cannot reschedule an appointment that is ${appointment.status.toLowerCase()}`, 409);
+        }
+
+        const appointmentDate = data.appointmentDate || appointment.appointmentDate;
+        if (appointmentDate < ClinicTime.today()) {
+          throw new AppError('Cannot move an appointment into the past', 400);
+        }
+
+        const doctorId = data.doctorId || appointment.doctorId;
+        if (!doctorId) {
+          throw new AppError('Doctor is required', 400);
+        }
+
+        if (data.doctorId && data.doctorId !== appointment.doctorId) {
+          const [doctor] = await tx
+            .select({ role: users.role, isActive: users.isActive })
+            .from(users)
+            .where(eq(users.userId, data.doctorId));
+
+          if (!doctor || doctor.role !== 'doctor' || !doctor.isActive) {
+            throw new AppError('Doctor not found', 404);
+          }
+        }
+
+        const currentDuration = ClinicTime.toMinutes(appointment.endTime) - ClinicTime.toMinutes(appointment.startTime);
+        const startTime = ClinicTime.fromMinutes(ClinicTime.toMinutes(data.startTime || appointment.startTime));
+        const endTime = this.endTimeFor(startTime, data.durationMinutes ?? currentDuration);
+
+        await this.assertNoConflicts(tx, {
+          patientId: appointment.patientId,
+          doctorId,
+          appointmentDate,
+          startTime,
+          endTime,
+          excludeAppointmentId: appointmentId,
+        });
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({
+            doctorId,
+            appointmentDate,
+            startTime,
+            endTime,
+            // A new time needs fresh reminders and a fresh confirmation
+            reminderSent: false,
+            confirmedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(appointments.appointmentId, appointmentId))
+          .returning();
+
+        await this.recordAction(tx, appointmentId, 'APPOINTMENT_RESCHEDULE', data.rescheduledBy, {
+          doctorId: appointment.doctorId,
+          appointmentDate: appointment.appointmentDate,
+          startTime: appointment.startTime,
+          endTime: appointment.endTime,
+        }, {
+          doctorId,
+          appointmentDate,
+          startTime,
+          endTime,
+        }, data.reason);
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to reschedule appointment:', error);
+      if (error instanceof AppError) throw error;
+      if (pgErrorCode(error) === '23P01') {
+        throw new AppError('Doctor already has an appointment at that time', 409);
+      }
+      throw new AppError('Failed to reschedule appointment', 500);
+    }
+  }
+
+  async confirmAppointment(appointmentId: string, data: {
+    confirmedBy?: string | undefined;
+    via: 'SMS' | 'STAFF';
+  }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const appointment = await this.getForUpdate(tx, appointmentId);
+
+        if (appointment.status !== 'SCHEDULED') {
+          throw new AppError(`Cannot confirm an appointment that is ${appointment.status.toLowerCase()}`, 409);
+        }
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({ confirmedAt: new Date(), updatedAt: new Date() })
+          .where(eq(appointments.appointmentId, appointmentId))
+          .returning();
+
+        await this.recordAction(tx, appointmentId, 'APPOINTMENT_CONFIRM', data.confirmedBy ?? null, {
+          confirmedAt: appointment.confirmedAt,
+        }, {
+          confirmedAt: updated!.confirmedAt,
+        }, `Confirmed via ${data.via}`);
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to confirm appointment:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to confirm appointment', 500);
+    }
+  }
+
+  async cancelAppointment(appointmentId: string, data: {
+    reason: string;
+    cancelledBy?: string | undefined;
+  }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const appointment = await this.getForUpdate(tx, appointmentId);
+
+        if (appointment.status !== 'SCHEDULED') {
+          throw new AppError(`Cannot cancel an appointment that is ${appointment.status.toLowerCase()}`, 409);
+        }
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancellationReason: data.reason,
+            updatedAt: new Date(),
+          })
+          .where(eq(appointments.appointmentId, appointmentId))
+          .returning();
+
+        await this.recordAction(tx, appointmentId, 'APPOINTMENT_CANCEL', data.cancelledBy ?? null, {
+          status: appointment.status,
+        }, {
+          status: 'CANCELLED',
+        }, data.reason);
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to cancel appointment:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel appointment', 500);
+    }
+  }
+
+  // Arrival at reception: joins the booked department's queue as part of a new or open visit
+  async checkInAppointment(appointmentId: string, data: {
+    urgencyLevel?: UrgencyLevel | undefined;
+    notes?: string | undefined;
+    checkedInBy: string;
+  }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const appointment = await this.getForUpdate(tx, appointmentId);
+
+        if (appointment.status !== 'SCHEDULED') {
+          throw new AppError(`Cannot check in an appointment that is ${appointment.status.toLowerCase()}`, 409);
+        }
+
+        if (appointment.appointmentDate !== ClinicTime.today()) {
+          throw new AppError('Appointment is not booked for today', 409);
+        }
+
+        const departmentId = appointment.departmentId
+          || (appointment.doctorId ? await this.getDoctorDepartment(tx, appointment.doctorId) : null);
+
+        if (!departmentId) {
+          throw new AppError('Appointment has no department to queue in', 400);
+        }
+
+        const [activeEntry] = await tx
+          .select()
+          .from(departmentQueues)
+          .where(
+            and(
+              eq(departmentQueues.patientId, appointment.patientId),
+              inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+            )
+          )
+          .limit(1);
+
+        if (activeEntry && activeEntry.departmentId !== departmentId) {
+          throw new AppError(`Patient is already queued in another department (${activeEntry.queueId})`, 409);
+        }
+
+        const encounter = await this.encounterService.openEncounter(appointment.patientId, {
+          openedBy: data.checkedInBy,
+          departmentId,
+        }, tx);
+
+        // A patient already waiting in the right department keeps their place
+        const queueEntry = activeEntry || await this.queueService.enqueuePatient(tx, {
+          departmentId,
+          patientId: appointment.patientId,
+          encounterId: encounter.encounterId,
+          urgencyLevel: data.urgencyLevel || 'GREEN',
+          waitNotes: data.notes || `Appointment ${appointment.startTime.slice(0, 5)}`,
+          performedBy: data.checkedInBy,
+          reason: 'Appointment check-in',
+        });
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({
+            status: 'CHECKED_IN',
+            checkedInAt: new Date(),
+            checkedInBy: data.checkedInBy,
+            departmentId,
+            queueId: queueEntry.queueId,
+            encounterId: encounter.encounterId,
+            updatedAt: new Date(),
+          })
+          .where(eq(appointments.appointmentId, appointmentId))
+          .returning();
+
+        await this.recordAction(tx, appointmentId, 'APPOINTMENT_CHECK_IN', data.checkedInBy, {
+          status: appointment.status,
+        }, {
+          status: 'CHECKED_IN',
+          queueId: queueEntry.queueId,
+          encounterId: encounter.encounterId,
+        });
+
+        logger.info(`Appointment checked in: ${appointmentId}`, {
+          patientId: appointment.patientId,
+          queueId: queueEntry.queueId,
+        });
+
+        return { appointment: updated, queueEntry, encounter };
+      });
+    } catch (error) {
+      logger.error('Failed to check in appointment:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check in appointment', 500);
+    }
+  }
+
+  // Scheduled job: bookings not checked in within the grace period become no-shows
+  async markNoShows(): Promise<number> {
+    try {
+      const policy = await this.getPolicy();
+      const now = new Date();
+
+      const missed = await db
+        .update(appointments)
+        .set({ status: 'NO_SHOW', updatedAt: new Date() })
+        .where(
+          and(
+            eq(appointments.status, 'SCHEDULED'),
+            lte(appointments.appointmentDate, ClinicTime.formatDate(now)),
+            sql`${appointments.appointmentDate} + ${appointments.startTime} + make_interval(mins => ${policy.noShowGraceMinutes}) < ${ClinicTime.timestamp(now)}::timestamp`
+          )
+        )
+        .returning({ appointmentId: appointments.appointmentId });
+
+      if (missed.length > 0) {
+        await db.insert(auditLogs).values(missed.map(({ appointmentId }) => ({
+          action: 'APPOINTMENT_NO_SHOW',
+          entityType: 'appointment',
+          entityId: appointmentId,
+          oldValues: { status: 'SCHEDULED' },
+          newValues: { status: 'NO_SHOW' },
+          details: `Not checked in within ${policy.noShowGraceMinutes} minutes`,
+        })));
+
+        logger.info(`Marked ${missed.length} appointments as no-shows`);
+      }
+
+      return missed.length;
+    } catch (error) {
+      logger.error('Failed to mark no-shows:', error);
+      throw new AppError('Failed to mark no-shows', 500);
+    }
+  }
+
+  async getAppointment(appointmentId: string): Promise<any> {
+    try {
+      const [appointment] = await this.selectWithNames()
+        .where(eq(appointments.appointmentId, appointmentId));
+
+      if (!appointment) {
+        throw new AppError('Appointment not found', 404);
+      }
+
+      const reminders = await db
+        .select()
+        .from(appointmentReminders)
+        .where(eq(appointmentReminders.appointmentId, appointmentId))
+        .orderBy(asc(appointmentReminders.sentAt));
+
+      return { ...appointment, reminders };
+    } catch (error) {
+      logger.error('Failed to fetch appointment:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch appointment', 500);
+    }
+  }
+
+  async getAppointments(filters: {
+    patientId?: string | undefined;
+    doctorId?: string | undefined;
+    departmentId?: string | undefined;
+    status?: typeof appointments.status.enumValues[number] | undefined;
+    from?: string | undefined;
+    to?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  }): Promise<any> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 50;
+      const offset = (page - 1) * limit;
+
+      const conditions = [];
+      if (filters.patientId) conditions.push(eq(appointments.patientId, filters.patientId));
+      if (filters.doctorId) conditions.push(eq(appointments.doctorId, filters.doctorId));
+      if (filters.departmentId) conditions.push(eq(appointments.departmentId, filters.departmentId));
+      if (filters.status) conditions.push(eq(appointments.status, filters.status));
+      if (filters.from) conditions.push(gte(appointments.appointmentDate, filters.from));
+      if (filters.to) conditions.push(lte(appointments.appointmentDate, filters.to));
+
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [total] = await db.select({ count: count() }).from(appointments).where(where);
+
+      const items = await this.selectWithNames()
+        .where(where)
+        .orderBy(asc(appointments.appointmentDate), asc(appointments.startTime))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        items,
+        pagination: {
+          total: Number(total?.count || 0),
+          page,
+          limit,
+          pages: Math.ceil(Number(total?.count || 0) / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch appointments:', error);
+      throw new AppError('Failed to fetch appointments', 500);
+    }
+  }
+
+  private selectWithNames() {
+    const doctors = alias(users, 'doctors');
+
+    return db
+      .select({
+        appointmentId: appointments.appointmentId,
+        patientId: appointments.patientId,
+        straId: patients.straId,
+        patientName: sql<string>`${patients.firstName} || ' ' || ${patients.lastName}`,
+        phoneNumber: patients.phoneNumber,
+        doctorId: appointments.doctorId,
+        doctorName: sql<string | null>`${doctors.firstName} || ' ' || ${doctors.lastName}`,
+        departmentId: appointments.departmentId,
+        departmentName: departments.name,
+        appointmentDate: appointments.appointmentDate,
+        startTime: appointments.startTime,
+        endTime: appointments.endTime,
+        reason: appointments.reason,
+        status: appointments.status,
+        notes: appointments.notes,
+        confirmedAt: appointments.confirmedAt,
+        checkedInAt: appointments.checkedInAt,
+        queueId: appointments.queueId,
+        encounterId: appointments.encounterId,
+        cancelledAt: appointments.cancelledAt,
+        cancellationReason: appointments.cancellationReason,
+        createdAt: appointments.createdAt,
+      })
+      .from(appointments)
+      .innerJoin(patients, eq(appointments.patientId, patients.patientId))
+      .leftJoin(doctors, eq(appointments.doctorId, doctors.userId))
+      .leftJoin(departments, eq(appointments.departmentId, departments.departmentId))
+      .$dynamic();
+  }
+
+  private async getForUpdate(tx: Transaction, appointmentId: string): Promise<any> {
+    const [appointment] = await tx
+      .select()
+      .from(appointments)
+      .where(eq(appointments.appointmentId, appointmentId))
+      .for('update');
+
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404);
+    }
+
+    return appointment;
+  }
+
+  private async getDoctorDepartment(tx: Transaction, doctorId: string): Promise<string | null> {
+    const [membership] = await tx
+      .select({ departmentId: departmentStaff.departmentId })
+      .from(departmentStaff)
+      .where(eq(departmentStaff.userId, doctorId))
+      .orderBy(sql`${departmentStaff.isPrimary} DESC`)
+      .limit(1);
+
+    return membership?.departmentId ?? null;
+  }
+
+  private endTimeFor(startTime: string, durationMinutes: number): string {
+    const end = ClinicTime.toMinutes(startTime) + durationMinutes;
+    if (durationMinutes <= 0 || end > 24 * 60) {
+      throw new AppError('Appointment must start and end on the same day', 400);
+    }
+    return end === 24 * 60 ? '23:59' : ClinicTime.fromMinutes(end);
+  }
+
+  private async assertNoConflicts(tx: Transaction, slot: {
+    patientId: string;
+    doctorId: string;
+    appointmentDate: string;
+    startTime: string;
+    endTime: string;
+    excludeAppointmentId?: string | undefined;
+  }): Promise<void> {
+    // Serialises concurrent bookings for the same doctor and day
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${slot.doctorId}:${slot.appointmentDate}`}))`);
+
+    const overlapping = and(
+      eq(appointments.appointmentDate, slot.appointmentDate),
+      inArray(appointments.status, [...ACTIVE_STATUSES]),
+      lt(appointments.startTime, slot.endTime),
+      gt(appointments.endTime, slot.startTime),
+      slot.excludeAppointmentId ? ne(appointments.appointmentId, slot.excludeAppointmentId) : undefined
+    );
+
+    const [doctorClash] = await tx
+      .select({ appointmentId: appointments.appointmentId, startTime: appointments.startTime, endTime: appointments.endTime })
+      .from(appointments)
+      .where(and(eq(appointments.doctorId, slot.doctorId), overlapping))
+      .limit(1);
+
+    if (doctorClash) {
+      throw new AppError(
+        `Doctor already has an appointment from ${doctorClash.startTime.slice(0, 5)} to ${doctorClash.endTime.slice(0, 5)}`,
+        409
+      );
+    }
+
+    const [patientClash] = await tx
+      .select({ appointmentId: appointments.appointmentId })
+      .from(appointments)
+      .where(and(eq(appointments.patientId, slot.patientId), overlapping))
+      .limit(1);
+
+    if (patientClash) {
+      throw new AppError('Patient already has an appointment at that time', 409);
+    }
+  }
+
+  private async recordAction(
+    tx: Transaction,
+    appointmentId: string,
+    action: string,
+    userId: string | null,
+    oldValues: Record<string, any>,
+    newValues: Record<string, any>,
+    details?: string | undefined
+  ): Promise<void> {
+    await tx.insert(auditLogs).values({
+      userId,
+      action,
+      entityType: 'appointment',
+      entityId: appointmentId,
+      oldValues,
+      newValues,
+      details,
+    });
+  }
+}
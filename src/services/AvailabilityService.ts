@@ -0,0 +1,432 @@
+import { db } from '../db';
+import {
+  doctorAvailability, availabilityExceptions, appointments, departments, departmentStaff, users, auditLogs
+} from '../db/schema';
+import { eq, and, or, gte, lte, asc, inArray, isNull } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { ClinicTime } from '../utils/ClinicTime';
+
+export type AvailabilityExceptionType = 'LEAVE' | 'PUBLIC_HOLIDAY' | 'OTHER';
+
+export interface AvailabilityBlock {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  departmentId?: string | undefined;
+}
+
+export interface OpenSlot {
+  date: string;
+  startTime: string;
+  endTime: string;
+  doctorId: string;
+  doctorName: string;
+  departmentId: string;
+  departmentName: string;
+}
+
+const MAX_SLOT_RANGE_DAYS = 31;
+
+// Bookings in these states hold the doctor's time
+const ACTIVE_STATUSES = ['SCHEDULED', 'CHECKED_IN', 'IN_PROGRESS'] as const;
+
+export class AvailabilityService {
+  async getDoctorTemplate(doctorId: string): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          availabilityId: doctorAvailability.availabilityId,
+          dayOfWeek: doctorAvailability.dayOfWeek,
+          startTime: doctorAvailability.startTime,
+          endTime: doctorAvailability.endTime,
+          departmentId: doctorAvailability.departmentId,
+          departmentName: departments.name,
+          effectiveFrom: doctorAvailability.effectiveFrom,
+          effectiveTo: doctorAvailability.effectiveTo,
+        })
+        .from(doctorAvailability)
+        .innerJoin(departments, eq(doctorAvailability.departmentId, departments.departmentId))
+        .where(eq(doctorAvailability.doctorId, doctorId))
+        .orderBy(asc(doctorAvailability.dayOfWeek), asc(doctorAvailability.startTime));
+    } catch (error) {
+      logger.error('Failed to fetch availability template:', error);
+      throw new AppError('Failed to fetch availability template', 500);
+    }
+  }
+
+  // Replaces the doctor's whole weekly template
+  async setDoctorTemplate(doctorId: string, data: {
+    blocks: AvailabilityBlock[];
+    effectiveFrom?: string | undefined;
+    effectiveTo?: string | undefined;
+    updatedBy: string;
+  }): Promise<any[]> {
+    try {
+      this.assertNoOverlappingBlocks(data.blocks);
+
+      await db.transaction(async (tx) => {
+        const [doctor] = await tx
+          .select({ role: users.role, isActive: users.isActive })
+          .from(users)
+          .where(eq(users.userId, doctorId));
+
+        if (!doctor || doctor.role !== 'doctor' || !doctor.isActive) {
+          throw new AppError('Doctor not found', 404);
+        }
+
+        const memberships = await tx
+          .select({ departmentId: departmentStaff.departmentId, isPrimary: departmentStaff.isPrimary })
+          .from(departmentStaff)
+          .where(eq(departmentStaff.userId, doctorId));
+
+        const primaryDepartmentId = (memberships.find(m => m.isPrimary) || memberships[0])?.departmentId;
+        const rows = data.blocks.map(block => {
+          const departmentId = block.departmentId || primaryDepartmentId;
+          if (!departmentId) {
+            throw new AppError('Doctor has no department; specify one for each block', 400);
+          }
+          if (!memberships.some(m => m.departmentId === departmentId)) {
+            throw new AppError('Doctor is not a member of the selected department', 400);
+          }
+          return {
+            doctorId,
+            departmentId,
+            dayOfWeek: block.dayOfWeek,
+            startTime: block.startTime,
+            endTime: block.endTime,
+            effectiveFrom: data.effectiveFrom,
+            effectiveTo: data.effectiveTo,
+            createdBy: data.updatedBy,
+          };
+        });
+
+        const previous = await tx
+          .delete(doctorAvailability)
+          .where(eq(doctorAvailability.doctorId, doctorId))
+          .returning();
+
+        if (rows.length > 0) {
+          await tx.insert(doctorAvailability).values(rows);
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: data.updatedBy,
+          action: 'AVAILABILITY_UPDATE',
+          entityType: 'doctor_availability',
+          entityId: doctorId,
+          oldValues: { blocks: previous.map(({ dayOfWeek, startTime, endTime, departmentId }) => ({ dayOfWeek, startTime, endTime, departmentId })) },
+          newValues: { blocks: rows.map(({ dayOfWeek, startTime, endTime, departmentId }) => ({ dayOfWeek, startTime, endTime, departmentId })) },
+        });
+      });
+
+      return await this.getDoctorTemplate(doctorId);
+    } catch (error) {
+      logger.error('Failed to update availability template:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update availability template', 500);
+    }
+  }
+
+  async getExceptions(filters: {
+    doctorId?: string | undefined;
+    from?: string | undefined;
+    to?: string | undefined;
+  }): Promise<any[]> {
+    try {
+      const conditions = [];
+      // Facility-wide closures apply to every doctor
+      if (filters.doctorId) {
+        conditions.push(or(eq(availabilityExceptions.doctorId, filters.doctorId), isNull(availabilityExceptions.doctorId)));
+      }
+      if (filters.from) conditions.push(gte(availabilityExceptions.endDate, filters.from));
+      if (filters.to) conditions.push(lte(availabilityExceptions.startDate, filters.to));
+
+      return await db
+        .select()
+        .from(availabilityExceptions)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(asc(availabilityExceptions.startDate));
+    } catch (error) {
+      logger.error('Failed to fetch availability exceptions:', error);
+      throw new AppError('Failed to fetch availability exceptions', 500);
+    }
+  }
+
+  // Returns the exception with any bookings it now clashes with, so they can be moved
+  async addException(data: {
+    doctorId?: string | undefined;
+    exceptionType: AvailabilityExceptionType;
+    startDate: string;
+    endDate: string;
+    startTime?: string | undefined;
+    endTime?: string | undefined;
+    reason?: string | undefined;
+    createdBy: string;
+  }): Promise<any> {
+    try {
+      if (data.endDate < data.startDate) {
+        throw new AppError('End date must not be before start date', 400);
+      }
+
+      const [exception] = await db
+        .insert(availabilityExceptions)
+        .values({
+          doctorId: data.doctorId,
+          exceptionType: data.exceptionType,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          startTime: data.startTime,
+          endTime: data.endTime,
+          reason: data.reason,
+          createdBy: data.createdBy,
+        })
+        .returning();
+
+      const booked = await db
+        .select({
+          appointmentId: appointments.appointmentId,
+          patientId: appointments.patientId,
+          doctorId: appointments.doctorId,
+          appointmentDate: appointments.appointmentDate,
+          startTime: appointments.startTime,
+          endTime: appointments.endTime,
+        })
+        .from(appointments)
+        .where(
+          and(
+            data.doctorId ? eq(appointments.doctorId, data.doctorId) : undefined,
+            gte(appointments.appointmentDate, data.startDate),
+            lte(appointments.appointmentDate, data.endDate),
+            eq(appointments.status, 'SCHEDULED')
+          )
+        )
+        .orderBy(asc(appointments.appointmentDate), asc(appointments.startTime));
+
+      const affectedAppointments = booked.filter(appointment =>
+        this.exceptionCovers(exception!, appointment.appointmentDate, appointment.startTime, appointment.endTime)
+      );
+
+      logger.info(`Availability exception added: ${exception!.exceptionType}`, {
+        exceptionId: exception!.exceptionId,
+        doctorId: data.doctorId,
+        affectedAppointments: affectedAppointments.length,
+      });
+
+      return { exception, affectedAppointments };
+    } catch (error) {
+      logger.error('Failed to add availability exception:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to add availability exception', 500);
+    }
+  }
+
+  async removeException(exceptionId: string): Promise<void> {
+    try {
+      const [removed] = await db
+        .delete(availabilityExceptions)
+        .where(eq(availabilityExceptions.exceptionId, exceptionId))
+        .returning();
+
+      if (!removed) {
+        throw new AppError('Availability exception not found', 404);
+      }
+    } catch (error) {
+      logger.error('Failed to remove availability exception:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to remove availability exception', 500);
+    }
+  }
+
+  async setDepartmentSlotLength(departmentId: string, slotMinutes: number): Promise<any> {
+    try {
+      const [department] = await db
+        .update(departments)
+        .set({ appointmentSlotMinutes: slotMinutes, updatedAt: new Date() })
+        .where(eq(departments.departmentId, departmentId))
+        .returning({
+          departmentId: departments.departmentId,
+          name: departments.name,
+          appointmentSlotMinutes: departments.appointmentSlotMinutes,
+        });
+
+      if (!department) {
+        throw new AppError('Department not found', 404);
+      }
+
+      return department;
+    } catch (error) {
+      logger.error('Failed to update slot length:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update slot length', 500);
+    }
+  }
+
+  // Template hours cut into department-length slots, minus exceptions and existing bookings
+  async getOpenSlots(filters: {
+    departmentId?: string | undefined;
+    doctorId?: string | undefined;
+    from: string;
+    to: string;
+  }): Promise<OpenSlot[]> {
+    try {
+      if (filters.to < filters.from) {
+        throw new AppError('End date must not be before start date', 400);
+      }
+      if (filters.to > ClinicTime.addDays(filters.from, MAX_SLOT_RANGE_DAYS - 1)) {
+        throw new AppError(`Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days`, 400);
+      }
+
+      const templates = await db
+        .select({
+          doctorId: doctorAvailability.doctorId,
+          doctorFirstName: users.firstName,
+          doctorLastName: users.lastName,
+          departmentId: doctorAvailability.departmentId,
+          departmentName: departments.name,
+          slotMinutes: departments.appointmentSlotMinutes,
+          dayOfWeek: doctorAvailability.dayOfWeek,
+          startTime: doctorAvailability.startTime,
+          endTime: doctorAvailability.endTime,
+          effectiveFrom: doctorAvailability.effectiveFrom,
+          effectiveTo: doctorAvailability.effectiveTo,
+        })
+        .from(doctorAvailability)
+        .innerJoin(users, eq(doctorAvailability.doctorId, users.userId))
+        .innerJoin(departments, eq(doctorAvailability.departmentId, departments.departmentId))
+        .where(
+          and(
+            filters.doctorId ? eq(doctorAvailability.doctorId, filters.doctorId) : undefined,
+            filters.departmentId ? eq(doctorAvailability.departmentId, filters.departmentId) : undefined,
+            eq(users.isActive, true),
+            eq(departments.isActive, true),
+            or(isNull(doctorAvailability.effectiveFrom), lte(doctorAvailability.effectiveFrom, filters.to)),
+            or(isNull(doctorAvailability.effectiveTo), gte(doctorAvailability.effectiveTo, filters.from))
+          )
+        );
+
+      if (templates.length === 0) {
+        return [];
+      }
+
+      const doctorIds = [...new Set(templates.map(t => t.doctorId))];
+
+      const [exceptions, booked] = await Promise.all([
+        db
+          .select()
+          .from(availabilityExceptions)
+          .where(
+            and(
+              or(isNull(availabilityExceptions.doctorId), inArray(availabilityExceptions.doctorId, doctorIds)),
+              lte(availabilityExceptions.startDate, filters.to),
+              gte(availabilityExceptions.endDate, filters.from)
+            )
+          ),
+        db
+          .select({
+            doctorId: appointments.doctorId,
+            appointmentDate: appointments.appointmentDate,
+            startTime: appointments.startTime,
+            endTime: appointments.endTime,
+          })
+          .from(appointments)
+          .where(
+            and(
+              inArray(appointments.doctorId, doctorIds),
+              gte(appointments.appointmentDate, filters.from),
+              lte(appointments.appointmentDate, filters.to),
+              inArray(appointments.status, [...ACTIVE_STATUSES])
+            )
+          ),
+      ]);
+
+      const now = new Date();
+      const today = ClinicTime.formatDate(now);
+      const nowMinutes = ClinicTime.minutesOfDay(now);
+      const slots: OpenSlot[] = [];
+
+      for (let date = filters.from; date <= filters.to; date = ClinicTime.addDays(date, 1)) {
+        if (date < today) continue;
+        const dayOfWeek = ClinicTime.dayOfWeek(date);
+
+        for (const template of templates) {
+          if (template.dayOfWeek !== dayOfWeek) continue;
+          if (template.effectiveFrom && date < template.effectiveFrom) continue;
+          if (template.effectiveTo && date > template.effectiveTo) continue;
+
+          const blockEnd = ClinicTime.toMinutes(template.endTime);
+          for (
+            let start = ClinicTime.toMinutes(template.startTime);
+            start + template.slotMinutes <= blockEnd;
+            start += template.slotMinutes
+          ) {
+            if (date === today && start <= nowMinutes) continue;
+
+            const startTime = ClinicTime.fromMinutes(start);
+            const endTime = ClinicTime.fromMinutes(start + template.slotMinutes);
+
+            const closed = exceptions.some(exception =>
+              (!exception.doctorId || exception.doctorId === template.doctorId)
+              && this.exceptionCovers(exception, date, startTime, endTime)
+            );
+            if (closed) continue;
+
+            const taken = booked.some(appointment =>
+              appointment.doctorId === template.doctorId
+              && appointment.appointmentDate === date
+              && ClinicTime.overlaps(startTime, endTime, appointment.startTime, appointment.endTime)
+            );
+            if (taken) continue;
+
+            slots.push({
+              date,
+              startTime,
+              endTime,
+              doctorId: template.doctorId,
+              doctorName: `${template.doctorFirstName} ${template.doctorLastName}`,
+              departmentId: template.departmentId,
+              departmentName: template.departmentName,
+            });
+          }
+        }
+      }
+
+      return slots.sort((a, b) =>
+        a.date.localeCompare(b.date)
+        || a.startTime.localeCompare(b.startTime)
+        || a.doctorName.localeCompare(b.doctorName)
+      );
+    } catch (error) {
+      logger.error('Failed to compute open slots:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to compute open slots', 500);
+    }
+  }
+
+  private exceptionCovers(
+    exception: { startDate: string; endDate: string; startTime: string | null; endTime: string | null },
+    date: string,
+    startTime: string,
+    endTime: string
+  ): boolean {
+    if (date < exception.startDate || date > exception.endDate) return false;
+    if (!exception.startTime || !exception.endTime) return true;
+    return ClinicTime.overlaps(startTime, endTime, exception.startTime, exception.endTime);
+  }
+
+  private assertNoOverlappingBlocks(blocks: AvailabilityBlock[]): void {
+    for (const [index, block] of blocks.entries()) {
+      if (ClinicTime.toMinutes(block.endTime) <= ClinicTime.toMinutes(block.startTime)) {
+        throw new AppError('Availability blocks must end after they start', 400);
+      }
+
+      const clash = blocks.slice(index + 1).find(other =>
+        other.dayOfWeek === block.dayOfWeek
+        && ClinicTime.overlaps(block.startTime, block.endTime, other.startTime, other.endTime)
+      );
+      if (clash) {
+        throw new AppError(`Availability blocks overlap on day ${block.dayOfWeek}`, 400);
+      }
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import type { Socket } from 'net';
+import dcmjsDimse from 'dcmjs-dimse';
+import type { association, requests, responses } from 'dcmjs-dimse';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { ModalityWorklistService } from './ModalityWorklistService';
+import { ClinicTime } from '../utils/ClinicTime';
+
+const { Dataset, Server, Scp } = dcmjsDimse;
+const { CEchoResponse, CFindResponse, NCreateResponse, NSetResponse } = dcmjsDimse.responses;
+const { Status, PresentationContextResult, RejectResult, RejectSource, RejectReason, SopClass, TransferSyntax } = dcmjsDimse.constants;
+
+const DEFAULT_AE_TITLE = 'STRA_MWL';
+
+const SUPPORTED_SOP_CLASSES = [
+  SopClass.Verification,
+  SopClass.ModalityWorklistInformationModelFind,
+  SopClass.ModalityPerformedProcedureStep,
+];
+
+const SUPPORTED_TRANSFER_SYNTAXES = [
+  TransferSyntax.ImplicitVRLittleEndian,
+  TransferSyntax.ExplicitVRLittleEndian,
+];
+
+const worklistService = new ModalityWorklistService();
+
+let calledAeTitle = DEFAULT_AE_TITLE;
+
+// N-SET completes studies, so only listed modalities may associate; with neither list set every caller is refused
+let allowedAeTitles: string[] = [];
+let allowedHosts: string[] = [];
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+
+// Each configured list must match; IPv4 peers arrive as IPv4-mapped IPv6 addresses
+const isAllowedCaller = (callingAeTitle: string, remoteAddress: string | undefined): boolean => {
+  if (allowedAeTitles.length === 0 && allowedHosts.length === 0) return false;
+  const host = remoteAddress?.replace(/^::ffff:/, '');
+  return (allowedAeTitles.length === 0 || allowedAeTitles.includes(callingAeTitle.trim()))
+    && (allowedHosts.length === 0 || (!!host && allowedHosts.includes(host)));
+};
+
+// dcmjs naturalises PN values as [{ Alphabetic }] and sequences as arrays
+const textValue = (value: unknown): string | undefined => {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first && typeof first === 'object' && 'Alphabetic' in first) {
+    return String((first as { Alphabetic: unknown }).Alphabetic || '') || undefined;
+  }
+  return first === undefined || first === null || first === '' ? undefined : String(first);
+};
+
+const firstItem = (value: unknown): Record<string, unknown> => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first && typeof first === 'object' ? (first as Record<string, unknown>) : {};
+};
+
+// DA + TM pair in facility time, as sent by the modality
+const parseDicomDateTime = (date: unknown, time: unknown): Date | undefined => {
+  const d = textValue(date)?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!d) return undefined;
+  const t = textValue(time)?.match(/^(\d{2})(\d{2})?(\d{2})?/);
+  return ClinicTime.toInstant(`${d[1]}-${d[2]}-${d[3]}`, `${t?.[1] || '00'}:${t?.[2] || '00'}:${t?.[3] || '00'}`);
+};
+
+/**
+ * Modality worklist (C-FIND) and MPPS (N-CREATE / N-SET) provider.
+ * Try it locally with DCMTK, with DICOM_ALLOWED_AE_TITLES=TEST_SCU:
+ *   echoscu -aet TEST_SCU -aec STRA_MWL localhost 11112
+ *   findscu -W -aet TEST_SCU -aec STRA_MWL -k "ScheduledProcedureStepSequence[0].Modality=DX" localhost 11112
+ */
+class WorklistScp extends Scp {
+  private remoteAddress: string | undefined;
+
+  constructor(socket: Socket, opts?: ConstructorParameters<typeof Scp>[1]) {
+    super(socket, opts);
+    this.remoteAddress = socket.remoteAddress;
+  }
+
+  associationRequested(association: association.Association) {
+    if (association.getCalledAeTitle() !== calledAeTitle) {
+      logger.warn(`DICOM association from ${association.getCallingAeTitle()} rejected: called AE ${association.getCalledAeTitle()}`);
+      this.sendAssociationReject(RejectResult.Permanent, RejectSource.ServiceUser, RejectReason.CalledAeNotRecognized);
+      return;
+    }
+
+    if (!isAllowedCaller(association.getCallingAeTitle(), this.remoteAddress)) {
+      logger.warn(`DICOM association from ${association.getCallingAeTitle()} at ${this.remoteAddress} rejected: caller not allowed`);
+      this.sendAssociationReject(RejectResult.Permanent, RejectSource.ServiceUser, RejectReason.CallingAeNotRecognized);
+      return;
+    }
+
+    for (const { id } of association.getPresentationContexts()) {
+      const context = association.getPresentationContext(id);
+
+      if (!SUPPORTED_SOP_CLASSES.includes(context.getAbstractSyntaxUid())) {
+        context.setResult(PresentationContextResult.RejectAbstractSyntaxNotSupported);
+        continue;
+      }
+
+      const transferSyntax = context.getTransferSyntaxUids().find((uid) => SUPPORTED_TRANSFER_SYNTAXES.includes(uid));
+      if (transferSyntax) {
+        context.setResult(PresentationContextResult.Accept, transferSyntax);
+      } else {
+        context.setResult(PresentationContextResult.RejectTransferSyntaxesNotSupported);
+      }
+    }
+
+    this.sendAssociationAccept();
+  }
+
+  associationReleaseRequested() {
+    this.sendAssociationReleaseResponse();
+  }
+
+  cEchoRequest(request: requests.CEchoRequest, callback: (response: responses.CEchoResponse) => void) {
+    const response = CEchoResponse.fromRequest(request);
+    response.setStatus(Status.Success);
+    callback(response);
+  }
+
+  cFindRequest(request: requests.CFindRequest, callback: (responses: responses.CFindResponse[]) => void) {
+    const keys = request.getDataset()?.getElements() || {};
+    const step = firstItem(keys.ScheduledProcedureStepSequence);
+
+    worklistService
+      .findWorklistItems({
+        patientId: textValue(keys.PatientID),
+        patientName: textValue(keys.PatientName),
+        accessionNumber: textValue(keys.AccessionNumber),
+        modality: textValue(step.Modality),
+        scheduledDate: textValue(step.ScheduledProcedureStepStartDate),
+      })
+      .then((items) => {
+        const matches = items.map((item) => {
+          const response = CFindResponse.fromRequest(request);
+          response.setDataset(new Dataset(item));
+          response.setStatus(Status.Pending);
+          return response;
+        });
+
+        const done = CFindResponse.fromRequest(request);
+        done.setStatus(Status.Success);
+        callback([...matches, done]);
+      })
+      .catch((error) => {
+        logger.error('DICOM worklist query failed:', error);
+        const failed = CFindResponse.fromRequest(request);
+        failed.setStatus(Status.ProcessingFailure);
+        callback([failed]);
+      });
+  }
+
+  // MPPS "IN PROGRESS": links the performed step to the order and starts the study
+  nCreateRequest(request: requests.NCreateRequest, callback: (response: responses.NCreateResponse) => void) {
+    const attributes = request.getDataset()?.getElements() || {};
+    const scheduled = firstItem(attributes.ScheduledStepAttributesSequence);
+    const mppsInstanceUid = request.getAffectedSopInstanceUid() || `2.25.${BigInt(`0x${randomUUID().replace(/-/g, '')}`)}`;
+
+    const response = NCreateResponse.fromRequest(request);
+    response.setAffectedSopInstanceUid(mppsInstanceUid);
+
+    const accessionNumber = textValue(scheduled.AccessionNumber);
+    const studyInstanceUid = textValue(scheduled.StudyInstanceUID);
+
+    // Unscheduled exams are accepted by the modality but have no order to update
+    if (!accessionNumber || !studyInstanceUid) {
+      logger.warn(`MPPS ${mppsInstanceUid} received without an accession number or study UID`);
+      response.setStatus(Status.Success);
+      callback(response);
+      return;
+    }
+
+    worklistService
+      .recordProcedureStarted({
+        accessionNumber,
+        studyInstanceUid,
+        mppsInstanceUid,
+        startedAt: parseDicomDateTime(attributes.PerformedProcedureStepStartDate, attributes.PerformedProcedureStepStartTime) || new Date(),
+      })
+      .then(() => {
+        response.setStatus(Status.Success);
+      })
+      .catch((error) => {
+        if (error instanceof AppError && error.statusCode === 404) {
+          logger.warn(`MPPS ${mppsInstanceUid} references unknown accession number ${accessionNumber}`);
+          response.setStatus(Status.Success);
+        } else {
+          logger.error('Failed to record MPPS start:', error);
+          response.setStatus(Status.ProcessingFailure);
+        }
+      })
+      .finally(() => callback(response));
+  }
+
+  // MPPS "COMPLETED" fills in completedAt; "DISCONTINUED" is left for the radiologist to cancel
+  nSetRequest(request: requests.NSetRequest, callback: (response: responses.NSetResponse) => void) {
+    const attributes = request.getDataset()?.getElements() || {};
+    const mppsInstanceUid = request.getRequestedSopInstanceUid();
+    const status = textValue(attributes.PerformedProcedureStepStatus);
+
+    const response = NSetResponse.fromRequest(request);
+
+    if (status !== 'COMPLETED') {
+      if (status === 'DISCONTINUED') {
+        logger.warn(`MPPS ${mppsInstanceUid} discontinued at the modality`);
+      }
+      response.setStatus(Status.Success);
+      callback(response);
+      return;
+    }
+
+    worklistService
+      .recordProcedureCompleted({
+        mppsInstanceUid,
+        completedAt: parseDicomDateTime(attributes.PerformedProcedureStepEndDate, attributes.PerformedProcedureStepEndTime),
+        source: 'MPPS',
+      })
+      .then(() => {
+        response.setStatus(Status.Success);
+      })
+      .catch((error) => {
+        // Steps created for unscheduled exams were never linked to an order
+        if (error instanceof AppError && error.statusCode === 404) {
+          logger.warn(`MPPS ${mppsInstanceUid} completed without a matching imaging order`);
+          response.setStatus(Status.Success);
+        } else {
+          logger.error('Failed to record MPPS completion:', error);
+          response.setStatus(Status.ProcessingFailure);
+        }
+      })
+      .finally(() => callback(response));
+  }
+}
+
+export class DicomService {
+  private static instance: DicomService;
+  private server: InstanceType<typeof Server> | null = null;
+
+  static getInstance(): DicomService {
+    if (!DicomService.instance) {
+      DicomService.instance = new DicomService();
+    }
+    return DicomService.instance;
+  }
+
+  start(port: number, options: {
+    aeTitle?: string | undefined;
+    allowedAeTitles?: string | undefined;
+    allowedHosts?: string | undefined;
+  } = {}): void {
+    if (this.server) return;
+
+    calledAeTitle = options.aeTitle || DEFAULT_AE_TITLE;
+    allowedAeTitles = parseList(options.allowedAeTitles);
+    allowedHosts = parseList(options.allowedHosts);
+    if (allowedAeTitles.length === 0 && allowedHosts.length === 0) {
+      logger.warn('No DICOM callers allowed: set DICOM_ALLOWED_AE_TITLES or DICOM_ALLOWED_HOSTS');
+    }
+
+    // The library logs every PDU at info level; keep only its warnings
+    dcmjsDimse.log.setLevel('warn');
+
+    this.server = new Server(WorklistScp);
+    this.server.on('networkError', (error: Error) => {
+      logger.error('DICOM network error:', error);
+    });
+    this.server.listen(port);
+
+    logger.info(`DICOM worklist listening as ${calledAeTitle} on port ${port}`);
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = null;
+  }
+}
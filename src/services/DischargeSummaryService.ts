@@ -0,0 +1,520 @@
+import { createHash, randomBytes } from 'crypto';
+import PDFDocument from 'pdfkit';
+import { db, sql } from '../db';
+import {
+  dischargeSummaries, encounters, patients, users, departments, appointments,
+  triageSessions, prescriptions, labOrders, diagnosticImaging
+} from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { NotificationService } from './NotificationService';
+// @ts-ignore
+import { PUBLIC_BASE_URL } from '../config/env.js';
+
+const LINK_VALIDITY_DAYS = 7;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface DischargeSummaryContent {
+  patient: {
+    straId: string;
+    name: string;
+    dateOfBirth: string;
+    gender: string;
+    allergies: string[];
+  };
+  visit: {
+    department: string | null;
+    openedAt: Date;
+    closedAt: Date | null;
+    dischargedBy: string | null;
+  };
+  triage: {
+    urgencyLevel: string;
+    chiefComplaint: string | null;
+    vitals: Record<string, string | number | null>;
+  } | null;
+  diagnoses: string[];
+  medications: Array<{ name: string; dosage: string; frequency: string; duration: string; instructions?: string }>;
+  labResults: Array<{ tests: string; completedAt: Date | null; results: string[]; interpretation: string | null }>;
+  imaging: Array<{ study: string; impression: string | null; completedAt: Date | null }>;
+  instructions: string | null;
+  followUp: { date: string; time: string; department: string | null } | null;
+}
+
+export class DischargeSummaryService {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  async generate(encounterId: string, generatedBy: string): Promise<any> {
+    try {
+      const content = await this.collectContent(encounterId);
+      const html = this.renderHtml(content);
+      const pdf = await this.renderPdf(content);
+
+      const [encounter] = await db
+        .select({ patientId: encounters.patientId })
+        .from(encounters)
+        .where(eq(encounters.encounterId, encounterId));
+
+      // Regenerating replaces the stored copy and invalidates any shared link
+      const [summary] = await db
+        .insert(dischargeSummaries)
+        .values({
+          encounterId,
+          patientId: encounter!.patientId,
+          content,
+          html,
+          pdfData: pdf.toString('base64'),
+          generatedBy,
+        })
+        .onConflictDoUpdate({
+          target: dischargeSummaries.encounterId,
+          set: {
+            version: sql`${dischargeSummaries.version} + 1`,
+            content,
+            html,
+            pdfData: pdf.toString('base64'),
+            accessTokenHash: null,
+            accessTokenExpiresAt: null,
+            generatedBy,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      logger.info(`Discharge summary generated for encounter ${encounterId}`, {
+        summaryId: summary?.summaryId,
+        version: summary?.version,
+      });
+
+      return this.toMetadata(summary);
+    } catch (error) {
+      logger.error('Failed to generate discharge summary:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate discharge summary', 500);
+    }
+  }
+
+  async getSummary(encounterId: string): Promise<any> {
+    const [summary] = await db
+      .select()
+      .from(dischargeSummaries)
+      .where(eq(dischargeSummaries.encounterId, encounterId));
+
+    if (!summary) {
+      throw new AppError('Discharge summary not found', 404);
+    }
+
+    return summary;
+  }
+
+  async getMetadata(encounterId: string): Promise<any> {
+    return this.toMetadata(await this.getSummary(encounterId));
+  }
+
+  async getHtml(encounterId: string): Promise<string> {
+    return (await this.getSummary(encounterId)).html;
+  }
+
+  async getPdf(encounterId: string): Promise<{ fileName: string; pdf: Buffer }> {
+    const summary = await this.getSummary(encounterId);
+    return {
+      fileName: this.fileName(summary),
+      pdf: Buffer.from(summary.pdfData, 'base64'),
+    };
+  }
+
+  // Used by the public download link sent to patients
+  async getPdfByToken(summaryId: string, token: string): Promise<{ fileName: string; pdf: Buffer }> {
+    try {
+      // A mangled link must not reach the uuid column, where it would fail as a server error
+      if (!UUID_PATTERN.test(summaryId) || !token) {
+        throw new AppError('This download link is invalid or has expired', 404);
+      }
+
+      const [summary] = await db
+        .select()
+        .from(dischargeSummaries)
+        .where(
+          and(
+            eq(dischargeSummaries.summaryId, summaryId),
+            eq(dischargeSummaries.accessTokenHash, this.hashToken(token))
+          )
+        );
+
+      if (!summary || !summary.accessTokenExpiresAt || summary.accessTokenExpiresAt < new Date()) {
+        throw new AppError('This download link is invalid or has expired', 404);
+      }
+
+      return {
+        fileName: this.fileName(summary),
+        pdf: Buffer.from(summary.pdfData, 'base64'),
+      };
+    } catch (error) {
+      logger.error('Failed to fetch discharge summary by link:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch discharge summary', 500);
+    }
+  }
+
+  async send(encounterId: string, options: { sms?: boolean | undefined; email?: string | undefined }): Promise<any> {
+    try {
+      if (!options.sms && !options.email) {
+        throw new AppError('Choose SMS, email or both', 400);
+      }
+
+      // Without it the patient would receive a relative link they cannot open
+      if (!PUBLIC_BASE_URL) {
+        throw new AppError('PUBLIC_BASE_URL is not configured, so download links cannot be sent', 503);
+      }
+
+      const summary = await this.getSummary(encounterId);
+
+      const [patient] = await db
+        .select()
+        .from(patients)
+        .where(eq(patients.patientId, summary.patientId));
+
+      if (!patient) {
+        throw new AppError('Patient not found', 404);
+      }
+
+      if (options.sms && !patient.phoneNumber) {
+        throw new AppError('Patient has no phone number on record', 400);
+      }
+
+      const token = randomBytes(24).toString('base64url');
+      const expiresAt = new Date(Date.now() + LINK_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+      await db
+        .update(dischargeSummaries)
+        .set({
+          accessTokenHash: this.hashToken(token),
+          accessTokenExpiresAt: expiresAt,
+          lastSentAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(dischargeSummaries.summaryId, summary.summaryId));
+
+      const baseUrl = PUBLIC_BASE_URL.replace(/\/$/, '');
+      const link = `${baseUrl}/api/v1/public/discharge-summaries/${summary.summaryId}?token=${token}`;
+
+      const delivered = await this.notificationService.sendDischargeSummary({
+        patientId: patient.patientId,
+        straId: patient.straId,
+        patientName: `${patient.firstName} ${patient.lastName}`,
+        phoneNumber: options.sms ? patient.phoneNumber : undefined,
+        email: options.email,
+        link,
+        html: summary.html,
+      });
+
+      return { summaryId: summary.summaryId, expiresAt, delivered };
+    } catch (error) {
+      logger.error('Failed to send discharge summary:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to send discharge summary', 500);
+    }
+  }
+
+  private async collectContent(encounterId: string): Promise<DischargeSummaryContent> {
+    const [encounter] = await db
+      .select({
+        encounter: encounters,
+        department: departments.name,
+        dischargedBy: sql<string | null>`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
+      })
+      .from(encounters)
+      .leftJoin(departments, eq(encounters.departmentId, departments.departmentId))
+      .leftJoin(users, eq(encounters.closedBy, users.userId))
+      .where(eq(encounters.encounterId, encounterId));
+
+    if (!encounter) {
+      throw new AppError('Encounter not found', 404);
+    }
+
+    if (encounter.encounter.disposition !== 'DISCHARGE') {
+      throw new AppError('A discharge summary is only available for discharged encounters', 400);
+    }
+
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.patientId, encounter.encounter.patientId));
+
+    // The arrival assessment is the one the summary reports
+    const [triage] = await db
+      .select()
+      .from(triageSessions)
+      .where(eq(triageSessions.encounterId, encounterId))
+      .orderBy(asc(triageSessions.createdAt))
+      .limit(1);
+
+    const scripts = await db
+      .select()
+      .from(prescriptions)
+      .where(eq(prescriptions.encounterId, encounterId))
+      .orderBy(asc(prescriptions.createdAt));
+
+    const labs = await db
+      .select()
+      .from(labOrders)
+      .where(and(eq(labOrders.encounterId, encounterId), eq(labOrders.status, 'COMPLETED')))
+      .orderBy(asc(labOrders.completedAt));
+
+    const studies = await db
+      .select()
+      .from(diagnosticImaging)
+      .where(eq(diagnosticImaging.encounterId, encounterId))
+      .orderBy(asc(diagnosticImaging.createdAt));
+
+    const [followUp] = encounter.encounter.followUpAppointmentId
+      ? await db
+          .select({
+            date: appointments.appointmentDate,
+            time: appointments.startTime,
+            department: departments.name,
+          })
+          .from(appointments)
+          .leftJoin(departments, eq(appointments.departmentId, departments.departmentId))
+          .where(eq(appointments.appointmentId, encounter.encounter.followUpAppointmentId))
+      : [];
+
+    return {
+      patient: {
+        straId: patient!.straId,
+        name: `${patient!.firstName} ${patient!.lastName}`,
+        dateOfBirth: patient!.dateOfBirth,
+        gender: patient!.gender,
+        allergies: (patient!.allergies as string[] | null) || [],
+      },
+      visit: {
+        department: encounter.department,
+        openedAt: encounter.encounter.openedAt,
+        closedAt: encounter.encounter.closedAt,
+        dischargedBy: encounter.encounter.closedBy ? encounter.dischargedBy : null,
+      },
+      triage: triage
+        ? {
+            urgencyLevel: triage.urgencyLevel,
+            chiefComplaint: triage.chiefComplaint,
+            vitals: {
+              'Temperature (°C)': triage.temperature,
+              'Blood pressure (mmHg)': triage.systolicBp && triage.diastolicBp ? `${triage.systolicBp}/${triage.diastolicBp}` : null,
+              'Heart rate (bpm)': triage.heartRate,
+              'Respiratory rate (/min)': triage.respiratoryRate,
+              'SpO2 (%)': triage.oxygenSaturation,
+              'Blood glucose (mmol/L)': triage.bloodGlucose,
+              'Pain (0-10)': triage.painScale,
+            },
+          }
+        : null,
+      diagnoses: [...new Set(scripts.map(p => p.diagnosis).filter((d): d is string => Boolean(d)))],
+      medications: scripts.flatMap(p => p.medications as DischargeSummaryContent['medications']),
+      labResults: labs.map(order => ({
+        tests: (order.tests as Array<{ testName: string }>).map(t => t.testName).join(', '),
+        completedAt: order.completedAt,
+        results: this.formatLabResults(order.results),
+        interpretation: order.interpretation,
+      })),
+      imaging: studies
+        .filter(study => study.status === 'FINAL' && (study.impression || study.findings))
+        .map(study => ({
+          study: `${study.modality} ${study.bodyPart}`,
+          impression: study.impression || study.findings,
+          completedAt: study.completedAt,
+        })),
+      instructions: encounter.encounter.dischargeInstructions,
+      followUp: followUp
+        ? { date: followUp.date, time: followUp.time.slice(0, 5), department: followUp.department }
+        : null,
+    };
+  }
+
+  // Results are free-form JSON; flatten them to readable lines
+  private formatLabResults(results: unknown): string[] {
+    if (!results) return [];
+
+    if (Array.isArray(results)) {
+      return results.map((r: any) => {
+        const name = r.testName || r.name || r.analyte || r.testCode || 'Result';
+        const range = r.referenceRange ? ` (ref ${r.referenceRange})` : '';
+        const flag = r.flag ? ` [${r.flag}]` : '';
+        return `${name}: ${r.value ?? ''}${r.unit ? ` ${r.unit}` : ''}${range}${flag}`.trim();
+      });
+    }
+
+    if (typeof results === 'object') {
+      return Object.entries(results as Record<string, any>).map(([key, value]) =>
+        `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`
+      );
+    }
+
+    return [String(results)];
+  }
+
+  private renderHtml(content: DischargeSummaryContent): string {
+    const e = (value: unknown) => String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const list = (items: string[]) => items.length
+      ? `<ul>${items.map(item => `<li>${e(item)}</li>`).join('')}</ul>`
+      : '<p>None recorded.</p>';
+
+    const vitals = content.triage
+      ? Object.entries(content.triage.vitals)
+          .filter(([, value]) => value !== null && value !== undefined)
+          .map(([label, value]) => `<tr><td>${e(label)}</td><td>${e(value)}</td></tr>`)
+          .join('')
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Discharge summary - ${e(content.patient.straId)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12pt; margin: 2em; color: #111; }
+  h1 { font-size: 18pt; margin-bottom: 0; }
+  h2 { font-size: 13pt; border-bottom: 1px solid #999; margin-top: 1.5em; }
+  table { border-collapse: collapse; }
+  td { padding: 2px 12px 2px 0; vertical-align: top; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Discharge Summary</h1>
+<p>${e(content.patient.name)} &middot; ${e(content.patient.straId)} &middot; DOB ${e(content.patient.dateOfBirth)} &middot; ${e(content.patient.gender)}</p>
+<p>${e(content.visit.department || 'Outpatient')} &middot; Admitted ${e(this.formatDate(content.visit.openedAt))} &middot; Discharged ${e(this.formatDate(content.visit.closedAt))}${content.visit.dischargedBy ? ` by ${e(content.visit.dischargedBy)}` : ''}</p>
+<p><strong>Allergies:</strong> ${e(content.patient.allergies.join(', ') || 'None known')}</p>
+
+<h2>Presentation</h2>
+${content.triage
+    ? `<p>${e(content.triage.chiefComplaint || 'No chief complaint recorded')} (triage ${e(content.triage.urgencyLevel)})</p><table>${vitals}</table>`
+    : '<p>No triage assessment recorded.</p>'}
+
+<h2>Diagnosis</h2>
+${list(content.diagnoses)}
+
+<h2>Investigations</h2>
+${content.labResults.length
+    ? content.labResults.map(lab => `<p><strong>${e(lab.tests)}</strong>${lab.interpretation ? ` &ndash; ${e(lab.interpretation)}` : ''}</p>${list(lab.results)}`).join('')
+    : '<p>No completed laboratory results.</p>'}
+${content.imaging.length
+    ? content.imaging.map(study => `<p><strong>${e(study.study)}:</strong> ${e(study.impression)}</p>`).join('')
+    : '<p>No imaging reports.</p>'}
+
+<h2>Medications</h2>
+${list(content.medications.map(m => `${m.name} ${m.dosage}, ${m.frequency} for ${m.duration}${m.instructions ? ` (${m.instructions})` : ''}`))}
+
+<h2>Instructions</h2>
+<p>${e(content.instructions || 'None given.').replace(/\n/g, '<br>')}</p>
+
+<h2>Follow-up</h2>
+<p>${content.followUp
+    ? `${e(content.followUp.date)} at ${e(content.followUp.time)}${content.followUp.department ? `, ${e(content.followUp.department)}` : ''}`
+    : 'No follow-up appointment booked.'}</p>
+</body>
+</html>`;
+  }
+
+  private renderPdf(content: DischargeSummaryContent): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 50 });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const heading = (text: string) => {
+        doc.moveDown().font('Helvetica-Bold').fontSize(13).text(text).font('Helvetica').fontSize(11);
+      };
+      const bullets = (items: string[], empty: string) => {
+        if (items.length === 0) {
+          doc.text(empty);
+          return;
+        }
+        doc.list(items, { bulletRadius: 2 });
+      };
+
+      doc.font('Helvetica-Bold').fontSize(18).text('Discharge Summary');
+      doc.font('Helvetica').fontSize(11)
+        .text(`${content.patient.name} | ${content.patient.straId} | DOB ${content.patient.dateOfBirth} | ${content.patient.gender}`)
+        .text(`${content.visit.department || 'Outpatient'} | Admitted ${this.formatDate(content.visit.openedAt)} | Discharged ${this.formatDate(content.visit.closedAt)}${content.visit.dischargedBy ? ` by ${content.visit.dischargedBy}` : ''}`)
+        .text(`Allergies: ${content.patient.allergies.join(', ') || 'None known'}`);
+
+      heading('Presentation');
+      if (content.triage) {
+        doc.text(`${content.triage.chiefComplaint || 'No chief complaint recorded'} (triage ${content.triage.urgencyLevel})`);
+        for (const [label, value] of Object.entries(content.triage.vitals)) {
+          if (value !== null && value !== undefined) doc.text(`${label}: ${value}`);
+        }
+      } else {
+        doc.text('No triage assessment recorded.');
+      }
+
+      heading('Diagnosis');
+      bullets(content.diagnoses, 'None recorded.');
+
+      heading('Investigations');
+      if (content.labResults.length === 0) doc.text('No completed laboratory results.');
+      for (const lab of content.labResults) {
+        doc.font('Helvetica-Bold').text(lab.tests).font('Helvetica');
+        if (lab.interpretation) doc.text(lab.interpretation);
+        bullets(lab.results, 'No values recorded.');
+      }
+      if (content.imaging.length === 0) doc.text('No imaging reports.');
+      for (const study of content.imaging) {
+        doc.text(`${study.study}: ${study.impression}`);
+      }
+
+      heading('Medications');
+      bullets(
+        content.medications.map(m => `${m.name} ${m.dosage}, ${m.frequency} for ${m.duration}${m.instructions ? ` (${m.instructions})` : ''}`),
+        'None prescribed.'
+      );
+
+      heading('Instructions');
+      doc.text(content.instructions || 'None given.');
+
+      heading('Follow-up');
+      doc.text(content.followUp
+        ? `${content.followUp.date} at ${content.followUp.time}${content.followUp.department ? `, ${content.followUp.department}` : ''}`
+        : 'No follow-up appointment booked.');
+
+      doc.end();
+    });
+  }
+
+  private toMetadata(summary: any) {
+    return {
+      summaryId: summary.summaryId,
+      encounterId: summary.encounterId,
+      patientId: summary.patientId,
+      version: summary.version,
+      lastSentAt: summary.lastSentAt,
+      generatedAt: summary.updatedAt,
+    };
+  }
+
+  private fileName(summary: { content: unknown; version: number }): string {
+    const straId = (summary.content as DischargeSummaryContent).patient.straId;
+    return `discharge-summary-${straId}-v${summary.version}.pdf`;
+  }
+
+  private formatDate(value: Date | string | null): string {
+    return value ? new Date(value).toISOString().slice(0, 16).replace('T', ' ') : '-';
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,255 @@
+import { db } from '../db';
+import { triageDiscriminators } from '../db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { TriageCalculator } from '../utils/TriageCalculator';
+import type { UrgencyLevel } from '../utils/ScoringEngines';
+
+export interface SymptomCondition {
+  symptom: string;
+  minValue?: number | undefined;
+}
+
+export interface DiscriminatorRule {
+  discriminatorId: string | null;
+  name: string;
+  description?: string | null;
+  symptomConditions: SymptomCondition[];
+  complaintKeywords: string[];
+  minimumUrgency: UrgencyLevel;
+}
+
+export interface DiscriminatorMatch {
+  discriminatorId: string | null;
+  name: string;
+  minimumUrgency: UrgencyLevel;
+  matchedOn: string[];
+}
+
+// Always evaluated alongside the configured rules, so adding a local rule cannot switch these off
+export const DEFAULT_DISCRIMINATORS: DiscriminatorRule[] = [
+  {
+    discriminatorId: null,
+    name: 'Airway compromise',
+    symptomConditions: [{ symptom: 'airway_obstruction' }, { symptom: 'stridor' }],
+    complaintKeywords: ['choking', 'airway obstruction', 'stridor', 'cannot breathe'],
+    minimumUrgency: 'RED',
+  },
+  {
+    discriminatorId: null,
+    name: 'Active seizure',
+    symptomConditions: [{ symptom: 'seizure' }, { symptom: 'active_seizure' }],
+    complaintKeywords: ['seizure', 'convulsion', 'fitting'],
+    minimumUrgency: 'RED',
+  },
+  {
+    discriminatorId: null,
+    name: 'Major burns',
+    symptomConditions: [{ symptom: 'burn_percentage', minValue: 20 }, { symptom: 'facial_burn' }, { symptom: 'inhalation_burn' }],
+    complaintKeywords: ['inhalation burn', 'electrical burn'],
+    minimumUrgency: 'RED',
+  },
+  {
+    discriminatorId: null,
+    name: 'Stroke signs',
+    symptomConditions: [{ symptom: 'stroke_symptoms' }, { symptom: 'focal_neurology' }],
+    complaintKeywords: ['stroke', 'facial droop', 'slurred speech'],
+    minimumUrgency: 'RED',
+  },
+  {
+    discriminatorId: null,
+    name: 'Chest pain',
+    symptomConditions: [{ symptom: 'chest_pain' }],
+    complaintKeywords: ['chest pain'],
+    minimumUrgency: 'YELLOW',
+  },
+  {
+    discriminatorId: null,
+    name: 'Haemorrhage',
+    symptomConditions: [{ symptom: 'uncontrolled_bleeding' }, { symptom: 'gastrointestinal_bleeding' }],
+    complaintKeywords: ['vomiting blood', 'heavy bleeding'],
+    minimumUrgency: 'RED',
+  },
+];
+
+export class DiscriminatorService {
+  async listDiscriminators(includeInactive: boolean = false): Promise<any[]> {
+    try {
+      const rules = await db
+        .select()
+        .from(triageDiscriminators)
+        .where(includeInactive ? undefined : eq(triageDiscriminators.isActive, true))
+        .orderBy(asc(triageDiscriminators.name));
+
+      return rules;
+    } catch (error) {
+      logger.error('Failed to list discriminators:', error);
+      throw new AppError('Failed to list discriminators', 500);
+    }
+  }
+
+  async createDiscriminator(data: {
+    name: string;
+    description?: string | undefined;
+    symptomConditions: SymptomCondition[];
+    complaintKeywords: string[];
+    minimumUrgency: UrgencyLevel;
+    createdBy: string;
+  }): Promise<any> {
+    try {
+      if (data.symptomConditions.length === 0 && data.complaintKeywords.length === 0) {
+        throw new AppError('A discriminator needs at least one symptom condition or complaint keyword', 400);
+      }
+
+      const [rule] = await db
+        .insert(triageDiscriminators)
+        .values({
+          ...data,
+          complaintKeywords: data.complaintKeywords.map(k => k.toLowerCase()),
+        })
+        .returning();
+
+      logger.info(`Triage discriminator created: ${data.name}`, { createdBy: data.createdBy });
+
+      return rule;
+    } catch (error) {
+      logger.error('Failed to create discriminator:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create discriminator', 500);
+    }
+  }
+
+  async updateDiscriminator(discriminatorId: string, data: {
+    name?: string | undefined;
+    description?: string | undefined;
+    symptomConditions?: SymptomCondition[] | undefined;
+    complaintKeywords?: string[] | undefined;
+    minimumUrgency?: UrgencyLevel | undefined;
+    isActive?: boolean | undefined;
+  }): Promise<any> {
+    try {
+      // The create-time requirement of at least one condition must survive partial updates
+      if (data.symptomConditions || data.complaintKeywords) {
+        const [existing] = await db
+          .select({
+            symptomConditions: triageDiscriminators.symptomConditions,
+            complaintKeywords: triageDiscriminators.complaintKeywords,
+          })
+          .from(triageDiscriminators)
+          .where(eq(triageDiscriminators.discriminatorId, discriminatorId));
+
+        if (!existing) {
+          throw new AppError('Discriminator not found', 404);
+        }
+
+        const symptomConditions = data.symptomConditions ?? (existing.symptomConditions as SymptomCondition[] | null) ?? [];
+        const complaintKeywords = data.complaintKeywords ?? (existing.complaintKeywords as string[] | null) ?? [];
+        if (symptomConditions.length === 0 && complaintKeywords.length === 0) {
+          throw new AppError('A discriminator needs at least one symptom condition or complaint keyword', 400);
+        }
+      }
+
+      const [rule] = await db
+        .update(triageDiscriminators)
+        .set({
+          ...data,
+          ...(data.complaintKeywords ? { complaintKeywords: data.complaintKeywords.map(k => k.toLowerCase()) } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(triageDiscriminators.discriminatorId, discriminatorId))
+        .returning();
+
+      if (!rule) {
+        throw new AppError('Discriminator not found', 404);
+      }
+
+      logger.info(`Triage discriminator updated: ${rule.name}`);
+
+      return rule;
+    } catch (error) {
+      logger.error('Failed to update discriminator:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update discriminator', 500);
+    }
+  }
+
+  async deleteDiscriminator(discriminatorId: string): Promise<void> {
+    try {
+      const [rule] = await db
+        .delete(triageDiscriminators)
+        .where(eq(triageDiscriminators.discriminatorId, discriminatorId))
+        .returning();
+
+      if (!rule) {
+        throw new AppError('Discriminator not found', 404);
+      }
+
+      logger.info(`Triage discriminator deleted: ${rule.name}`);
+    } catch (error) {
+      logger.error('Failed to delete discriminator:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to delete discriminator', 500);
+    }
+  }
+
+  // Returns the most urgent matching rule, or null when no discriminator fires
+  async evaluate(symptoms: Record<string, any>, chiefComplaint?: string | undefined): Promise<DiscriminatorMatch | null> {
+    const configured = await this.listDiscriminators();
+    const rules: DiscriminatorRule[] = [
+      ...configured.map(rule => ({
+        discriminatorId: rule.discriminatorId,
+        name: rule.name,
+        symptomConditions: (rule.symptomConditions as SymptomCondition[]) || [],
+        complaintKeywords: (rule.complaintKeywords as string[]) || [],
+        minimumUrgency: rule.minimumUrgency,
+      })),
+      ...DEFAULT_DISCRIMINATORS,
+    ];
+
+    let best: DiscriminatorMatch | null = null;
+
+    for (const rule of rules) {
+      const matchedOn = DiscriminatorService.matchRule(rule, symptoms, chiefComplaint);
+      if (matchedOn.length === 0) continue;
+
+      if (!best || TriageCalculator.urgencyRank(rule.minimumUrgency) > TriageCalculator.urgencyRank(best.minimumUrgency)) {
+        best = {
+          discriminatorId: rule.discriminatorId,
+          name: rule.name,
+          minimumUrgency: rule.minimumUrgency,
+          matchedOn,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  // Only an explicit true or a positive number counts as present; 0, "no" and other strings never trigger a rule
+  static matchRule(rule: DiscriminatorRule, symptoms: Record<string, any>, chiefComplaint?: string | undefined): string[] {
+    const matchedOn: string[] = [];
+
+    for (const condition of rule.symptomConditions) {
+      const value = symptoms[condition.symptom];
+      const numeric = typeof value === 'number' && Number.isFinite(value);
+
+      if (condition.minValue !== undefined) {
+        if (numeric && value >= condition.minValue) {
+          matchedOn.push(`symptom:${condition.symptom}>=${condition.minValue}`);
+        }
+      } else if (value === true || (numeric && value > 0)) {
+        matchedOn.push(`symptom:${condition.symptom}`);
+      }
+    }
+
+    const complaint = chiefComplaint?.toLowerCase() || '';
+    for (const keyword of rule.complaintKeywords) {
+      if (complaint && complaint.includes(keyword.toLowerCase())) {
+        matchedOn.push(`complaint:${keyword}`);
+      }
+    }
+
+    return matchedOn;
+  }
+}
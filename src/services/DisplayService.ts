@@ -0,0 +1,256 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { displayDevices, departments } from '../db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { QueueService } from './QueueService';
+import { RedisService } from './RedisService';
+import { SocketService } from './SocketService';
+
+export interface DisplayFeed {
+  department: { name: string | undefined; code: string | undefined };
+  nowServing: { ticket: string; room: string | null; calledAt: Date | null }[];
+  waiting: { ticket: string; waitBand: string }[];
+  waitingCount: number;
+  updatedAt: string;
+}
+
+interface StreamClient {
+  write: (chunk: string) => any;
+}
+
+const WAIT_BANDS = [
+  { maxMinutes: 15, label: 'Under 15 min' },
+  { maxMinutes: 30, label: '15-30 min' },
+  { maxMinutes: 60, label: '30-60 min' },
+  { maxMinutes: 120, label: '1-2 hours' },
+];
+
+const NOW_SERVING_WINDOW_MS = 30 * 60 * 1000;
+const NOW_SERVING_LIMIT = 6;
+const WAITING_LIMIT = 20;
+const REFRESH_DEBOUNCE_MS = 1000;
+
+export class DisplayService {
+  private queueService: QueueService;
+  private redisService: RedisService;
+  private socketService: SocketService;
+  private streams = new Map<string, Set<StreamClient>>();
+  private pendingRefresh = new Map<string, NodeJS.Timeout>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.queueService = new QueueService();
+    this.redisService = new RedisService();
+    this.socketService = SocketService.getInstance();
+  }
+
+  async registerDevice(data: { departmentId: string; name: string; createdBy: string }): Promise<{ device: any; token: string }> {
+    try {
+      const [department] = await db
+        .select({ departmentId: departments.departmentId })
+        .from(departments)
+        .where(eq(departments.departmentId, data.departmentId));
+
+      if (!department) {
+        throw new AppError('Department not found', 404);
+      }
+
+      // Only the hash is stored; the token is shown once at registration
+      const token = `dsp_${randomBytes(24).toString('hex')}`;
+
+      const [device] = await db
+        .insert(displayDevices)
+        .values({
+          ...data,
+          tokenHash: this.hashToken(token),
+        })
+        .returning({
+          deviceId: displayDevices.deviceId,
+          departmentId: displayDevices.departmentId,
+          name: displayDevices.name,
+          createdAt: displayDevices.createdAt,
+        });
+
+      logger.info(`Display device registered: ${data.name}`, { deviceId: device?.deviceId, createdBy: data.createdBy });
+
+      return { device, token };
+    } catch (error) {
+      logger.error('Failed to register display device:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to register display device', 500);
+    }
+  }
+
+  async listDevices(departmentId?: string): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          deviceId: displayDevices.deviceId,
+          departmentId: displayDevices.departmentId,
+          departmentName: departments.name,
+          name: displayDevices.name,
+          isActive: displayDevices.isActive,
+          lastSeenAt: displayDevices.lastSeenAt,
+          revokedAt: displayDevices.revokedAt,
+          createdAt: displayDevices.createdAt,
+        })
+        .from(displayDevices)
+        .leftJoin(departments, eq(displayDevices.departmentId, departments.departmentId))
+        .where(departmentId ? eq(displayDevices.departmentId, departmentId) : undefined)
+        .orderBy(desc(displayDevices.createdAt));
+    } catch (error) {
+      logger.error('Failed to list display devices:', error);
+      throw new AppError('Failed to list display devices', 500);
+    }
+  }
+
+  async revokeDevice(deviceId: string): Promise<void> {
+    try {
+      const [device] = await db
+        .update(displayDevices)
+        .set({
+          isActive: false,
+          revokedAt: new Date(),
+        })
+        .where(eq(displayDevices.deviceId, deviceId))
+        .returning();
+
+      if (!device) {
+        throw new AppError('Display device not found', 404);
+      }
+
+      logger.info(`Display device revoked: ${device.name}`, { deviceId });
+    } catch (error) {
+      logger.error('Failed to revoke display device:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to revoke display device', 500);
+    }
+  }
+
+  async authenticateDevice(token: string): Promise<{ deviceId: string; departmentId: string; name: string } | null> {
+    const [device] = await db
+      .select({
+        deviceId: displayDevices.deviceId,
+        departmentId: displayDevices.departmentId,
+        name: displayDevices.name,
+      })
+      .from(displayDevices)
+      .where(
+        and(
+          eq(displayDevices.tokenHash, this.hashToken(token)),
+          eq(displayDevices.isActive, true)
+        )
+      );
+
+    if (!device) return null;
+
+    await db
+      .update(displayDevices)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(displayDevices.deviceId, device.deviceId));
+
+    return device;
+  }
+
+  async getDisplayFeed(departmentId: string): Promise<DisplayFeed> {
+    const queue = await this.queueService.getQueueStatus(departmentId);
+    const now = Date.now();
+
+    const nowServing = queue.patients
+      .filter((p: any) => p.status === 'IN_PROGRESS' && p.calledAt && now - new Date(p.calledAt).getTime() <= NOW_SERVING_WINDOW_MS)
+      .sort((a: any, b: any) => new Date(b.calledAt).getTime() - new Date(a.calledAt).getTime())
+      .slice(0, NOW_SERVING_LIMIT)
+      .map((p: any) => ({
+        ticket: this.maskStraId(p.straId),
+        room: p.assignedRoom || null,
+        calledAt: p.calledAt,
+      }));
+
+    // Already in queue order; urgency is deliberately left off a public screen
+    const waitingPatients = queue.patients.filter((p: any) => p.status === 'WAITING');
+    const waiting = waitingPatients
+      .slice(0, WAITING_LIMIT)
+      .map((p: any) => {
+        const elapsed = p.queuedAt ? Math.floor((now - new Date(p.queuedAt).getTime()) / 60000) : 0;
+        return {
+          ticket: this.maskStraId(p.straId),
+          waitBand: this.getWaitBand(Math.max(0, p.waitTime - elapsed)),
+        };
+      });
+
+    const [department] = await db
+      .select({ name: departments.name, code: departments.code })
+      .from(departments)
+      .where(eq(departments.departmentId, departmentId));
+
+    return {
+      department: { name: department?.name, code: department?.code },
+      nowServing,
+      waiting,
+      waitingCount: waitingPatients.length,
+      updatedAt: new Date(now).toISOString(),
+    };
+  }
+
+  addStreamClient(departmentId: string, client: StreamClient): () => void {
+    this.listen();
+
+    const clients = this.streams.get(departmentId) || new Set<StreamClient>();
+    clients.add(client);
+    this.streams.set(departmentId, clients);
+
+    return () => {
+      clients.delete(client);
+      if (clients.size === 0) this.streams.delete(departmentId);
+    };
+  }
+
+  private listen(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.socketService.onEvent((envelope) => {
+      if (envelope.event !== 'queue_update' || !envelope.room.startsWith('department:')) return;
+
+      const departmentId = envelope.room.slice('department:'.length);
+      if (this.streams.has(departmentId)) {
+        this.scheduleRefresh(departmentId);
+      }
+    });
+  }
+
+  // Bursts of queue changes collapse into a single push per department
+  private scheduleRefresh(departmentId: string): void {
+    if (this.pendingRefresh.has(departmentId)) return;
+
+    this.pendingRefresh.set(departmentId, setTimeout(async () => {
+      this.pendingRefresh.delete(departmentId);
+
+      try {
+        await this.redisService.del(`queue:${departmentId}`);
+        const feed = await this.getDisplayFeed(departmentId);
+        const chunk = `event: display_update\ndata: ${JSON.stringify(feed)}\n\n`;
+
+        for (const client of this.streams.get(departmentId) || []) {
+          client.write(chunk);
+        }
+      } catch (error) {
+        logger.error(`Failed to refresh display feed for ${departmentId}:`, error);
+      }
+    }, REFRESH_DEBOUNCE_MS));
+  }
+
+  private maskStraId(straId: string): string {
+    // Keep the last three digits so patients can recognise their own ticket
+    return straId.replace(/\d(?=\d{3})/g, '*');
+  }
+
+  private getWaitBand(minutes: number): string {
+    return WAIT_BANDS.find(band => minutes < band.maxMinutes)?.label || 'Over 2 hours';
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
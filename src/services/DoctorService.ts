@@ -1,18 +1,47 @@
 import { db, sql } from '../db';
 import { 
   doctorAssignments, labOrders, prescriptions, diagnosticImaging,
-  patients, users, departmentQueues, vitalsHistory, triageSessions 
+  patients, users, departmentQueues, vitalsHistory, triageSessions,
+  encounters, referrals
 } from '../db/schema';
 import { eq, and, desc, asc, count, inArray, gte, lte } from 'drizzle-orm';
 import { AppError } from '../middleware/error';
 import { logger } from '../config/logger';
 import { RedisService } from './RedisService';
+import { SocketService } from './SocketService';
+import { EncounterService } from './EncounterService';
+import { QueueService } from './QueueService';
+import { ResourceService } from './ResourceService';
+import type { BedChange } from './ResourceService';
+import { DischargeSummaryService } from './DischargeSummaryService';
+import { AppointmentService } from './AppointmentService';
+import { LabCatalogueService } from './LabCatalogueService';
+import { RadiologyService } from './RadiologyService';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DEFAULT_FOLLOW_UP_TIME = '09:00';
+const FOLLOW_UP_DURATION_MINUTES = 15;
 
 export class DoctorService {
   private redisService: RedisService;
+  private socketService: SocketService;
+  private encounterService: EncounterService;
+  private queueService: QueueService;
+  private resourceService: ResourceService;
+  private dischargeSummaryService: DischargeSummaryService;
+  private appointmentService: AppointmentService;
+  private labCatalogueService: LabCatalogueService;
 
   constructor() {
     this.redisService = new RedisService();
+    this.socketService = SocketService.getInstance();
+    this.encounterService = new EncounterService();
+    this.queueService = new QueueService();
+    this.resourceService = new ResourceService();
+    this.dischargeSummaryService = new DischargeSummaryService();
+    this.appointmentService = new AppointmentService();
+    this.labCatalogueService = new LabCatalogueService();
   }
 
   async getDoctorQueue(doctorId: string): Promise<any[]> {
@@ -61,10 +90,11 @@ export class DoctorService {
     }
   }
 
-  async getPatientDetails(patientId: string): Promise<any> {
+  async getPatientDetails(patientId: string, encounterId?: string): Promise<any> {
     try {
+      // Only the current-visit view is cached; past visits are requested explicitly
       const cacheKey = `patient_details:${patientId}`;
-      const cached = await this.redisService.get(cacheKey);
+      const cached = encounterId ? null : await this.redisService.get(cacheKey);
       
       if (cached) {
         return cached;
@@ -80,11 +110,26 @@ export class DoctorService {
         throw new AppError('Patient not found', 404);
       }
 
+      // Scope clinical data to one visit: the requested one, else the open or most recent
+      const visits = await this.encounterService.getPatientEncounters(patientId);
+      const encounter = encounterId
+        ? visits.find(v => v.encounterId === encounterId)
+        : visits.find(v => v.status === 'OPEN') || visits[0];
+
+      if (encounterId && !encounter) {
+        throw new AppError('Encounter not found for this patient', 404);
+      }
+
       // Get latest triage
       const [latestTriage] = await db
         .select()
         .from(triageSessions)
-        .where(eq(triageSessions.patientId, patientId))
+        .where(
+          and(
+            eq(triageSessions.patientId, patientId),
+            encounter ? eq(triageSessions.encounterId, encounter.encounterId) : undefined
+          )
+        )
         .orderBy(desc(triageSessions.createdAt))
         .limit(1);
 
@@ -92,7 +137,12 @@ export class DoctorService {
       const vitalsHistoryData = await db
         .select()
         .from(vitalsHistory)
-        .where(eq(vitalsHistory.patientId, patientId))
+        .where(
+          and(
+            eq(vitalsHistory.patientId, patientId),
+            encounter ? eq(vitalsHistory.encounterId, encounter.encounterId) : undefined
+          )
+        )
         .orderBy(desc(vitalsHistory.createdAt))
         .limit(10);
 
@@ -110,7 +160,12 @@ export class DoctorService {
         })
         .from(prescriptions)
         .leftJoin(users, eq(prescriptions.doctorId, users.userId))
-        .where(eq(prescriptions.patientId, patientId))
+        .where(
+          and(
+            eq(prescriptions.patientId, patientId),
+            encounter ? eq(prescriptions.encounterId, encounter.encounterId) : undefined
+          )
+        )
         .orderBy(desc(prescriptions.createdAt))
         .limit(10);
 
@@ -120,14 +175,20 @@ export class DoctorService {
           orderId: labOrders.orderId,
           tests: labOrders.tests,
           status: labOrders.status,
-          results: labOrders.results,
+          // Unverified results stay in the lab
+          results: sql<unknown>`CASE WHEN ${labOrders.status} = 'COMPLETED' THEN ${labOrders.results} END`,
           orderedAt: labOrders.orderedAt,
           completedAt: labOrders.completedAt,
           doctorName: sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
         })
         .from(labOrders)
         .leftJoin(users, eq(labOrders.doctorId, users.userId))
-        .where(eq(labOrders.patientId, patientId))
+        .where(
+          and(
+            eq(labOrders.patientId, patientId),
+            encounter ? eq(labOrders.encounterId, encounter.encounterId) : undefined
+          )
+        )
         .orderBy(desc(labOrders.orderedAt))
         .limit(10);
 
@@ -142,19 +203,22 @@ export class DoctorService {
           ...patient,
           age,
         },
+        encounter: encounter || null,
         latestTriage,
         vitalsHistory: vitalsHistoryData,
         prescriptions: prescriptionsData,
         labOrders: labOrdersData,
         summary: {
-          totalVisits: vitalsHistoryData.length,
+          totalVisits: visits.length,
           activePrescriptions: prescriptionsData.filter(p => !p.isDispensed).length,
           pendingTests: labOrdersData.filter(l => l.status !== 'COMPLETED').length,
         },
       };
 
       // Cache for 5 minutes
-      await this.redisService.set(cacheKey, result, 300);
+      if (!encounterId) {
+        await this.redisService.set(cacheKey, result, 300);
+      }
       
       return result;
     } catch (error) {
@@ -169,25 +233,29 @@ export class DoctorService {
     doctorId: string;
     tests: Array<{
       testCode: string;
-      testName: string;
-      specimenType: string;
       urgency: 'ROUTINE' | 'URGENT' | 'STAT';
-      instructions?: string;
+      instructions?: string | undefined;
     }>;
-    notes?: string;
+    notes?: string | undefined;
   }): Promise<any> {
     try {
+      // Panels become their component tests so each gets its own result line
+      const { tests, totalPrice, turnaroundMinutes } = await this.labCatalogueService.expandOrder(data.tests);
+      const orderedAt = new Date();
+
       const [labOrder] = await db
         .insert(labOrders)
         .values({
           patientId: data.patientId,
+          encounterId: await this.encounterService.getOpenEncounterId(data.patientId),
           doctorId: data.doctorId,
-          tests: data.tests,
-          priority: data.tests.some(t => t.urgency === 'STAT') ? 'RED' : 
-                   data.tests.some(t => t.urgency === 'URGENT') ? 'YELLOW' : 'GREEN',
-          isCritical: data.tests.some(t => t.urgency === 'STAT'),
+          tests,
+          priority: tests.some(t => t.urgency === 'STAT') ? 'RED' : 
+                   tests.some(t => t.urgency === 'URGENT') ? 'YELLOW' : 'GREEN',
           notes: data.notes,
-          orderedAt: new Date(),
+          orderedAt,
+          dueAt: new Date(orderedAt.getTime() + turnaroundMinutes * 60000),
+          totalPrice: String(totalPrice),
         })
         .returning();
 
@@ -199,13 +267,14 @@ export class DoctorService {
 
       logger.info(`Lab tests ordered for patient ${data.patientId}`, {
         orderId: labOrder?.orderId,
-        testsCount: data.tests.length,
+        testsCount: tests.length,
         doctorId: data.doctorId,
       });
 
       return labOrder;
     } catch (error) {
       logger.error('Failed to order lab tests:', error);
+      if (error instanceof AppError) throw error;
       throw new AppError('Failed to order lab tests', 500);
     }
   }
@@ -224,11 +293,13 @@ export class DoctorService {
         .insert(diagnosticImaging)
         .values({
           patientId: data.patientId,
+          encounterId: await this.encounterService.getOpenEncounterId(data.patientId),
           doctorId: data.doctorId,
           modality: data.modality,
           bodyPart: data.bodyPart,
           clinicalIndication: data.clinicalIndication,
           priority: data.priority || 'GREEN',
+          accessionNumber: RadiologyService.generateAccessionNumber(),
           notes: data.notes,
         })
         .returning();
@@ -275,6 +346,7 @@ export class DoctorService {
         .insert(prescriptions)
         .values({
           patientId: data.patientId,
+          encounterId: await this.encounterService.getOpenEncounterId(data.patientId),
           doctorId: data.doctorId,
           medications: data.medications,
           diagnosis: data.diagnosis,
@@ -311,15 +383,41 @@ export class DoctorService {
 
   async updatePatientDisposition(patientId: string, data: {
     action: 'ADMIT' | 'DISCHARGE' | 'TRANSFER' | 'REFER';
-    departmentId?: string;
-    ward?: string;
-    bedNumber?: string;
-    dischargeInstructions?: string;
-    followUpDate?: Date;
-    notes?: string;
-  }): Promise<void> {
+    departmentId?: string | undefined;
+    ward?: string | undefined;
+    bedNumber?: string | undefined;
+    bedResourceId?: string | undefined;
+    dischargeInstructions?: string | undefined;
+    followUpDate?: string | undefined;
+    followUpTime?: string | undefined;
+    followUpDepartmentId?: string | undefined;
+    referral?: {
+      destinationFacility: string;
+      destinationFacilityCode?: string | undefined;
+      destinationDepartment?: string | undefined;
+      reason: string;
+      clinicalSummary?: string | undefined;
+      urgency?: 'GREEN' | 'YELLOW' | 'RED' | undefined;
+      transportMode?: string | undefined;
+    } | undefined;
+    sendSummary?: { sms?: boolean | undefined; email?: string | undefined } | undefined;
+    notes?: string | undefined;
+    disposedBy: string;
+  }): Promise<any> {
     try {
-      await db.transaction(async (tx) => {
+      if ((data.action === 'ADMIT' || data.action === 'TRANSFER') && !data.departmentId) {
+        throw new AppError(`A target department is required to ${data.action.toLowerCase()} a patient`, 400);
+      }
+
+      if (data.action === 'REFER' && !data.referral) {
+        throw new AppError('Referral destination and reason are required', 400);
+      }
+
+      const bedChanges: BedChange[] = [];
+
+      const result = await db.transaction(async (tx) => {
+        const encounter = await this.encounterService.openEncounter(patientId, { openedBy: data.disposedBy }, tx);
+
         // Update or end current assignment
         const [currentAssignment] = await tx
           .select()
@@ -365,35 +463,180 @@ export class DoctorService {
             .where(eq(departmentQueues.queueId, queueEntry.queueId));
         }
 
-        // Create new assignment if transferring
-        if (data.action === 'TRANSFER' || data.action === 'ADMIT') {
-          await tx.insert(doctorAssignments).values({
+        const outcome: Record<string, any> = { action: data.action };
+
+        // Leaving the ward or moving to another department frees the current bed
+        const requestsBed = Boolean(data.ward || data.bedNumber || data.bedResourceId);
+        const leavingBed = Boolean(encounter.bedResourceId) && (
+          data.action !== 'TRANSFER' || requestsBed || data.departmentId !== encounter.departmentId
+        );
+        if (leavingBed) {
+          const released = await this.resourceService.releaseBed(tx, encounter.bedResourceId, patientId);
+          if (released) bedChanges.push(released);
+        }
+
+        if (data.action === 'ADMIT' || data.action === 'TRANSFER') {
+          const departmentId = data.departmentId!;
+          let bed: any = null;
+
+          if (data.action === 'ADMIT' || requestsBed) {
+            const allocated = await this.resourceService.allocateBed(tx, patientId, {
+              departmentId,
+              resourceId: data.bedResourceId,
+              ward: data.ward,
+              bedNumber: data.bedNumber,
+            });
+            bedChanges.push(allocated);
+            bed = allocated.resource;
+          }
+
+          // The receiving team picks the patient up from their own queue
+          outcome.queueEntry = await this.queueService.enqueuePatient(tx, {
+            departmentId,
             patientId,
-            doctorId: currentAssignment?.doctorId,
-            status: 'ACTIVE',
-            assignedAt: new Date(),
-            notes: `Transferred to ${data.departmentId}`,
+            encounterId: encounter.encounterId,
+            triageSessionId: queueEntry?.triageSessionId,
+            urgencyLevel: queueEntry?.urgencyLevel || 'GREEN',
+            waitNotes: bed ? `${data.action === 'ADMIT' ? 'Admitted' : 'Transferred'} to bed ${bed.name}` : data.notes,
+            performedBy: data.disposedBy,
+            reason: data.action === 'ADMIT' ? 'Admission' : 'Transfer',
           });
+          outcome.bed = bed;
+
+          await tx
+            .update(encounters)
+            .set({
+              departmentId,
+              ward: data.ward ?? (bed ? bed.location : encounter.ward),
+              bedResourceId: bed ? bed.resourceId : leavingBed ? null : encounter.bedResourceId,
+              updatedAt: new Date(),
+            })
+            .where(eq(encounters.encounterId, encounter.encounterId));
+        }
+
+        if (data.action === 'DISCHARGE') {
+          if (data.followUpDate) {
+            outcome.followUpAppointment = await this.scheduleFollowUp(tx, patientId, {
+              doctorId: data.disposedBy,
+              departmentId: data.followUpDepartmentId || encounter.departmentId,
+              date: data.followUpDate,
+              time: data.followUpTime,
+            });
+          }
+
+          await tx
+            .update(encounters)
+            .set({
+              dischargeInstructions: data.dischargeInstructions,
+              followUpAppointmentId: outcome.followUpAppointment?.appointmentId,
+              bedResourceId: null,
+              updatedAt: new Date(),
+            })
+            .where(eq(encounters.encounterId, encounter.encounterId));
+        }
+
+        if (data.action === 'REFER') {
+          const [referral] = await tx
+            .insert(referrals)
+            .values({
+              patientId,
+              encounterId: encounter.encounterId,
+              referredBy: data.disposedBy,
+              ...data.referral!,
+              urgency: data.referral!.urgency || queueEntry?.urgencyLevel || 'GREEN',
+            })
+            .returning();
+          outcome.referral = referral;
+
+          await tx
+            .update(encounters)
+            .set({ bedResourceId: null, updatedAt: new Date() })
+            .where(eq(encounters.encounterId, encounter.encounterId));
+        }
+
+        // Admission and transfer continue the same visit elsewhere; the others end it
+        if (data.action === 'DISCHARGE' || data.action === 'REFER') {
+          outcome.encounter = await this.encounterService.closeEncounter(encounter.encounterId, {
+            disposition: data.action,
+            closedBy: data.disposedBy,
+            notes: data.notes,
+          }, tx);
+        } else {
+          outcome.encounter = await this.encounterService.getOpenEncounter(patientId, tx);
         }
 
         // Log disposition
         logger.info(`Patient disposition updated: ${patientId}`, {
+          encounterId: encounter.encounterId,
           action: data.action,
           departmentId: data.departmentId,
           doctorId: currentAssignment?.doctorId,
         });
+
+        return outcome;
       });
 
       // Clear caches
+      await Promise.all([
+        this.redisService.del(`patient_details:${patientId}`),
+        this.redisService.del(`doctor_queue:${data.disposedBy}`),
+        this.resourceService.publishBedChanges(bedChanges),
+      ]);
+
       if (data.action === 'DISCHARGE') {
-        await this.redisService.del(`patient_details:${patientId}`);
+        result.dischargeSummary = await this.issueDischargeSummary(
+          result.encounter.encounterId,
+          data.disposedBy,
+          data.sendSummary
+        );
       }
+
+      return result;
     } catch (error) {
       logger.error('Failed to update patient disposition:', error);
+      if (error instanceof AppError) throw error;
       throw new AppError('Failed to update patient disposition', 500);
     }
   }
 
+  // The discharge itself is committed; a summary failure is reported but not fatal
+  private async issueDischargeSummary(
+    encounterId: string,
+    generatedBy: string,
+    sendSummary?: { sms?: boolean | undefined; email?: string | undefined }
+  ): Promise<any> {
+    try {
+      const summary = await this.dischargeSummaryService.generate(encounterId, generatedBy);
+
+      if (sendSummary && (sendSummary.sms || sendSummary.email)) {
+        summary.sent = await this.dischargeSummaryService.send(encounterId, sendSummary);
+      }
+
+      return summary;
+    } catch (error) {
+      logger.error(`Discharge summary could not be issued for encounter ${encounterId}:`, error);
+      return null;
+    }
+  }
+
+  private async scheduleFollowUp(tx: Transaction, patientId: string, data: {
+    doctorId: string;
+    departmentId: string | null;
+    date: string;
+    time?: string | undefined;
+  }): Promise<any> {
+    return await this.appointmentService.createAppointment(tx, {
+      patientId,
+      doctorId: data.doctorId,
+      departmentId: data.departmentId,
+      appointmentDate: data.date,
+      startTime: data.time || DEFAULT_FOLLOW_UP_TIME,
+      durationMinutes: FOLLOW_UP_DURATION_MINUTES,
+      reason: 'Post-discharge follow-up',
+      bookedBy: data.doctorId,
+    });
+  }
+
   async recordVitalSigns(data: {
     patientId: string;
     recordedBy: string;
@@ -417,6 +660,7 @@ export class DoctorService {
         .insert(vitalsHistory)
         .values({
           ...data,
+          encounterId: await this.encounterService.getOpenEncounterId(data.patientId),
           isCritical,
         })
         .returning();
@@ -424,6 +668,10 @@ export class DoctorService {
       // Clear patient details cache
       await this.redisService.del(`patient_details:${data.patientId}`);
 
+      if (isCritical) {
+        await this.broadcastCriticalVitals(data.patientId, vitalRecord);
+      }
+
       logger.info(`Vital signs recorded for patient ${data.patientId}`, {
         vitalId: vitalRecord?.vitalId,
         isCritical,
@@ -577,6 +825,42 @@ export class DoctorService {
     return duplicates;
   }
 
+  private async broadcastCriticalVitals(patientId: string, vitalRecord: any): Promise<void> {
+    const payload = { source: 'vitals', patientId, vitals: vitalRecord };
+
+    this.socketService.broadcastToPatient(patientId, 'critical_vitals', payload);
+
+    // Reach the department and doctor currently looking after the patient
+    const [activeEntry] = await db
+      .select({
+        queueId: departmentQueues.queueId,
+        departmentId: departmentQueues.departmentId,
+        assignedDoctorId: departmentQueues.assignedDoctorId,
+      })
+      .from(departmentQueues)
+      .where(
+        and(
+          eq(departmentQueues.patientId, patientId),
+          inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+        )
+      )
+      .limit(1);
+
+    if (activeEntry) {
+      this.socketService.broadcastToDepartment(activeEntry.departmentId, 'critical_vitals', {
+        ...payload,
+        queueId: activeEntry.queueId,
+      });
+
+      if (activeEntry.assignedDoctorId) {
+        this.socketService.broadcastToDoctor(activeEntry.assignedDoctorId, 'critical_vitals', {
+          ...payload,
+          queueId: activeEntry.queueId,
+        });
+      }
+    }
+  }
+
   private isCriticalVitals(vitals: any): boolean {
     // Critical vital sign thresholds
     if (vitals.oxygenSaturation && vitals.oxygenSaturation < 92) return true;
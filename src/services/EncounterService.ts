@@ -0,0 +1,348 @@
+import { db, sql } from '../db';
+import {
+  encounters, patients, departments, users, auditLogs,
+  triageSessions, vitalsHistory, departmentQueues, urgencyHistory,
+  doctorAssignments, labOrders, diagnosticImaging, prescriptions, referrals
+} from '../db/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type EncounterDisposition = 'ADMIT' | 'DISCHARGE' | 'TRANSFER' | 'REFER';
+
+export interface TimelineEvent {
+  at: Date;
+  type: string;
+  title: string;
+  recordId: string;
+  actor?: string | null;
+  details?: Record<string, any>;
+}
+
+export class EncounterService {
+  async getOpenEncounter(patientId: string, executor: Executor = db): Promise<any | null> {
+    const [encounter] = await executor
+      .select()
+      .from(encounters)
+      .where(and(eq(encounters.patientId, patientId), eq(encounters.status, 'OPEN')))
+      .orderBy(desc(encounters.openedAt))
+      .limit(1);
+
+    return encounter || null;
+  }
+
+  async getOpenEncounterId(patientId: string, executor: Executor = db): Promise<string | null> {
+    const encounter = await this.getOpenEncounter(patientId, executor);
+    return encounter?.encounterId ?? null;
+  }
+
+  // Returns the patient's current visit, starting one if none is open
+  async openEncounter(patientId: string, options: {
+    openedBy?: string | undefined;
+    departmentId?: string | undefined;
+  } = {}, executor: Executor = db): Promise<any> {
+    const existing = await this.getOpenEncounter(patientId, executor);
+
+    if (existing) {
+      if (options.departmentId && existing.departmentId !== options.departmentId) {
+        const [updated] = await executor
+          .update(encounters)
+          .set({ departmentId: options.departmentId, updatedAt: new Date() })
+          .where(eq(encounters.encounterId, existing.encounterId))
+          .returning();
+        return updated;
+      }
+      return existing;
+    }
+
+    // The partial unique index allows one open encounter per patient
+    const [created] = await executor
+      .insert(encounters)
+      .values({
+        patientId,
+        departmentId: options.departmentId,
+        openedBy: options.openedBy,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (created) {
+      logger.info(`Encounter opened for patient ${patientId}`, { encounterId: created.encounterId });
+      return created;
+    }
+
+    return await this.getOpenEncounter(patientId, executor);
+  }
+
+  async moveEncounter(encounterId: string, departmentId: string, executor: Executor = db): Promise<void> {
+    await executor
+      .update(encounters)
+      .set({ departmentId, updatedAt: new Date() })
+      .where(eq(encounters.encounterId, encounterId));
+  }
+
+  async closeEncounter(encounterId: string, data: {
+    disposition: EncounterDisposition;
+    closedBy?: string | undefined;
+    notes?: string | undefined;
+  }, executor: Executor = db): Promise<any> {
+    const [closed] = await executor
+      .update(encounters)
+      .set({
+        status: 'CLOSED',
+        disposition: data.disposition,
+        dispositionNotes: data.notes,
+        closedBy: data.closedBy,
+        closedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(encounters.encounterId, encounterId), eq(encounters.status, 'OPEN')))
+      .returning();
+
+    if (!closed) {
+      throw new AppError('Encounter is not open', 409);
+    }
+
+    logger.info(`Encounter closed: ${encounterId}`, { disposition: data.disposition });
+
+    return closed;
+  }
+
+  async getEncounter(encounterId: string): Promise<any> {
+    try {
+      const [encounter] = await db
+        .select({
+          encounterId: encounters.encounterId,
+          patientId: encounters.patientId,
+          straId: patients.straId,
+          patientName: sql<string>`CONCAT(${patients.firstName}, ' ', ${patients.lastName})`,
+          departmentId: encounters.departmentId,
+          department: departments.name,
+          status: encounters.status,
+          openedAt: encounters.openedAt,
+          disposition: encounters.disposition,
+          dispositionNotes: encounters.dispositionNotes,
+          ward: encounters.ward,
+          bedResourceId: encounters.bedResourceId,
+          dischargeInstructions: encounters.dischargeInstructions,
+          followUpAppointmentId: encounters.followUpAppointmentId,
+          closedAt: encounters.closedAt,
+        })
+        .from(encounters)
+        .leftJoin(patients, eq(encounters.patientId, patients.patientId))
+        .leftJoin(departments, eq(encounters.departmentId, departments.departmentId))
+        .where(eq(encounters.encounterId, encounterId));
+
+      if (!encounter) {
+        throw new AppError('Encounter not found', 404);
+      }
+
+      return encounter;
+    } catch (error) {
+      logger.error('Failed to get encounter:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get encounter', 500);
+    }
+  }
+
+  async getPatientEncounters(patientId: string): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          encounterId: encounters.encounterId,
+          department: departments.name,
+          status: encounters.status,
+          openedAt: encounters.openedAt,
+          disposition: encounters.disposition,
+          closedAt: encounters.closedAt,
+        })
+        .from(encounters)
+        .leftJoin(departments, eq(encounters.departmentId, departments.departmentId))
+        .where(eq(encounters.patientId, patientId))
+        .orderBy(desc(encounters.openedAt));
+    } catch (error) {
+      logger.error('Failed to get patient encounters:', error);
+      throw new AppError('Failed to get patient encounters', 500);
+    }
+  }
+
+  async getTimeline(encounterId: string): Promise<{ encounter: any; events: TimelineEvent[] }> {
+    try {
+      const encounter = await this.getEncounter(encounterId);
+      const staffName = sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`;
+
+      const [triage, vitals, queue, assignments, labs, imaging, scripts, referred] = await Promise.all([
+        db.select({ session: triageSessions, actor: staffName })
+          .from(triageSessions)
+          .leftJoin(users, eq(triageSessions.nurseId, users.userId))
+          .where(eq(triageSessions.encounterId, encounterId)),
+        db.select({ vital: vitalsHistory, actor: staffName })
+          .from(vitalsHistory)
+          .leftJoin(users, eq(vitalsHistory.recordedBy, users.userId))
+          .where(eq(vitalsHistory.encounterId, encounterId)),
+        db.select({ entry: departmentQueues, department: departments.name })
+          .from(departmentQueues)
+          .leftJoin(departments, eq(departmentQueues.departmentId, departments.departmentId))
+          .where(eq(departmentQueues.encounterId, encounterId)),
+        db.select({ assignment: doctorAssignments, actor: staffName })
+          .from(doctorAssignments)
+          .leftJoin(users, eq(doctorAssignments.doctorId, users.userId))
+          .where(eq(doctorAssignments.encounterId, encounterId)),
+        db.select({ order: labOrders, actor: staffName })
+          .from(labOrders)
+          .leftJoin(users, eq(labOrders.doctorId, users.userId))
+          .where(eq(labOrders.encounterId, encounterId)),
+        db.select({ order: diagnosticImaging, actor: staffName })
+          .from(diagnosticImaging)
+          .leftJoin(users, eq(diagnosticImaging.doctorId, users.userId))
+          .where(eq(diagnosticImaging.encounterId, encounterId)),
+        db.select({ prescription: prescriptions, actor: staffName })
+          .from(prescriptions)
+          .leftJoin(users, eq(prescriptions.doctorId, users.userId))
+          .where(eq(prescriptions.encounterId, encounterId)),
+        db.select({ referral: referrals, actor: staffName })
+          .from(referrals)
+          .leftJoin(users, eq(referrals.referredBy, users.userId))
+          .where(eq(referrals.encounterId, encounterId)),
+      ]);
+
+      const queueIds = queue.map(q => q.entry.queueId);
+      const [urgencyChanges, queueActions] = queueIds.length > 0
+        ? await Promise.all([
+            db.select({ change: urgencyHistory, actor: staffName })
+              .from(urgencyHistory)
+              .leftJoin(users, eq(urgencyHistory.changedBy, users.userId))
+              .where(inArray(urgencyHistory.queueId, queueIds)),
+            db.select({ log: auditLogs, actor: staffName })
+              .from(auditLogs)
+              .leftJoin(users, eq(auditLogs.userId, users.userId))
+              .where(and(eq(auditLogs.entityType, 'department_queue'), inArray(auditLogs.entityId, queueIds))),
+          ])
+        : [[], []];
+
+      const events: TimelineEvent[] = [];
+      const push = (at: Date | null | undefined, event: Omit<TimelineEvent, 'at'>) => {
+        if (at) events.push({ at, ...event });
+      };
+
+      push(encounter.openedAt, { type: 'ENCOUNTER_OPENED', title: 'Visit opened', recordId: encounterId });
+
+      for (const { session, actor } of triage) {
+        push(session.createdAt, {
+          type: session.parentSessionId ? 'RETRIAGE' : 'TRIAGE',
+          title: `${session.parentSessionId ? 'Re-triaged' : 'Triaged'} ${session.urgencyLevel} (${session.scoringAlgorithm} ${session.triageScore})`,
+          recordId: session.sessionId,
+          actor,
+          details: { chiefComplaint: session.chiefComplaint, recommendedDept: session.recommendedDept },
+        });
+      }
+
+      for (const { vital, actor } of vitals) {
+        push(vital.createdAt, {
+          type: 'VITALS',
+          title: vital.isCritical ? 'Critical vital signs recorded' : 'Vital signs recorded',
+          recordId: vital.vitalId,
+          actor,
+          details: { isCritical: vital.isCritical, notes: vital.notes },
+        });
+      }
+
+      for (const { entry, department } of queue) {
+        push(entry.createdAt, { type: 'QUEUED', title: `Queued in ${department}`, recordId: entry.queueId });
+        push(entry.calledAt, {
+          type: 'CALLED',
+          title: `Called${entry.assignedRoom ? ` to ${entry.assignedRoom}` : ''}`,
+          recordId: entry.queueId,
+        });
+        push(entry.completedAt, { type: 'QUEUE_COMPLETED', title: `Seen in ${department}`, recordId: entry.queueId });
+      }
+
+      for (const { change, actor } of urgencyChanges) {
+        push(change.createdAt, {
+          type: 'URGENCY_CHANGED',
+          title: `Urgency ${change.previousUrgency} → ${change.newUrgency}`,
+          recordId: change.historyId,
+          actor,
+          details: { reason: change.reason },
+        });
+      }
+
+      for (const { log, actor } of queueActions) {
+        push(log.createdAt, {
+          type: 'QUEUE_ACTION',
+          title: log.action.replace(/_/g, ' ').toLowerCase(),
+          recordId: log.entityId!,
+          actor,
+          details: { reason: log.details },
+        });
+      }
+
+      for (const { assignment, actor } of assignments) {
+        push(assignment.assignedAt, { type: 'ASSIGNED', title: 'Doctor assigned', recordId: assignment.assignmentId, actor });
+        push(assignment.completedAt, {
+          type: 'ASSIGNMENT_ENDED',
+          title: `Doctor assignment ${assignment.status.toLowerCase()}`,
+          recordId: assignment.assignmentId,
+          actor,
+        });
+      }
+
+      for (const { order, actor } of labs) {
+        const tests = (order.tests as Array<{ testName: string }>).map(t => t.testName).join(', ');
+        push(order.orderedAt, { type: 'LAB_ORDERED', title: `Lab ordered: ${tests}`, recordId: order.orderId, actor });
+        push(order.collectedAt, { type: 'LAB_COLLECTED', title: 'Specimen collected', recordId: order.orderId });
+        push(order.completedAt, {
+          type: 'LAB_COMPLETED',
+          title: order.isCritical ? 'Lab results available (critical)' : 'Lab results available',
+          recordId: order.orderId,
+        });
+      }
+
+      for (const { order, actor } of imaging) {
+        const study = `${order.modality} ${order.bodyPart}`;
+        push(order.createdAt, { type: 'IMAGING_ORDERED', title: `Imaging ordered: ${study}`, recordId: order.imagingId, actor });
+        push(order.scheduledTime, { type: 'IMAGING_SCHEDULED', title: `Imaging scheduled: ${study}`, recordId: order.imagingId });
+        push(order.completedAt, { type: 'IMAGING_COMPLETED', title: `Imaging completed: ${study}`, recordId: order.imagingId });
+        push(order.signedAt, { type: 'IMAGING_REPORTED', title: `Imaging report signed: ${study}`, recordId: order.imagingId });
+      }
+
+      for (const { prescription, actor } of scripts) {
+        push(prescription.createdAt, {
+          type: 'PRESCRIBED',
+          title: `Prescription issued${prescription.diagnosis ? ` for ${prescription.diagnosis}` : ''}`,
+          recordId: prescription.prescriptionId,
+          actor,
+        });
+        push(prescription.dispensedAt, { type: 'DISPENSED', title: 'Prescription dispensed', recordId: prescription.prescriptionId });
+      }
+
+      for (const { referral, actor } of referred) {
+        push(referral.createdAt, {
+          type: 'REFERRED',
+          title: `Referred to ${referral.destinationFacility}`,
+          recordId: referral.referralId,
+          actor,
+          details: { reason: referral.reason, urgency: referral.urgency },
+        });
+      }
+
+      push(encounter.closedAt, {
+        type: 'ENCOUNTER_CLOSED',
+        title: `Visit closed: ${encounter.disposition?.toLowerCase()}`,
+        recordId: encounterId,
+        details: { notes: encounter.dispositionNotes },
+      });
+
+      events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+      return { encounter, events };
+    } catch (error) {
+      logger.error('Failed to build encounter timeline:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to build encounter timeline', 500);
+    }
+  }
+}
@@ -0,0 +1,525 @@
+import { db, sql } from '../db';
+import {
+  handoverReports, handoverAcknowledgements, departments, departmentQueues, patients, triageSessions,
+  encounters, labOrders, diagnosticImaging, vitalsHistory, resources, shifts, users
+} from '../db/schema';
+import { eq, and, gt, lte, gte, asc, desc, inArray, notInArray } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { NotificationService } from './NotificationService';
+import { SocketService } from './SocketService';
+
+export interface HandoverSummary {
+  waiting: number;
+  inProgress: number;
+  red: number;
+  patientsSeen: number;
+  pendingLabs: number;
+  pendingImaging: number;
+  criticalVitals: number;
+  allocatedResources: number;
+}
+
+export interface HandoverContent {
+  summary: HandoverSummary;
+  patients: any[];
+  pendingLabs: any[];
+  pendingImaging: any[];
+  criticalVitals: any[];
+  resources: any[];
+}
+
+// Drafts are prepared this long before shift end so the outgoing team can add notes
+const HANDOVER_LEAD_MINUTES = 30;
+const DEFAULT_SHIFT_HOURS = 12;
+
+export class HandoverService {
+  private notificationService: NotificationService;
+  private socketService: SocketService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.socketService = SocketService.getInstance();
+  }
+
+  // Scheduled job: drafts a report for each rostered shift change that is coming up
+  async runCheck(): Promise<{ generated: number }> {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + HANDOVER_LEAD_MINUTES * 60000);
+
+    const endings = await db
+      .select({
+        departmentId: shifts.departmentId,
+        endsAt: shifts.endsAt,
+        startsAt: sql<Date>`MIN(${shifts.startsAt})`.mapWith(shifts.startsAt),
+      })
+      .from(shifts)
+      .where(
+        and(
+          eq(shifts.status, 'SCHEDULED'),
+          eq(shifts.isOnCall, false),
+          gt(shifts.endsAt, now),
+          lte(shifts.endsAt, horizon)
+        )
+      )
+      .groupBy(shifts.departmentId, shifts.endsAt);
+
+    let generated = 0;
+
+    for (const ending of endings) {
+      const [existing] = await db
+        .select({ handoverId: handoverReports.handoverId })
+        .from(handoverReports)
+        .where(and(eq(handoverReports.departmentId, ending.departmentId), eq(handoverReports.shiftEnd, ending.endsAt)));
+
+      if (existing) continue;
+
+      try {
+        await this.generateHandover(ending.departmentId, { shiftStart: ending.startsAt, shiftEnd: ending.endsAt });
+        generated++;
+      } catch (error) {
+        logger.error(`Failed to prepare handover for department ${ending.departmentId}:`, error);
+      }
+    }
+
+    return { generated };
+  }
+
+  // Creates the department's report for a shift end, or refreshes it while still a draft
+  async generateHandover(departmentId: string, period: {
+    shiftStart?: Date | undefined;
+    shiftEnd?: Date | undefined;
+  } = {}): Promise<any> {
+    try {
+      const [department] = await db
+        .select({ departmentId: departments.departmentId, name: departments.name })
+        .from(departments)
+        .where(eq(departments.departmentId, departmentId));
+
+      if (!department) {
+        throw new AppError('Department not found', 404);
+      }
+
+      const { shiftStart, shiftEnd } = await this.resolvePeriod(departmentId, period);
+      const content = await this.buildContent(departmentId, shiftStart, shiftEnd);
+
+      const [existing] = await db
+        .select()
+        .from(handoverReports)
+        .where(and(eq(handoverReports.departmentId, departmentId), eq(handoverReports.shiftEnd, shiftEnd)));
+
+      if (existing && existing.status !== 'DRAFT') {
+        throw new AppError('Handover for this shift has already been submitted', 409);
+      }
+
+      const [report] = existing
+        ? await db
+          .update(handoverReports)
+          .set({ content, generatedAt: new Date(), updatedAt: new Date() })
+          .where(eq(handoverReports.handoverId, existing.handoverId))
+          .returning()
+        : await db
+          .insert(handoverReports)
+          .values({ departmentId, shiftStart, shiftEnd, content })
+          .returning();
+
+      this.socketService.broadcastToDepartment(departmentId, 'handover_update', {
+        action: existing ? 'refreshed' : 'draft_ready',
+        handoverId: report!.handoverId,
+        shiftEnd,
+      });
+
+      logger.info(`Handover ${existing ? 'refreshed' : 'prepared'} for ${department.name}`, {
+        handoverId: report!.handoverId,
+        ...content.summary,
+      });
+
+      return report;
+    } catch (error) {
+      logger.error('Failed to generate handover:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate handover', 500);
+    }
+  }
+
+  async updateNotes(handoverId: string, data: {
+    notes: string;
+    submit?: boolean | undefined;
+    userId: string;
+  }): Promise<any> {
+    try {
+      const report = await this.getReport(handoverId);
+
+      if (report.status !== 'DRAFT') {
+        throw new AppError('Handover has already been submitted', 409);
+      }
+
+      // Submitting freezes the report, so take a last look at the live data first
+      const content = data.submit
+        ? await this.buildContent(report.departmentId, report.shiftStart, report.shiftEnd)
+        : report.content;
+
+      const [updated] = await db
+        .update(handoverReports)
+        .set({
+          outgoingNotes: data.notes,
+          content,
+          ...(data.submit ? {
+            status: 'SUBMITTED',
+            submittedBy: data.userId,
+            submittedAt: new Date(),
+            generatedAt: new Date(),
+          } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(handoverReports.handoverId, handoverId))
+        .returning();
+
+      if (data.submit) {
+        const [department] = await db
+          .select({ name: departments.name })
+          .from(departments)
+          .where(eq(departments.departmentId, report.departmentId));
+
+        await this.notificationService.sendShiftChangeSummary(data.userId, {
+          handoverId,
+          departmentId: report.departmentId,
+          departmentName: department?.name || 'Department',
+          shiftEnd: report.shiftEnd,
+          summary: (content as HandoverContent).summary,
+          outgoingNotes: data.notes,
+        });
+
+        this.socketService.broadcastToDepartment(report.departmentId, 'handover_update', {
+          action: 'submitted',
+          handoverId,
+        });
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update handover notes:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update handover notes', 500);
+    }
+  }
+
+  async acknowledge(handoverId: string, data: {
+    userId: string;
+    notes?: string | undefined;
+  }): Promise<any> {
+    try {
+      const report = await this.getReport(handoverId);
+
+      if (report.status === 'DRAFT') {
+        throw new AppError('Handover has not been submitted yet', 409);
+      }
+
+      if (report.submittedBy === data.userId) {
+        throw new AppError('The outgoing clinician cannot acknowledge their own handover', 400);
+      }
+
+      const [acknowledgement] = await db
+        .insert(handoverAcknowledgements)
+        .values({ handoverId, userId: data.userId, notes: data.notes })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!acknowledgement) {
+        throw new AppError('You have already acknowledged this handover', 409);
+      }
+
+      if (report.status !== 'ACKNOWLEDGED') {
+        await db
+          .update(handoverReports)
+          .set({ status: 'ACKNOWLEDGED', updatedAt: new Date() })
+          .where(eq(handoverReports.handoverId, handoverId));
+      }
+
+      this.socketService.broadcastToDepartment(report.departmentId, 'handover_update', {
+        action: 'acknowledged',
+        handoverId,
+        userId: data.userId,
+      });
+
+      return await this.getHandover(handoverId);
+    } catch (error) {
+      logger.error('Failed to acknowledge handover:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to acknowledge handover', 500);
+    }
+  }
+
+  async getHandover(handoverId: string): Promise<any> {
+    try {
+      const report = await this.getReport(handoverId);
+
+      const [department, acknowledgements] = await Promise.all([
+        db
+          .select({ name: departments.name })
+          .from(departments)
+          .where(eq(departments.departmentId, report.departmentId))
+          .then(rows => rows[0]),
+        db
+          .select({
+            userId: handoverAcknowledgements.userId,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            role: users.role,
+            notes: handoverAcknowledgements.notes,
+            acknowledgedAt: handoverAcknowledgements.acknowledgedAt,
+          })
+          .from(handoverAcknowledgements)
+          .innerJoin(users, eq(handoverAcknowledgements.userId, users.userId))
+          .where(eq(handoverAcknowledgements.handoverId, handoverId))
+          .orderBy(asc(handoverAcknowledgements.acknowledgedAt)),
+      ]);
+
+      return {
+        ...report,
+        departmentName: department?.name,
+        acknowledgements,
+      };
+    } catch (error) {
+      logger.error('Failed to fetch handover:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch handover', 500);
+    }
+  }
+
+  async getHandovers(filters: {
+    departmentId?: string | undefined;
+    status?: string | undefined;
+    limit?: number | undefined;
+  }): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          handoverId: handoverReports.handoverId,
+          departmentId: handoverReports.departmentId,
+          departmentName: departments.name,
+          shiftStart: handoverReports.shiftStart,
+          shiftEnd: handoverReports.shiftEnd,
+          status: handoverReports.status,
+          summary: sql<HandoverSummary>`${handoverReports.content} -> 'summary'`,
+          submittedAt: handoverReports.submittedAt,
+          generatedAt: handoverReports.generatedAt,
+        })
+        .from(handoverReports)
+        .innerJoin(departments, eq(handoverReports.departmentId, departments.departmentId))
+        .where(
+          and(
+            filters.departmentId ? eq(handoverReports.departmentId, filters.departmentId) : undefined,
+            filters.status ? eq(handoverReports.status, filters.status) : undefined
+          )
+        )
+        .orderBy(desc(handoverReports.shiftEnd))
+        .limit(filters.limit || 50);
+    } catch (error) {
+      logger.error('Failed to fetch handovers:', error);
+      throw new AppError('Failed to fetch handovers', 500);
+    }
+  }
+
+  private async getReport(handoverId: string): Promise<any> {
+    const [report] = await db
+      .select()
+      .from(handoverReports)
+      .where(eq(handoverReports.handoverId, handoverId));
+
+    if (!report) {
+      throw new AppError('Handover not found', 404);
+    }
+
+    return report;
+  }
+
+  // Without explicit times, the period is the department's current rostered shift
+  private async resolvePeriod(departmentId: string, period: {
+    shiftStart?: Date | undefined;
+    shiftEnd?: Date | undefined;
+  }): Promise<{ shiftStart: Date; shiftEnd: Date }> {
+    if (period.shiftStart && period.shiftEnd) {
+      return { shiftStart: period.shiftStart, shiftEnd: period.shiftEnd };
+    }
+
+    const now = new Date();
+    const [current] = await db
+      .select({ startsAt: shifts.startsAt, endsAt: shifts.endsAt })
+      .from(shifts)
+      .where(
+        and(
+          eq(shifts.departmentId, departmentId),
+          eq(shifts.status, 'SCHEDULED'),
+          eq(shifts.isOnCall, false),
+          lte(shifts.startsAt, now),
+          gt(shifts.endsAt, now)
+        )
+      )
+      .orderBy(asc(shifts.endsAt))
+      .limit(1);
+
+    const shiftEnd = period.shiftEnd || current?.endsAt || now;
+    const shiftStart = period.shiftStart
+      || current?.startsAt
+      || new Date(shiftEnd.getTime() - DEFAULT_SHIFT_HOURS * 3600000);
+
+    return { shiftStart, shiftEnd };
+  }
+
+  private async buildContent(departmentId: string, shiftStart: Date, shiftEnd: Date): Promise<HandoverContent> {
+    const now = new Date();
+
+    // Visits currently held by the department: queued patients and admissions
+    const openEncounters = db
+      .select({ encounterId: encounters.encounterId })
+      .from(encounters)
+      .where(and(eq(encounters.departmentId, departmentId), eq(encounters.status, 'OPEN')));
+
+    const [queue, pendingLabs, pendingImaging, criticalVitals, allocated, [seen]] = await Promise.all([
+      db
+        .select({
+          queueId: departmentQueues.queueId,
+          patientId: departmentQueues.patientId,
+          straId: patients.straId,
+          patientName: sql<string>`${patients.firstName} || ' ' || ${patients.lastName}`,
+          urgencyLevel: departmentQueues.urgencyLevel,
+          status: departmentQueues.status,
+          positionInQueue: departmentQueues.positionInQueue,
+          chiefComplaint: triageSessions.chiefComplaint,
+          queuedAt: departmentQueues.createdAt,
+        })
+        .from(departmentQueues)
+        .innerJoin(patients, eq(departmentQueues.patientId, patients.patientId))
+        .leftJoin(triageSessions, eq(departmentQueues.triageSessionId, triageSessions.sessionId))
+        .where(
+          and(
+            eq(departmentQueues.departmentId, departmentId),
+            inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+          )
+        )
+        .orderBy(
+          sql`CASE ${departmentQueues.urgencyLevel} WHEN 'RED' THEN 1 WHEN 'YELLOW' THEN 2 ELSE 3 END`,
+          asc(departmentQueues.positionInQueue)
+        ),
+      db
+        .select({
+          orderId: labOrders.orderId,
+          patientId: labOrders.patientId,
+          straId: patients.straId,
+          tests: labOrders.tests,
+          priority: labOrders.priority,
+          status: labOrders.status,
+          orderedAt: labOrders.orderedAt,
+        })
+        .from(labOrders)
+        .innerJoin(patients, eq(labOrders.patientId, patients.patientId))
+        .where(
+          and(
+            inArray(labOrders.encounterId, openEncounters),
+            inArray(labOrders.status, ['PENDING', 'COLLECTED', 'IN_PROGRESS'])
+          )
+        )
+        .orderBy(asc(labOrders.orderedAt)),
+      db
+        .select({
+          imagingId: diagnosticImaging.imagingId,
+          patientId: diagnosticImaging.patientId,
+          straId: patients.straId,
+          modality: diagnosticImaging.modality,
+          bodyPart: diagnosticImaging.bodyPart,
+          priority: diagnosticImaging.priority,
+          status: diagnosticImaging.status,
+          scheduledTime: diagnosticImaging.scheduledTime,
+          orderedAt: diagnosticImaging.createdAt,
+        })
+        .from(diagnosticImaging)
+        .innerJoin(patients, eq(diagnosticImaging.patientId, patients.patientId))
+        .where(
+          and(
+            inArray(diagnosticImaging.encounterId, openEncounters),
+            notInArray(diagnosticImaging.status, ['FINAL', 'CANCELLED'])
+          )
+        )
+        .orderBy(asc(diagnosticImaging.createdAt)),
+      db
+        .select({
+          vitalId: vitalsHistory.vitalId,
+          patientId: vitalsHistory.patientId,
+          straId: patients.straId,
+          recordedAt: vitalsHistory.createdAt,
+          temperature: vitalsHistory.temperature,
+          systolicBp: vitalsHistory.systolicBp,
+          diastolicBp: vitalsHistory.diastolicBp,
+          heartRate: vitalsHistory.heartRate,
+          respiratoryRate: vitalsHistory.respiratoryRate,
+          oxygenSaturation: vitalsHistory.oxygenSaturation,
+          notes: vitalsHistory.notes,
+        })
+        .from(vitalsHistory)
+        .innerJoin(patients, eq(vitalsHistory.patientId, patients.patientId))
+        .innerJoin(encounters, eq(vitalsHistory.encounterId, encounters.encounterId))
+        .where(
+          and(
+            eq(encounters.departmentId, departmentId),
+            eq(vitalsHistory.isCritical, true),
+            gte(vitalsHistory.createdAt, shiftStart),
+            lte(vitalsHistory.createdAt, shiftEnd < now ? shiftEnd : now)
+          )
+        )
+        .orderBy(desc(vitalsHistory.createdAt)),
+      db
+        .select({
+          resourceId: resources.resourceId,
+          name: resources.name,
+          resourceType: resources.resourceType,
+          status: resources.status,
+          location: resources.location,
+          straId: patients.straId,
+        })
+        .from(resources)
+        .leftJoin(patients, eq(resources.currentPatientId, patients.patientId))
+        .where(
+          and(
+            eq(resources.departmentId, departmentId),
+            inArray(resources.status, ['OCCUPIED', 'RESERVED'])
+          )
+        )
+        .orderBy(asc(resources.resourceType), asc(resources.name)),
+      db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(departmentQueues)
+        .where(
+          and(
+            eq(departmentQueues.departmentId, departmentId),
+            eq(departmentQueues.status, 'COMPLETED'),
+            gte(departmentQueues.updatedAt, shiftStart),
+            lte(departmentQueues.updatedAt, shiftEnd)
+          )
+        ),
+    ]);
+
+    const patientList = queue.map(entry => ({
+      ...entry,
+      waitingMinutes: Math.round((now.getTime() - entry.queuedAt.getTime()) / 60000),
+    }));
+
+    return {
+      summary: {
+        waiting: queue.filter(e => e.status === 'WAITING').length,
+        inProgress: queue.filter(e => e.status === 'IN_PROGRESS').length,
+        red: queue.filter(e => e.urgencyLevel === 'RED').length,
+        patientsSeen: Number(seen?.count || 0),
+        pendingLabs: pendingLabs.length,
+        pendingImaging: pendingImaging.length,
+        criticalVitals: criticalVitals.length,
+        allocatedResources: allocated.length,
+      },
+      patients: patientList,
+      pendingLabs,
+      pendingImaging,
+      criticalVitals,
+      resources: allocated,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { logger } from '../config/logger';
+import { NotificationService } from './NotificationService';
+import { PatientLookupService } from './PatientLookupService';
+import { AppointmentReminderService, type ReminderResponse } from './AppointmentReminderService';
+import { StraId } from '../utils/StraId';
+
+type SmsHandler = (from: string, args: string[]) => Promise<string>;
+
+const HELP_MESSAGE = 'Send POS followed by your STRA-ID (e.g. POS STRA-000123) to check your queue position, '
+  + 'or YES / NO followed by your STRA-ID to confirm or cancel your next appointment.';
+
+export class InboundSmsService {
+  private notificationService: NotificationService;
+  private patientLookupService: PatientLookupService;
+  private appointmentReminderService: AppointmentReminderService;
+  private handlers: Record<string, SmsHandler>;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.patientLookupService = new PatientLookupService();
+    this.appointmentReminderService = new AppointmentReminderService();
+    this.handlers = {
+      POS: (from, args) => this.handlePosition(from, args),
+      YES: (from, args) => this.handleAppointmentReply(from, args, 'CONFIRMED'),
+      NO: (from, args) => this.handleAppointmentReply(from, args, 'CANCELLED'),
+    };
+  }
+
+  async handleMessage(data: { from: string; text: string }): Promise<string> {
+    const [keyword = '', ...args] = data.text.trim().split(/\s+/);
+    const handler = this.handlers[keyword.toUpperCase()];
+
+    let reply: string;
+    try {
+      reply = handler ? await handler(data.from, args) : HELP_MESSAGE;
+    } catch (error) {
+      logger.error('Failed to handle inbound SMS:', error);
+      reply = 'Sorry, we could not process your request. Please ask at the front desk.';
+    }
+
+    await this.notificationService.sendSMS(data.from, reply);
+
+    logger.info('Inbound SMS handled', { from: data.from, keyword: keyword.toUpperCase() });
+
+    return reply;
+  }
+
+  private async handlePosition(from: string, args: string[]): Promise<string> {
+    const patient = await this.findPatientForSender(from, args[0]);
+    if (typeof patient === 'string') return patient;
+
+    return await this.patientLookupService.getQueuePositionMessage(patient);
+  }
+
+  private async handleAppointmentReply(from: string, args: string[], response: ReminderResponse): Promise<string> {
+    const patient = await this.findPatientForSender(from, args[0]);
+    if (typeof patient === 'string') return patient;
+
+    return await this.appointmentReminderService.handleReply(patient.patientId, response);
+  }
+
+  private async findPatientForSender(from: string, straId: string | undefined): Promise<any | string> {
+    if (!straId) return HELP_MESSAGE;
+
+    if (!StraId.isValid(straId)) {
+      return `${StraId.normalize(straId)} is not a valid STRA-ID. Please check the number on your card and try again.`;
+    }
+
+    const patient = await this.patientLookupService.findByStraId(straId);
+
+    // SMS carries no date of birth, so only the registered phone may ask
+    if (!patient || !this.patientLookupService.phoneMatches(from, patient.phoneNumber)) {
+      return 'We could not find a patient with that ID registered to this phone number.';
+    }
+
+    return patient;
+  }
+}
@@ -0,0 +1,443 @@
+import { db } from '../db';
+import { labTests, labPanelComponents, auditLogs } from '../db/schema';
+import { eq, and, or, ilike, asc, inArray } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Urgency = 'ROUTINE' | 'URGENT' | 'STAT';
+
+export interface ReferenceRange {
+  sex?: 'Male' | 'Female' | undefined;
+  minAgeYears?: number | undefined;
+  maxAgeYears?: number | undefined;
+  low?: number | undefined;
+  high?: number | undefined;
+  text?: string | undefined;
+}
+
+// One line on a lab order after panel expansion
+export interface OrderedTest {
+  testCode: string;
+  testName: string;
+  specimenType: string;
+  container: string;
+  unit: string | null;
+  urgency: Urgency;
+  instructions?: string | undefined;
+  panelCode: string | null;
+  turnaroundMinutes: number;
+  price: number | null;
+}
+
+export interface CatalogueEntryInput {
+  code: string;
+  name: string;
+  isPanel?: boolean | undefined;
+  specimenType: string;
+  container: string;
+  unit?: string | null | undefined;
+  referenceRanges?: ReferenceRange[] | undefined;
+  price: number;
+  turnaroundMinutes: number;
+  components?: string[] | undefined;
+}
+
+const URGENCY_RANK: Record<Urgency, number> = { ROUTINE: 0, URGENT: 1, STAT: 2 };
+
+// Starter catalogue; installed on request and then maintained through the API
+const DEFAULT_CATALOGUE: CatalogueEntryInput[] = [
+  { code: 'HB', name: 'Haemoglobin', specimenType: 'Whole blood', container: 'EDTA (purple)', unit: 'g/dL', price: 300, turnaroundMinutes: 60,
+    referenceRanges: [{ maxAgeYears: 12, low: 11, high: 14.5 }, { sex: 'Male', minAgeYears: 12, low: 13, high: 17 }, { sex: 'Female', minAgeYears: 12, low: 12, high: 15 }] },
+  { code: 'HCT', name: 'Haematocrit', specimenType: 'Whole blood', container: 'EDTA (purple)', unit: '%', price: 300, turnaroundMinutes: 60,
+    referenceRanges: [{ sex: 'Male', low: 40, high: 50 }, { sex: 'Female', low: 36, high: 46 }] },
+  { code: 'WBC', name: 'White cell count', specimenType: 'Whole blood', container: 'EDTA (purple)', unit: 'x10^9/L', price: 300, turnaroundMinutes: 60,
+    referenceRanges: [{ low: 4, high: 11 }] },
+  { code: 'PLT', name: 'Platelets', specimenType: 'Whole blood', container: 'EDTA (purple)', unit: 'x10^9/L', price: 300, turnaroundMinutes: 60,
+    referenceRanges: [{ low: 150, high: 400 }] },
+  { code: 'NA', name: 'Sodium', specimenType: 'Serum', container: 'SST (gold)', unit: 'mmol/L', price: 400, turnaroundMinutes: 120,
+    referenceRanges: [{ low: 135, high: 145 }] },
+  { code: 'K', name: 'Potassium', specimenType: 'Serum', container: 'SST (gold)', unit: 'mmol/L', price: 400, turnaroundMinutes: 120,
+    referenceRanges: [{ low: 3.5, high: 5.1 }] },
+  { code: 'UREA', name: 'Urea', specimenType: 'Serum', container: 'SST (gold)', unit: 'mmol/L', price: 400, turnaroundMinutes: 120,
+    referenceRanges: [{ low: 2.5, high: 7.8 }] },
+  { code: 'CREAT', name: 'Creatinine', specimenType: 'Serum', container: 'SST (gold)', unit: 'umol/L', price: 400, turnaroundMinutes: 120,
+    referenceRanges: [{ sex: 'Male', low: 62, high: 106 }, { sex: 'Female', low: 44, high: 80 }] },
+  { code: 'ALT', name: 'Alanine aminotransferase', specimenType: 'Serum', container: 'SST (gold)', unit: 'U/L', price: 450, turnaroundMinutes: 240,
+    referenceRanges: [{ low: 7, high: 56 }] },
+  { code: 'AST', name: 'Aspartate aminotransferase', specimenType: 'Serum', container: 'SST (gold)', unit: 'U/L', price: 450, turnaroundMinutes: 240,
+    referenceRanges: [{ low: 10, high: 40 }] },
+  { code: 'ALP', name: 'Alkaline phosphatase', specimenType: 'Serum', container: 'SST (gold)', unit: 'U/L', price: 450, turnaroundMinutes: 240,
+    referenceRanges: [{ maxAgeYears: 18, low: 100, high: 390 }, { minAgeYears: 18, low: 40, high: 129 }] },
+  { code: 'BILI', name: 'Total bilirubin', specimenType: 'Serum', container: 'SST (gold)', unit: 'umol/L', price: 450, turnaroundMinutes: 240,
+    referenceRanges: [{ low: 3, high: 21 }] },
+  { code: 'ALB', name: 'Albumin', specimenType: 'Serum', container: 'SST (gold)', unit: 'g/L', price: 450, turnaroundMinutes: 240,
+    referenceRanges: [{ low: 35, high: 50 }] },
+  { code: 'GLU', name: 'Random blood glucose', specimenType: 'Plasma', container: 'Fluoride oxalate (grey)', unit: 'mmol/L', price: 200, turnaroundMinutes: 30,
+    referenceRanges: [{ low: 3.9, high: 7.8 }] },
+  { code: 'CBC', name: 'Complete blood count', isPanel: true, specimenType: 'Whole blood', container: 'EDTA (purple)', price: 800, turnaroundMinutes: 60,
+    components: ['HB', 'HCT', 'WBC', 'PLT'] },
+  { code: 'UE', name: 'Urea and electrolytes', isPanel: true, specimenType: 'Serum', container: 'SST (gold)', price: 1500, turnaroundMinutes: 120,
+    components: ['NA', 'K', 'UREA', 'CREAT'] },
+  { code: 'LFT', name: 'Liver function tests', isPanel: true, specimenType: 'Serum', container: 'SST (gold)', price: 1800, turnaroundMinutes: 240,
+    components: ['ALT', 'AST', 'ALP', 'BILI', 'ALB'] },
+];
+
+export class LabCatalogueService {
+  async getCatalogue(filters: {
+    search?: string | undefined;
+    includeInactive?: boolean | undefined;
+  } = {}): Promise<any[]> {
+    try {
+      const entries = await db
+        .select()
+        .from(labTests)
+        .where(
+          and(
+            filters.includeInactive ? undefined : eq(labTests.isActive, true),
+            filters.search
+              ? or(ilike(labTests.code, `%${filters.search}%`), ilike(labTests.name, `%${filters.search}%`))
+              : undefined
+          )
+        )
+        .orderBy(asc(labTests.isPanel), asc(labTests.name));
+
+      const components = await this.getComponents(entries.filter(e => e.isPanel).map(e => e.testId));
+
+      return entries.map(entry => ({
+        ...entry,
+        components: entry.isPanel ? components.get(entry.testId) || [] : undefined,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch lab catalogue:', error);
+      throw new AppError('Failed to fetch lab catalogue', 500);
+    }
+  }
+
+  async getEntry(code: string): Promise<any> {
+    const [entry] = await db
+      .select()
+      .from(labTests)
+      .where(eq(labTests.code, code.toUpperCase()));
+
+    if (!entry) {
+      throw new AppError('Test not found in catalogue', 404);
+    }
+
+    const components = entry.isPanel ? await this.getComponents([entry.testId]) : null;
+
+    return { ...entry, components: components ? components.get(entry.testId) || [] : undefined };
+  }
+
+  async createEntry(data: CatalogueEntryInput, createdBy: string): Promise<any> {
+    try {
+      const code = data.code.toUpperCase();
+
+      const entry = await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select({ testId: labTests.testId })
+          .from(labTests)
+          .where(eq(labTests.code, code));
+
+        if (existing) {
+          throw new AppError(`Catalogue code ${code} is already in use`, 409);
+        }
+
+        const [created] = await tx
+          .insert(labTests)
+          .values({
+            code,
+            name: data.name,
+            isPanel: data.isPanel ?? false,
+            specimenType: data.specimenType,
+            container: data.container,
+            unit: data.unit ?? null,
+            referenceRanges: data.referenceRanges || [],
+            price: String(data.price),
+            turnaroundMinutes: data.turnaroundMinutes,
+          })
+          .returning();
+
+        if (created!.isPanel) {
+          await this.setComponents(tx, created!.testId, data.components || []);
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: createdBy,
+          action: 'LAB_TEST_CREATE',
+          entityType: 'lab_test',
+          entityId: created!.testId,
+          newValues: { ...data, code },
+        });
+
+        return created!;
+      });
+
+      logger.info(`Lab catalogue entry ${code} created`);
+      return this.getEntry(entry.code);
+    } catch (error) {
+      logger.error('Failed to create catalogue entry:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create catalogue entry', 500);
+    }
+  }
+
+  async updateEntry(code: string, update: Partial<Omit<CatalogueEntryInput, 'code' | 'isPanel'>> & {
+    isActive?: boolean | undefined;
+  }, updatedBy: string): Promise<any> {
+    try {
+      await db.transaction(async (tx) => {
+        const [entry] = await tx
+          .select()
+          .from(labTests)
+          .where(eq(labTests.code, code.toUpperCase()));
+
+        if (!entry) {
+          throw new AppError('Test not found in catalogue', 404);
+        }
+
+        if (update.components && !entry.isPanel) {
+          throw new AppError('Only panels have component tests', 400);
+        }
+
+        // Retiring a test that live panels still use would break ordering of those panels
+        if (update.isActive === false && !entry.isPanel) {
+          const usedBy = await tx
+            .select({ code: labTests.code })
+            .from(labPanelComponents)
+            .innerJoin(labTests, eq(labPanelComponents.panelId, labTests.testId))
+            .where(and(eq(labPanelComponents.testId, entry.testId), eq(labTests.isActive, true)));
+
+          if (usedBy.length > 0) {
+            throw new AppError(`Test is part of active panels: ${usedBy.map(p => p.code).join(', ')}`, 409);
+          }
+        }
+
+        const { components, price, ...fields } = update;
+
+        await tx
+          .update(labTests)
+          .set({
+            ...fields,
+            ...(price !== undefined && { price: String(price) }),
+            updatedAt: new Date(),
+          })
+          .where(eq(labTests.testId, entry.testId));
+
+        if (components) {
+          await this.setComponents(tx, entry.testId, components);
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: updatedBy,
+          action: 'LAB_TEST_UPDATE',
+          entityType: 'lab_test',
+          entityId: entry.testId,
+          oldValues: entry,
+          newValues: update,
+        });
+      });
+
+      return this.getEntry(code);
+    } catch (error) {
+      logger.error('Failed to update catalogue entry:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update catalogue entry', 500);
+    }
+  }
+
+  // Adds any starter entries that are missing; existing entries are left as configured
+  async installDefaults(createdBy: string): Promise<{ installed: string[] }> {
+    const installed: string[] = [];
+
+    for (const entry of DEFAULT_CATALOGUE) {
+      const [existing] = await db
+        .select({ testId: labTests.testId })
+        .from(labTests)
+        .where(eq(labTests.code, entry.code));
+
+      if (existing) continue;
+
+      await this.createEntry(entry, createdBy);
+      installed.push(entry.code);
+    }
+
+    return { installed };
+  }
+
+  // Validates codes against the catalogue and expands panels; a test requested twice keeps the higher urgency
+  async expandOrder(items: Array<{ testCode: string; urgency: Urgency; instructions?: string | undefined }>): Promise<{
+    tests: OrderedTest[];
+    totalPrice: number;
+    turnaroundMinutes: number;
+  }> {
+    const codes = [...new Set(items.map(item => item.testCode.toUpperCase()))];
+
+    const entries = await db
+      .select()
+      .from(labTests)
+      .where(and(inArray(labTests.code, codes), eq(labTests.isActive, true)));
+
+    const byCode = new Map(entries.map(entry => [entry.code, entry]));
+    const unknown = codes.filter(code => !byCode.has(code));
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown or inactive test codes: ${unknown.join(', ')}`, 400);
+    }
+
+    const components = await this.getComponents(entries.filter(e => e.isPanel).map(e => e.testId), true);
+    const lines = new Map<string, OrderedTest>();
+
+    // A test is run once; when a panel also covers a separately ordered test the panel's price includes it
+    const addLine = (line: OrderedTest) => {
+      const current = lines.get(line.testCode);
+      if (!current) {
+        lines.set(line.testCode, line);
+        return;
+      }
+      if (URGENCY_RANK[line.urgency] > URGENCY_RANK[current.urgency]) {
+        current.urgency = line.urgency;
+      }
+      if (line.panelCode && !current.panelCode) {
+        current.panelCode = line.panelCode;
+        current.price = null;
+        current.turnaroundMinutes = Math.max(current.turnaroundMinutes, line.turnaroundMinutes);
+      }
+    };
+
+    for (const item of items) {
+      const entry = byCode.get(item.testCode.toUpperCase())!;
+
+      if (!entry.isPanel) {
+        addLine({
+          testCode: entry.code,
+          testName: entry.name,
+          specimenType: entry.specimenType,
+          container: entry.container,
+          unit: entry.unit,
+          urgency: item.urgency,
+          instructions: item.instructions,
+          panelCode: null,
+          turnaroundMinutes: entry.turnaroundMinutes,
+          price: Number(entry.price),
+        });
+        continue;
+      }
+
+      const members = components.get(entry.testId) || [];
+      if (members.length === 0) {
+        throw new AppError(`Panel ${entry.code} has no active component tests`, 400);
+      }
+
+      for (const member of members) {
+        addLine({
+          testCode: member.code,
+          testName: member.name,
+          specimenType: member.specimenType,
+          container: member.container,
+          unit: member.unit,
+          urgency: item.urgency,
+          instructions: item.instructions,
+          panelCode: entry.code,
+          turnaroundMinutes: entry.turnaroundMinutes,
+          price: null,
+        });
+      }
+    }
+
+    const tests = [...lines.values()];
+
+    // Priced from the de-duplicated lines: standalone tests plus each panel that still has lines
+    const billedPanels = new Set(tests.map(t => t.panelCode).filter(Boolean));
+    const totalPrice = tests.reduce((sum, t) => sum + (t.price ?? 0), 0)
+      + entries.filter(e => e.isPanel && billedPanels.has(e.code)).reduce((sum, e) => sum + Number(e.price), 0);
+
+    return {
+      tests,
+      totalPrice,
+      turnaroundMinutes: Math.max(...tests.map(t => t.turnaroundMinutes)),
+    };
+  }
+
+  async getTestsByCodes(codes: string[]): Promise<Map<string, typeof labTests.$inferSelect>> {
+    if (codes.length === 0) return new Map();
+
+    const entries = await db
+      .select()
+      .from(labTests)
+      .where(inArray(labTests.code, codes.map(c => c.toUpperCase())));
+
+    return new Map(entries.map(entry => [entry.code, entry]));
+  }
+
+  // Most specific range wins: sex and age bounds each count towards the match
+  static referenceRangeFor(ranges: ReferenceRange[], patient: { ageYears: number; gender: string }): ReferenceRange | null {
+    let best: ReferenceRange | null = null;
+    let bestScore = -1;
+
+    for (const range of ranges) {
+      if (range.sex && range.sex.toLowerCase() !== patient.gender.toLowerCase()) continue;
+      if (range.minAgeYears !== undefined && patient.ageYears < range.minAgeYears) continue;
+      if (range.maxAgeYears !== undefined && patient.ageYears >= range.maxAgeYears) continue;
+
+      const score = (range.sex ? 2 : 0) + (range.minAgeYears !== undefined || range.maxAgeYears !== undefined ? 1 : 0);
+      if (score > bestScore) {
+        best = range;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private async getComponents(panelIds: string[], activeOnly = false): Promise<Map<string, Array<typeof labTests.$inferSelect>>> {
+    const grouped = new Map<string, Array<typeof labTests.$inferSelect>>();
+    if (panelIds.length === 0) return grouped;
+
+    const rows = await db
+      .select({ panelId: labPanelComponents.panelId, test: labTests })
+      .from(labPanelComponents)
+      .innerJoin(labTests, eq(labPanelComponents.testId, labTests.testId))
+      .where(
+        and(
+          inArray(labPanelComponents.panelId, panelIds),
+          activeOnly ? eq(labTests.isActive, true) : undefined
+        )
+      )
+      .orderBy(asc(labPanelComponents.sortOrder));
+
+    for (const row of rows) {
+      const list = grouped.get(row.panelId) || [];
+      list.push(row.test);
+      grouped.set(row.panelId, list);
+    }
+
+    return grouped;
+  }
+
+  private async setComponents(tx: Transaction, panelId: string, codes: string[]): Promise<void> {
+    const unique = [...new Set(codes.map(c => c.toUpperCase()))];
+    if (unique.length === 0) {
+      throw new AppError('A panel needs at least one component test', 400);
+    }
+
+    const tests = await tx
+      .select({ testId: labTests.testId, code: labTests.code, isPanel: labTests.isPanel, isActive: labTests.isActive })
+      .from(labTests)
+      .where(inArray(labTests.code, unique));
+
+    const found = new Map(tests.map(t => [t.code, t]));
+    const invalid = unique.filter(code => {
+      const test = found.get(code);
+      return !test || test.isPanel || !test.isActive;
+    });
+
+    if (invalid.length > 0) {
+      throw new AppError(`Panel components must be active single tests: ${invalid.join(', ')}`, 400);
+    }
+
+    await tx.delete(labPanelComponents).where(eq(labPanelComponents.panelId, panelId));
+    await tx.insert(labPanelComponents).values(
+      unique.map((code, index) => ({ panelId, testId: found.get(code)!.testId, sortOrder: index }))
+    );
+  }
+}
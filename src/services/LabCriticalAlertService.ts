@@ -0,0 +1,477 @@
+import { db, sql } from '../db';
+import { labCriticalAlerts, labOrders, patients, users, encounters, departments, departmentStaff, auditLogs } from '../db/schema';
+import { eq, and, lt, isNull, desc } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { NotificationService } from './NotificationService';
+import { RosterService } from './RosterService';
+import { SettingsService } from './SettingsService';
+import { SocketService } from './SocketService';
+import type { LabResult } from './LabService';
+
+export const LAB_CRITICAL_POLICY_SETTING = 'lab_critical_policy';
+
+export interface CriticalThreshold {
+  code: string;
+  name: string;
+  unit: string;
+  low?: number | undefined;
+  high?: number | undefined;
+}
+
+export interface LabCriticalPolicy {
+  acknowledgeMinutes: number;
+  thresholds: CriticalThreshold[];
+}
+
+// UNIT_MISMATCH: the result's unit cannot be converted, so a person has to check the value
+export interface CriticalValue {
+  result: LabResult;
+  threshold: CriticalThreshold;
+  direction: 'LOW' | 'HIGH' | 'UNIT_MISMATCH';
+}
+
+// Codes are matched against the result's analyte, falling back to the test code
+export const DEFAULT_LAB_CRITICAL_POLICY: LabCriticalPolicy = {
+  acknowledgeMinutes: 15,
+  thresholds: [
+    { code: 'K', name: 'Potassium', unit: 'mmol/L', low: 2.5, high: 6.5 },
+    { code: 'NA', name: 'Sodium', unit: 'mmol/L', low: 120, high: 160 },
+    { code: 'GLU', name: 'Glucose', unit: 'mmol/L', low: 2.5, high: 25 },
+    { code: 'CA', name: 'Calcium', unit: 'mmol/L', low: 1.6, high: 3.5 },
+    { code: 'HB', name: 'Haemoglobin', unit: 'g/dL', low: 6 },
+    { code: 'PLT', name: 'Platelets', unit: 'x10^9/L', low: 20, high: 1000 },
+    { code: 'WBC', name: 'White cell count', unit: 'x10^9/L', low: 1, high: 30 },
+    { code: 'INR', name: 'INR', unit: 'ratio', high: 5 },
+    { code: 'LACT', name: 'Lactate', unit: 'mmol/L', high: 4 },
+  ],
+};
+
+// Spellings analysers and technicians use for the same unit
+const UNIT_SYNONYMS: Record<string, string> = {
+  '10^9/l': 'x10^9/l',
+  '10x9/l': 'x10^9/l',
+  'x10x9/l': 'x10^9/l',
+  '10^3/ul': 'x10^9/l',
+  'x10^3/ul': 'x10^9/l',
+  'k/ul': 'x10^9/l',
+  'g/100ml': 'g/dl',
+  'mmol/litre': 'mmol/l',
+  inr: 'ratio',
+};
+
+// Per analyte, the factor that takes a value from the first unit to the second
+const UNIT_CONVERSIONS: Record<string, Record<string, number>> = {
+  K: { 'meq/l>mmol/l': 1 },
+  NA: { 'meq/l>mmol/l': 1 },
+  CA: { 'meq/l>mmol/l': 0.5, 'mg/dl>mmol/l': 0.2495 },
+  GLU: { 'mg/dl>mmol/l': 1 / 18.016 },
+  LACT: { 'mg/dl>mmol/l': 1 / 9.008 },
+  HB: { 'g/l>g/dl': 0.1 },
+};
+
+const canonicalUnit = (unit: string): string => {
+  const compact = unit.toLowerCase().replace(/\s+/g, '').replace(/[×*]/g, 'x').replace(/[µμ]/g, 'u');
+  return UNIT_SYNONYMS[compact] || compact;
+};
+
+export class LabCriticalAlertService {
+  private notificationService: NotificationService;
+  private rosterService: RosterService;
+  private settingsService: SettingsService;
+  private socketService: SocketService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.rosterService = new RosterService();
+    this.settingsService = new SettingsService();
+    this.socketService = SocketService.getInstance();
+  }
+
+  async getPolicy(): Promise<LabCriticalPolicy> {
+    const policy = await this.settingsService.get<Partial<LabCriticalPolicy>>(LAB_CRITICAL_POLICY_SETTING, {});
+    return { ...DEFAULT_LAB_CRITICAL_POLICY, ...policy };
+  }
+
+  async updatePolicy(update: {
+    acknowledgeMinutes?: number | undefined;
+    thresholds?: CriticalThreshold[] | undefined;
+  }, updatedBy: string): Promise<LabCriticalPolicy> {
+    const current = await this.getPolicy();
+    const policy: LabCriticalPolicy = {
+      acknowledgeMinutes: update.acknowledgeMinutes ?? current.acknowledgeMinutes,
+      thresholds: update.thresholds
+        ? update.thresholds.map(t => ({ ...t, code: t.code.toUpperCase() }))
+        : current.thresholds,
+    };
+
+    await this.settingsService.set(LAB_CRITICAL_POLICY_SETTING, policy, {
+      category: 'laboratory',
+      description: 'Critical result thresholds and acknowledgement deadline before escalation',
+      updatedBy,
+    });
+
+    return policy;
+  }
+
+  async findCriticalValues(results: LabResult[]): Promise<CriticalValue[]> {
+    const { thresholds } = await this.getPolicy();
+    return LabCriticalAlertService.criticalValuesFor(results, thresholds);
+  }
+
+  // The value in the threshold's unit, or null when the units cannot be converted
+  static toThresholdUnit(value: number, unit: string | null, threshold: CriticalThreshold): number | null {
+    if (!unit) return value;
+
+    const from = canonicalUnit(unit);
+    const to = canonicalUnit(threshold.unit);
+    if (from === to) return value;
+
+    const conversions = UNIT_CONVERSIONS[threshold.code.toUpperCase()] || {};
+    const factor = conversions[`${from}>${to}`] ?? (conversions[`${to}>${from}`] ? 1 / conversions[`${to}>${from}`]! : undefined);
+    return factor === undefined ? null : value * factor;
+  }
+
+  static criticalValuesFor(results: LabResult[], thresholds: CriticalThreshold[]): CriticalValue[] {
+    const byCode = new Map(thresholds.map(t => [t.code.toUpperCase(), t]));
+    const critical: CriticalValue[] = [];
+
+    for (const result of results) {
+      const threshold = byCode.get((result.analyte || result.testCode).toUpperCase());
+      const reported = typeof result.value === 'number' ? result.value : Number(result.value);
+      if (!threshold || !Number.isFinite(reported)) continue;
+
+      // An unknown unit must not silently pass a critical check
+      const value = LabCriticalAlertService.toThresholdUnit(reported, result.unit, threshold);
+      if (value === null) {
+        logger.warn(`Critical check for ${threshold.code} needs review: result unit ${result.unit}, threshold unit ${threshold.unit}`);
+        critical.push({ result, threshold, direction: 'UNIT_MISMATCH' });
+        continue;
+      }
+
+      if (threshold.low !== undefined && value < threshold.low) {
+        critical.push({ result, threshold, direction: 'LOW' });
+      } else if (threshold.high !== undefined && value > threshold.high) {
+        critical.push({ result, threshold, direction: 'HIGH' });
+      }
+    }
+
+    return critical;
+  }
+
+  // One alert per order; a corrected result with different critical values re-opens it
+  async raiseAlert(order: typeof labOrders.$inferSelect, critical: CriticalValue[], raisedBy: string): Promise<any> {
+    try {
+      const criticalValues = critical.map(c => ({
+        code: c.threshold.code,
+        name: c.threshold.name,
+        value: c.result.value,
+        unit: c.result.unit || c.threshold.unit,
+        direction: c.direction,
+        threshold: c.direction === 'LOW' ? c.threshold.low : c.direction === 'HIGH' ? c.threshold.high : null,
+        thresholdUnit: c.threshold.unit,
+      }));
+
+      const [existing] = await db
+        .select()
+        .from(labCriticalAlerts)
+        .where(eq(labCriticalAlerts.orderId, order.orderId));
+
+      if (existing && JSON.stringify(existing.criticalValues) === JSON.stringify(criticalValues)) {
+        return existing;
+      }
+
+      const [alert] = await db
+        .insert(labCriticalAlerts)
+        .values({
+          orderId: order.orderId,
+          patientId: order.patientId,
+          doctorId: order.doctorId,
+          criticalValues,
+          raisedBy,
+        })
+        .onConflictDoUpdate({
+          target: labCriticalAlerts.orderId,
+          set: {
+            criticalValues,
+            status: 'OPEN',
+            raisedBy,
+            raisedAt: new Date(),
+            escalatedAt: null,
+            escalatedTo: null,
+            acknowledgedBy: null,
+            acknowledgedAt: null,
+            acknowledgementNotes: null,
+          },
+        })
+        .returning();
+
+      await db.insert(auditLogs).values({
+        userId: raisedBy,
+        action: 'LAB_CRITICAL_RAISE',
+        entityType: 'lab_order',
+        entityId: order.orderId,
+        newValues: { alertId: alert!.alertId, criticalValues },
+      });
+
+      await this.page(alert!, order.doctorId, false);
+
+      logger.warn(`Critical lab result on order ${order.orderId}; paging ordering doctor`, { alertId: alert!.alertId });
+      return alert;
+    } catch (error) {
+      logger.error('Failed to raise critical lab alert:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to raise critical lab alert', 500);
+    }
+  }
+
+  async acknowledge(alertId: string, data: { acknowledgedBy: string; notes?: string | undefined }): Promise<any> {
+    try {
+      const [alert] = await db
+        .update(labCriticalAlerts)
+        .set({
+          status: 'ACKNOWLEDGED',
+          acknowledgedBy: data.acknowledgedBy,
+          acknowledgedAt: new Date(),
+          acknowledgementNotes: data.notes ?? null,
+        })
+        .where(and(eq(labCriticalAlerts.alertId, alertId), eq(labCriticalAlerts.status, 'OPEN')))
+        .returning();
+
+      if (!alert) {
+        const [existing] = await db
+          .select({ status: labCriticalAlerts.status })
+          .from(labCriticalAlerts)
+          .where(eq(labCriticalAlerts.alertId, alertId));
+
+        if (!existing) {
+          throw new AppError('Critical alert not found', 404);
+        }
+        throw new AppError('Critical alert has already been acknowledged', 409);
+      }
+
+      await db.insert(auditLogs).values({
+        userId: data.acknowledgedBy,
+        action: 'LAB_CRITICAL_ACKNOWLEDGE',
+        entityType: 'lab_order',
+        entityId: alert.orderId,
+        oldValues: { status: 'OPEN' },
+        newValues: { status: 'ACKNOWLEDGED', alertId },
+        details: data.notes,
+      });
+
+      this.socketService.broadcastToDoctor(alert.doctorId, 'lab_critical', {
+        alertId,
+        orderId: alert.orderId,
+        status: 'ACKNOWLEDGED',
+      });
+
+      return alert;
+    } catch (error) {
+      logger.error('Failed to acknowledge critical lab alert:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to acknowledge critical lab alert', 500);
+    }
+  }
+
+  // Corrected results no longer critical: the open alert is closed so it does not escalate
+  async resolveAlert(order: typeof labOrders.$inferSelect, resolvedBy: string): Promise<void> {
+    try {
+      const [alert] = await db
+        .update(labCriticalAlerts)
+        .set({ status: 'RESOLVED' })
+        .where(and(eq(labCriticalAlerts.orderId, order.orderId), eq(labCriticalAlerts.status, 'OPEN')))
+        .returning();
+
+      if (!alert) return;
+
+      await db.insert(auditLogs).values({
+        userId: resolvedBy,
+        action: 'LAB_CRITICAL_RESOLVE',
+        entityType: 'lab_order',
+        entityId: order.orderId,
+        oldValues: { status: 'OPEN' },
+        newValues: { status: 'RESOLVED', alertId: alert.alertId },
+        details: 'Corrected results are no longer critical',
+      });
+
+      this.socketService.broadcastToDoctor(alert.doctorId, 'lab_critical', {
+        alertId: alert.alertId,
+        orderId: alert.orderId,
+        status: 'RESOLVED',
+      });
+
+      logger.info(`Critical lab alert ${alert.alertId} resolved by corrected results`);
+    } catch (error) {
+      logger.error('Failed to resolve critical lab alert:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to resolve critical lab alert', 500);
+    }
+  }
+
+  // Scheduled job: alerts left unacknowledged past the deadline go to the department head
+  async runEscalation(): Promise<{ escalated: number }> {
+    const policy = await this.getPolicy();
+    const deadline = new Date(Date.now() - policy.acknowledgeMinutes * 60000);
+
+    const overdue = await db
+      .select({
+        alert: labCriticalAlerts,
+        encounterDepartmentId: encounters.departmentId,
+      })
+      .from(labCriticalAlerts)
+      .innerJoin(labOrders, eq(labCriticalAlerts.orderId, labOrders.orderId))
+      .leftJoin(encounters, eq(labOrders.encounterId, encounters.encounterId))
+      .where(
+        and(
+          eq(labCriticalAlerts.status, 'OPEN'),
+          isNull(labCriticalAlerts.escalatedAt),
+          lt(labCriticalAlerts.raisedAt, deadline)
+        )
+      );
+
+    let escalated = 0;
+
+    for (const { alert, encounterDepartmentId } of overdue) {
+      try {
+        const headId = await this.findEscalationTarget(alert.doctorId, encounterDepartmentId);
+
+        // Claim before paging so a slow send cannot double-escalate
+        const [claimed] = await db
+          .update(labCriticalAlerts)
+          .set({ escalatedAt: new Date(), escalatedTo: headId })
+          .where(and(eq(labCriticalAlerts.alertId, alert.alertId), isNull(labCriticalAlerts.escalatedAt)))
+          .returning();
+
+        if (!claimed) continue;
+
+        if (!headId) {
+          logger.warn(`No department head to escalate critical alert ${alert.alertId}; paging on-duty management`);
+          const managers = await this.rosterService.getOnDutyStaff({ roles: ['management'] });
+          for (const manager of managers) {
+            await this.page(claimed, manager.userId, true);
+          }
+        } else {
+          await this.page(claimed, headId, true);
+        }
+
+        await db.insert(auditLogs).values({
+          action: 'LAB_CRITICAL_ESCALATE',
+          entityType: 'lab_order',
+          entityId: alert.orderId,
+          newValues: { alertId: alert.alertId, escalatedTo: headId },
+          details: `Not acknowledged within ${policy.acknowledgeMinutes} minutes`,
+        });
+
+        escalated++;
+      } catch (error) {
+        logger.error(`Failed to escalate critical alert ${alert.alertId}:`, error);
+      }
+    }
+
+    if (escalated > 0) {
+      logger.warn(`Escalated ${escalated} unacknowledged critical lab alerts`);
+    }
+
+    return { escalated };
+  }
+
+  async getAlerts(filters: {
+    status?: 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED' | undefined;
+    doctorId?: string | undefined;
+    patientId?: string | undefined;
+    limit?: number | undefined;
+  }): Promise<any[]> {
+    try {
+      const doctors = alias(users, 'doctors');
+
+      return await db
+        .select({
+          alertId: labCriticalAlerts.alertId,
+          orderId: labCriticalAlerts.orderId,
+          patientId: labCriticalAlerts.patientId,
+          straId: patients.straId,
+          patientName: sql<string>`${patients.firstName} || ' ' || ${patients.lastName}`,
+          doctorId: labCriticalAlerts.doctorId,
+          doctorName: sql<string | null>`${doctors.firstName} || ' ' || ${doctors.lastName}`,
+          criticalValues: labCriticalAlerts.criticalValues,
+          status: labCriticalAlerts.status,
+          raisedAt: labCriticalAlerts.raisedAt,
+          escalatedAt: labCriticalAlerts.escalatedAt,
+          escalatedTo: labCriticalAlerts.escalatedTo,
+          acknowledgedBy: labCriticalAlerts.acknowledgedBy,
+          acknowledgedAt: labCriticalAlerts.acknowledgedAt,
+          acknowledgementNotes: labCriticalAlerts.acknowledgementNotes,
+        })
+        .from(labCriticalAlerts)
+        .innerJoin(patients, eq(labCriticalAlerts.patientId, patients.patientId))
+        .leftJoin(doctors, eq(labCriticalAlerts.doctorId, doctors.userId))
+        .where(
+          and(
+            filters.status ? eq(labCriticalAlerts.status, filters.status) : undefined,
+            filters.doctorId ? eq(labCriticalAlerts.doctorId, filters.doctorId) : undefined,
+            filters.patientId ? eq(labCriticalAlerts.patientId, filters.patientId) : undefined
+          )
+        )
+        .orderBy(desc(labCriticalAlerts.raisedAt))
+        .limit(filters.limit || 50);
+    } catch (error) {
+      logger.error('Failed to fetch critical lab alerts:', error);
+      throw new AppError('Failed to fetch critical lab alerts', 500);
+    }
+  }
+
+  // The visit's department head, else the head of the ordering doctor's primary department
+  private async findEscalationTarget(doctorId: string, departmentId: string | null): Promise<string | null> {
+    if (departmentId) {
+      const [department] = await db
+        .select({ headUserId: departments.headUserId })
+        .from(departments)
+        .where(eq(departments.departmentId, departmentId));
+
+      if (department?.headUserId) return department.headUserId;
+    }
+
+    const [primary] = await db
+      .select({ headUserId: departments.headUserId })
+      .from(departmentStaff)
+      .innerJoin(departments, eq(departmentStaff.departmentId, departments.departmentId))
+      .where(and(eq(departmentStaff.userId, doctorId), eq(departmentStaff.isPrimary, true)));
+
+    return primary?.headUserId || null;
+  }
+
+  private async page(alert: typeof labCriticalAlerts.$inferSelect, recipientId: string, escalation: boolean): Promise<void> {
+    const [details] = await db
+      .select({
+        straId: patients.straId,
+        patientName: sql<string>`${patients.firstName} || ' ' || ${patients.lastName}`,
+        doctorName: sql<string>`${users.firstName} || ' ' || ${users.lastName}`,
+      })
+      .from(patients)
+      .innerJoin(users, eq(users.userId, alert.doctorId))
+      .where(eq(patients.patientId, alert.patientId));
+
+    await this.notificationService.sendCriticalLabAlert({
+      alertId: alert.alertId,
+      orderId: alert.orderId,
+      patientId: alert.patientId,
+      straId: details?.straId || '',
+      patientName: details?.patientName || '',
+      orderingDoctor: details?.doctorName || '',
+      recipientId,
+      criticalValues: alert.criticalValues as Array<{ name: string; value: string | number; unit: string; direction: string }>,
+      escalation,
+    });
+
+    this.socketService.broadcastToDoctor(recipientId, 'lab_critical', {
+      alertId: alert.alertId,
+      orderId: alert.orderId,
+      patientId: alert.patientId,
+      status: alert.status,
+      criticalValues: alert.criticalValues,
+      escalation,
+    });
+  }
+}
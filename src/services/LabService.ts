@@ -0,0 +1,602 @@
+import { randomBytes } from 'crypto';
+import { db, sql } from '../db';
+import { labOrders, patients, users, auditLogs } from '../db/schema';
+import { eq, and, lt, asc, desc, inArray, count } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { RedisService } from './RedisService';
+import { NotificationService } from './NotificationService';
+import { LabCriticalAlertService, type CriticalValue } from './LabCriticalAlertService';
+import { LabCatalogueService, type OrderedTest, type ReferenceRange } from './LabCatalogueService';
+import { SocketService } from './SocketService';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type LabOrderStatus = typeof labOrders.status.enumValues[number];
+
+export type LabResultFlag = 'NORMAL' | 'LOW' | 'HIGH' | 'ABNORMAL' | 'CRITICAL_LOW' | 'CRITICAL_HIGH';
+
+export interface LabResultInput {
+  testCode: string;
+  analyte?: string | undefined;
+  value: string | number;
+  unit?: string | undefined;
+  referenceLow?: number | undefined;
+  referenceHigh?: number | undefined;
+  referenceRange?: string | undefined;
+  flag?: LabResultFlag | undefined;
+  comment?: string | undefined;
+}
+
+export interface LabResult {
+  testCode: string;
+  testName: string;
+  analyte: string | null;
+  value: string | number;
+  unit: string | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  referenceRange: string | null;
+  flag: LabResultFlag | null;
+  comment: string | null;
+}
+
+// Orders the lab still has to act on
+const OPEN_STATUSES: LabOrderStatus[] = ['PENDING', 'COLLECTED', 'IN_PROGRESS'];
+
+// Urgency first, then oldest order
+const worklistOrdering = () => [
+  sql`CASE
+    WHEN ${labOrders.priority} = 'RED' THEN 1
+    WHEN ${labOrders.priority} = 'YELLOW' THEN 2
+    ELSE 3
+  END`,
+  asc(labOrders.orderedAt),
+];
+
+export class LabService {
+  private redisService: RedisService;
+  private notificationService: NotificationService;
+  private criticalAlertService: LabCriticalAlertService;
+  private catalogueService: LabCatalogueService;
+  private socketService: SocketService;
+
+  constructor() {
+    this.redisService = new RedisService();
+    this.notificationService = new NotificationService();
+    this.criticalAlertService = new LabCriticalAlertService();
+    this.catalogueService = new LabCatalogueService();
+    this.socketService = SocketService.getInstance();
+  }
+
+  async getWorklist(filters: {
+    status?: LabOrderStatus | undefined;
+    priority?: 'RED' | 'YELLOW' | 'GREEN' | undefined;
+    awaitingVerification?: boolean | undefined;
+    overdue?: boolean | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  }): Promise<any> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 50;
+      const offset = (page - 1) * limit;
+
+      const conditions = [
+        filters.status ? eq(labOrders.status, filters.status) : inArray(labOrders.status, OPEN_STATUSES),
+      ];
+      if (filters.priority) conditions.push(eq(labOrders.priority, filters.priority));
+      if (filters.awaitingVerification !== undefined) {
+        conditions.push(filters.awaitingVerification
+          ? sql`${labOrders.resultedAt} IS NOT NULL AND ${labOrders.status} = 'IN_PROGRESS'`
+          : sql`${labOrders.resultedAt} IS NULL`);
+      }
+      if (filters.overdue) conditions.push(lt(labOrders.dueAt, new Date()));
+
+      const where = and(...conditions);
+
+      const [total] = await db.select({ count: count() }).from(labOrders).where(where);
+
+      const items = await this.selectWithNames()
+        .where(where)
+        .orderBy(...worklistOrdering())
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        items,
+        pagination: {
+          total: Number(total?.count || 0),
+          page,
+          limit,
+          pages: Math.ceil(Number(total?.count || 0) / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch lab worklist:', error);
+      throw new AppError('Failed to fetch lab worklist', 500);
+    }
+  }
+
+  async getOrder(orderId: string): Promise<any> {
+    const [order] = await this.selectWithNames().where(eq(labOrders.orderId, orderId));
+
+    if (!order) {
+      throw new AppError('Lab order not found', 404);
+    }
+
+    return order;
+  }
+
+  async getOrderByBarcode(barcode: string): Promise<any> {
+    const [order] = await this.selectWithNames().where(eq(labOrders.specimenBarcode, barcode.trim().toUpperCase()));
+
+    if (!order) {
+      throw new AppError('No lab order found for this specimen barcode', 404);
+    }
+
+    return order;
+  }
+
+  // Results are only released to clinicians once verified
+  async getPatientResults(patientId: string): Promise<any[]> {
+    try {
+      const orders = await this.selectWithNames()
+        .where(eq(labOrders.patientId, patientId))
+        .orderBy(desc(labOrders.orderedAt));
+
+      return orders.map(order => ({
+        ...order,
+        results: order.status === 'COMPLETED' ? order.results : null,
+        interpretation: order.status === 'COMPLETED' ? order.interpretation : null,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch patient lab results:', error);
+      throw new AppError('Failed to fetch patient lab results', 500);
+    }
+  }
+
+  async collectSpecimen(orderId: string, data: {
+    collectedBy: string;
+    barcode?: string | undefined;
+    notes?: string | undefined;
+  }): Promise<any> {
+    try {
+      // Pre-printed tube labels are scanned; otherwise a label is issued here
+      const barcode = data.barcode ? data.barcode.trim().toUpperCase() : this.generateBarcode();
+
+      const updated = await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select({ orderId: labOrders.orderId })
+          .from(labOrders)
+          .where(eq(labOrders.specimenBarcode, barcode));
+
+        if (existing) {
+          throw new AppError('Specimen barcode is already assigned to another order', 409);
+        }
+
+        const [order] = await tx
+          .update(labOrders)
+          .set({
+            status: 'COLLECTED',
+            specimenBarcode: barcode,
+            collectedAt: new Date(),
+            collectedBy: data.collectedBy,
+            ...(data.notes !== undefined && { notes: data.notes }),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(labOrders.orderId, orderId), eq(labOrders.status, 'PENDING')))
+          .returning();
+
+        if (!order) {
+          throw await this.transitionError(orderId, 'collected');
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: data.collectedBy,
+          action: 'LAB_SPECIMEN_COLLECT',
+          entityType: 'lab_order',
+          entityId: orderId,
+          oldValues: { status: 'PENDING' },
+          newValues: { status: 'COLLECTED', specimenBarcode: barcode },
+        });
+
+        return order;
+      });
+
+      await this.afterChange(updated);
+
+      logger.info(`Specimen ${barcode} collected for lab order ${orderId}`);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to record specimen collection:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record specimen collection', 500);
+    }
+  }
+
+  // Specimen accepted at the bench; processing starts
+  async receiveSpecimen(orderId: string, receivedBy: string): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const [order] = await tx
+          .update(labOrders)
+          .set({
+            status: 'IN_PROGRESS',
+            receivedAt: new Date(),
+            receivedBy,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(labOrders.orderId, orderId), eq(labOrders.status, 'COLLECTED')))
+          .returning();
+
+        if (!order) {
+          throw await this.transitionError(orderId, 'received');
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: receivedBy,
+          action: 'LAB_SPECIMEN_RECEIVE',
+          entityType: 'lab_order',
+          entityId: orderId,
+          oldValues: { status: 'COLLECTED' },
+          newValues: { status: 'IN_PROGRESS' },
+        });
+
+        return order;
+      });
+
+      await this.afterChange(updated);
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to receive specimen:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to receive specimen', 500);
+    }
+  }
+
+  async enterResults(orderId: string, data: {
+    resultedBy: string;
+    results: LabResultInput[];
+    interpretation?: string | undefined;
+  }): Promise<any> {
+    try {
+      let critical: CriticalValue[] = [];
+
+      const updated = await db.transaction(async (tx) => {
+        const [order] = await tx
+          .select()
+          .from(labOrders)
+          .where(eq(labOrders.orderId, orderId));
+
+        if (!order) {
+          throw new AppError('Lab order not found', 404);
+        }
+
+        if (order.status !== 'IN_PROGRESS') {
+          throw new AppError(`Results cannot be entered for an order that is ${order.status}`, 409);
+        }
+
+        const ordered = order.tests as OrderedTest[];
+        const results = this.buildResults(ordered, data.results, await this.catalogueDefaults(tx, order.patientId, ordered));
+
+        critical = await this.criticalAlertService.findCriticalValues(results);
+        for (const { result, direction } of critical) {
+          if (direction !== 'UNIT_MISMATCH') {
+            result.flag = direction === 'LOW' ? 'CRITICAL_LOW' : 'CRITICAL_HIGH';
+          }
+        }
+
+        const [saved] = await tx
+          .update(labOrders)
+          .set({
+            results,
+            interpretation: data.interpretation ?? null,
+            isCritical: critical.length > 0,
+            resultedAt: new Date(),
+            resultedBy: data.resultedBy,
+            updatedAt: new Date(),
+          })
+          .where(eq(labOrders.orderId, orderId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.resultedBy,
+          action: 'LAB_RESULTS_ENTER',
+          entityType: 'lab_order',
+          entityId: orderId,
+          oldValues: order.results ? { results: order.results } : null,
+          newValues: { results },
+        });
+
+        return saved!;
+      });
+
+      await this.afterChange(updated);
+
+      // Critical values are called through before verification
+      if (critical.length > 0) {
+        await this.criticalAlertService.raiseAlert(updated, critical, data.resultedBy);
+      } else {
+        await this.criticalAlertService.resolveAlert(updated, data.resultedBy);
+      }
+
+      logger.info(`Results entered for lab order ${orderId}; awaiting verification`);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to enter lab results:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to enter lab results', 500);
+    }
+  }
+
+  // Second-technician check; approved results are released to the ordering doctor
+  async verifyResults(orderId: string, data: {
+    verifiedBy: string;
+    approve: boolean;
+    comment?: string | undefined;
+  }): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const [order] = await tx
+          .select()
+          .from(labOrders)
+          .where(eq(labOrders.orderId, orderId));
+
+        if (!order) {
+          throw new AppError('Lab order not found', 404);
+        }
+
+        if (order.status !== 'IN_PROGRESS' || !order.resultedAt) {
+          throw new AppError('There are no results awaiting verification on this order', 409);
+        }
+
+        if (order.resultedBy === data.verifiedBy) {
+          throw new AppError('Results must be verified by a different technician', 403);
+        }
+
+        // Returned results stay on the order for correction and re-submission
+        const [saved] = await tx
+          .update(labOrders)
+          .set(data.approve
+            ? { status: 'COMPLETED', completedAt: new Date(), completedBy: data.verifiedBy, updatedAt: new Date() }
+            : { resultedAt: null, resultedBy: null, updatedAt: new Date() })
+          .where(eq(labOrders.orderId, orderId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.verifiedBy,
+          action: data.approve ? 'LAB_RESULTS_VERIFY' : 'LAB_RESULTS_RETURN',
+          entityType: 'lab_order',
+          entityId: orderId,
+          oldValues: { status: order.status, resultedBy: order.resultedBy },
+          newValues: { status: saved!.status },
+          details: data.comment,
+        });
+
+        return saved!;
+      });
+
+      await this.afterChange(updated);
+
+      if (data.approve) {
+        await this.notifyOrderingDoctor(updated);
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to verify lab results:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to verify lab results', 500);
+    }
+  }
+
+  // Haemolysed, clotted, mislabelled etc.; the doctor has to re-order
+  async rejectSpecimen(orderId: string, data: { rejectedBy: string; reason: string }): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select({ status: labOrders.status })
+          .from(labOrders)
+          .where(eq(labOrders.orderId, orderId));
+
+        const [order] = await tx
+          .update(labOrders)
+          .set({
+            status: 'FAILED',
+            rejectionReason: data.reason,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(labOrders.orderId, orderId), inArray(labOrders.status, ['COLLECTED', 'IN_PROGRESS'])))
+          .returning();
+
+        if (!order) {
+          throw await this.transitionError(orderId, 'rejected');
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: data.rejectedBy,
+          action: 'LAB_SPECIMEN_REJECT',
+          entityType: 'lab_order',
+          entityId: orderId,
+          oldValues: { status: current?.status },
+          newValues: { status: 'FAILED' },
+          details: data.reason,
+        });
+
+        return order;
+      });
+
+      await this.afterChange(updated);
+      await this.notifyOrderingDoctor(updated);
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to reject specimen:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to reject specimen', 500);
+    }
+  }
+
+  // Unit and the age/sex-appropriate reference range from the catalogue, per ordered test
+  private async catalogueDefaults(
+    tx: Transaction,
+    patientId: string,
+    ordered: OrderedTest[]
+  ): Promise<Map<string, { unit: string | null; range: ReferenceRange | null }>> {
+    const [patient] = await tx
+      .select({ dateOfBirth: patients.dateOfBirth, gender: patients.gender })
+      .from(patients)
+      .where(eq(patients.patientId, patientId));
+
+    const catalogue = await this.catalogueService.getTestsByCodes(ordered.map(t => t.testCode));
+    const ageYears = patient
+      ? (Date.now() - new Date(patient.dateOfBirth).getTime()) / (365.25 * 24 * 60 * 60 * 1000)
+      : 0;
+
+    const defaults = new Map<string, { unit: string | null; range: ReferenceRange | null }>();
+    for (const [code, test] of catalogue) {
+      defaults.set(code, {
+        unit: test.unit,
+        range: patient
+          ? LabCatalogueService.referenceRangeFor(test.referenceRanges as ReferenceRange[], { ageYears, gender: patient.gender })
+          : null,
+      });
+    }
+
+    return defaults;
+  }
+
+  // Every ordered test needs at least one result; numeric values are flagged against the range
+  private buildResults(
+    ordered: OrderedTest[],
+    entries: LabResultInput[],
+    defaults: Map<string, { unit: string | null; range: ReferenceRange | null }>
+  ): LabResult[] {
+    const testsByCode = new Map(ordered.map(test => [test.testCode, test]));
+
+    const unknown = entries.filter(entry => !testsByCode.has(entry.testCode));
+    if (unknown.length > 0) {
+      throw new AppError(`Tests not on this order: ${[...new Set(unknown.map(e => e.testCode))].join(', ')}`, 400);
+    }
+
+    const missing = ordered.filter(test => !entries.some(entry => entry.testCode === test.testCode));
+    if (missing.length > 0) {
+      throw new AppError(`Results missing for: ${missing.map(t => t.testName).join(', ')}`, 400);
+    }
+
+    return entries.map(entry => {
+      // Ranges entered at the bench override the catalogue
+      const entered = entry.referenceLow !== undefined || entry.referenceHigh !== undefined || entry.referenceRange !== undefined;
+      const fallback = defaults.get(entry.testCode);
+      const range = entered ? null : fallback?.range ?? null;
+
+      const low = entry.referenceLow ?? range?.low ?? null;
+      const high = entry.referenceHigh ?? range?.high ?? null;
+      const numeric = typeof entry.value === 'number' ? entry.value : Number(entry.value);
+
+      let flag: LabResultFlag | null = entry.flag ?? null;
+      if (Number.isFinite(numeric) && (low !== null || high !== null)) {
+        flag = low !== null && numeric < low ? 'LOW'
+          : high !== null && numeric > high ? 'HIGH'
+          : 'NORMAL';
+      }
+
+      return {
+        testCode: entry.testCode,
+        testName: testsByCode.get(entry.testCode)!.testName,
+        analyte: entry.analyte ?? null,
+        value: entry.value,
+        unit: entry.unit ?? fallback?.unit ?? null,
+        referenceLow: low,
+        referenceHigh: high,
+        referenceRange: entry.referenceRange
+          ?? range?.text
+          ?? (low !== null && high !== null ? `${low}-${high}` : low !== null ? `>${low}` : high !== null ? `<${high}` : null),
+        flag,
+        comment: entry.comment ?? null,
+      };
+    });
+  }
+
+  private async notifyOrderingDoctor(order: typeof labOrders.$inferSelect): Promise<void> {
+    const [patient] = await db
+      .select({ straId: patients.straId })
+      .from(patients)
+      .where(eq(patients.patientId, order.patientId));
+
+    const results = (order.results as LabResult[] | null) || [];
+    const payload = {
+      orderId: order.orderId,
+      patientId: order.patientId,
+      straId: patient?.straId,
+      status: order.status,
+      tests: (order.tests as OrderedTest[]).map(t => t.testName),
+      abnormalCount: results.filter(r => r.flag && r.flag !== 'NORMAL').length,
+      rejectionReason: order.rejectionReason,
+    };
+
+    this.socketService.broadcastToDoctor(order.doctorId, 'lab_result', payload);
+    await this.notificationService.sendLabResultNotification({ doctorId: order.doctorId, ...payload });
+  }
+
+  private async afterChange(order: typeof labOrders.$inferSelect): Promise<void> {
+    await this.redisService.del(`patient_details:${order.patientId}`);
+  }
+
+  private async transitionError(orderId: string, action: string): Promise<AppError> {
+    const [order] = await db
+      .select({ status: labOrders.status })
+      .from(labOrders)
+      .where(eq(labOrders.orderId, orderId));
+
+    if (!order) {
+      return new AppError('Lab order not found', 404);
+    }
+
+    return new AppError(`A ${order.status} order cannot be ${action}`, 409);
+  }
+
+  private generateBarcode(): string {
+    const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+    return `L${date}${randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+
+  private selectWithNames() {
+    const doctors = alias(users, 'doctors');
+
+    return db
+      .select({
+        orderId: labOrders.orderId,
+        patientId: labOrders.patientId,
+        straId: patients.straId,
+        patientName: sql<string>`${patients.firstName} || ' ' || ${patients.lastName}`,
+        dateOfBirth: patients.dateOfBirth,
+        gender: patients.gender,
+        encounterId: labOrders.encounterId,
+        doctorId: labOrders.doctorId,
+        doctorName: sql<string | null>`${doctors.firstName} || ' ' || ${doctors.lastName}`,
+        tests: labOrders.tests,
+        priority: labOrders.priority,
+        status: labOrders.status,
+        specimenBarcode: labOrders.specimenBarcode,
+        orderedAt: labOrders.orderedAt,
+        dueAt: labOrders.dueAt,
+        collectedAt: labOrders.collectedAt,
+        receivedAt: labOrders.receivedAt,
+        resultedAt: labOrders.resultedAt,
+        resultedBy: labOrders.resultedBy,
+        completedAt: labOrders.completedAt,
+        completedBy: labOrders.completedBy,
+        results: labOrders.results,
+        interpretation: labOrders.interpretation,
+        isCritical: labOrders.isCritical,
+        rejectionReason: labOrders.rejectionReason,
+        notes: labOrders.notes,
+      })
+      .from(labOrders)
+      .innerJoin(patients, eq(labOrders.patientId, patients.patientId))
+      .leftJoin(doctors, eq(labOrders.doctorId, doctors.userId));
+  }
+}
@@ -0,0 +1,276 @@
+import { db, sql } from '../db';
+import { diagnosticImaging, patients, users, resources } from '../db/schema';
+import { eq, and, or, gte, lte, inArray, notInArray, isNull, asc, type SQL } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { RadiologyService } from './RadiologyService';
+import { ClinicTime } from '../utils/ClinicTime';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+
+// Orders published to the modalities; once acquisition starts they drop off the worklist
+const WORKLIST_STATUSES = ['PENDING', 'SCHEDULED'];
+
+const MAX_WORKLIST_ITEMS = 500;
+
+// Free-text modality on the order -> DICOM modality code
+const DICOM_MODALITIES: Record<string, string> = {
+  XRAY: 'DX',
+  XR: 'DX',
+  DX: 'DX',
+  CR: 'CR',
+  CT: 'CT',
+  MRI: 'MR',
+  MR: 'MR',
+  ULTRASOUND: 'US',
+  US: 'US',
+  MAMMOGRAPHY: 'MG',
+  MG: 'MG',
+  FLUOROSCOPY: 'RF',
+  RF: 'RF',
+};
+
+const DICOM_PRIORITIES: Record<string, string> = {
+  RED: 'STAT',
+  YELLOW: 'HIGH',
+  GREEN: 'ROUTINE',
+};
+
+// C-FIND matching keys understood by the worklist; empty values match everything
+export interface WorklistQuery {
+  patientId?: string | undefined;
+  patientName?: string | undefined;
+  accessionNumber?: string | undefined;
+  modality?: string | undefined;
+  scheduledDate?: string | undefined;
+}
+
+export class ModalityWorklistService {
+  private radiologyService: RadiologyService;
+
+  constructor() {
+    this.radiologyService = new RadiologyService();
+  }
+
+  static toDicomModality(modality: string): string {
+    return DICOM_MODALITIES[modality.toUpperCase().replace(/[^A-Z]/g, '')] || 'OT';
+  }
+
+  // Stable UID suggested to the modality when the order has not been acquired yet
+  static studyInstanceUidFor(imagingId: string): string {
+    return `2.25.${BigInt(`0x${imagingId.replace(/-/g, '')}`).toString()}`;
+  }
+
+  // Naturalised DICOM datasets, one per scheduled procedure step
+  async findWorklistItems(query: WorklistQuery): Promise<Record<string, unknown>[]> {
+    try {
+      await this.assignMissingAccessionNumbers();
+
+      const conditions = [inArray(diagnosticImaging.status, WORKLIST_STATUSES)];
+
+      const range = this.parseDateRange(query.scheduledDate);
+      const startTime = sql`COALESCE(${diagnosticImaging.scheduledTime}, ${diagnosticImaging.createdAt})`;
+      if (range.from) conditions.push(gte(startTime, range.from));
+      if (range.to) conditions.push(lte(startTime, range.to));
+
+      // Matching keys are applied before the row limit so a narrow query is never crowded out
+      const patientId = this.wildcardCondition(patients.straId, query.patientId);
+      const patientName = this.wildcardCondition(sql`${patients.lastName} || '^' || ${patients.firstName}`, query.patientName);
+      const accessionNumber = this.wildcardCondition(diagnosticImaging.accessionNumber, query.accessionNumber);
+      const modality = this.modalityCondition(query.modality);
+      for (const condition of [patientId, patientName, accessionNumber, modality]) {
+        if (condition) conditions.push(condition);
+      }
+
+      const rows = await db
+        .select({
+          imagingId: diagnosticImaging.imagingId,
+          accessionNumber: diagnosticImaging.accessionNumber,
+          studyInstanceUid: diagnosticImaging.studyInstanceUid,
+          modality: diagnosticImaging.modality,
+          bodyPart: diagnosticImaging.bodyPart,
+          clinicalIndication: diagnosticImaging.clinicalIndication,
+          priority: diagnosticImaging.priority,
+          scheduledTime: diagnosticImaging.scheduledTime,
+          orderedAt: diagnosticImaging.createdAt,
+          straId: patients.straId,
+          firstName: patients.firstName,
+          lastName: patients.lastName,
+          dateOfBirth: patients.dateOfBirth,
+          gender: patients.gender,
+          doctorFirstName: users.firstName,
+          doctorLastName: users.lastName,
+          resourceName: resources.name,
+        })
+        .from(diagnosticImaging)
+        .innerJoin(patients, eq(diagnosticImaging.patientId, patients.patientId))
+        .leftJoin(users, eq(diagnosticImaging.doctorId, users.userId))
+        .leftJoin(resources, eq(diagnosticImaging.resourceId, resources.resourceId))
+        .where(and(...conditions))
+        .orderBy(sql`${diagnosticImaging.scheduledTime} ASC NULLS LAST`, asc(diagnosticImaging.createdAt))
+        .limit(MAX_WORKLIST_ITEMS);
+
+      return rows.map((row) => {
+        const start = row.scheduledTime || row.orderedAt;
+        const dicomModality = ModalityWorklistService.toDicomModality(row.modality);
+        const description = `${row.modality} ${row.bodyPart}`.slice(0, 64);
+
+        return {
+          SpecificCharacterSet: 'ISO_IR 192',
+          AccessionNumber: row.accessionNumber,
+          ReferringPhysicianName: row.doctorLastName ? `${row.doctorLastName}^${row.doctorFirstName}` : '',
+          PatientName: `${row.lastName}^${row.firstName}`,
+          PatientID: row.straId,
+          PatientBirthDate: row.dateOfBirth.replace(/-/g, ''),
+          PatientSex: row.gender === 'Male' ? 'M' : row.gender === 'Female' ? 'F' : 'O',
+          StudyInstanceUID: row.studyInstanceUid || ModalityWorklistService.studyInstanceUidFor(row.imagingId),
+          RequestedProcedureID: row.accessionNumber,
+          RequestedProcedureDescription: description,
+          RequestedProcedurePriority: DICOM_PRIORITIES[row.priority] || 'ROUTINE',
+          ReasonForTheRequestedProcedure: row.clinicalIndication.slice(0, 64),
+          ScheduledProcedureStepSequence: [
+            {
+              Modality: dicomModality,
+              ScheduledStationName: row.resourceName || '',
+              ScheduledProcedureStepStartDate: this.formatDate(start),
+              ScheduledProcedureStepStartTime: this.formatTime(start),
+              ScheduledProcedureStepID: row.accessionNumber,
+              ScheduledProcedureStepDescription: description,
+              ScheduledProcedureStepStatus: 'SCHEDULED',
+            },
+          ],
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to build modality worklist:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to build modality worklist', 500);
+    }
+  }
+
+  // MPPS N-CREATE: the modality has started the exam for a worklist item
+  async recordProcedureStarted(data: {
+    accessionNumber: string;
+    studyInstanceUid: string;
+    mppsInstanceUid: string;
+    startedAt: Date;
+  }): Promise<any> {
+    const study = await this.resolveStudy({ accessionNumber: data.accessionNumber });
+
+    return this.radiologyService.recordAcquisitionStarted(study.imagingId, data);
+  }
+
+  // MPPS N-SET "COMPLETED" or the PACS webhook; one of the identifiers is enough to find the order
+  async recordProcedureCompleted(data: {
+    accessionNumber?: string | undefined;
+    mppsInstanceUid?: string | undefined;
+    studyInstanceUid?: string | undefined;
+    startedAt?: Date | undefined;
+    completedAt?: Date | undefined;
+    source: 'MPPS' | 'WEBHOOK';
+  }): Promise<any> {
+    const study = await this.resolveStudy(data);
+
+    // An N-SET may omit the UID already reported by the N-CREATE
+    const studyInstanceUid = data.studyInstanceUid || study.studyInstanceUid;
+    if (!studyInstanceUid) {
+      throw new AppError('Study Instance UID is required', 400);
+    }
+
+    return this.radiologyService.recordAcquisitionCompleted(study.imagingId, {
+      studyInstanceUid,
+      startedAt: data.startedAt,
+      completedAt: data.completedAt || new Date(),
+      source: data.source,
+    });
+  }
+
+  private async resolveStudy(keys: { accessionNumber?: string | undefined; mppsInstanceUid?: string | undefined }) {
+    const conditions = [];
+    if (keys.accessionNumber) conditions.push(eq(diagnosticImaging.accessionNumber, keys.accessionNumber));
+    if (keys.mppsInstanceUid) conditions.push(eq(diagnosticImaging.mppsInstanceUid, keys.mppsInstanceUid));
+
+    if (conditions.length === 0) {
+      throw new AppError('An accession number or MPPS instance UID is required', 400);
+    }
+
+    const [study] = await db
+      .select({ imagingId: diagnosticImaging.imagingId, studyInstanceUid: diagnosticImaging.studyInstanceUid })
+      .from(diagnosticImaging)
+      .where(or(...conditions))
+      .limit(1);
+
+    if (!study) {
+      throw new AppError('No imaging order matches the reported procedure', 404);
+    }
+
+    return study;
+  }
+
+  // Orders placed before accession numbers existed
+  private async assignMissingAccessionNumbers(): Promise<void> {
+    const missing = await db
+      .select({ imagingId: diagnosticImaging.imagingId })
+      .from(diagnosticImaging)
+      .where(and(inArray(diagnosticImaging.status, WORKLIST_STATUSES), isNull(diagnosticImaging.accessionNumber)));
+
+    for (const { imagingId } of missing) {
+      await db
+        .update(diagnosticImaging)
+        .set({ accessionNumber: RadiologyService.generateAccessionNumber() })
+        .where(and(eq(diagnosticImaging.imagingId, imagingId), isNull(diagnosticImaging.accessionNumber)));
+    }
+  }
+
+  // DICOM date matching: single date, "from-to", "from-" or "-to"
+  private parseDateRange(value: string | undefined): { from?: Date; to?: Date } {
+    if (!value) return {};
+
+    const [fromPart, toPart] = value.includes('-') ? value.split('-') : [value, value];
+    const parse = (part: string | undefined, endOfDay: boolean) => {
+      const match = part?.trim().match(/^(\d{4})(\d{2})(\d{2})$/);
+      if (!match) return undefined;
+      const date = `${match[1]}-${match[2]}-${match[3]}`;
+      return endOfDay
+        ? new Date(ClinicTime.toInstant(ClinicTime.addDays(date, 1)).getTime() - 1)
+        : ClinicTime.toInstant(date);
+    };
+
+    const from = parse(fromPart, false);
+    const to = parse(toPart, true);
+
+    return { ...(from && { from }), ...(to && { to }) };
+  }
+
+  // DICOM wildcard matching: "*" any run of characters, "?" a single character
+  private wildcardCondition(column: SQL | PgColumn, pattern: string | undefined): SQL | undefined {
+    if (!pattern || pattern === '*') return undefined;
+
+    const like = pattern.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%').replace(/\?/g, '_');
+    return sql`${column} ILIKE ${like}`;
+  }
+
+  // The DICOM code is derived from the free-text modality, so match the codes first and filter on the texts that map to them
+  private modalityCondition(pattern: string | undefined): SQL | undefined {
+    if (!pattern || pattern === '*') return undefined;
+
+    const regex = new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+    const normalised = sql`UPPER(REGEXP_REPLACE(${diagnosticImaging.modality}, '[^A-Za-z]', '', 'g'))`;
+    const matching = Object.keys(DICOM_MODALITIES).filter((key) => regex.test(DICOM_MODALITIES[key]!));
+    const other = Object.keys(DICOM_MODALITIES).filter((key) => !regex.test(DICOM_MODALITIES[key]!));
+
+    // Unmapped modalities are sent as "OT"
+    if (regex.test('OT')) {
+      return other.length > 0 ? notInArray(normalised, other) : undefined;
+    }
+    return matching.length > 0 ? inArray(normalised, matching) : sql`FALSE`;
+  }
+
+  // DICOM DA and TM in facility time
+  private formatDate(date: Date): string {
+    return ClinicTime.formatDate(date).replace(/-/g, '');
+  }
+
+  private formatTime(date: Date): string {
+    return ClinicTime.timestamp(date).slice(11).replace(/:/g, '');
+  }
+}
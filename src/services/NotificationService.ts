@@ -2,24 +2,28 @@ import axios from 'axios';
 import sgMail from '@sendgrid/mail';
 import { db } from '../db';
 import { notifications, patients, users } from '../db/schema';
-import { and, count, eq, sql } from 'drizzle-orm';
+import { and, count, eq, inArray, sql } from 'drizzle-orm';
 import { AppError } from '../middleware/error';
 import { logger } from '../config/logger';
-import { env } from '../config/env.js';
+// @ts-ignore
+import { AFRICASTALKING_API_KEY, AFRICASTALKING_USERNAME, SENDGRID_API_KEY, EMAIL_FROM } from '../config/env.js';
 import { RedisService } from './RedisService';
+import { RosterService } from './RosterService';
 
 export class NotificationService {
   private redisService: RedisService;
+  private rosterService: RosterService;
   private africasTalkingConfigured: boolean;
   private sendGridConfigured: boolean;
 
   constructor() {
     this.redisService = new RedisService();
-    this.africasTalkingConfigured = !!env.AFRICASTALKING_API_KEY && !!env.AFRICASTALKING_USERNAME;
-    this.sendGridConfigured = !!env.SENDGRID_API_KEY;
+    this.rosterService = new RosterService();
+    this.africasTalkingConfigured = !!AFRICASTALKING_API_KEY && !!AFRICASTALKING_USERNAME;
+    this.sendGridConfigured = !!SENDGRID_API_KEY;
 
     if (this.sendGridConfigured) {
-      sgMail.setApiKey(env.SENDGRID_API_KEY!);
+      sgMail.setApiKey(SENDGRID_API_KEY!);
     }
   }
 
@@ -28,32 +32,48 @@ export class NotificationService {
     straId: string;
     patientName: string;
     department: string;
+    departmentId?: string | undefined;
     mewsScore: number;
+    scoringAlgorithm?: string;
     vitalSigns: any;
   }): Promise<void> {
     try {
-      const message = `🚨 CRITICAL ALERT: Patient ${data.straId} (${data.patientName}) has MEWS score ${data.mewsScore} in ${data.department}. Requires immediate attention.`;
+      const message = `🚨 CRITICAL ALERT: Patient ${data.straId} (${data.patientName}) has ${data.scoringAlgorithm || 'MEWS'} score ${data.mewsScore} in ${data.department}. Requires immediate attention.`;
 
-      // Get all doctors and nurses
-      const staff = await db
-        .select()
-        .from(users)
-        .where(eq(users.role, 'doctor').or(eq(users.role, 'nurse')));
+      // Page the doctors and nurses on duty in the department, including on-call cover
+      let onDutyStaff = await this.rosterService.getOnDutyStaff({
+        departmentId: data.departmentId,
+        roles: ['doctor', 'nurse'],
+      });
+
+      // Nobody rostered there right now: widen to everyone on duty rather than page no one
+      if (onDutyStaff.length === 0 && data.departmentId) {
+        logger.warn(`No staff on duty in ${data.department}; paging all on-duty clinicians`);
+        onDutyStaff = await this.rosterService.getOnDutyStaff({ roles: ['doctor', 'nurse'] });
+      }
+
+      // An empty roster (new deployment, gap in the rota) must not silence the alert
+      let recipients: { phoneNumber: string | null }[] = onDutyStaff;
+      if (recipients.length === 0) {
+        logger.error(`No staff on duty for critical alert on ${data.straId}; paging available doctors and nurses`);
+        recipients = await db
+          .select({ phoneNumber: users.phoneNumber })
+          .from(users)
+          .where(and(inArray(users.role, ['doctor', 'nurse']), eq(users.isAvailable, true), eq(users.isActive, true)));
+      }
 
-      // Send SMS to on-call staff
-      const onCallStaff = staff.filter(s => s.isAvailable);
-      for (const person of onCallStaff) {
+      for (const person of recipients) {
         if (person.phoneNumber) {
           await this.sendSMS(person.phoneNumber, message);
         }
       }
 
       // Send email to department heads
-      const departmentHeads = staff.filter(s => 
-        s.department === data.department && 
-        ['doctor', 'management'].includes(s.role)
-      );
-      
+      const departmentHeads = await db
+        .select()
+        .from(users)
+        .where(and(eq(users.department, data.department), inArray(users.role, ['doctor', 'management'])));
+
       for (const head of departmentHeads) {
         if (head.email) {
           await this.sendEmail(head.email, 'Critical Patient Alert', message);
@@ -87,14 +107,14 @@ export class NotificationService {
       const response = await axios.post(
         'https://api.africastalking.com/version1/messaging',
         {
-          username: env.AFRICASTALKING_USERNAME,
+          username: AFRICASTALKING_USERNAME,
           to: phoneNumber,
           message: message,
           from: 'STRA', // Short code or alphanumeric
         },
         {
           headers: {
-            'apiKey': env.AFRICASTALKING_API_KEY,
+            'apiKey': AFRICASTALKING_API_KEY,
             'Content-Type': 'application/x-www-form-urlencoded',
             'Accept': 'application/json',
           },
@@ -118,7 +138,7 @@ export class NotificationService {
 
       const msg = {
         to,
-        from: env.EMAIL_FROM || 'noreply@stra-system.com',
+        from: EMAIL_FROM || 'noreply@stra-system.com',
         subject,
         html,
       };
@@ -137,11 +157,8 @@ export class NotificationService {
       const utilization = (currentLoad / maxCapacity) * 100;
       const message = `⚠️ Department overload: ${utilization.toFixed(1)}% capacity reached. Current: ${currentLoad}/${maxCapacity} patients.`;
 
-      // Get department staff
-      const departmentStaff = await db
-        .select()
-        .from(users)
-        .where(eq(users.department, departmentId));
+      // Staff on duty in the department
+      const departmentStaff = await this.rosterService.getOnDutyStaff({ departmentId });
 
       // Get management
       const management = await db
@@ -174,6 +191,40 @@ export class NotificationService {
     }
   }
 
+  async sendRetriageReminder(data: {
+    departmentId: string;
+    departmentName: string;
+    nurses: { userId: string; phoneNumber: string | null }[];
+    patients: { queueId: string; straId: string; urgencyLevel: string; waitingMinutes: number; reason: string }[];
+  }): Promise<void> {
+    try {
+      const lines = data.patients.map(p =>
+        `${p.straId} (${p.urgencyLevel}, waiting ${p.waitingMinutes} min${p.reason === 'MAX_WAIT_EXCEEDED' ? ', over limit' : ''})`
+      );
+      const message = `⏱️ Re-triage due in ${data.departmentName}: ${lines.join('; ')}.`;
+      const priority = data.patients.some(p => p.urgencyLevel === 'RED') ? 'RED' : 'YELLOW';
+
+      for (const nurse of data.nurses) {
+        await this.logNotification({
+          type: 'IN_APP',
+          title: 'Re-triage Reminder',
+          message,
+          userId: nurse.userId,
+          priority,
+          metadata: { departmentId: data.departmentId, patients: data.patients },
+        });
+
+        if (nurse.phoneNumber) {
+          await this.sendSMS(nurse.phoneNumber, message);
+        }
+      }
+
+      logger.info(`Re-triage reminder sent for ${data.patients.length} patients in ${data.departmentName}`);
+    } catch (error) {
+      logger.error('Failed to send re-triage reminder:', error);
+    }
+  }
+
   async sendLowStockAlert(data: {
     medicationId: string;
     medicationName: string;
@@ -212,44 +263,174 @@ export class NotificationService {
     }
   }
 
-  async sendShiftChangeSummary(staffId: string, shiftData: any): Promise<void> {
+  async sendShiftChangeSummary(staffId: string, handover: {
+    handoverId: string;
+    departmentId: string;
+    departmentName: string;
+    shiftEnd: Date;
+    summary: {
+      waiting: number;
+      inProgress: number;
+      red: number;
+      patientsSeen: number;
+      pendingLabs: number;
+      pendingImaging: number;
+      criticalVitals: number;
+      allocatedResources: number;
+    };
+    outgoingNotes?: string | null | undefined;
+  }): Promise<void> {
     try {
-      const message = `👥 Shift Summary:\nPatients seen: ${shiftData.patientsSeen}\nCritical cases: ${shiftData.criticalCases}\nPending: ${shiftData.pendingCases}`;
-
-      // Get incoming shift staff
-      const incomingStaff = await db
-        .select()
-        .from(users)
-        .where(eq(users.department, shiftData.department));
+      const { summary } = handover;
+      const message = `👥 Handover ${handover.departmentName}: ${summary.waiting} waiting, ${summary.inProgress} in progress (${summary.red} RED). `
+        + `Pending: ${summary.pendingLabs} lab, ${summary.pendingImaging} imaging. `
+        + `Critical vitals this shift: ${summary.criticalVitals}. Resources in use: ${summary.allocatedResources}. `
+        + 'Please review and acknowledge the handover.';
+
+      // Incoming shift: staff on duty in the department once the outgoing shift has ended
+      const incomingStaff = (await this.rosterService.getOnDutyStaff({
+        departmentId: handover.departmentId,
+        at: handover.shiftEnd,
+      })).filter(person => person.userId !== staffId);
+
+      if (incomingStaff.length === 0) {
+        logger.warn(`No incoming staff rostered in ${handover.departmentName} for handover ${handover.handoverId}`);
+      }
 
       for (const person of incomingStaff) {
+        await this.logNotification({
+          type: 'IN_APP',
+          title: 'Shift Handover',
+          message,
+          userId: person.userId,
+          priority: summary.red > 0 ? 'RED' : 'GREEN',
+          metadata: { handoverId: handover.handoverId, departmentId: handover.departmentId, summary },
+        });
+
         if (person.phoneNumber) {
           await this.sendSMS(person.phoneNumber, message);
         }
       }
 
+      logger.info(`Shift handover sent for staff ${staffId}`, { handoverId: handover.handoverId });
+    } catch (error) {
+      logger.error('Failed to send shift summary:', error);
+    }
+  }
+
+  async sendLabResultNotification(data: {
+    doctorId: string;
+    orderId: string;
+    patientId: string;
+    straId?: string | undefined;
+    status: string;
+    tests: string[];
+    abnormalCount: number;
+    rejectionReason?: string | null | undefined;
+  }): Promise<void> {
+    try {
+      const tests = data.tests.join(', ');
+      const message = data.status === 'FAILED'
+        ? `🧪 Specimen rejected for ${data.straId} (${tests}): ${data.rejectionReason}. Please re-order.`
+        : `🧪 Results ready for ${data.straId}: ${tests}.`
+          + (data.abnormalCount > 0 ? ` ${data.abnormalCount} result(s) outside reference range.` : '');
+
       await this.logNotification({
-        type: 'SMS',
-        title: 'Shift Change Summary',
+        type: 'IN_APP',
+        title: data.status === 'FAILED' ? 'Lab Specimen Rejected' : 'Lab Results Ready',
+        message,
+        userId: data.doctorId,
+        patientId: data.patientId,
+        priority: data.status === 'FAILED' || data.abnormalCount > 0 ? 'YELLOW' : 'GREEN',
+        metadata: { orderId: data.orderId, status: data.status, abnormalCount: data.abnormalCount },
+      });
+
+      logger.info(`Lab result notification sent to doctor ${data.doctorId}`, { orderId: data.orderId });
+    } catch (error) {
+      logger.error('Failed to send lab result notification:', error);
+    }
+  }
+
+  async sendImagingReportNotification(data: {
+    doctorId: string;
+    imagingId: string;
+    patientId: string;
+    straId?: string | undefined;
+    study: string;
+    impression: string | null;
+    addendum: boolean;
+  }): Promise<void> {
+    try {
+      const message = data.addendum
+        ? `🩻 Addendum added to the ${data.study} report for ${data.straId}. Please review.`
+        : `🩻 ${data.study} report for ${data.straId} is final. Impression: ${data.impression}`;
+
+      await this.logNotification({
+        type: 'IN_APP',
+        title: data.addendum ? 'Imaging Report Addendum' : 'Imaging Report Ready',
         message,
+        userId: data.doctorId,
+        patientId: data.patientId,
         priority: 'GREEN',
-        metadata: shiftData,
+        metadata: { imagingId: data.imagingId, addendum: data.addendum },
       });
 
-      logger.info(`Shift summary sent for staff ${staffId}`);
+      logger.info(`Imaging report notification sent to doctor ${data.doctorId}`, { imagingId: data.imagingId });
     } catch (error) {
-      logger.error('Failed to send shift summary:', error);
+      logger.error('Failed to send imaging report notification:', error);
+    }
+  }
+
+  async sendCriticalLabAlert(data: {
+    alertId: string;
+    orderId: string;
+    patientId: string;
+    straId: string;
+    patientName: string;
+    orderingDoctor: string;
+    recipientId: string;
+    criticalValues: Array<{ name: string; value: string | number; unit: string; direction: string }>;
+    escalation: boolean;
+  }): Promise<void> {
+    try {
+      const values = data.criticalValues.map(v => `${v.name} ${v.value} ${v.unit} (${v.direction === 'LOW' ? 'critically low' : 'critically high'})`);
+      const message = data.escalation
+        ? `🚨 ESCALATION: critical lab result for ${data.straId} (${data.patientName}) not acknowledged by ${data.orderingDoctor}: ${values.join('; ')}. Please act and acknowledge.`
+        : `🚨 CRITICAL LAB RESULT: ${data.straId} (${data.patientName}): ${values.join('; ')}. Please acknowledge.`;
+
+      const [recipient] = await db
+        .select({ phoneNumber: users.phoneNumber })
+        .from(users)
+        .where(eq(users.userId, data.recipientId));
+
+      if (recipient?.phoneNumber) {
+        await this.sendSMS(recipient.phoneNumber, message);
+      }
+
+      await this.logNotification({
+        type: 'IN_APP',
+        title: data.escalation ? 'Critical Lab Result Escalation' : 'Critical Lab Result',
+        message,
+        userId: data.recipientId,
+        patientId: data.patientId,
+        priority: 'RED',
+        metadata: { alertId: data.alertId, orderId: data.orderId, escalation: data.escalation },
+      });
+
+      logger.info(`Critical lab alert sent to ${data.recipientId}`, { alertId: data.alertId, escalation: data.escalation });
+    } catch (error) {
+      logger.error('Failed to send critical lab alert:', error);
     }
   }
 
-  async sendPatientNotification(patientId: string, type: 'queue' | 'appointment' | 'results', data: any): Promise<void> {
+  async sendPatientNotification(patientId: string, type: 'queue' | 'appointment' | 'results', data: any): Promise<boolean> {
     try {
       const [patient] = await db
         .select()
         .from(patients)
         .where(eq(patients.patientId, patientId));
 
-      if (!patient?.phoneNumber) return;
+      if (!patient?.phoneNumber) return false;
 
       let message = '';
       let title = '';
@@ -261,6 +442,9 @@ export class NotificationService {
           break;
         case 'appointment':
           message = `📅 Appointment reminder: ${data.date} at ${data.time} with ${data.doctor}.`;
+          if (data.replyCode) {
+            message += ` Reply YES ${data.replyCode} to confirm or NO ${data.replyCode} to cancel.`;
+          }
           title = 'Appointment Reminder';
           break;
         case 'results':
@@ -269,7 +453,7 @@ export class NotificationService {
           break;
       }
 
-      await this.sendSMS(patient.phoneNumber, message);
+      const delivered = await this.sendSMS(patient.phoneNumber, message);
 
       await this.logNotification({
         type: 'SMS',
@@ -281,11 +465,61 @@ export class NotificationService {
       });
 
       logger.info(`Patient notification sent to ${patient.straId}`);
+      return delivered;
     } catch (error) {
       logger.error('Failed to send patient notification:', error);
+      return false;
     }
   }
 
+  async sendDischargeSummary(data: {
+    patientId: string;
+    straId: string;
+    patientName: string;
+    phoneNumber?: string | undefined;
+    email?: string | undefined;
+    link: string;
+    html: string;
+  }): Promise<{ sms: boolean; email: boolean }> {
+    const sent = { sms: false, email: false };
+
+    try {
+      if (data.phoneNumber) {
+        const message = `${data.straId}: your discharge summary is ready. Download it within 7 days: ${data.link}`;
+        sent.sms = await this.sendSMS(data.phoneNumber, message);
+
+        await this.logNotification({
+          type: 'SMS',
+          title: 'Discharge Summary',
+          message,
+          patientId: data.patientId,
+          priority: 'GREEN',
+          metadata: { link: data.link, delivered: sent.sms },
+        });
+      }
+
+      if (data.email) {
+        const html = `${data.html}<p><a href="${data.link}">Download the PDF copy</a> (link valid for 7 days).</p>`;
+        sent.email = await this.sendEmail(data.email, `Discharge summary for ${data.patientName}`, html);
+
+        await this.logNotification({
+          type: 'EMAIL',
+          title: 'Discharge Summary',
+          message: `Discharge summary emailed to ${data.email}`,
+          patientId: data.patientId,
+          priority: 'GREEN',
+          metadata: { link: data.link, delivered: sent.email },
+        });
+      }
+
+      logger.info(`Discharge summary sent for patient ${data.straId}`, sent);
+    } catch (error) {
+      logger.error('Failed to send discharge summary:', error);
+    }
+
+    return sent;
+  }
+
   async sendBulkNotifications(recipients: string[], message: string, type: 'SMS' | 'EMAIL'): Promise<any> {
     try {
       const results = [];
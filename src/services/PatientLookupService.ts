@@ -0,0 +1,102 @@
+import { db } from '../db';
+import { patients } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { QueueService } from './QueueService';
+import { StraId } from '../utils/StraId';
+
+export class PatientLookupService {
+  private queueService: QueueService;
+
+  constructor() {
+    this.queueService = new QueueService();
+  }
+
+  async findByStraId(straId: string): Promise<any | null> {
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(eq(patients.straId, StraId.normalize(straId)));
+
+    return patient || null;
+  }
+
+  async lookupByStraId(straId: string): Promise<any> {
+    try {
+      this.assertValidStraId(straId);
+
+      const patient = await this.findByStraId(straId);
+
+      if (!patient) {
+        throw new AppError('Patient not found', 404);
+      }
+
+      return patient;
+    } catch (error) {
+      logger.error('Failed to look up patient by STRA-ID:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to look up patient', 500);
+    }
+  }
+
+  assertValidStraId(straId: string): void {
+    if (!StraId.parse(straId)) {
+      throw new AppError('STRA-ID format is not recognised', 400);
+    }
+
+    if (!StraId.isValid(straId)) {
+      throw new AppError('STRA-ID check digit is invalid; please re-check the number', 400);
+    }
+  }
+
+  async lookupQueuePosition(straId: string, dateOfBirth: string): Promise<any> {
+    try {
+      this.assertValidStraId(straId);
+
+      const patient = await this.findByStraId(straId);
+
+      // Same response for unknown IDs and wrong birth dates so IDs cannot be probed
+      if (!patient || patient.dateOfBirth !== dateOfBirth) {
+        throw new AppError('No patient matches those details', 404);
+      }
+
+      const position = await this.queueService.getPatientPosition(patient.patientId);
+
+      if (!position) {
+        throw new AppError('You are not currently in a queue', 404);
+      }
+
+      return {
+        straId: patient.straId,
+        ...position,
+      };
+    } catch (error) {
+      logger.error('Failed to look up queue position:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to look up queue position', 500);
+    }
+  }
+
+  async getQueuePositionMessage(patient: { patientId: string; straId: string }): Promise<string> {
+    const position = await this.queueService.getPatientPosition(patient.patientId);
+
+    if (!position) {
+      return `${patient.straId}: you are not currently in a queue.`;
+    }
+
+    if (position.status === 'IN_PROGRESS') {
+      return `${patient.straId}: you have been called${position.room ? ` to ${position.room}` : ''} in ${position.department}. Please proceed now.`;
+    }
+
+    return `${patient.straId}: you are number ${position.position} in the ${position.department} queue. Estimated wait about ${position.estimatedWaitMinutes} min.`;
+  }
+
+  // Compares national significant digits so +2547... and 07... match
+  phoneMatches(a: string | null | undefined, b: string | null | undefined): boolean {
+    if (!a || !b) return false;
+    const digitsA = a.replace(/\D/g, '').slice(-9);
+    const digitsB = b.replace(/\D/g, '').slice(-9);
+    return digitsA.length === 9 && digitsA === digitsB;
+  }
+}
@@ -0,0 +1,469 @@
+import { db, sql } from '../db';
+import {
+  patients, patientMerges, auditLogs, users, encounters,
+  triageSessions, vitalsHistory, departmentQueues, urgencyHistory, appointments,
+  prescriptions, labOrders, diagnosticImaging, doctorAssignments, referrals,
+  dischargeSummaries, labCriticalAlerts, resources, notifications
+} from '../db/schema';
+import { eq, and, or, ne, isNull, inArray, desc, getTableColumns } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { RedisService } from './RedisService';
+import { NameMatcher } from '../utils/NameMatcher';
+
+export interface DuplicateCandidate {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  phoneNumber: string;
+  emergencyContact?: string | undefined;
+  nationalId?: string | undefined;
+  nhifNumber?: string | undefined;
+}
+
+export interface DuplicateMatch {
+  patientId: string;
+  straId: string;
+  patientName: string;
+  dateOfBirth: string;
+  phoneNumber: string;
+  score: number;
+  matchedOn: string[];
+}
+
+export const DUPLICATE_SCORE_THRESHOLD = 60;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A table with a uuid key and a patient foreign key that can be rewritten in place
+interface MergeableTable {
+  table: PgTable;
+  id: PgColumn;
+  patientId: PgColumn;
+}
+
+// Every table whose rows follow the patient when records are merged; a patient column missing here
+// and from MERGE_EXCLUDED_COLUMNS fails the merge test
+export const MERGEABLE_RECORDS = {
+  encounters: { table: encounters, id: encounters.encounterId, patientId: encounters.patientId },
+  triageSessions: { table: triageSessions, id: triageSessions.sessionId, patientId: triageSessions.patientId },
+  vitalsHistory: { table: vitalsHistory, id: vitalsHistory.vitalId, patientId: vitalsHistory.patientId },
+  departmentQueues: { table: departmentQueues, id: departmentQueues.queueId, patientId: departmentQueues.patientId },
+  urgencyHistory: { table: urgencyHistory, id: urgencyHistory.historyId, patientId: urgencyHistory.patientId },
+  appointments: { table: appointments, id: appointments.appointmentId, patientId: appointments.patientId },
+  prescriptions: { table: prescriptions, id: prescriptions.prescriptionId, patientId: prescriptions.patientId },
+  labOrders: { table: labOrders, id: labOrders.orderId, patientId: labOrders.patientId },
+  diagnosticImaging: { table: diagnosticImaging, id: diagnosticImaging.imagingId, patientId: diagnosticImaging.patientId },
+  doctorAssignments: { table: doctorAssignments, id: doctorAssignments.assignmentId, patientId: doctorAssignments.patientId },
+  referrals: { table: referrals, id: referrals.referralId, patientId: referrals.patientId },
+  dischargeSummaries: { table: dischargeSummaries, id: dischargeSummaries.summaryId, patientId: dischargeSummaries.patientId },
+  labCriticalAlerts: { table: labCriticalAlerts, id: labCriticalAlerts.alertId, patientId: labCriticalAlerts.patientId },
+  resources: { table: resources, id: resources.resourceId, patientId: resources.currentPatientId },
+  notifications: { table: notifications, id: notifications.notificationId, patientId: notifications.patientId },
+} satisfies Record<string, MergeableTable>;
+
+// Patient references that deliberately stay put: the merge bookkeeping itself
+export const MERGE_EXCLUDED_COLUMNS = [
+  patients.mergedIntoPatientId,
+  patientMerges.survivingPatientId,
+  patientMerges.mergedPatientId,
+];
+
+type MergeableRecord = keyof typeof MERGEABLE_RECORDS;
+type MovedRecords = Partial<Record<MergeableRecord, string[]>>;
+
+export class PatientMergeService {
+  private redisService: RedisService;
+
+  constructor() {
+    this.redisService = new RedisService();
+  }
+
+  async findPotentialDuplicates(candidate: DuplicateCandidate, excludePatientId?: string): Promise<DuplicateMatch[]> {
+    try {
+      const phone = this.phoneDigits(candidate.phoneNumber);
+      const emergency = this.phoneDigits(candidate.emergencyContact);
+
+      // Narrow to records sharing at least one strong identifier, then score in memory
+      const filters = [eq(patients.dateOfBirth, candidate.dateOfBirth)];
+      if (phone) {
+        filters.push(sql`RIGHT(regexp_replace(${patients.phoneNumber}, '\\D', '', 'g'), 9) = ${phone}`);
+        filters.push(sql`RIGHT(regexp_replace(${patients.emergencyContact}, '\\D', '', 'g'), 9) = ${phone}`);
+      }
+      if (emergency) {
+        filters.push(sql`RIGHT(regexp_replace(${patients.emergencyContact}, '\\D', '', 'g'), 9) = ${emergency}`);
+      }
+      if (candidate.nationalId) filters.push(eq(patients.nationalId, candidate.nationalId));
+      if (candidate.nhifNumber) filters.push(eq(patients.nhifNumber, candidate.nhifNumber));
+
+      const possible = await db
+        .select()
+        .from(patients)
+        .where(
+          and(
+            eq(patients.isActive, true),
+            isNull(patients.mergedIntoPatientId),
+            excludePatientId ? ne(patients.patientId, excludePatientId) : undefined,
+            or(...filters)
+          )
+        )
+        .limit(50);
+
+      return possible
+        .map(patient => ({ patient, ...this.scoreMatch(candidate, patient) }))
+        .filter(match => match.score >= DUPLICATE_SCORE_THRESHOLD)
+        .sort((a, b) => b.score - a.score)
+        .map(({ patient, score, matchedOn }) => ({
+          patientId: patient.patientId,
+          straId: patient.straId,
+          patientName: `${patient.firstName} ${patient.lastName}`,
+          dateOfBirth: patient.dateOfBirth,
+          phoneNumber: patient.phoneNumber,
+          score,
+          matchedOn,
+        }));
+    } catch (error) {
+      logger.error('Failed to check for duplicate patients:', error);
+      throw new AppError('Failed to check for duplicate patients', 500);
+    }
+  }
+
+  async mergePatients(data: {
+    survivingPatientId: string;
+    mergedPatientId: string;
+    reason: string;
+    mergedBy: string;
+  }): Promise<any> {
+    try {
+      if (data.survivingPatientId === data.mergedPatientId) {
+        throw new AppError('A patient cannot be merged into itself', 400);
+      }
+
+      const merge = await db.transaction(async (tx) => {
+        const records = await tx
+          .select()
+          .from(patients)
+          .where(inArray(patients.patientId, [data.survivingPatientId, data.mergedPatientId]));
+
+        const surviving = records.find(p => p.patientId === data.survivingPatientId);
+        const merged = records.find(p => p.patientId === data.mergedPatientId);
+
+        if (!surviving || !merged) {
+          throw new AppError('Patient not found', 404);
+        }
+
+        if (surviving.mergedIntoPatientId || merged.mergedIntoPatientId) {
+          throw new AppError('One of these patients has already been merged into another record', 409);
+        }
+
+        const activeEntries = await tx
+          .select({ patientId: departmentQueues.patientId })
+          .from(departmentQueues)
+          .where(
+            and(
+              inArray(departmentQueues.patientId, [data.survivingPatientId, data.mergedPatientId]),
+              inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+            )
+          );
+
+        if (new Set(activeEntries.map(e => e.patientId)).size > 1) {
+          throw new AppError('Both patients are currently queued; complete or cancel one visit before merging', 409);
+        }
+
+        // Only one visit may stay open; the duplicate's is parked and restored on revert
+        const [survivorVisit] = await tx
+          .select({ encounterId: encounters.encounterId })
+          .from(encounters)
+          .where(and(eq(encounters.patientId, data.survivingPatientId), eq(encounters.status, 'OPEN')))
+          .limit(1);
+
+        if (survivorVisit) {
+          await tx
+            .update(encounters)
+            .set({ status: 'MERGED', updatedAt: new Date() })
+            .where(and(eq(encounters.patientId, data.mergedPatientId), eq(encounters.status, 'OPEN')));
+        }
+
+        const movedRecords: MovedRecords = {};
+        for (const key of Object.keys(MERGEABLE_RECORDS) as MergeableRecord[]) {
+          movedRecords[key] = await this.reassignRecords(
+            tx,
+            key,
+            data.survivingPatientId,
+            eq(MERGEABLE_RECORDS[key].patientId, data.mergedPatientId)
+          );
+        }
+
+        await tx
+          .update(patients)
+          .set({
+            isActive: false,
+            mergedIntoPatientId: data.survivingPatientId,
+            updatedAt: new Date(),
+          })
+          .where(eq(patients.patientId, data.mergedPatientId));
+
+        const { score } = this.scoreMatch({
+          firstName: surviving.firstName,
+          lastName: surviving.lastName,
+          dateOfBirth: surviving.dateOfBirth,
+          phoneNumber: surviving.phoneNumber,
+          emergencyContact: surviving.emergencyContact || undefined,
+          nationalId: surviving.nationalId || undefined,
+          nhifNumber: surviving.nhifNumber || undefined,
+        }, merged);
+
+        const [mergeRecord] = await tx
+          .insert(patientMerges)
+          .values({
+            survivingPatientId: data.survivingPatientId,
+            mergedPatientId: data.mergedPatientId,
+            movedRecords,
+            matchScore: score,
+            reason: data.reason,
+            mergedBy: data.mergedBy,
+          })
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.mergedBy,
+          action: 'PATIENT_MERGE',
+          entityType: 'patient',
+          entityId: data.mergedPatientId,
+          oldValues: { patientId: data.mergedPatientId, straId: merged.straId, isActive: merged.isActive },
+          newValues: {
+            mergeId: mergeRecord?.mergeId,
+            survivingPatientId: data.survivingPatientId,
+            survivingStraId: surviving.straId,
+            movedRecords: this.countRecords(movedRecords),
+          },
+          details: data.reason,
+        });
+
+        return mergeRecord;
+      });
+
+      await this.clearPatientCache(data.survivingPatientId, data.mergedPatientId);
+
+      logger.info(`Patient ${data.mergedPatientId} merged into ${data.survivingPatientId}`, {
+        mergeId: merge?.mergeId,
+        mergedBy: data.mergedBy,
+      });
+
+      return merge;
+    } catch (error) {
+      logger.error('Failed to merge patients:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to merge patients', 500);
+    }
+  }
+
+  async revertMerge(mergeId: string, data: { reason: string; revertedBy: string }): Promise<any> {
+    try {
+      const reverted = await db.transaction(async (tx) => {
+        const [merge] = await tx
+          .select()
+          .from(patientMerges)
+          .where(eq(patientMerges.mergeId, mergeId));
+
+        if (!merge) {
+          throw new AppError('Merge not found', 404);
+        }
+
+        if (merge.status !== 'MERGED') {
+          throw new AppError('This merge has already been reverted', 409);
+        }
+
+        // Later merges moved these rows again; they have to be undone first
+        const [surviving] = await tx
+          .select({ mergedIntoPatientId: patients.mergedIntoPatientId })
+          .from(patients)
+          .where(eq(patients.patientId, merge.survivingPatientId));
+
+        if (surviving?.mergedIntoPatientId) {
+          throw new AppError('The surviving patient has since been merged again; revert that merge first', 409);
+        }
+
+        const movedRecords = merge.movedRecords as MovedRecords;
+        const restored: MovedRecords = {};
+
+        for (const key of Object.keys(movedRecords) as MergeableRecord[]) {
+          const ids = movedRecords[key] || [];
+          if (ids.length === 0) continue;
+
+          const { id, patientId } = MERGEABLE_RECORDS[key];
+          restored[key] = await this.reassignRecords(
+            tx,
+            key,
+            merge.mergedPatientId,
+            and(inArray(id, ids), eq(patientId, merge.survivingPatientId))
+          );
+        }
+
+        await tx
+          .update(encounters)
+          .set({ status: 'OPEN', updatedAt: new Date() })
+          .where(and(eq(encounters.patientId, merge.mergedPatientId), eq(encounters.status, 'MERGED')));
+
+        await tx
+          .update(patients)
+          .set({
+            isActive: true,
+            mergedIntoPatientId: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(patients.patientId, merge.mergedPatientId));
+
+        const [updated] = await tx
+          .update(patientMerges)
+          .set({
+            status: 'REVERTED',
+            revertedBy: data.revertedBy,
+            revertReason: data.reason,
+            revertedAt: new Date(),
+          })
+          .where(eq(patientMerges.mergeId, mergeId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.revertedBy,
+          action: 'PATIENT_MERGE_REVERT',
+          entityType: 'patient',
+          entityId: merge.mergedPatientId,
+          oldValues: { mergeId, survivingPatientId: merge.survivingPatientId },
+          newValues: { restoredRecords: this.countRecords(restored) },
+          details: data.reason,
+        });
+
+        return updated;
+      });
+
+      await this.clearPatientCache(reverted!.survivingPatientId, reverted!.mergedPatientId);
+
+      logger.info(`Patient merge reverted: ${mergeId}`, { revertedBy: data.revertedBy });
+
+      return reverted;
+    } catch (error) {
+      logger.error('Failed to revert patient merge:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to revert patient merge', 500);
+    }
+  }
+
+  async listMerges(patientId?: string): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          mergeId: patientMerges.mergeId,
+          survivingPatientId: patientMerges.survivingPatientId,
+          mergedPatientId: patientMerges.mergedPatientId,
+          status: patientMerges.status,
+          matchScore: patientMerges.matchScore,
+          reason: patientMerges.reason,
+          mergedBy: sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
+          revertReason: patientMerges.revertReason,
+          revertedAt: patientMerges.revertedAt,
+          createdAt: patientMerges.createdAt,
+        })
+        .from(patientMerges)
+        .leftJoin(users, eq(patientMerges.mergedBy, users.userId))
+        .where(
+          patientId
+            ? or(eq(patientMerges.survivingPatientId, patientId), eq(patientMerges.mergedPatientId, patientId))
+            : undefined
+        )
+        .orderBy(desc(patientMerges.createdAt));
+    } catch (error) {
+      logger.error('Failed to list patient merges:', error);
+      throw new AppError('Failed to list patient merges', 500);
+    }
+  }
+
+  // Points the selected rows at another patient and returns their ids
+  private async reassignRecords(tx: Transaction, key: MergeableRecord, toPatientId: string, where: SQL | undefined): Promise<string[]> {
+    const { table, id, patientId }: MergeableTable = MERGEABLE_RECORDS[key];
+    // set() is keyed by the property name, which is not patientId on every table
+    const columns = getTableColumns(table);
+    const field = Object.keys(columns).find(name => columns[name] === patientId)!;
+
+    const rows = await tx
+      .update(table)
+      .set({ [field]: toPatientId })
+      .where(where)
+      .returning({ id });
+
+    return rows.map(row => String(row.id));
+  }
+
+  private scoreMatch(candidate: DuplicateCandidate, patient: any): { score: number; matchedOn: string[] } {
+    const matchedOn: string[] = [];
+    let score = 0;
+
+    // A shared government identifier is conclusive on its own
+    if (candidate.nationalId && candidate.nationalId === patient.nationalId) {
+      return { score: 100, matchedOn: ['nationalId'] };
+    }
+    if (candidate.nhifNumber && candidate.nhifNumber === patient.nhifNumber) {
+      return { score: 100, matchedOn: ['nhifNumber'] };
+    }
+
+    const nameSimilarity = NameMatcher.fullNameSimilarity(candidate, patient);
+    if (nameSimilarity >= 0.85) {
+      score += Math.round(nameSimilarity * 40);
+      matchedOn.push(nameSimilarity === 1 ? 'name' : 'similarName');
+    } else if (nameSimilarity >= 0.7) {
+      score += Math.round(nameSimilarity * 20);
+      matchedOn.push('similarName');
+    }
+
+    if (candidate.dateOfBirth === patient.dateOfBirth) {
+      score += 30;
+      matchedOn.push('dateOfBirth');
+    } else if (this.isDayMonthSwap(candidate.dateOfBirth, patient.dateOfBirth)) {
+      score += 15;
+      matchedOn.push('dateOfBirthSwapped');
+    }
+
+    const phone = this.phoneDigits(candidate.phoneNumber);
+    if (phone && phone === this.phoneDigits(patient.phoneNumber)) {
+      score += 20;
+      matchedOn.push('phoneNumber');
+    }
+
+    const emergency = this.phoneDigits(candidate.emergencyContact);
+    const existingEmergency = this.phoneDigits(patient.emergencyContact);
+    if (
+      (emergency && emergency === existingEmergency) ||
+      (phone && phone === existingEmergency)
+    ) {
+      score += 10;
+      matchedOn.push('emergencyContact');
+    }
+
+    return { score: Math.min(score, 100), matchedOn };
+  }
+
+  // Catches 2001-04-05 entered as 2001-05-04
+  private isDayMonthSwap(a: string, b: string): boolean {
+    const [yearA, monthA, dayA] = a.split('-');
+    const [yearB, monthB, dayB] = b.split('-');
+    return yearA === yearB && monthA === dayB && dayA === monthB;
+  }
+
+  private phoneDigits(phone: string | null | undefined): string | null {
+    const digits = (phone || '').replace(/\D/g, '').slice(-9);
+    return digits.length === 9 ? digits : null;
+  }
+
+  private countRecords(records: MovedRecords): Record<string, number> {
+    return Object.fromEntries(Object.entries(records).map(([key, ids]) => [key, ids?.length || 0]));
+  }
+
+  private async clearPatientCache(...patientIds: string[]): Promise<void> {
+    for (const patientId of patientIds) {
+      await this.redisService.del(`patient_details:${patientId}`);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { db, sql } from '../db';
+import { patients } from '../db/schema';
+import { eq, and, or, ilike, isNull, isNotNull, asc, desc, count } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { NameMatcher } from '../utils/NameMatcher';
+import { StraId } from '../utils/StraId';
+
+export type PatientStatusFilter = 'active' | 'inactive' | 'merged' | 'all';
+
+export interface PatientSearchFilters {
+  q: string;
+  county?: string | undefined;
+  subCounty?: string | undefined;
+  status?: PatientStatusFilter | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+// Trigram similarity (pg_trgm, see drizzle/0001) a misspelled name must reach to count as a match
+const MIN_NAME_SIMILARITY = 0.3;
+
+// ilike/LIKE treat % and _ as wildcards; user input must match literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+export class PatientSearchService {
+  async searchPatients(filters: PatientSearchFilters): Promise<any> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+      const offset = (page - 1) * limit;
+
+      const query = filters.q.trim();
+      const digits = query.replace(/\D/g, '');
+      const nameTokens = NameMatcher.normalize(query).split(' ').filter(token => token.length >= 2);
+
+      const scores = this.scoreExpressions(query, digits, nameTokens);
+      const score = sql<number>`GREATEST(${sql.join(scores.map(([expression]) => expression), sql`, `)})`;
+
+      const where = and(
+        this.statusCondition(filters.status || 'active'),
+        filters.county ? ilike(patients.county, escapeLike(filters.county)) : undefined,
+        filters.subCounty ? ilike(patients.subCounty, escapeLike(filters.subCounty)) : undefined,
+        or(...this.candidateMatchers(query, digits, nameTokens)),
+        sql`${score} > 0`
+      );
+
+      const [total] = await db.select({ count: count() }).from(patients).where(where);
+
+      const items = await db
+        .select({
+          patientId: patients.patientId,
+          straId: patients.straId,
+          firstName: patients.firstName,
+          lastName: patients.lastName,
+          dateOfBirth: patients.dateOfBirth,
+          gender: patients.gender,
+          phoneNumber: patients.phoneNumber,
+          nationalId: patients.nationalId,
+          nhifNumber: patients.nhifNumber,
+          county: patients.county,
+          subCounty: patients.subCounty,
+          isActive: patients.isActive,
+          mergedIntoPatientId: patients.mergedIntoPatientId,
+          score: sql<number>`${score}::int`,
+          matchedOn: sql<string[]>`array_remove(ARRAY[${sql.join(
+            scores.map(([expression, field]) => sql`CASE WHEN ${expression} > 0 THEN ${field} END`),
+            sql`, `
+          )}]::text[], NULL)`,
+        })
+        .from(patients)
+        .where(where)
+        .orderBy(desc(score), asc(patients.lastName), asc(patients.firstName))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        items,
+        pagination: {
+          total: Number(total?.count || 0),
+          page,
+          limit,
+          pages: Math.ceil(Number(total?.count || 0) / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to search patients:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to search patients', 500);
+    }
+  }
+
+  // Index-friendly prefilter; every row it lets through is then scored
+  private candidateMatchers(query: string, digits: string, nameTokens: string[]): SQL[] {
+    const contains = `%${escapeLike(query)}%`;
+    const matchers: SQL[] = [
+      ilike(patients.straId, contains),
+      ilike(patients.nationalId, contains),
+      ilike(patients.nhifNumber, contains),
+    ];
+
+    if (StraId.parse(query)) {
+      matchers.push(eq(patients.straId, StraId.normalize(query)));
+    }
+
+    if (digits.length >= 3) {
+      matchers.push(sql`regexp_replace(${patients.phoneNumber}, '\\D', '', 'g') LIKE ${'%' + digits + '%'}`);
+    }
+
+    // 07... and +2547... share the last nine digits, which the scoring below already rewards
+    if (digits.length >= 9) {
+      matchers.push(sql`RIGHT(regexp_replace(${patients.phoneNumber}, '\\D', '', 'g'), 9) = ${digits.slice(-9)}`);
+    }
+
+    for (const token of nameTokens) {
+      matchers.push(
+        sql`lower(${patients.firstName}) LIKE ${escapeLike(token) + '%'}`,
+        sql`lower(${patients.lastName}) LIKE ${escapeLike(token) + '%'}`,
+        sql`lower(${patients.firstName}) % ${token}::text`,
+        sql`lower(${patients.lastName}) % ${token}::text`
+      );
+    }
+
+    return matchers;
+  }
+
+  // One 0-100 score per identifier; a patient ranks by the best of them
+  private scoreExpressions(query: string, digits: string, nameTokens: string[]): Array<[SQL, string]> {
+    const upper = query.toUpperCase();
+    const contains = `%${escapeLike(upper)}%`;
+    const phone = sql`regexp_replace(${patients.phoneNumber}, '\\D', '', 'g')`;
+
+    const partialOk = upper.length >= 3;
+
+    const identifier = (column: PgColumn, exact: number, partial: number) => sql`CASE
+      WHEN upper(${column}) = ${upper} THEN ${sql.raw(String(exact))}
+      ${partialOk ? sql`WHEN upper(${column}) LIKE ${contains} THEN ${sql.raw(String(partial))}` : sql``}
+      ELSE 0
+    END`;
+
+    const expressions: Array<[SQL, string]> = [
+      [sql`CASE
+        WHEN ${patients.straId} = ${StraId.normalize(query)} THEN 100
+        ${partialOk ? sql`WHEN ${patients.straId} LIKE ${contains} THEN 70` : sql``}
+        ELSE 0
+      END`, 'straId'],
+      [identifier(patients.nationalId, 95, 60), 'nationalId'],
+      [identifier(patients.nhifNumber, 95, 60), 'nhifNumber'],
+    ];
+
+    // Longer fragments are more specific
+    expressions.push([
+      digits.length >= 3
+        ? sql`CASE
+            ${digits.length >= 9 ? sql`WHEN RIGHT(${phone}, 9) = ${digits.slice(-9)} THEN 90` : sql``}
+            WHEN ${phone} LIKE ${'%' + digits + '%'} THEN ${sql.raw(String(40 + Math.min(digits.length, 8) * 5))}
+            ELSE 0
+          END`
+        : sql`0`,
+      'phoneNumber',
+    ]);
+
+    expressions.push([this.nameScore(nameTokens), 'name']);
+
+    return expressions;
+  }
+
+  private nameScore(nameTokens: string[]): SQL {
+    if (nameTokens.length === 0) return sql`0`;
+
+    const firstName = sql`lower(${patients.firstName})`;
+    const lastName = sql`lower(${patients.lastName})`;
+
+    let similarity: SQL;
+    if (nameTokens.length === 1) {
+      const token = nameTokens[0]!;
+      similarity = sql`CASE
+        WHEN ${firstName} LIKE ${escapeLike(token) + '%'} OR ${lastName} LIKE ${escapeLike(token) + '%'} THEN 1
+        ELSE GREATEST(similarity(${firstName}, ${token}::text), similarity(${lastName}, ${token}::text))
+      END`;
+    } else {
+      // Tolerates first and last names entered the wrong way round
+      const first = nameTokens[0]!;
+      const last = nameTokens[nameTokens.length - 1]!;
+      similarity = sql`GREATEST(
+        (similarity(${firstName}, ${first}::text) + similarity(${lastName}, ${last}::text)) / 2,
+        (similarity(${firstName}, ${last}::text) + similarity(${lastName}, ${first}::text)) / 2
+      )`;
+    }
+
+    return sql`CASE WHEN ${similarity} >= ${sql.raw(String(MIN_NAME_SIMILARITY))} THEN ROUND(${similarity} * 85) ELSE 0 END`;
+  }
+
+  private statusCondition(status: PatientStatusFilter): SQL | undefined {
+    switch (status) {
+      case 'active':
+        return eq(patients.isActive, true);
+      case 'inactive':
+        return and(eq(patients.isActive, false), isNull(patients.mergedIntoPatientId));
+      case 'merged':
+        return isNotNull(patients.mergedIntoPatientId);
+      default:
+        return undefined;
+    }
+  }
+}
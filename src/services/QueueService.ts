@@ -1,10 +1,28 @@
 import { db, sql, gte } from '../db';
-import { departmentQueues, departments, patients, users, triageSessions } from '../db/schema';
+import { departmentQueues, departments, patients, users, triageSessions, auditLogs } from '../db/schema';
 import { eq, and, desc, asc, count, inArray } from 'drizzle-orm';
 import { AppError } from '../middleware/error';
 import { logger } from '../config/logger';
 import { RedisService } from './RedisService';
 import { SocketService } from './SocketService';
+import { TriageCalculator } from '../utils/TriageCalculator';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface QueueActionContext {
+  performedBy: string;
+  reason?: string | undefined;
+}
+
+// Urgency first, then position within the same urgency
+export const queueOrdering = () => [
+  sql`CASE 
+    WHEN ${departmentQueues.urgencyLevel} = 'RED' THEN 1
+    WHEN ${departmentQueues.urgencyLevel} = 'YELLOW' THEN 2
+    ELSE 3
+  END`,
+  asc(departmentQueues.positionInQueue),
+];
 
 export class QueueService {
   private redisService: RedisService;
@@ -35,23 +53,21 @@ export class QueueService {
           expectedWaitTime: departmentQueues.expectedWaitTime,
           status: departmentQueues.status,
           calledAt: departmentQueues.calledAt,
+          queuedAt: departmentQueues.createdAt,
+          assignedRoom: departmentQueues.assignedRoom,
           assignedDoctor: sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
           triageScore: triageSessions.triageScore,
           chiefComplaint: triageSessions.chiefComplaint,
+          discriminatorOverride: triageSessions.discriminatorOverride,
+          retriageDueAt: departmentQueues.retriageDueAt,
+          retriageDueReason: departmentQueues.retriageDueReason,
         })
         .from(departmentQueues)
         .leftJoin(patients, eq(departmentQueues.patientId, patients.patientId))
         .leftJoin(users, eq(departmentQueues.assignedDoctorId, users.userId))
         .leftJoin(triageSessions, eq(departmentQueues.triageSessionId, triageSessions.sessionId))
         .where(eq(departmentQueues.departmentId, departmentId))
-        .orderBy(
-          sql`CASE 
-            WHEN ${departmentQueues.urgencyLevel} = 'RED' THEN 1
-            WHEN ${departmentQueues.urgencyLevel} = 'YELLOW' THEN 2
-            ELSE 3
-          END`,
-          asc(departmentQueues.positionInQueue)
-        );
+        .orderBy(...queueOrdering());
 
       const [department] = await db
         .select()
@@ -73,6 +89,7 @@ export class QueueService {
           total: queue.length,
           waiting: waitingCount,
           inProgress: inProgressCount,
+          retriageDue: queue.filter(q => q.status === 'WAITING' && q.retriageDueAt).length,
           averageWaitTime: queue.length > 0 ? 
             Math.round(queue.reduce((sum, q) => sum + q.expectedWaitTime, 0) / queue.length) : 0,
         },
@@ -85,9 +102,14 @@ export class QueueService {
           waitTime: q.expectedWaitTime,
           status: q.status,
           calledAt: q.calledAt,
+          queuedAt: q.queuedAt,
+          assignedRoom: q.assignedRoom,
           assignedDoctor: q.assignedDoctor,
           triageScore: q.triageScore,
           chiefComplaint: q.chiefComplaint,
+          discriminator: (q.discriminatorOverride as any)?.name || null,
+          retriageDue: q.status === 'WAITING' && !!q.retriageDueAt,
+          retriageDueReason: q.status === 'WAITING' ? q.retriageDueReason : null,
         })),
       };
 
@@ -101,7 +123,10 @@ export class QueueService {
     }
   }
 
-  async callNextPatient(departmentId: string, doctorId: string): Promise<any> {
+  async callNextPatient(departmentId: string, doctorId: string, options: {
+    reason?: string | undefined;
+    room?: string | undefined;
+  } = {}): Promise<any> {
     try {
       return await db.transaction(async (tx) => {
         // Get next patient (prioritizing RED, then YELLOW, then GREEN)
@@ -114,14 +139,7 @@ export class QueueService {
               eq(departmentQueues.status, 'WAITING')
             )
           )
-          .orderBy(
-            sql`CASE 
-              WHEN ${departmentQueues.urgencyLevel} = 'RED' THEN 1
-              WHEN ${departmentQueues.urgencyLevel} = 'YELLOW' THEN 2
-              ELSE 3
-            END`,
-            asc(departmentQueues.positionInQueue)
-          )
+          .orderBy(...queueOrdering())
           .limit(1);
 
         if (!nextPatient) {
@@ -135,6 +153,7 @@ export class QueueService {
             status: 'IN_PROGRESS',
             calledAt: new Date(),
             assignedDoctorId: doctorId,
+            assignedRoom: options.room,
             updatedAt: new Date(),
           })
           .where(eq(departmentQueues.queueId, nextPatient.queueId))
@@ -148,6 +167,14 @@ export class QueueService {
           })
           .where(eq(departments.departmentId, departmentId));
 
+        await this.recordAction(tx, nextPatient.queueId, 'QUEUE_CALL', { performedBy: doctorId, reason: options.reason }, {
+          status: nextPatient.status,
+        }, {
+          status: 'IN_PROGRESS',
+          assignedDoctorId: doctorId,
+          assignedRoom: options.room,
+        });
+
         // Get patient details
         const [patient] = await tx
           .select({
@@ -167,6 +194,7 @@ export class QueueService {
           straId: patient?.straId,
           patientName: `${patient?.firstName} ${patient?.lastName}`,
           doctorId,
+          room: updated?.assignedRoom,
           calledAt: updated?.calledAt,
         });
 
@@ -185,7 +213,7 @@ export class QueueService {
     }
   }
 
-  async completePatient(queueId: string): Promise<void> {
+  async completePatient(queueId: string, context: QueueActionContext): Promise<void> {
     try {
       await db.transaction(async (tx) => {
         const [queueEntry] = await tx
@@ -197,6 +225,10 @@ export class QueueService {
           throw new AppError('Queue entry not found', 404);
         }
 
+        if (queueEntry.status !== 'IN_PROGRESS') {
+          throw new AppError('Only patients currently being seen can be completed', 400);
+        }
+
         await tx
           .update(departmentQueues)
           .set({
@@ -206,6 +238,8 @@ export class QueueService {
           })
           .where(eq(departmentQueues.queueId, queueId));
 
+        await this.recordAction(tx, queueId, 'QUEUE_COMPLETE', context, { status: queueEntry.status }, { status: 'COMPLETED' });
+
         // Broadcast update
         this.socketService.broadcastToDepartment(
           queueEntry.departmentId, 
@@ -223,7 +257,7 @@ export class QueueService {
     }
   }
 
-  async skipPatient(queueId: string, reason: string): Promise<void> {
+  async skipPatient(queueId: string, reason: string, performedBy: string): Promise<void> {
     try {
       await db.transaction(async (tx) => {
         const [queueEntry] = await tx
@@ -235,6 +269,10 @@ export class QueueService {
           throw new AppError('Queue entry not found', 404);
         }
 
+        if (!['WAITING', 'IN_PROGRESS'].includes(queueEntry.status)) {
+          throw new AppError(`Cannot skip a ${queueEntry.status.toLowerCase()} queue entry`, 400);
+        }
+
         await tx
           .update(departmentQueues)
           .set({
@@ -243,7 +281,18 @@ export class QueueService {
           })
           .where(eq(departmentQueues.queueId, queueId));
 
-        // Move to another department or handle as needed
+        // Called patients already left the department load
+        if (queueEntry.status === 'WAITING') {
+          await tx
+            .update(departments)
+            .set({
+              currentPatientLoad: sql`GREATEST(${departments.currentPatientLoad} - 1, 0)`,
+            })
+            .where(eq(departments.departmentId, queueEntry.departmentId));
+        }
+
+        await this.recordAction(tx, queueId, 'QUEUE_SKIP', { performedBy, reason }, { status: queueEntry.status }, { status: 'SKIPPED' });
+
         logger.info(`Patient skipped: ${queueId}`, { reason });
 
         // Broadcast update
@@ -263,7 +312,7 @@ export class QueueService {
     }
   }
 
-  async updatePatientPosition(queueId: string, newPosition: number): Promise<void> {
+  async updatePatientPosition(queueId: string, newPosition: number, context: QueueActionContext): Promise<void> {
     try {
       await db.transaction(async (tx) => {
         const [queueEntry] = await tx
@@ -275,6 +324,10 @@ export class QueueService {
           throw new AppError('Queue entry not found', 404);
         }
 
+        if (queueEntry.status !== 'WAITING') {
+          throw new AppError('Only waiting patients can be repositioned', 400);
+        }
+
         // Get all waiting patients in the department
         const waitingPatients = await tx
           .select({
@@ -322,6 +375,12 @@ export class QueueService {
             .where(eq(departmentQueues.queueId, pos.queueId!));
         }
 
+        await this.recordAction(tx, queueId, 'QUEUE_REPOSITION', context, {
+          position: queueEntry.positionInQueue,
+        }, {
+          position: newPosition,
+        });
+
         // Broadcast update
         this.socketService.broadcastToDepartment(
           queueEntry.departmentId, 
@@ -341,6 +400,274 @@ export class QueueService {
     }
   }
 
+  async returnToQueue(queueId: string, reason: string, performedBy: string): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [queueEntry] = await tx
+          .select()
+          .from(departmentQueues)
+          .where(eq(departmentQueues.queueId, queueId));
+
+        if (!queueEntry) {
+          throw new AppError('Queue entry not found', 404);
+        }
+
+        if (queueEntry.status !== 'SKIPPED') {
+          throw new AppError('Only skipped patients can be returned to the queue', 400);
+        }
+
+        // The patient may have been queued again elsewhere since being skipped
+        const [activeEntry] = await tx
+          .select({ queueId: departmentQueues.queueId })
+          .from(departmentQueues)
+          .where(
+            and(
+              eq(departmentQueues.patientId, queueEntry.patientId),
+              inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+            )
+          );
+
+        if (activeEntry) {
+          throw new AppError('Patient already has an active queue entry', 409);
+        }
+
+        const [lastPosition] = await tx
+          .select({ max: sql<number>`COALESCE(MAX(${departmentQueues.positionInQueue}), 0)` })
+          .from(departmentQueues)
+          .where(
+            and(
+              eq(departmentQueues.departmentId, queueEntry.departmentId),
+              eq(departmentQueues.status, 'WAITING')
+            )
+          );
+
+        const newPosition = Number(lastPosition?.max || 0) + 1;
+
+        const [updated] = await tx
+          .update(departmentQueues)
+          .set({
+            status: 'WAITING',
+            positionInQueue: newPosition,
+            calledAt: null,
+            assignedDoctorId: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(departmentQueues.queueId, queueId))
+          .returning();
+
+        await tx
+          .update(departments)
+          .set({
+            currentPatientLoad: sql`${departments.currentPatientLoad} + 1`,
+          })
+          .where(eq(departments.departmentId, queueEntry.departmentId));
+
+        await this.recordAction(tx, queueId, 'QUEUE_RETURN', { performedBy, reason }, {
+          status: queueEntry.status,
+        }, {
+          status: 'WAITING',
+          position: newPosition,
+        });
+
+        this.socketService.broadcastToDepartment(
+          queueEntry.departmentId,
+          'queue_update',
+          { action: 'patient_returned', queueId, position: newPosition }
+        );
+
+        await this.redisService.del(`queue:${queueEntry.departmentId}`);
+
+        logger.info(`Patient returned to queue: ${queueId}`, { reason });
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to return patient to queue:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to return patient to queue', 500);
+    }
+  }
+
+  // Adds a patient to the back of a department queue as part of a larger workflow
+  async enqueuePatient(tx: Transaction, data: {
+    departmentId: string;
+    patientId: string;
+    encounterId?: string | null | undefined;
+    triageSessionId?: string | null | undefined;
+    urgencyLevel: 'RED' | 'YELLOW' | 'GREEN';
+    waitNotes?: string | undefined;
+    performedBy: string;
+    reason: string;
+  }): Promise<any> {
+    const [department] = await tx
+      .select()
+      .from(departments)
+      .where(eq(departments.departmentId, data.departmentId));
+
+    if (!department) {
+      throw new AppError('Department not found', 404);
+    }
+
+    const [waiting] = await tx
+      .select({
+        count: count(),
+        max: sql<number>`COALESCE(MAX(${departmentQueues.positionInQueue}), 0)`,
+      })
+      .from(departmentQueues)
+      .where(
+        and(
+          eq(departmentQueues.departmentId, data.departmentId),
+          eq(departmentQueues.status, 'WAITING')
+        )
+      );
+
+    const position = Number(waiting?.max || 0) + 1;
+    const expectedWaitTime = TriageCalculator.estimateWaitTime(
+      data.urgencyLevel,
+      Number(waiting?.count || 0),
+      department.averageTreatmentTime
+    );
+
+    const [entry] = await tx
+      .insert(departmentQueues)
+      .values({
+        departmentId: data.departmentId,
+        patientId: data.patientId,
+        encounterId: data.encounterId,
+        triageSessionId: data.triageSessionId,
+        urgencyLevel: data.urgencyLevel,
+        positionInQueue: position,
+        expectedWaitTime,
+        status: 'WAITING',
+        waitNotes: data.waitNotes,
+      })
+      .returning();
+
+    await tx
+      .update(departments)
+      .set({
+        currentPatientLoad: sql`${departments.currentPatientLoad} + 1`,
+      })
+      .where(eq(departments.departmentId, data.departmentId));
+
+    await this.recordAction(tx, entry!.queueId, 'QUEUE_ADD', {
+      performedBy: data.performedBy,
+      reason: data.reason,
+    }, {}, {
+      status: 'WAITING',
+      position,
+    });
+
+    this.socketService.broadcastToDepartment(data.departmentId, 'queue_update', {
+      action: 'patient_added',
+      queueId: entry!.queueId,
+      patientId: data.patientId,
+      urgencyLevel: data.urgencyLevel,
+      position,
+    });
+
+    await this.redisService.del(`queue:${data.departmentId}`);
+
+    return entry;
+  }
+
+  async getPatientPosition(patientId: string): Promise<any | null> {
+    try {
+      const [entry] = await db
+        .select({
+          queueId: departmentQueues.queueId,
+          departmentId: departmentQueues.departmentId,
+          departmentName: departments.name,
+          averageTreatmentTime: departments.averageTreatmentTime,
+          urgencyLevel: departmentQueues.urgencyLevel,
+          status: departmentQueues.status,
+          assignedRoom: departmentQueues.assignedRoom,
+          calledAt: departmentQueues.calledAt,
+        })
+        .from(departmentQueues)
+        .innerJoin(departments, eq(departmentQueues.departmentId, departments.departmentId))
+        .where(
+          and(
+            eq(departmentQueues.patientId, patientId),
+            inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+          )
+        )
+        .orderBy(desc(departmentQueues.createdAt))
+        .limit(1);
+
+      if (!entry) return null;
+
+      if (entry.status === 'IN_PROGRESS') {
+        return {
+          status: entry.status,
+          department: entry.departmentName,
+          room: entry.assignedRoom,
+          calledAt: entry.calledAt,
+          position: 0,
+          patientsAhead: 0,
+          estimatedWaitMinutes: 0,
+        };
+      }
+
+      const waiting = await db
+        .select({ queueId: departmentQueues.queueId })
+        .from(departmentQueues)
+        .where(
+          and(
+            eq(departmentQueues.departmentId, entry.departmentId),
+            eq(departmentQueues.status, 'WAITING')
+          )
+        )
+        .orderBy(...queueOrdering());
+
+      const patientsAhead = Math.max(0, waiting.findIndex(w => w.queueId === entry.queueId));
+
+      return {
+        status: entry.status,
+        department: entry.departmentName,
+        room: null,
+        calledAt: null,
+        position: patientsAhead + 1,
+        patientsAhead,
+        estimatedWaitMinutes: TriageCalculator.estimateWaitTime(
+          entry.urgencyLevel,
+          patientsAhead,
+          entry.averageTreatmentTime
+        ),
+      };
+    } catch (error) {
+      logger.error('Failed to get patient queue position:', error);
+      throw new AppError('Failed to get patient queue position', 500);
+    }
+  }
+
+  async getQueueActions(queueId: string): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          logId: auditLogs.logId,
+          action: auditLogs.action,
+          reason: auditLogs.details,
+          oldValues: auditLogs.oldValues,
+          newValues: auditLogs.newValues,
+          performedBy: sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
+          createdAt: auditLogs.createdAt,
+        })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.userId, users.userId))
+        .where(
+          and(
+            eq(auditLogs.entityType, 'department_queue'),
+            eq(auditLogs.entityId, queueId)
+          )
+        )
+        .orderBy(desc(auditLogs.createdAt));
+    } catch (error) {
+      logger.error('Failed to get queue actions:', error);
+      throw new AppError('Failed to get queue actions', 500);
+    }
+  }
+
   async getQueueStatistics(departmentId?: string): Promise<any> {
     try {
       let whereClause = sql`1=1`;
@@ -389,4 +716,23 @@ export class QueueService {
       throw new AppError('Failed to get queue statistics', 500);
     }
   }
-}
\ No newline at end of file
+
+  private async recordAction(
+    tx: Transaction,
+    queueId: string,
+    action: string,
+    context: QueueActionContext,
+    oldValues: Record<string, any>,
+    newValues: Record<string, any>
+  ): Promise<void> {
+    await tx.insert(auditLogs).values({
+      userId: context.performedBy,
+      action,
+      entityType: 'department_queue',
+      entityId: queueId,
+      oldValues,
+      newValues,
+      details: context.reason,
+    });
+  }
+}
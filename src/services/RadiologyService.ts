@@ -0,0 +1,704 @@
+import { randomBytes } from 'crypto';
+import { db, sql, pgErrorCode } from '../db';
+import { diagnosticImaging, imagingAddenda, resources, patients, users, auditLogs } from '../db/schema';
+import { eq, and, ne, lt, asc, ilike, inArray, count } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { RedisService } from './RedisService';
+import { ResourceService } from './ResourceService';
+import { NotificationService } from './NotificationService';
+import { SocketService } from './SocketService';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ImagingStatus = 'PENDING' | 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'PRELIMINARY' | 'FINAL' | 'CANCELLED';
+
+// Studies still on the radiology worklist
+const OPEN_STATUSES: ImagingStatus[] = ['PENDING', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'PRELIMINARY'];
+
+// Studies holding a slot on the machine
+const BOOKED_STATUSES: ImagingStatus[] = ['SCHEDULED', 'IN_PROGRESS'];
+
+const DEFAULT_EXAM_MINUTES = 15;
+
+// Urgency first, then booked time, then oldest order
+const worklistOrdering = () => [
+  sql`CASE
+    WHEN ${diagnosticImaging.priority} = 'RED' THEN 1
+    WHEN ${diagnosticImaging.priority} = 'YELLOW' THEN 2
+    ELSE 3
+  END`,
+  sql`${diagnosticImaging.scheduledTime} ASC NULLS LAST`,
+  asc(diagnosticImaging.createdAt),
+];
+
+export class RadiologyService {
+  private redisService: RedisService;
+  private resourceService: ResourceService;
+  private notificationService: NotificationService;
+  private socketService: SocketService;
+
+  constructor() {
+    this.redisService = new RedisService();
+    this.resourceService = new ResourceService();
+    this.notificationService = new NotificationService();
+    this.socketService = SocketService.getInstance();
+  }
+
+  // DICOM AccessionNumber is an SH value: at most 16 characters
+  static generateAccessionNumber(): string {
+    const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+    return `R${date}${randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+
+  async getWorklist(filters: {
+    status?: ImagingStatus | undefined;
+    modality?: string | undefined;
+    priority?: 'RED' | 'YELLOW' | 'GREEN' | undefined;
+    resourceId?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  }): Promise<any> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 50;
+      const offset = (page - 1) * limit;
+
+      const conditions = [
+        filters.status ? eq(diagnosticImaging.status, filters.status) : inArray(diagnosticImaging.status, OPEN_STATUSES),
+      ];
+      if (filters.modality) conditions.push(ilike(diagnosticImaging.modality, filters.modality));
+      if (filters.priority) conditions.push(eq(diagnosticImaging.priority, filters.priority));
+      if (filters.resourceId) conditions.push(eq(diagnosticImaging.resourceId, filters.resourceId));
+
+      const where = and(...conditions);
+
+      const [total] = await db.select({ count: count() }).from(diagnosticImaging).where(where);
+
+      const items = await this.selectWithNames()
+        .where(where)
+        .orderBy(...worklistOrdering())
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        items,
+        pagination: {
+          total: Number(total?.count || 0),
+          page,
+          limit,
+          pages: Math.ceil(Number(total?.count || 0) / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch radiology worklist:', error);
+      throw new AppError('Failed to fetch radiology worklist', 500);
+    }
+  }
+
+  async getStudy(imagingId: string): Promise<any> {
+    const [study] = await this.selectWithNames().where(eq(diagnosticImaging.imagingId, imagingId));
+
+    if (!study) {
+      throw new AppError('Imaging study not found', 404);
+    }
+
+    return { ...study, addenda: await this.getAddenda(imagingId) };
+  }
+
+  // The signed report as released to clinicians; reportUrl points here
+  async getReport(imagingId: string): Promise<any> {
+    const study = await this.getStudy(imagingId);
+
+    if (study.status !== 'FINAL') {
+      throw new AppError('The report for this study has not been signed', 404);
+    }
+
+    return {
+      imagingId: study.imagingId,
+      patient: { straId: study.straId, name: study.patientName },
+      study: `${study.modality} ${study.bodyPart}`,
+      clinicalIndication: study.clinicalIndication,
+      orderedBy: study.doctorName,
+      performedAt: study.completedAt,
+      findings: study.findings,
+      impression: study.impression,
+      reportedBy: study.radiologistName,
+      signedAt: study.signedAt,
+      addenda: study.addenda,
+    };
+  }
+
+  async scheduleStudy(imagingId: string, data: {
+    resourceId: string;
+    scheduledTime: Date;
+    durationMinutes?: number | undefined;
+    scheduledBy: string;
+  }): Promise<any> {
+    try {
+      const durationMinutes = data.durationMinutes || DEFAULT_EXAM_MINUTES;
+
+      const updated = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (!['PENDING', 'SCHEDULED'].includes(study.status)) {
+          throw new AppError(`A ${study.status} study cannot be scheduled`, 409);
+        }
+
+        const [resource] = await tx
+          .select()
+          .from(resources)
+          .where(eq(resources.resourceId, data.resourceId));
+
+        if (!resource || resource.resourceType !== 'XRAY') {
+          throw new AppError('Studies can only be scheduled on an XRAY resource', 400);
+        }
+
+        if (resource.status === 'MAINTENANCE' || resource.status === 'OUT_OF_SERVICE') {
+          throw new AppError(`${resource.name} is ${resource.status.toLowerCase().replace(/_/g, ' ')}`, 409);
+        }
+
+        await this.assertSlotFree(tx, data.resourceId, data.scheduledTime, durationMinutes, imagingId);
+
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({
+            status: 'SCHEDULED',
+            resourceId: data.resourceId,
+            scheduledTime: data.scheduledTime,
+            durationMinutes,
+            scheduledBy: data.scheduledBy,
+            updatedAt: new Date(),
+          })
+          .where(eq(diagnosticImaging.imagingId, imagingId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.scheduledBy,
+          action: 'IMAGING_SCHEDULE',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status, resourceId: study.resourceId, scheduledTime: study.scheduledTime },
+          newValues: { status: 'SCHEDULED', resourceId: data.resourceId, scheduledTime: data.scheduledTime, durationMinutes },
+        });
+
+        return saved!;
+      });
+
+      await this.afterChange(updated);
+
+      logger.info(`Imaging study ${imagingId} scheduled on resource ${data.resourceId}`, { scheduledTime: data.scheduledTime });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to schedule imaging study:', error);
+      if (error instanceof AppError) throw error;
+      if (pgErrorCode(error) === '23P01') {
+        throw new AppError('The machine is already booked at that time', 409);
+      }
+      throw new AppError('Failed to schedule imaging study', 500);
+    }
+  }
+
+  // Patient on the table: the machine is marked occupied for the duration of the exam
+  async startStudy(imagingId: string, startedBy: string): Promise<any> {
+    try {
+      const [study] = await db
+        .select()
+        .from(diagnosticImaging)
+        .where(eq(diagnosticImaging.imagingId, imagingId));
+
+      if (!study) {
+        throw new AppError('Imaging study not found', 404);
+      }
+
+      if (study.status !== 'SCHEDULED') {
+        throw new AppError(`A ${study.status} study cannot be started`, 409);
+      }
+
+      // Fails while the previous patient is still on the machine
+      if (study.resourceId) {
+        await this.resourceService.allocateResource(study.resourceId, study.patientId);
+      }
+
+      const updated = await db.transaction(async (tx) => {
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({ status: 'IN_PROGRESS', startedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(diagnosticImaging.imagingId, imagingId), eq(diagnosticImaging.status, 'SCHEDULED')))
+          .returning();
+
+        if (!saved) {
+          throw new AppError('Study was changed by someone else; please refresh', 409);
+        }
+
+        await tx.insert(auditLogs).values({
+          userId: startedBy,
+          action: 'IMAGING_START',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status },
+          newValues: { status: 'IN_PROGRESS' },
+        });
+
+        return saved;
+      }).catch(async (error) => {
+        if (study.resourceId) {
+          await this.resourceService.releaseResource(study.resourceId);
+        }
+        throw error;
+      });
+
+      await this.afterChange(updated);
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to start imaging study:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to start imaging study', 500);
+    }
+  }
+
+  // Images acquired; the study moves to the reporting list
+  async completeStudy(imagingId: string, completedBy: string | null): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (study.status !== 'IN_PROGRESS') {
+          throw new AppError(`A ${study.status} study cannot be completed`, 409);
+        }
+
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({ status: 'COMPLETED', completedAt: new Date(), updatedAt: new Date() })
+          .where(eq(diagnosticImaging.imagingId, imagingId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: completedBy,
+          action: 'IMAGING_COMPLETE',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status },
+          newValues: { status: 'COMPLETED' },
+        });
+
+        return saved!;
+      });
+
+      await this.releaseMachine(updated);
+      await this.afterChange(updated);
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to complete imaging study:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to complete imaging study', 500);
+    }
+  }
+
+  // MPPS "IN PROGRESS" from the modality: the exam has begun even if nobody pressed start here
+  async recordAcquisitionStarted(imagingId: string, data: {
+    studyInstanceUid: string;
+    mppsInstanceUid: string;
+    startedAt: Date;
+  }): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (!['PENDING', 'SCHEDULED', 'IN_PROGRESS'].includes(study.status)) {
+          throw new AppError(`A ${study.status} study cannot be started`, 409);
+        }
+
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({
+            status: 'IN_PROGRESS',
+            startedAt: study.startedAt ?? data.startedAt,
+            studyInstanceUid: data.studyInstanceUid,
+            mppsInstanceUid: data.mppsInstanceUid,
+            updatedAt: new Date(),
+          })
+          .where(eq(diagnosticImaging.imagingId, imagingId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: null,
+          action: 'IMAGING_START',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status },
+          newValues: { status: 'IN_PROGRESS', studyInstanceUid: data.studyInstanceUid },
+          details: 'MPPS',
+        });
+
+        return saved!;
+      });
+
+      await this.afterChange(updated);
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to record imaging acquisition start:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record imaging acquisition start', 500);
+    }
+  }
+
+  // Completion reported by the modality (MPPS) or PACS webhook; repeats of the same study are ignored
+  async recordAcquisitionCompleted(imagingId: string, data: {
+    studyInstanceUid: string;
+    startedAt?: Date | undefined;
+    completedAt: Date;
+    source: 'MPPS' | 'WEBHOOK';
+  }): Promise<any> {
+    try {
+      const result = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (study.status === 'CANCELLED') {
+          throw new AppError('A CANCELLED study cannot be completed', 409);
+        }
+
+        if (['COMPLETED', 'PRELIMINARY', 'FINAL'].includes(study.status)) {
+          if (study.studyInstanceUid && study.studyInstanceUid !== data.studyInstanceUid) {
+            throw new AppError('This order is already linked to a different study', 409);
+          }
+          if (study.studyInstanceUid) {
+            return { saved: study, changed: false };
+          }
+        }
+
+        const acquiring = ['PENDING', 'SCHEDULED', 'IN_PROGRESS'].includes(study.status);
+
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({
+            studyInstanceUid: data.studyInstanceUid,
+            ...(acquiring && {
+              status: 'COMPLETED',
+              startedAt: study.startedAt ?? data.startedAt ?? data.completedAt,
+              completedAt: data.completedAt,
+            }),
+            updatedAt: new Date(),
+          })
+          .where(eq(diagnosticImaging.imagingId, imagingId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: null,
+          action: 'IMAGING_COMPLETE',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status, studyInstanceUid: study.studyInstanceUid },
+          newValues: { status: saved!.status, studyInstanceUid: data.studyInstanceUid },
+          details: data.source,
+        });
+
+        return { saved: saved!, changed: true };
+      });
+
+      if (result.changed) {
+        await this.releaseMachine(result.saved);
+        await this.afterChange(result.saved);
+      }
+
+      return result.saved;
+    } catch (error) {
+      logger.error('Failed to record imaging acquisition completion:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record imaging acquisition completion', 500);
+    }
+  }
+
+  // A preliminary report can be revised or signed by any radiologist; a signed report is final
+  async saveReport(imagingId: string, data: {
+    radiologistId: string;
+    findings: string;
+    impression: string;
+    sign: boolean;
+  }): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (study.status === 'FINAL') {
+          throw new AppError('The report is signed; add an addendum instead', 409);
+        }
+
+        if (!['COMPLETED', 'PRELIMINARY'].includes(study.status)) {
+          throw new AppError(`A ${study.status} study cannot be reported yet`, 409);
+        }
+
+        const now = new Date();
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({
+            status: data.sign ? 'FINAL' : 'PRELIMINARY',
+            findings: data.findings,
+            impression: data.impression,
+            radiologistId: data.radiologistId,
+            reportedAt: study.reportedAt || now,
+            ...(data.sign && {
+              signedAt: now,
+              reportUrl: `/api/v1/radiology/studies/${imagingId}/report`,
+            }),
+            updatedAt: now,
+          })
+          .where(eq(diagnosticImaging.imagingId, imagingId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.radiologistId,
+          action: data.sign ? 'IMAGING_REPORT_FINAL' : 'IMAGING_REPORT_PRELIMINARY',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status, findings: study.findings, impression: study.impression },
+          newValues: { status: saved!.status, findings: data.findings, impression: data.impression },
+        });
+
+        return saved!;
+      });
+
+      await this.afterChange(updated);
+
+      if (data.sign) {
+        await this.notifyOrderingDoctor(updated, false);
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to save imaging report:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to save imaging report', 500);
+    }
+  }
+
+  async addAddendum(imagingId: string, data: { radiologistId: string; text: string }): Promise<any> {
+    try {
+      const addendum = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (study.status !== 'FINAL') {
+          throw new AppError('Addenda can only be added to a signed report', 409);
+        }
+
+        const [created] = await tx
+          .insert(imagingAddenda)
+          .values({ imagingId, radiologistId: data.radiologistId, text: data.text })
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.radiologistId,
+          action: 'IMAGING_ADDENDUM',
+          entityType: 'imaging',
+          entityId: imagingId,
+          newValues: { addendumId: created!.addendumId, text: data.text },
+        });
+
+        return created!;
+      });
+
+      const [study] = await db
+        .select()
+        .from(diagnosticImaging)
+        .where(eq(diagnosticImaging.imagingId, imagingId));
+
+      await this.notifyOrderingDoctor(study!, true);
+
+      return addendum;
+    } catch (error) {
+      logger.error('Failed to add imaging addendum:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to add imaging addendum', 500);
+    }
+  }
+
+  async cancelStudy(imagingId: string, data: { cancelledBy: string; reason: string }): Promise<any> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const study = await this.lockStudy(tx, imagingId);
+
+        if (!['PENDING', 'SCHEDULED', 'IN_PROGRESS'].includes(study.status)) {
+          throw new AppError(`A ${study.status} study cannot be cancelled`, 409);
+        }
+
+        const [saved] = await tx
+          .update(diagnosticImaging)
+          .set({ status: 'CANCELLED', cancellationReason: data.reason, updatedAt: new Date() })
+          .where(eq(diagnosticImaging.imagingId, imagingId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.cancelledBy,
+          action: 'IMAGING_CANCEL',
+          entityType: 'imaging',
+          entityId: imagingId,
+          oldValues: { status: study.status },
+          newValues: { status: 'CANCELLED' },
+          details: data.reason,
+        });
+
+        return { saved: saved!, wasInProgress: study.status === 'IN_PROGRESS' };
+      });
+
+      if (updated.wasInProgress) {
+        await this.releaseMachine(updated.saved);
+      }
+
+      await this.afterChange(updated.saved);
+
+      return updated.saved;
+    } catch (error) {
+      logger.error('Failed to cancel imaging study:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel imaging study', 500);
+    }
+  }
+
+  private async lockStudy(tx: Transaction, imagingId: string) {
+    const [study] = await tx
+      .select()
+      .from(diagnosticImaging)
+      .where(eq(diagnosticImaging.imagingId, imagingId))
+      .for('update');
+
+    if (!study) {
+      throw new AppError('Imaging study not found', 404);
+    }
+
+    return study;
+  }
+
+  private async assertSlotFree(
+    tx: Transaction,
+    resourceId: string,
+    start: Date,
+    durationMinutes: number,
+    excludeImagingId: string
+  ): Promise<void> {
+    // Serialises concurrent bookings on the same machine
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`imaging:${resourceId}`}))`);
+
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+
+    const [clash] = await tx
+      .select({ imagingId: diagnosticImaging.imagingId, scheduledTime: diagnosticImaging.scheduledTime })
+      .from(diagnosticImaging)
+      .where(
+        and(
+          eq(diagnosticImaging.resourceId, resourceId),
+          inArray(diagnosticImaging.status, BOOKED_STATUSES),
+          ne(diagnosticImaging.imagingId, excludeImagingId),
+          lt(diagnosticImaging.scheduledTime, end),
+          sql`${diagnosticImaging.scheduledTime} + make_interval(mins => COALESCE(${diagnosticImaging.durationMinutes}, ${DEFAULT_EXAM_MINUTES})) > ${start}`
+        )
+      )
+      .limit(1);
+
+    if (clash) {
+      throw new AppError(`The machine is already booked at ${clash.scheduledTime?.toISOString()}`, 409);
+    }
+  }
+
+  // Only free the machine if this patient is still the one on it
+  private async releaseMachine(study: typeof diagnosticImaging.$inferSelect): Promise<void> {
+    if (!study.resourceId) return;
+
+    const [resource] = await db
+      .select({ currentPatientId: resources.currentPatientId })
+      .from(resources)
+      .where(eq(resources.resourceId, study.resourceId));
+
+    if (resource?.currentPatientId === study.patientId) {
+      await this.resourceService.releaseResource(study.resourceId);
+    }
+  }
+
+  private async notifyOrderingDoctor(study: typeof diagnosticImaging.$inferSelect, addendum: boolean): Promise<void> {
+    const [patient] = await db
+      .select({ straId: patients.straId })
+      .from(patients)
+      .where(eq(patients.patientId, study.patientId));
+
+    const payload = {
+      imagingId: study.imagingId,
+      patientId: study.patientId,
+      straId: patient?.straId,
+      study: `${study.modality} ${study.bodyPart}`,
+      impression: study.impression,
+      reportUrl: study.reportUrl,
+      addendum,
+    };
+
+    this.socketService.broadcastToDoctor(study.doctorId, 'imaging_report', payload);
+    await this.notificationService.sendImagingReportNotification({ doctorId: study.doctorId, ...payload });
+  }
+
+  private async getAddenda(imagingId: string) {
+    return db
+      .select({
+        addendumId: imagingAddenda.addendumId,
+        text: imagingAddenda.text,
+        radiologistId: imagingAddenda.radiologistId,
+        radiologistName: sql<string>`${users.firstName} || ' ' || ${users.lastName}`,
+        createdAt: imagingAddenda.createdAt,
+      })
+      .from(imagingAddenda)
+      .innerJoin(users, eq(imagingAddenda.radiologistId, users.userId))
+      .where(eq(imagingAddenda.imagingId, imagingId))
+      .orderBy(asc(imagingAddenda.createdAt));
+  }
+
+  private async afterChange(study: typeof diagnosticImaging.$inferSelect): Promise<void> {
+    await this.redisService.del(`patient_details:${study.patientId}`);
+  }
+
+  private selectWithNames() {
+    const doctors = alias(users, 'doctors');
+    const radiologists = alias(users, 'radiologists');
+
+    return db
+      .select({
+        imagingId: diagnosticImaging.imagingId,
+        patientId: diagnosticImaging.patientId,
+        straId: patients.straId,
+        patientName: sql<string>`${patients.firstName} || ' ' || ${patients.lastName}`,
+        dateOfBirth: patients.dateOfBirth,
+        gender: patients.gender,
+        encounterId: diagnosticImaging.encounterId,
+        doctorId: diagnosticImaging.doctorId,
+        doctorName: sql<string | null>`${doctors.firstName} || ' ' || ${doctors.lastName}`,
+        modality: diagnosticImaging.modality,
+        bodyPart: diagnosticImaging.bodyPart,
+        clinicalIndication: diagnosticImaging.clinicalIndication,
+        priority: diagnosticImaging.priority,
+        status: diagnosticImaging.status,
+        resourceId: diagnosticImaging.resourceId,
+        resourceName: resources.name,
+        scheduledTime: diagnosticImaging.scheduledTime,
+        durationMinutes: diagnosticImaging.durationMinutes,
+        startedAt: diagnosticImaging.startedAt,
+        completedAt: diagnosticImaging.completedAt,
+        findings: diagnosticImaging.findings,
+        impression: diagnosticImaging.impression,
+        radiologistId: diagnosticImaging.radiologistId,
+        radiologistName: sql<string | null>`${radiologists.firstName} || ' ' || ${radiologists.lastName}`,
+        reportedAt: diagnosticImaging.reportedAt,
+        signedAt: diagnosticImaging.signedAt,
+        reportUrl: diagnosticImaging.reportUrl,
+        cancellationReason: diagnosticImaging.cancellationReason,
+        accessionNumber: diagnosticImaging.accessionNumber,
+        studyInstanceUid: diagnosticImaging.studyInstanceUid,
+        notes: diagnosticImaging.notes,
+        orderedAt: diagnosticImaging.createdAt,
+      })
+      .from(diagnosticImaging)
+      .innerJoin(patients, eq(diagnosticImaging.patientId, patients.patientId))
+      .leftJoin(doctors, eq(diagnosticImaging.doctorId, doctors.userId))
+      .leftJoin(radiologists, eq(diagnosticImaging.radiologistId, radiologists.userId))
+      .leftJoin(resources, eq(diagnosticImaging.resourceId, resources.resourceId));
+  }
+}
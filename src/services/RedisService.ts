@@ -0,0 +1,86 @@
+import { createClient } from 'redis';
+import { logger } from '../config/logger';
+// @ts-ignore
+import { REDIS_URL } from '../config/env.js';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// One connection for the process; every service constructs its own RedisService
+let client: Promise<RedisClient | null> | null = null;
+
+// Without REDIS_URL values are kept in this process, which is enough for a single instance
+const memory = new Map<string, { value: string; expiresAt: number | null }>();
+
+const open = async (): Promise<RedisClient | null> => {
+  if (!REDIS_URL) {
+    logger.warn('REDIS_URL not set, caching in process memory');
+    return null;
+  }
+
+  const redis: RedisClient = createClient({ url: REDIS_URL });
+  redis.on('error', (error) => logger.error('Redis error:', error));
+  await redis.connect();
+  return redis;
+};
+
+const connect = (): Promise<RedisClient | null> => {
+  // A failed connection is retried on the next call
+  client ??= open().catch((error) => {
+    client = null;
+    throw error;
+  });
+  return client;
+};
+
+export class RedisService {
+  async get(key: string): Promise<any> {
+    try {
+      const redis = await connect();
+      let raw: string | null;
+
+      if (redis) {
+        raw = await redis.get(key);
+      } else {
+        const entry = memory.get(key);
+        const expired = !!entry?.expiresAt && entry.expiresAt <= Date.now();
+        if (expired) memory.delete(key);
+        raw = entry && !expired ? entry.value : null;
+      }
+
+      return raw === null ? null : JSON.parse(raw);
+    } catch (error) {
+      // A cache failure is treated as a miss rather than failing the request
+      logger.error(`Failed to read cache key ${key}:`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+    try {
+      const redis = await connect();
+      const raw = JSON.stringify(value);
+
+      if (redis) {
+        await redis.set(key, raw, ttlSeconds ? { EX: ttlSeconds } : undefined);
+      } else {
+        memory.set(key, { value: raw, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null });
+      }
+    } catch (error) {
+      logger.error(`Failed to write cache key ${key}:`, error);
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    try {
+      const redis = await connect();
+
+      if (redis) {
+        await redis.del(key);
+      } else {
+        memory.delete(key);
+      }
+    } catch (error) {
+      logger.error(`Failed to delete cache key ${key}:`, error);
+    }
+  }
+}
@@ -4,12 +4,24 @@ import { eq, and, count, desc, asc } from 'drizzle-orm';
 import { AppError } from '../middleware/error';
 import { logger } from '../config/logger';
 import { RedisService } from './RedisService';
+import { SocketService } from './SocketService';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A bed moved inside a caller's transaction; published with publishBedChanges once it commits
+export interface BedChange {
+  action: 'allocated' | 'released';
+  resource: typeof resources.$inferSelect;
+  previousPatientId?: string | undefined;
+}
 
 export class ResourceService {
   private redisService: RedisService;
+  private socketService: SocketService;
 
   constructor() {
     this.redisService = new RedisService();
+    this.socketService = SocketService.getInstance();
   }
 
   async getResourceDashboard(): Promise<any> {
@@ -215,6 +227,8 @@ export class ResourceService {
         // Clear cache
         await this.redisService.del('resource_dashboard');
 
+        this.broadcastResourceUpdate('allocated', updated);
+
         return {
           ...updated,
           patient,
@@ -255,6 +269,8 @@ export class ResourceService {
         // Clear cache
         await this.redisService.del('resource_dashboard');
 
+        this.broadcastResourceUpdate('released', updated, resource.currentPatientId);
+
         return updated;
       });
     } catch (error) {
@@ -264,6 +280,81 @@ export class ResourceService {
     }
   }
 
+  // Picks a specific bed when one is named, otherwise the first free bed in the department/ward
+  async allocateBed(tx: Transaction, patientId: string, criteria: {
+    departmentId: string;
+    resourceId?: string | undefined;
+    ward?: string | undefined;
+    bedNumber?: string | undefined;
+  }): Promise<BedChange> {
+    const [bed] = await tx
+      .select()
+      .from(resources)
+      .where(
+        and(
+          eq(resources.resourceType, 'BED'),
+          eq(resources.status, 'AVAILABLE'),
+          criteria.resourceId
+            ? eq(resources.resourceId, criteria.resourceId)
+            : eq(resources.departmentId, criteria.departmentId),
+          criteria.bedNumber ? eq(resources.name, criteria.bedNumber) : undefined,
+          criteria.ward ? sql`${resources.location} ILIKE ${'%' + criteria.ward + '%'}` : undefined
+        )
+      )
+      .orderBy(asc(resources.name))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    if (!bed) {
+      throw new AppError('No available bed matches the admission request', 409);
+    }
+
+    const [allocated] = await tx
+      .update(resources)
+      .set({
+        status: 'OCCUPIED',
+        currentPatientId: patientId,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(resources.resourceId, bed.resourceId), eq(resources.status, 'AVAILABLE')))
+      .returning();
+
+    if (!allocated) {
+      throw new AppError('Bed was allocated to another patient; please retry', 409);
+    }
+
+    logger.info(`Bed allocated: ${allocated.name} to patient ${patientId}`, { resourceId: allocated.resourceId });
+
+    return { action: 'allocated', resource: allocated };
+  }
+
+  async releaseBed(tx: Transaction, resourceId: string, patientId: string): Promise<BedChange | null> {
+    const [released] = await tx
+      .update(resources)
+      .set({
+        status: 'AVAILABLE',
+        currentPatientId: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(resources.resourceId, resourceId), eq(resources.currentPatientId, patientId)))
+      .returning();
+
+    if (!released) return null;
+
+    return { action: 'released', resource: released, previousPatientId: patientId };
+  }
+
+  // Called once the caller's transaction has committed, so a rolled-back move is never broadcast or cached
+  async publishBedChanges(changes: BedChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    await this.redisService.del('resource_dashboard');
+
+    for (const change of changes) {
+      this.broadcastResourceUpdate(change.action, change.resource, change.previousPatientId);
+    }
+  }
+
   async setResourceMaintenance(resourceId: string, data: {
     maintenanceDate: Date;
     estimatedCompletion: Date;
@@ -291,6 +382,8 @@ export class ResourceService {
       // Clear cache
       await this.redisService.del('resource_dashboard');
 
+      this.broadcastResourceUpdate('maintenance', updated);
+
       return updated;
     } catch (error) {
       logger.error('Failed to set resource maintenance:', error);
@@ -395,4 +488,25 @@ export class ResourceService {
     
     return breakdown;
   }
-}
\ No newline at end of file
+
+  private broadcastResourceUpdate(action: string, resource: any, previousPatientId?: string | null): void {
+    if (!resource) return;
+
+    const payload = {
+      action,
+      resourceId: resource.resourceId,
+      name: resource.name,
+      resourceType: resource.resourceType,
+      status: resource.status,
+      patientId: resource.currentPatientId || previousPatientId || null,
+    };
+
+    if (resource.departmentId) {
+      this.socketService.broadcastToDepartment(resource.departmentId, 'resource_update', payload);
+    }
+
+    if (payload.patientId) {
+      this.socketService.broadcastToPatient(payload.patientId, 'resource_update', payload);
+    }
+  }
+}
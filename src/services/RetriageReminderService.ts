@@ -0,0 +1,204 @@
+import { db } from '../db';
+import { departmentQueues, departments, patients, triageSessions } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { logger } from '../config/logger';
+import { NotificationService } from './NotificationService';
+import { SettingsService } from './SettingsService';
+import { RedisService } from './RedisService';
+import { SocketService } from './SocketService';
+import { RosterService } from './RosterService';
+import type { UrgencyLevel } from '../utils/ScoringEngines';
+
+export const RETRIAGE_POLICY_SETTING = 'retriage_policy';
+
+export interface RetriagePolicy {
+  maxWaitMinutes: Record<UrgencyLevel, number>;
+  retriageIntervalMinutes: number;
+  reminderIntervalMinutes: number;
+}
+
+export const DEFAULT_RETRIAGE_POLICY: RetriagePolicy = {
+  maxWaitMinutes: { RED: 10, YELLOW: 30, GREEN: 120 },
+  retriageIntervalMinutes: 60,
+  reminderIntervalMinutes: 15,
+};
+
+type RetriageDueReason = 'MAX_WAIT_EXCEEDED' | 'RETRIAGE_INTERVAL';
+
+export class RetriageReminderService {
+  private notificationService: NotificationService;
+  private settingsService: SettingsService;
+  private redisService: RedisService;
+  private socketService: SocketService;
+  private rosterService: RosterService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.settingsService = new SettingsService();
+    this.redisService = new RedisService();
+    this.socketService = SocketService.getInstance();
+    this.rosterService = new RosterService();
+  }
+
+  async getPolicy(): Promise<RetriagePolicy> {
+    const policy = await this.settingsService.get<Partial<RetriagePolicy>>(RETRIAGE_POLICY_SETTING, {});
+    return {
+      ...DEFAULT_RETRIAGE_POLICY,
+      ...policy,
+      maxWaitMinutes: { ...DEFAULT_RETRIAGE_POLICY.maxWaitMinutes, ...policy.maxWaitMinutes },
+    };
+  }
+
+  async updatePolicy(update: {
+    maxWaitMinutes?: { [K in UrgencyLevel]?: number | undefined } | undefined;
+    retriageIntervalMinutes?: number | undefined;
+    reminderIntervalMinutes?: number | undefined;
+  }, updatedBy: string): Promise<RetriagePolicy> {
+    const current = await this.getPolicy();
+    const policy: RetriagePolicy = {
+      maxWaitMinutes: {
+        RED: update.maxWaitMinutes?.RED ?? current.maxWaitMinutes.RED,
+        YELLOW: update.maxWaitMinutes?.YELLOW ?? current.maxWaitMinutes.YELLOW,
+        GREEN: update.maxWaitMinutes?.GREEN ?? current.maxWaitMinutes.GREEN,
+      },
+      retriageIntervalMinutes: update.retriageIntervalMinutes ?? current.retriageIntervalMinutes,
+      reminderIntervalMinutes: update.reminderIntervalMinutes ?? current.reminderIntervalMinutes,
+    };
+
+    await this.settingsService.set(RETRIAGE_POLICY_SETTING, policy, {
+      category: 'triage',
+      description: 'Maximum waits per urgency category and re-triage reminder intervals',
+      updatedBy,
+    });
+
+    return policy;
+  }
+
+  async runCheck(): Promise<{ flagged: number; reminded: number }> {
+    const policy = await this.getPolicy();
+    const now = new Date();
+
+    const waiting = await db
+      .select({
+        queueId: departmentQueues.queueId,
+        departmentId: departmentQueues.departmentId,
+        departmentName: departments.name,
+        straId: patients.straId,
+        urgencyLevel: departmentQueues.urgencyLevel,
+        queuedAt: departmentQueues.createdAt,
+        lastAssessedAt: triageSessions.createdAt,
+        retriageDueAt: departmentQueues.retriageDueAt,
+        retriageDueReason: departmentQueues.retriageDueReason,
+        lastRetriageReminderAt: departmentQueues.lastRetriageReminderAt,
+      })
+      .from(departmentQueues)
+      .innerJoin(departments, eq(departmentQueues.departmentId, departments.departmentId))
+      .innerJoin(patients, eq(departmentQueues.patientId, patients.patientId))
+      .leftJoin(triageSessions, eq(departmentQueues.triageSessionId, triageSessions.sessionId))
+      .where(eq(departmentQueues.status, 'WAITING'));
+
+    const due: (typeof waiting[number] & { reason: RetriageDueReason; waitingMinutes: number })[] = [];
+
+    for (const entry of waiting) {
+      // The maximum wait runs from joining the queue; only the re-triage interval restarts after a re-triage
+      const waitedMinutes = (now.getTime() - entry.queuedAt.getTime()) / 60000;
+      const assessedAt = entry.lastAssessedAt || entry.queuedAt;
+      const sinceAssessment = (now.getTime() - assessedAt.getTime()) / 60000;
+
+      let reason: RetriageDueReason | null = null;
+      if (waitedMinutes >= policy.maxWaitMinutes[entry.urgencyLevel]) {
+        reason = 'MAX_WAIT_EXCEEDED';
+      } else if (sinceAssessment >= policy.retriageIntervalMinutes) {
+        reason = 'RETRIAGE_INTERVAL';
+      }
+
+      if (!reason) continue;
+
+      due.push({
+        ...entry,
+        reason,
+        waitingMinutes: Math.round(waitedMinutes),
+      });
+    }
+
+    if (due.length === 0) {
+      return { flagged: 0, reminded: 0 };
+    }
+
+    // New breaches are flagged; an interval flag is upgraded once the maximum wait is also exceeded
+    let flagged = 0;
+    for (const entry of due.filter(e => !e.retriageDueAt || e.retriageDueReason !== e.reason)) {
+      if (entry.retriageDueAt && entry.reason !== 'MAX_WAIT_EXCEEDED') continue;
+
+      await db
+        .update(departmentQueues)
+        .set({
+          retriageDueAt: entry.retriageDueAt || now,
+          retriageDueReason: entry.reason,
+          updatedAt: now,
+        })
+        .where(eq(departmentQueues.queueId, entry.queueId));
+      flagged++;
+    }
+
+    // Nurses are reminded again only after the reminder interval has passed
+    const reminderCutoff = now.getTime() - policy.reminderIntervalMinutes * 60000;
+    const toRemind = due.filter(e => !e.lastRetriageReminderAt || e.lastRetriageReminderAt.getTime() <= reminderCutoff);
+
+    const byDepartment = new Map<string, typeof due>();
+    for (const entry of due) {
+      byDepartment.set(entry.departmentId, [...(byDepartment.get(entry.departmentId) || []), entry]);
+    }
+
+    for (const [departmentId, entries] of byDepartment) {
+      const pending = entries.filter(e => toRemind.includes(e));
+
+      if (pending.length > 0) {
+        const nurses = await this.getDepartmentNurses(departmentId);
+
+        if (nurses.length === 0) {
+          logger.warn(`No nurses on duty in department ${departmentId} for re-triage reminders`);
+        }
+
+        await this.notificationService.sendRetriageReminder({
+          departmentId,
+          departmentName: pending[0]!.departmentName,
+          nurses,
+          patients: pending.map(e => ({
+            queueId: e.queueId,
+            straId: e.straId,
+            urgencyLevel: e.urgencyLevel,
+            waitingMinutes: e.waitingMinutes,
+            reason: e.reason,
+          })),
+        });
+
+        await db
+          .update(departmentQueues)
+          .set({ lastRetriageReminderAt: now })
+          .where(inArray(departmentQueues.queueId, pending.map(e => e.queueId)));
+      }
+
+      this.socketService.broadcastToDepartment(departmentId, 'queue_update', {
+        action: 'retriage_due',
+        queueIds: entries.map(e => e.queueId),
+      });
+
+      await this.redisService.del(`queue:${departmentId}`);
+    }
+
+    logger.info(`Re-triage check: ${due.length} due, ${flagged} newly flagged, ${toRemind.length} reminded`);
+
+    return { flagged, reminded: toRemind.length };
+  }
+
+  private async getDepartmentNurses(departmentId: string): Promise<{ userId: string; phoneNumber: string | null }[]> {
+    const onDuty = await this.rosterService.getOnDutyStaff({
+      departmentId,
+      roles: ['nurse'],
+      includeOnCall: false,
+    });
+
+    return onDuty.map(({ userId, phoneNumber }) => ({ userId, phoneNumber }));
+  }
+}
@@ -0,0 +1,514 @@
+import { db } from '../db';
+import { shifts, shiftSwaps, users, departments, departmentStaff, auditLogs } from '../db/schema';
+import { eq, and, or, ne, lt, gt, lte, asc, desc, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type StaffRole = typeof users.role.enumValues[number];
+
+export interface OnDutyStaff {
+  userId: string;
+  name: string;
+  role: StaffRole;
+  phoneNumber: string | null;
+  email: string;
+  departmentId: string;
+  departmentName: string;
+  shiftId: string;
+  isOnCall: boolean;
+  endsAt: Date;
+}
+
+const MAX_SHIFT_HOURS = 24;
+
+export class RosterService {
+  // Staff whose shift covers the given moment; on-call cover is included unless excluded
+  async getOnDutyStaff(filters: {
+    departmentId?: string | undefined;
+    roles?: StaffRole[] | undefined;
+    includeOnCall?: boolean | undefined;
+    at?: Date | undefined;
+  } = {}): Promise<OnDutyStaff[]> {
+    const at = filters.at || new Date();
+
+    const rows = await db
+      .select({
+        userId: users.userId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: users.role,
+        phoneNumber: users.phoneNumber,
+        email: users.email,
+        departmentId: shifts.departmentId,
+        departmentName: departments.name,
+        shiftId: shifts.shiftId,
+        isOnCall: shifts.isOnCall,
+        endsAt: shifts.endsAt,
+      })
+      .from(shifts)
+      .innerJoin(users, eq(shifts.userId, users.userId))
+      .innerJoin(departments, eq(shifts.departmentId, departments.departmentId))
+      .where(
+        and(
+          eq(shifts.status, 'SCHEDULED'),
+          lte(shifts.startsAt, at),
+          gt(shifts.endsAt, at),
+          eq(users.isActive, true),
+          filters.departmentId ? eq(shifts.departmentId, filters.departmentId) : undefined,
+          filters.roles?.length ? inArray(users.role, filters.roles) : undefined,
+          filters.includeOnCall === false ? eq(shifts.isOnCall, false) : undefined
+        )
+      )
+      .orderBy(asc(departments.name), asc(users.role), asc(users.lastName));
+
+    return rows.map(({ firstName, lastName, ...row }) => ({
+      ...row,
+      name: `${firstName} ${lastName}`,
+    }));
+  }
+
+  async getRoster(filters: {
+    departmentId?: string | undefined;
+    userId?: string | undefined;
+    from: Date;
+    to: Date;
+    includeCancelled?: boolean | undefined;
+  }): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          shiftId: shifts.shiftId,
+          departmentId: shifts.departmentId,
+          departmentName: departments.name,
+          userId: shifts.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          role: users.role,
+          startsAt: shifts.startsAt,
+          endsAt: shifts.endsAt,
+          isOnCall: shifts.isOnCall,
+          status: shifts.status,
+          notes: shifts.notes,
+        })
+        .from(shifts)
+        .innerJoin(users, eq(shifts.userId, users.userId))
+        .innerJoin(departments, eq(shifts.departmentId, departments.departmentId))
+        .where(
+          and(
+            lt(shifts.startsAt, filters.to),
+            gt(shifts.endsAt, filters.from),
+            filters.departmentId ? eq(shifts.departmentId, filters.departmentId) : undefined,
+            filters.userId ? eq(shifts.userId, filters.userId) : undefined,
+            filters.includeCancelled ? undefined : eq(shifts.status, 'SCHEDULED')
+          )
+        )
+        .orderBy(asc(shifts.startsAt), asc(departments.name));
+    } catch (error) {
+      logger.error('Failed to fetch roster:', error);
+      throw new AppError('Failed to fetch roster', 500);
+    }
+  }
+
+  async createShift(data: {
+    departmentId: string;
+    userId: string;
+    startsAt: Date;
+    endsAt: Date;
+    isOnCall?: boolean | undefined;
+    notes?: string | undefined;
+    createdBy: string;
+  }): Promise<any> {
+    try {
+      this.assertValidTimes(data.startsAt, data.endsAt);
+
+      return await db.transaction(async (tx) => {
+        await this.assertCanWork(tx, data.userId, data.departmentId);
+        await this.assertNoOverlap(tx, data.userId, data.startsAt, data.endsAt);
+
+        const [shift] = await tx
+          .insert(shifts)
+          .values({
+            departmentId: data.departmentId,
+            userId: data.userId,
+            startsAt: data.startsAt,
+            endsAt: data.endsAt,
+            isOnCall: data.isOnCall ?? false,
+            notes: data.notes,
+            createdBy: data.createdBy,
+          })
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.createdBy,
+          action: 'SHIFT_CREATE',
+          entityType: 'shift',
+          entityId: shift!.shiftId,
+          newValues: {
+            userId: data.userId,
+            departmentId: data.departmentId,
+            startsAt: data.startsAt,
+            endsAt: data.endsAt,
+            isOnCall: shift!.isOnCall,
+          },
+        });
+
+        return shift;
+      });
+    } catch (error) {
+      logger.error('Failed to create shift:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create shift', 500);
+    }
+  }
+
+  async cancelShift(shiftId: string, data: { reason: string; cancelledBy: string }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [shift] = await tx
+          .select()
+          .from(shifts)
+          .where(eq(shifts.shiftId, shiftId))
+          .for('update');
+
+        if (!shift) {
+          throw new AppError('Shift not found', 404);
+        }
+
+        if (shift.status !== 'SCHEDULED') {
+          throw new AppError('Shift is already cancelled', 409);
+        }
+
+        const [updated] = await tx
+          .update(shifts)
+          .set({ status: 'CANCELLED', updatedAt: new Date() })
+          .where(eq(shifts.shiftId, shiftId))
+          .returning();
+
+        // Pending swaps for the shift can no longer happen
+        await tx
+          .update(shiftSwaps)
+          .set({ status: 'CANCELLED', updatedAt: new Date() })
+          .where(and(eq(shiftSwaps.shiftId, shiftId), eq(shiftSwaps.status, 'PENDING')));
+
+        await tx.insert(auditLogs).values({
+          userId: data.cancelledBy,
+          action: 'SHIFT_CANCEL',
+          entityType: 'shift',
+          entityId: shiftId,
+          oldValues: { status: shift.status },
+          newValues: { status: 'CANCELLED' },
+          details: data.reason,
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to cancel shift:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel shift', 500);
+    }
+  }
+
+  async requestSwap(data: {
+    shiftId: string;
+    targetUserId: string;
+    targetShiftId?: string | undefined;
+    reason?: string | undefined;
+    requestedBy: string;
+  }): Promise<any> {
+    try {
+      const [shift] = await db
+        .select()
+        .from(shifts)
+        .where(eq(shifts.shiftId, data.shiftId));
+
+      if (!shift || shift.status !== 'SCHEDULED') {
+        throw new AppError('Shift not found', 404);
+      }
+
+      if (shift.userId !== data.requestedBy) {
+        throw new AppError('You can only swap your own shifts', 403);
+      }
+
+      if (shift.startsAt <= new Date()) {
+        throw new AppError('Shift has already started', 409);
+      }
+
+      if (data.targetUserId === data.requestedBy) {
+        throw new AppError('Choose a colleague to swap with', 400);
+      }
+
+      if (data.targetShiftId) {
+        const [targetShift] = await db
+          .select()
+          .from(shifts)
+          .where(eq(shifts.shiftId, data.targetShiftId));
+
+        if (!targetShift || targetShift.status !== 'SCHEDULED' || targetShift.userId !== data.targetUserId) {
+          throw new AppError('Shift to exchange not found', 404);
+        }
+      }
+
+      const [pending] = await db
+        .select({ swapId: shiftSwaps.swapId })
+        .from(shiftSwaps)
+        .where(and(eq(shiftSwaps.shiftId, data.shiftId), eq(shiftSwaps.status, 'PENDING')))
+        .limit(1);
+
+      if (pending) {
+        throw new AppError('A swap is already pending for this shift', 409);
+      }
+
+      const [swap] = await db
+        .insert(shiftSwaps)
+        .values({
+          shiftId: data.shiftId,
+          requestedBy: data.requestedBy,
+          targetUserId: data.targetUserId,
+          targetShiftId: data.targetShiftId,
+          reason: data.reason,
+        })
+        .returning();
+
+      logger.info(`Shift swap requested: ${swap!.swapId}`, { shiftId: data.shiftId, targetUserId: data.targetUserId });
+
+      return swap;
+    } catch (error) {
+      logger.error('Failed to request shift swap:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to request shift swap', 500);
+    }
+  }
+
+  async reviewSwap(swapId: string, data: {
+    decision: 'APPROVED' | 'REJECTED';
+    notes?: string | undefined;
+    reviewedBy: string;
+  }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [swap] = await tx
+          .select()
+          .from(shiftSwaps)
+          .where(eq(shiftSwaps.swapId, swapId))
+          .for('update');
+
+        if (!swap) {
+          throw new AppError('Shift swap not found', 404);
+        }
+
+        if (swap.status !== 'PENDING') {
+          throw new AppError(`Shift swap is already ${swap.status.toLowerCase()}`, 409);
+        }
+
+        if (data.decision === 'APPROVED') {
+          await this.applySwap(tx, swap);
+        }
+
+        const [updated] = await tx
+          .update(shiftSwaps)
+          .set({
+            status: data.decision,
+            reviewedBy: data.reviewedBy,
+            reviewedAt: new Date(),
+            reviewNotes: data.notes,
+            updatedAt: new Date(),
+          })
+          .where(eq(shiftSwaps.swapId, swapId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.reviewedBy,
+          action: data.decision === 'APPROVED' ? 'SHIFT_SWAP_APPROVE' : 'SHIFT_SWAP_REJECT',
+          entityType: 'shift',
+          entityId: swap.shiftId,
+          oldValues: { userId: swap.requestedBy },
+          newValues: {
+            swapId,
+            targetUserId: swap.targetUserId,
+            targetShiftId: swap.targetShiftId,
+          },
+          details: data.notes,
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to review shift swap:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to review shift swap', 500);
+    }
+  }
+
+  async getSwaps(filters: {
+    status?: string | undefined;
+    departmentId?: string | undefined;
+    userId?: string | undefined;
+  }): Promise<any[]> {
+    try {
+      const requester = alias(users, 'requester');
+      const target = alias(users, 'target');
+
+      return await db
+        .select({
+          swapId: shiftSwaps.swapId,
+          shiftId: shiftSwaps.shiftId,
+          departmentId: shifts.departmentId,
+          startsAt: shifts.startsAt,
+          endsAt: shifts.endsAt,
+          requestedBy: shiftSwaps.requestedBy,
+          requesterFirstName: requester.firstName,
+          requesterLastName: requester.lastName,
+          targetUserId: shiftSwaps.targetUserId,
+          targetFirstName: target.firstName,
+          targetLastName: target.lastName,
+          targetShiftId: shiftSwaps.targetShiftId,
+          reason: shiftSwaps.reason,
+          status: shiftSwaps.status,
+          reviewedAt: shiftSwaps.reviewedAt,
+          reviewNotes: shiftSwaps.reviewNotes,
+          createdAt: shiftSwaps.createdAt,
+        })
+        .from(shiftSwaps)
+        .innerJoin(shifts, eq(shiftSwaps.shiftId, shifts.shiftId))
+        .innerJoin(requester, eq(shiftSwaps.requestedBy, requester.userId))
+        .innerJoin(target, eq(shiftSwaps.targetUserId, target.userId))
+        .where(
+          and(
+            filters.status ? eq(shiftSwaps.status, filters.status) : undefined,
+            filters.departmentId ? eq(shifts.departmentId, filters.departmentId) : undefined,
+            filters.userId ? or(eq(shiftSwaps.requestedBy, filters.userId), eq(shiftSwaps.targetUserId, filters.userId)) : undefined
+          )
+        )
+        .orderBy(desc(shiftSwaps.createdAt));
+    } catch (error) {
+      logger.error('Failed to fetch shift swaps:', error);
+      throw new AppError('Failed to fetch shift swaps', 500);
+    }
+  }
+
+  private async applySwap(tx: Transaction, swap: typeof shiftSwaps.$inferSelect): Promise<void> {
+    const [shift] = await tx.select().from(shifts).where(eq(shifts.shiftId, swap.shiftId));
+
+    if (!shift || shift.status !== 'SCHEDULED') {
+      throw new AppError('Shift is no longer scheduled', 409);
+    }
+
+    const [targetShift] = swap.targetShiftId
+      ? await tx.select().from(shifts).where(eq(shifts.shiftId, swap.targetShiftId))
+      : [];
+
+    if (swap.targetShiftId && (!targetShift || targetShift.status !== 'SCHEDULED' || targetShift.userId !== swap.targetUserId)) {
+      throw new AppError('Shift to exchange is no longer available', 409);
+    }
+
+    await this.assertCanWork(tx, swap.targetUserId, shift.departmentId);
+    await this.assertNoOverlap(tx, swap.targetUserId, shift.startsAt, shift.endsAt, swap.targetShiftId);
+
+    if (targetShift) {
+      await this.assertCanWork(tx, swap.requestedBy, targetShift.departmentId);
+      await this.assertNoOverlap(tx, swap.requestedBy, targetShift.startsAt, targetShift.endsAt, shift.shiftId);
+
+      await tx
+        .update(shifts)
+        .set({ userId: swap.requestedBy, updatedAt: new Date() })
+        .where(eq(shifts.shiftId, targetShift.shiftId));
+    }
+
+    await tx
+      .update(shifts)
+      .set({ userId: swap.targetUserId, updatedAt: new Date() })
+      .where(eq(shifts.shiftId, shift.shiftId));
+  }
+
+  // Head of department receives escalations, e.g. unacknowledged critical lab results
+  async setDepartmentHead(departmentId: string, data: { userId: string | null; updatedBy: string }): Promise<any> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [department] = await tx
+          .select()
+          .from(departments)
+          .where(eq(departments.departmentId, departmentId));
+
+        if (!department) {
+          throw new AppError('Department not found', 404);
+        }
+
+        if (data.userId) {
+          await this.assertCanWork(tx, data.userId, departmentId);
+        }
+
+        const [updated] = await tx
+          .update(departments)
+          .set({ headUserId: data.userId, updatedAt: new Date() })
+          .where(eq(departments.departmentId, departmentId))
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: data.updatedBy,
+          action: 'DEPARTMENT_HEAD_UPDATE',
+          entityType: 'department',
+          entityId: departmentId,
+          oldValues: { headUserId: department.headUserId },
+          newValues: { headUserId: data.userId },
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      logger.error('Failed to set department head:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to set department head', 500);
+    }
+  }
+
+  private assertValidTimes(startsAt: Date, endsAt: Date): void {
+    if (endsAt <= startsAt) {
+      throw new AppError('Shift must end after it starts', 400);
+    }
+
+    if (endsAt.getTime() - startsAt.getTime() > MAX_SHIFT_HOURS * 3600000) {
+      throw new AppError(`Shifts cannot be longer than ${MAX_SHIFT_HOURS} hours`, 400);
+    }
+  }
+
+  private async assertCanWork(tx: Transaction, userId: string, departmentId: string): Promise<void> {
+    const [member] = await tx
+      .select({ isActive: users.isActive })
+      .from(departmentStaff)
+      .innerJoin(users, eq(departmentStaff.userId, users.userId))
+      .where(and(eq(departmentStaff.userId, userId), eq(departmentStaff.departmentId, departmentId)));
+
+    if (!member || !member.isActive) {
+      throw new AppError('Staff member is not assigned to this department', 400);
+    }
+  }
+
+  private async assertNoOverlap(
+    tx: Transaction,
+    userId: string,
+    startsAt: Date,
+    endsAt: Date,
+    excludeShiftId?: string | null | undefined
+  ): Promise<void> {
+    const [clash] = await tx
+      .select({ shiftId: shifts.shiftId, startsAt: shifts.startsAt })
+      .from(shifts)
+      .where(
+        and(
+          eq(shifts.userId, userId),
+          eq(shifts.status, 'SCHEDULED'),
+          lt(shifts.startsAt, endsAt),
+          gt(shifts.endsAt, startsAt),
+          excludeShiftId ? ne(shifts.shiftId, excludeShiftId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (clash) {
+      throw new AppError(`Staff member already has a shift starting ${clash.startsAt.toISOString()}`, 409);
+    }
+  }
+}
@@ -0,0 +1,404 @@
+import { db } from '../db';
+import { routingRules, departments, patients } from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { TriageCalculator } from '../utils/TriageCalculator';
+
+export interface VitalCondition {
+  parameter: string;
+  operator: 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+  value: number;
+}
+
+export interface RoutingConditions {
+  anySymptoms?: string[] | undefined;
+  allSymptoms?: string[] | undefined;
+  vitals?: VitalCondition[] | undefined;
+  minAge?: number | undefined;
+  maxAge?: number | undefined;
+  sex?: string | undefined;
+}
+
+export interface RoutingInput {
+  symptoms: Record<string, any>;
+  vitals: Record<string, any>;
+  ageYears?: number | undefined;
+  sex?: string | undefined;
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  name: string;
+  priority: number;
+  matched: boolean;
+  failedConditions: string[];
+}
+
+export interface DefaultRoutingRule {
+  ruleId: null;
+  name: string;
+  priority: number;
+  conditions: RoutingConditions;
+  isFallback: boolean;
+  departmentName: string;
+}
+
+// Same policy as DEFAULT_DISCRIMINATORS, after the configured rules; matched to departments by name
+export const DEFAULT_ROUTING_RULES: DefaultRoutingRule[] = [
+  {
+    ruleId: null,
+    name: 'Low oxygen saturation',
+    priority: 10,
+    departmentName: 'Emergency/Cardiology',
+    conditions: { vitals: [{ parameter: 'oxygenSaturation', operator: 'lt', value: 92 }] },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'Chest pain',
+    priority: 10,
+    departmentName: 'Emergency/Cardiology',
+    conditions: { anySymptoms: ['chest_pain'] },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'Neurological',
+    priority: 20,
+    departmentName: 'Emergency/Neurology',
+    conditions: { anySymptoms: ['head_trauma', 'seizure', 'stroke_symptoms'] },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'Abdominal',
+    priority: 30,
+    departmentName: 'Emergency/Surgery',
+    conditions: { anySymptoms: ['abdominal_pain', 'gastrointestinal_bleeding'] },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'Febrile respiratory',
+    priority: 40,
+    departmentName: 'Emergency/Infectious Diseases',
+    conditions: { allSymptoms: ['fever'], anySymptoms: ['cough', 'shortness_of_breath'] },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'Burns and trauma',
+    priority: 50,
+    departmentName: 'Emergency/Trauma',
+    conditions: { anySymptoms: ['burn', 'trauma'] },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'Paediatric',
+    priority: 60,
+    departmentName: 'Pediatrics',
+    conditions: { allSymptoms: ['pediatric'], maxAge: 11 },
+    isFallback: false,
+  },
+  {
+    ruleId: null,
+    name: 'General emergency',
+    priority: 1000,
+    departmentName: 'Emergency/General',
+    conditions: {},
+    isFallback: true,
+  },
+];
+
+const DEFAULT_FALLBACK_RULE = DEFAULT_ROUTING_RULES.find(r => r.isFallback)!;
+
+export class RoutingService {
+  async listRules(includeInactive: boolean = false): Promise<any[]> {
+    try {
+      return await db
+        .select({
+          ruleId: routingRules.ruleId,
+          name: routingRules.name,
+          description: routingRules.description,
+          priority: routingRules.priority,
+          conditions: routingRules.conditions,
+          isFallback: routingRules.isFallback,
+          isActive: routingRules.isActive,
+          departmentId: routingRules.departmentId,
+          departmentName: departments.name,
+          updatedAt: routingRules.updatedAt,
+        })
+        .from(routingRules)
+        .leftJoin(departments, eq(routingRules.departmentId, departments.departmentId))
+        .where(includeInactive ? undefined : eq(routingRules.isActive, true))
+        .orderBy(asc(routingRules.priority), asc(routingRules.createdAt));
+    } catch (error) {
+      logger.error('Failed to list routing rules:', error);
+      throw new AppError('Failed to list routing rules', 500);
+    }
+  }
+
+  async getRule(ruleId: string): Promise<any> {
+    const [rule] = await db
+      .select()
+      .from(routingRules)
+      .where(eq(routingRules.ruleId, ruleId));
+
+    if (!rule) {
+      throw new AppError('Routing rule not found', 404);
+    }
+
+    return rule;
+  }
+
+  async createRule(data: {
+    name: string;
+    description?: string | undefined;
+    departmentId: string;
+    priority: number;
+    conditions: RoutingConditions;
+    isFallback: boolean;
+    createdBy: string;
+  }): Promise<any> {
+    try {
+      await this.assertDepartmentExists(data.departmentId);
+
+      const [rule] = await db
+        .insert(routingRules)
+        .values({
+          ...data,
+          updatedBy: data.createdBy,
+        })
+        .returning();
+
+      logger.info(`Routing rule created: ${data.name}`, { ruleId: rule?.ruleId, createdBy: data.createdBy });
+
+      return rule;
+    } catch (error) {
+      logger.error('Failed to create routing rule:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create routing rule', 500);
+    }
+  }
+
+  async updateRule(ruleId: string, data: {
+    name?: string | undefined;
+    description?: string | undefined;
+    departmentId?: string | undefined;
+    priority?: number | undefined;
+    conditions?: RoutingConditions | undefined;
+    isFallback?: boolean | undefined;
+    isActive?: boolean | undefined;
+    updatedBy: string;
+  }): Promise<any> {
+    try {
+      if (data.departmentId) {
+        await this.assertDepartmentExists(data.departmentId);
+      }
+
+      const [rule] = await db
+        .update(routingRules)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+        })
+        .where(eq(routingRules.ruleId, ruleId))
+        .returning();
+
+      if (!rule) {
+        throw new AppError('Routing rule not found', 404);
+      }
+
+      logger.info(`Routing rule updated: ${rule.name}`, { ruleId, updatedBy: data.updatedBy });
+
+      return rule;
+    } catch (error) {
+      logger.error('Failed to update routing rule:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update routing rule', 500);
+    }
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    try {
+      const [rule] = await db
+        .delete(routingRules)
+        .where(eq(routingRules.ruleId, ruleId))
+        .returning();
+
+      if (!rule) {
+        throw new AppError('Routing rule not found', 404);
+      }
+
+      logger.info(`Routing rule deleted: ${rule.name}`, { ruleId });
+    } catch (error) {
+      logger.error('Failed to delete routing rule:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to delete routing rule', 500);
+    }
+  }
+
+  async resolveDepartment(input: RoutingInput): Promise<{ rule: any; department: any; evaluations: RuleEvaluation[] }> {
+    const [configured, activeDepartments] = await Promise.all([
+      this.listRules(),
+      db.select({ name: departments.name }).from(departments).where(eq(departments.isActive, true)),
+    ]);
+
+    // A default whose department this facility does not have is skipped rather than failing the routing
+    const departmentNames = new Set(activeDepartments.map(d => d.name));
+    const rules: any[] = [
+      ...configured,
+      ...DEFAULT_ROUTING_RULES.filter(rule => departmentNames.has(rule.departmentName)),
+    ];
+    const evaluations: RuleEvaluation[] = [];
+
+    // Fallback rules only apply when no specific rule matches
+    let matched = null;
+    for (const rule of rules.filter(r => !r.isFallback)) {
+      const failedConditions = this.evaluateConditions(rule.conditions as RoutingConditions, input);
+      evaluations.push({
+        ruleId: rule.ruleId,
+        name: rule.name,
+        priority: rule.priority,
+        matched: failedConditions.length === 0,
+        failedConditions,
+      });
+
+      if (!matched && failedConditions.length === 0) {
+        matched = rule;
+      }
+    }
+
+    // A configured fallback comes before the built-in one
+    const selected = matched || rules.find(r => r.isFallback) || DEFAULT_FALLBACK_RULE;
+
+    const [department] = await db
+      .select()
+      .from(departments)
+      .where(
+        and(
+          selected.ruleId
+            ? eq(departments.departmentId, selected.departmentId)
+            : eq(departments.name, selected.departmentName),
+          eq(departments.isActive, true)
+        )
+      );
+
+    if (!department) {
+      throw new AppError(`Department for routing rule "${selected.name}" is inactive or missing`, 422);
+    }
+
+    return { rule: selected, department, evaluations };
+  }
+
+  async dryRun(payload: {
+    symptoms: Record<string, any>;
+    vitals?: Record<string, any> | undefined;
+    patientId?: string | undefined;
+    ageYears?: number | undefined;
+    sex?: string | undefined;
+  }): Promise<any> {
+    let { ageYears, sex } = payload;
+
+    if (payload.patientId) {
+      const [patient] = await db
+        .select({ dateOfBirth: patients.dateOfBirth, gender: patients.gender })
+        .from(patients)
+        .where(eq(patients.patientId, payload.patientId));
+
+      if (!patient) {
+        throw new AppError('Patient not found', 404);
+      }
+
+      ageYears = ageYears ?? TriageCalculator.calculateAge(patient.dateOfBirth);
+      sex = sex ?? patient.gender;
+    }
+
+    const { rule, department, evaluations } = await this.resolveDepartment({
+      symptoms: payload.symptoms,
+      vitals: payload.vitals || {},
+      ageYears,
+      sex,
+    });
+
+    return {
+      matchedRule: {
+        ruleId: rule.ruleId,
+        name: rule.name,
+        priority: rule.priority,
+        isFallback: rule.isFallback,
+      },
+      department: {
+        departmentId: department.departmentId,
+        name: department.name,
+        code: department.code,
+      },
+      evaluations,
+    };
+  }
+
+  private evaluateConditions(conditions: RoutingConditions, input: RoutingInput): string[] {
+    const failed: string[] = [];
+    const hasSymptom = (key: string) => {
+      const value = input.symptoms[key];
+      return value !== undefined && value !== null && value !== false;
+    };
+
+    if (conditions.anySymptoms?.length && !conditions.anySymptoms.some(hasSymptom)) {
+      failed.push(`anySymptoms:${conditions.anySymptoms.join('|')}`);
+    }
+
+    for (const symptom of conditions.allSymptoms || []) {
+      if (!hasSymptom(symptom)) failed.push(`allSymptoms:${symptom}`);
+    }
+
+    for (const condition of conditions.vitals || []) {
+      const value = input.vitals[condition.parameter];
+      if (value === undefined || value === null || !this.compare(Number(value), condition)) {
+        failed.push(`vitals:${condition.parameter} ${condition.operator} ${condition.value}`);
+      }
+    }
+
+    if (conditions.minAge !== undefined && (input.ageYears === undefined || input.ageYears < conditions.minAge)) {
+      failed.push(`minAge:${conditions.minAge}`);
+    }
+
+    if (conditions.maxAge !== undefined && (input.ageYears === undefined || input.ageYears > conditions.maxAge)) {
+      failed.push(`maxAge:${conditions.maxAge}`);
+    }
+
+    if (conditions.sex && conditions.sex.toLowerCase() !== input.sex?.toLowerCase()) {
+      failed.push(`sex:${conditions.sex}`);
+    }
+
+    return failed;
+  }
+
+  private compare(value: number, condition: VitalCondition): boolean {
+    switch (condition.operator) {
+      case 'lt':
+        return value < condition.value;
+      case 'lte':
+        return value <= condition.value;
+      case 'gt':
+        return value > condition.value;
+      case 'gte':
+        return value >= condition.value;
+      case 'eq':
+        return value === condition.value;
+    }
+  }
+
+  private async assertDepartmentExists(departmentId: string): Promise<void> {
+    const [department] = await db
+      .select({ departmentId: departments.departmentId })
+      .from(departments)
+      .where(eq(departments.departmentId, departmentId));
+
+    if (!department) {
+      throw new AppError('Department not found', 404);
+    }
+  }
+}
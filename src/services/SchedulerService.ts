@@ -0,0 +1,88 @@
+import { logger } from '../config/logger';
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  handler: () => Promise<void>;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  lastRunAt: Date | null;
+}
+
+export class SchedulerService {
+  private static instance: SchedulerService;
+  private jobs = new Map<string, ScheduledJob>();
+  private started = false;
+
+  static getInstance(): SchedulerService {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService();
+    }
+    return SchedulerService.instance;
+  }
+
+  register(name: string, intervalMs: number, handler: () => Promise<void>): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job ${name} is already registered`);
+    }
+
+    const job: ScheduledJob = { name, intervalMs, handler, timer: null, running: false, lastRunAt: null };
+    this.jobs.set(name, job);
+
+    if (this.started) {
+      this.schedule(job);
+    }
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      this.schedule(job);
+    }
+
+    logger.info(`Scheduler started with ${this.jobs.size} jobs`);
+  }
+
+  stop(): void {
+    for (const job of this.jobs.values()) {
+      if (job.timer) clearInterval(job.timer);
+      job.timer = null;
+    }
+    this.started = false;
+  }
+
+  getStatus(): { name: string; intervalMs: number; running: boolean; lastRunAt: Date | null }[] {
+    return [...this.jobs.values()].map(({ name, intervalMs, running, lastRunAt }) => ({
+      name,
+      intervalMs,
+      running,
+      lastRunAt,
+    }));
+  }
+
+  private schedule(job: ScheduledJob): void {
+    job.timer = setInterval(() => this.run(job), job.intervalMs);
+    // Timers must not keep the process alive on shutdown
+    job.timer.unref();
+  }
+
+  private async run(job: ScheduledJob): Promise<void> {
+    // A slow run must finish before the next one starts
+    if (job.running) {
+      logger.warn(`Job ${job.name} is still running, skipping this tick`);
+      return;
+    }
+
+    job.running = true;
+    try {
+      await job.handler();
+      job.lastRunAt = new Date();
+    } catch (error) {
+      logger.error(`Job ${job.name} failed:`, error);
+    } finally {
+      job.running = false;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { systemSettings } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+
+export class SettingsService {
+  async get<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const [setting] = await db
+        .select({ value: systemSettings.value })
+        .from(systemSettings)
+        .where(eq(systemSettings.key, key));
+
+      return setting ? (setting.value as T) : fallback;
+    } catch (error) {
+      logger.error(`Failed to read setting ${key}:`, error);
+      return fallback;
+    }
+  }
+
+  async set(key: string, value: unknown, options: {
+    category: string;
+    description?: string;
+    updatedBy?: string;
+  }): Promise<any> {
+    try {
+      const [existing] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.key, key));
+
+      if (existing && !existing.isEditable) {
+        throw new AppError(`Setting ${key} is not editable`, 403);
+      }
+
+      const [setting] = await db
+        .insert(systemSettings)
+        .values({
+          key,
+          value,
+          category: options.category,
+          description: options.description,
+          updatedBy: options.updatedBy,
+        })
+        .onConflictDoUpdate({
+          target: systemSettings.key,
+          set: {
+            value,
+            updatedBy: options.updatedBy,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      logger.info(`Setting updated: ${key}`, { updatedBy: options.updatedBy });
+
+      return setting;
+    } catch (error) {
+      logger.error(`Failed to update setting ${key}:`, error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update setting', 500);
+    }
+  }
+}
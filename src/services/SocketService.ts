@@ -0,0 +1,239 @@
+import { Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
+import { Server, Socket } from 'socket.io';
+import jwt from 'jsonwebtoken';
+// @ts-ignore
+import { JWT_SECRET } from '../config/env.js';
+import { logger } from '../config/logger';
+
+export type SocketEvent = 'queue_update' | 'critical_vitals' | 'lab_result' | 'resource_update' | 'handover_update' | 'lab_critical' | 'imaging_report';
+
+export type RoomType = 'department' | 'doctor' | 'patient';
+
+export interface SocketUser {
+  userId: string;
+  email: string;
+  role: string;
+  department?: string;
+}
+
+export interface SocketEnvelope {
+  eventId: number;
+  epoch: string;
+  room: string;
+  event: SocketEvent;
+  data: any;
+  emittedAt: string;
+}
+
+interface RoomHistory {
+  events: SocketEnvelope[];
+  // Highest event id evicted from the buffer; older clients cannot be replayed fully
+  droppedThrough: number;
+}
+
+const REPLAY_BUFFER_SIZE = 200;
+const REPLAY_MAX_AGE_MS = 15 * 60 * 1000;
+const HISTORY_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Roles allowed to join each room type; doctors may always join their own room
+const ROOM_ACCESS: Record<RoomType, string[]> = {
+  department: ['admin', 'doctor', 'nurse', 'management', 'lab_tech', 'radiologist', 'pharmacist'],
+  doctor: ['admin', 'management'],
+  patient: ['admin', 'doctor', 'nurse', 'lab_tech', 'radiologist'],
+};
+
+export class SocketService {
+  private static instance: SocketService;
+  private io: Server | null = null;
+  // Identifies this process so clients can tell a restart from a gap in event ids
+  private readonly epoch = randomUUID();
+  private nextEventId = 1;
+  private history = new Map<string, RoomHistory>();
+  // Last event id of any room evicted from history; rooms recreated later cannot replay past it
+  private evictedThrough = 0;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private listeners = new Set<(envelope: SocketEnvelope) => void>();
+
+  static getInstance(): SocketService {
+    if (!SocketService.instance) {
+      SocketService.instance = new SocketService();
+    }
+    return SocketService.instance;
+  }
+
+  initialize(server: HttpServer): Server {
+    if (this.io) return this.io;
+
+    this.io = new Server(server, {
+      path: '/ws',
+      cors: { origin: '*' },
+    });
+
+    this.io.use((socket, next) => {
+      try {
+        const header = socket.handshake.headers.authorization;
+        const token = socket.handshake.auth?.token || header?.replace('Bearer ', '');
+
+        if (!token) {
+          return next(new Error('Access denied. No token provided.'));
+        }
+
+        socket.data.user = jwt.verify(token, JWT_SECRET) as SocketUser;
+        next();
+      } catch (error) {
+        logger.error('Socket authentication error:', error);
+        next(new Error('Invalid token.'));
+      }
+    });
+
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+
+    // Rooms of discharged patients and closed encounters never emit again
+    this.sweepTimer = setInterval(() => this.sweepHistory(), HISTORY_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    logger.info('WebSocket gateway initialized');
+
+    return this.io;
+  }
+
+  broadcastToDepartment(departmentId: string, event: SocketEvent, data: any): void {
+    this.emit(`department:${departmentId}`, event, data);
+  }
+
+  broadcastToDoctor(doctorId: string, event: SocketEvent, data: any): void {
+    this.emit(`doctor:${doctorId}`, event, data);
+  }
+
+  broadcastToPatient(patientId: string, event: SocketEvent, data: any): void {
+    this.emit(`patient:${patientId}`, event, data);
+  }
+
+  // In-process subscribers, for feeds that are not served over the gateway
+  onEvent(listener: (envelope: SocketEnvelope) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(room: string, event: SocketEvent, data: any): void {
+    const envelope: SocketEnvelope = {
+      eventId: this.nextEventId++,
+      epoch: this.epoch,
+      room,
+      event,
+      data,
+      emittedAt: new Date().toISOString(),
+    };
+
+    const history = this.pruneHistory(room);
+    history.events.push(envelope);
+    if (history.events.length > REPLAY_BUFFER_SIZE) {
+      history.droppedThrough = history.events.shift()!.eventId;
+    }
+
+    this.io?.to(room).emit(event, envelope);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(envelope);
+      } catch (error) {
+        logger.error('Socket event listener failed:', error);
+      }
+    }
+  }
+
+  private handleConnection(socket: Socket): void {
+    const user = socket.data.user as SocketUser;
+
+    logger.info(`Socket connected: ${user.email}`, { socketId: socket.id, role: user.role });
+
+    socket.on('subscribe', (payload: {
+      type: RoomType;
+      id: string;
+      lastEventId?: number;
+      epoch?: string;
+    }, ack?: (response: any) => void) => {
+      const respond = (response: any) => typeof ack === 'function' && ack(response);
+
+      if (!payload || !Object.hasOwn(ROOM_ACCESS, payload.type) || !payload.id) {
+        return respond({ success: false, error: 'Invalid subscription' });
+      }
+
+      if (!this.canJoin(user, payload.type, payload.id)) {
+        return respond({ success: false, error: 'Insufficient permissions.' });
+      }
+
+      const room = `${payload.type}:${payload.id}`;
+      socket.join(room);
+
+      const replay = payload.lastEventId !== undefined
+        ? this.getMissedEvents(room, payload.lastEventId, payload.epoch)
+        : { events: [], complete: true };
+
+      for (const envelope of replay.events) {
+        socket.emit(envelope.event, { ...envelope, replayed: true });
+      }
+
+      respond({
+        success: true,
+        room,
+        epoch: this.epoch,
+        replayed: replay.events.length,
+        // Clients should refetch over HTTP when events were lost
+        resyncRequired: !replay.complete,
+      });
+    });
+
+    socket.on('unsubscribe', (payload: { type: RoomType; id: string }, ack?: (response: any) => void) => {
+      socket.leave(`${payload?.type}:${payload?.id}`);
+      if (typeof ack === 'function') ack({ success: true });
+    });
+
+    socket.on('disconnect', (reason) => {
+      logger.info(`Socket disconnected: ${user.email}`, { socketId: socket.id, reason });
+    });
+  }
+
+  private canJoin(user: SocketUser, type: RoomType, id: string): boolean {
+    if (!Object.hasOwn(ROOM_ACCESS, type)) return false;
+    if (type === 'doctor' && user.userId === id) return true;
+    return ROOM_ACCESS[type].includes(user.role);
+  }
+
+  private pruneHistory(room: string): RoomHistory {
+    const history = this.history.get(room) || { events: [], droppedThrough: this.evictedThrough };
+    const cutoff = Date.now() - REPLAY_MAX_AGE_MS;
+
+    while (history.events.length > 0 && new Date(history.events[0]!.emittedAt).getTime() < cutoff) {
+      history.droppedThrough = history.events.shift()!.eventId;
+    }
+
+    this.history.set(room, history);
+    return history;
+  }
+
+  private sweepHistory(): void {
+    for (const room of [...this.history.keys()]) {
+      const history = this.pruneHistory(room);
+      if (history.events.length === 0) {
+        this.evictedThrough = Math.max(this.evictedThrough, history.droppedThrough);
+        this.history.delete(room);
+      }
+    }
+  }
+
+  private getMissedEvents(room: string, lastEventId: number, epoch?: string): { events: SocketEnvelope[]; complete: boolean } {
+    const history = this.pruneHistory(room);
+
+    // Event ids restart with the process, so a different epoch means history is gone
+    if (epoch && epoch !== this.epoch) {
+      return { events: history.events, complete: false };
+    }
+
+    return {
+      events: history.events.filter(e => e.eventId > lastEventId),
+      complete: lastEventId >= history.droppedThrough,
+    };
+  }
+}
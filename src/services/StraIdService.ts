@@ -0,0 +1,72 @@
+import { db, sql } from '../db';
+import { straIdSequences, patients } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { AppError } from '../middleware/error';
+import { logger } from '../config/logger';
+import { SettingsService } from './SettingsService';
+import { StraId } from '../utils/StraId';
+
+export const FACILITY_CODE_SETTING = 'facility_code';
+
+export class StraIdService {
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.settingsService = new SettingsService();
+  }
+
+  async getDefaultFacilityCode(): Promise<string | null> {
+    return await this.settingsService.get<string | null>(FACILITY_CODE_SETTING, null);
+  }
+
+  async next(facilityCode?: string | null): Promise<string> {
+    try {
+      const code = facilityCode === undefined ? await this.getDefaultFacilityCode() : facilityCode;
+      const prefix = StraId.prefixFor(code);
+
+      // A single UPDATE ... RETURNING is atomic, so concurrent callers never share a value
+      let [sequence] = await db
+        .update(straIdSequences)
+        .set({
+          lastValue: sql`${straIdSequences.lastValue} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(straIdSequences.prefix, prefix))
+        .returning({ lastValue: straIdSequences.lastValue });
+
+      if (!sequence) {
+        [sequence] = await this.createSequence(prefix);
+      }
+
+      return StraId.format(prefix, sequence!.lastValue);
+    } catch (error) {
+      logger.error('Failed to generate STRA-ID:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate STRA-ID', 500);
+    }
+  }
+
+  // First use of a prefix continues after any IDs already issued under it
+  private async createSequence(prefix: string) {
+    const pattern = `^${prefix}-(\\d+)(-\\d)?$`;
+
+    return await db
+      .insert(straIdSequences)
+      .values({
+        prefix,
+        lastValue: sql`(
+          SELECT COALESCE(MAX(CAST(substring(${patients.straId} from ${pattern}) AS INTEGER)), 0) + 1
+          FROM ${patients}
+          WHERE ${patients.straId} ~ ${pattern}
+        )`,
+      })
+      .onConflictDoUpdate({
+        target: straIdSequences.prefix,
+        set: {
+          lastValue: sql`${straIdSequences.lastValue} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ lastValue: straIdSequences.lastValue });
+  }
+}
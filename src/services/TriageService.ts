@@ -1,47 +1,114 @@
-import { db, sql } from '../db';
-import { patients, triageSessions, departmentQueues, departments } from '../db/schema';
-import { eq, and, desc, count, gt, lt, inArray } from 'drizzle-orm';
+import { db, sql, pgErrorCode } from '../db';
+import { patients, triageSessions, departmentQueues, departments, urgencyHistory, users } from '../db/schema';
+import { eq, and, desc, asc, count, gt, lt, inArray } from 'drizzle-orm';
 import { TriageCalculator } from '../utils/TriageCalculator';
+import { scoringEngines, isScoringAlgorithm } from '../utils/ScoringEngines';
+import type { ScoringAlgorithm, TriageAssessment } from '../utils/ScoringEngines';
 import { NotificationService } from './NotificationService';
+import { SettingsService } from './SettingsService';
+import { DiscriminatorService } from './DiscriminatorService';
+import { RoutingService } from './RoutingService';
+import { SocketService } from './SocketService';
+import { StraIdService } from './StraIdService';
+import { PatientMergeService } from './PatientMergeService';
+import { EncounterService } from './EncounterService';
 import { AppError } from '../middleware/error';
  import { logger } from '../config/logger';
 import type { NewPatient, NewTriageSession } from '../db/schema';
+import type { DuplicateMatch } from './PatientMergeService';
+
+export const SCORING_ENGINE_SETTING = 'triage_scoring_engine';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface TriageVitals {
+  temperature?: number | undefined;
+  systolicBp?: number | undefined;
+  diastolicBp?: number | undefined;
+  heartRate?: number | undefined;
+  respiratoryRate?: number | undefined;
+  oxygenSaturation?: number | undefined;
+  bloodGlucose?: number | undefined;
+  painScale: number;
+  weight?: number | undefined;
+  height?: number | undefined;
+}
+
+export interface ScoringEngineConfig {
+  default: ScoringAlgorithm;
+  departments: Record<string, ScoringAlgorithm>;
+}
 
 export class TriageService {
   private notificationService: NotificationService; 
+  private settingsService: SettingsService;
+  private discriminatorService: DiscriminatorService;
+  private routingService: RoutingService;
+  private socketService: SocketService;
+  private straIdService: StraIdService;
+  private patientMergeService: PatientMergeService;
+  private encounterService: EncounterService;
 
   constructor() {
     this.notificationService = new NotificationService();
+    this.settingsService = new SettingsService();
+    this.discriminatorService = new DiscriminatorService();
+    this.routingService = new RoutingService();
+    this.socketService = SocketService.getInstance();
+    this.straIdService = new StraIdService();
+    this.patientMergeService = new PatientMergeService();
+    this.encounterService = new EncounterService();
   }
 
-  async registerPatient(patientData: Omit<NewPatient, 'straId'>): Promise<any> {
+  async registerPatient(patientData: Omit<NewPatient, 'straId'>): Promise<{ patient: any; possibleDuplicates: DuplicateMatch[] }> {
     try {
-      // Generate STRA-ID
-      const [lastPatient] = await db
-        .select({ straId: patients.straId })
-        .from(patients)
-        .orderBy(desc(patients.createdAt))
-        .limit(1);
+      // Registration still goes ahead; staff decide whether to merge afterwards
+      const possibleDuplicates = await this.patientMergeService.findPotentialDuplicates({
+        firstName: patientData.firstName,
+        lastName: patientData.lastName,
+        dateOfBirth: patientData.dateOfBirth,
+        phoneNumber: patientData.phoneNumber,
+        emergencyContact: patientData.emergencyContact || undefined,
+        nationalId: patientData.nationalId || undefined,
+        nhifNumber: patientData.nhifNumber || undefined,
+      });
 
-      const nextId = lastPatient 
-        ? parseInt(lastPatient.straId.split('-')[1]) + 1 
-        : 1;
-      const straId = `STRA-${nextId.toString().padStart(6, '0')}`;
+      const facilityCode = patientData.facilityCode ?? await this.straIdService.getDefaultFacilityCode();
+      const straId = await this.straIdService.next(facilityCode);
 
-      const [patient] = await db
-        .insert(patients)
-        .values({
-          ...patientData,
-          straId,
-        })
-        .returning();
+      const patient = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(patients)
+          .values({
+            ...patientData,
+            facilityCode,
+            straId,
+          })
+          .returning();
+
+        // Registration is the start of the first visit
+        await this.encounterService.openEncounter(created!.patientId, {}, tx);
+
+        return created;
+      });
 
       // Log activity
       logger.info(`Patient registered: ${straId}`, { patientId: patient?.patientId });
 
-      return patient;
-    } catch (error) {
+      if (possibleDuplicates.length > 0) {
+        logger.warn(`Patient ${straId} may duplicate ${possibleDuplicates.length} existing record(s)`, {
+          patientId: patient?.patientId,
+          matches: possibleDuplicates.map(d => d.straId),
+        });
+      }
+
+      return { patient, possibleDuplicates };
+    } catch (error: any) {
       logger.error('Patient registration failed:', error);
+      if (error instanceof AppError) throw error;
+      if (pgErrorCode(error) === '23505') {
+        throw new AppError('A patient with these details is already registered', 409);
+      }
       throw new AppError('Failed to register patient', 500);
     }
   }
@@ -49,49 +116,51 @@ export class TriageService {
   async performTriage(triageData: {
     patientId: string;
     nurseId: string;
-    vitals: {
-      temperature?: number;
-      systolicBp?: number;
-      diastolicBp?: number;
-      heartRate?: number;
-      respiratoryRate?: number;
-      oxygenSaturation?: number;
-      bloodGlucose?: number;
-      painScale: number;
-      weight?: number;
-      height?: number;
-    };
+    vitals: TriageVitals;
     symptoms: Record<string, any>;
-    chiefComplaint?: string;
+    chiefComplaint?: string | undefined;
+    assessment?: TriageAssessment | undefined;
   }): Promise<{ triage: any; queue: any }> {
     try {
-      // Calculate MEWS score
-      const mewsScore = TriageCalculator.calculateMEWS({
-        respiratoryRate: triageData.vitals.respiratoryRate || 0,
-        oxygenSaturation: triageData.vitals.oxygenSaturation || 0,
-        temperature: triageData.vitals.temperature || 0,
-        systolicBP: triageData.vitals.systolicBp || 0,
-        heartRate: triageData.vitals.heartRate || 0,
-      });
+      const [patient] = await db
+        .select()
+        .from(patients)
+        .where(eq(patients.patientId, triageData.patientId));
 
-      const urgencyLevel = TriageCalculator.getUrgencyLevel(mewsScore);
-      
-      // Determine department
-      const recommendedDept = await this.determineDepartment(
-        triageData.symptoms,
-        triageData.vitals
-      );
+      if (!patient) {
+        throw new AppError('Patient not found', 404);
+      }
 
-      // Get department
-      const [department] = await db
-        .select()
-        .from(departments)
-        .where(eq(departments.name, recommendedDept));
+      // A patient already waiting must be re-triaged, not queued a second time
+      const [activeEntry] = await db
+        .select({ queueId: departmentQueues.queueId })
+        .from(departmentQueues)
+        .where(
+          and(
+            eq(departmentQueues.patientId, triageData.patientId),
+            inArray(departmentQueues.status, ['WAITING', 'IN_PROGRESS'])
+          )
+        )
+        .limit(1);
 
-      if (!department) {
-        throw new AppError('Department not found', 404);
+      if (activeEntry) {
+        throw new AppError(`Patient is already queued (${activeEntry.queueId}); use re-triage instead`, 409);
       }
 
+      const ageYears = TriageCalculator.calculateAge(patient.dateOfBirth);
+
+      // Determine department from the configured routing rules
+      const { rule: routingRule, department } = await this.routingService.resolveDepartment({
+        symptoms: triageData.symptoms,
+        vitals: triageData.vitals,
+        ageYears,
+        sex: patient.gender,
+      });
+      const recommendedDept = department.name;
+
+      const assessment = await this.assessUrgency(department.departmentId, ageYears, triageData);
+      const { algorithm, triageScore, urgencyLevel } = assessment;
+
       // Get queue length
       const [queueCount] = await db
         .select({ count: count() })
@@ -103,13 +172,6 @@ export class TriageService {
           )
         );
 
-      // Calculate BMI if weight and height provided
-      let bmi = undefined;
-      if (triageData.vitals.weight && triageData.vitals.height) {
-        const heightInMeters = triageData.vitals.height / 100;
-        bmi = triageData.vitals.weight / (heightInMeters * heightInMeters);
-      }
-
       const estimatedWait = TriageCalculator.estimateWaitTime(
         urgencyLevel,
         Number(queueCount?.count || 0),
@@ -118,19 +180,21 @@ export class TriageService {
 
       // Create triage session and queue entry in transaction
       const result = await db.transaction(async (tx) => {
+        const encounter = await this.encounterService.openEncounter(triageData.patientId, {
+          openedBy: triageData.nurseId,
+          departmentId: department.departmentId,
+        }, tx);
+
         // Insert triage session
         const [triageSession] = await tx
           .insert(triageSessions)
           .values({
             patientId: triageData.patientId,
+            encounterId: encounter.encounterId,
             nurseId: triageData.nurseId,
-            ...triageData.vitals,
-            ...(bmi !== undefined ? { bmi } : {}),
-            symptoms: triageData.symptoms,
-            chiefComplaint: triageData.chiefComplaint,
-            triageScore: mewsScore,
-            urgencyLevel,
+            ...this.buildSessionFields(triageData, assessment),
             recommendedDept,
+            routingRuleId: routingRule.ruleId,
             estimatedWaitMinutes: estimatedWait,
           })
           .returning();
@@ -142,6 +206,7 @@ export class TriageService {
           .values({
             departmentId: department.departmentId,
             patientId: triageData.patientId,
+            encounterId: encounter.encounterId,
             triageSessionId: triageSession?.sessionId,
             urgencyLevel,
             positionInQueue: queuePosition,
@@ -161,29 +226,46 @@ export class TriageService {
         return { triageSession, queueEntry };
       });
 
+      this.socketService.broadcastToDepartment(department.departmentId, 'queue_update', {
+        action: 'patient_added',
+        queueId: result.queueEntry?.queueId,
+        patientId: triageData.patientId,
+        straId: patient.straId,
+        urgencyLevel,
+        position: result.queueEntry?.positionInQueue,
+      });
+
       // Send notifications for critical cases
       if (urgencyLevel === 'RED') {
-        const [patient] = await db
-          .select()
-          .from(patients)
-          .where(eq(patients.patientId, triageData.patientId));
+        this.socketService.broadcastToDepartment(department.departmentId, 'critical_vitals', {
+          source: 'triage',
+          patientId: triageData.patientId,
+          straId: patient.straId,
+          queueId: result.queueEntry?.queueId,
+          scoringAlgorithm: algorithm,
+          triageScore,
+          vitals: triageData.vitals,
+        });
 
-        if (patient) {
-          await this.notificationService.sendCriticalAlert({
-            patientId: triageData.patientId,
-            straId: patient.straId,
-            patientName: `${patient.firstName} ${patient.lastName}`,
-            department: recommendedDept,
-            mewsScore,
-            vitalSigns: triageData.vitals,
-          });
-        }
+        await this.notificationService.sendCriticalAlert({
+          patientId: triageData.patientId,
+          straId: patient.straId,
+          patientName: `${patient.firstName} ${patient.lastName}`,
+          department: recommendedDept,
+          departmentId: department.departmentId,
+          mewsScore: triageScore,
+          scoringAlgorithm: algorithm,
+          vitalSigns: triageData.vitals,
+        });
       }
 
       logger.info(`Triage completed for patient ${triageData.patientId}`, {
         urgencyLevel,
-        mewsScore,
+        algorithm,
+        triageScore,
+        discriminator: assessment.discriminator?.name,
         department: recommendedDept,
+        routingRule: routingRule.name,
       });
 
       return {
@@ -197,6 +279,236 @@ export class TriageService {
     }
   }
 
+  async retriageQueueEntry(queueId: string, data: {
+    nurseId: string;
+    vitals: TriageVitals;
+    symptoms: Record<string, any>;
+    chiefComplaint?: string | undefined;
+    assessment?: TriageAssessment | undefined;
+    reason?: string | undefined;
+  }): Promise<{ triage: any; queue: any; change: any }> {
+    try {
+      const [queueEntry] = await db
+        .select()
+        .from(departmentQueues)
+        .where(eq(departmentQueues.queueId, queueId));
+
+      if (!queueEntry) {
+        throw new AppError('Queue entry not found', 404);
+      }
+
+      if (!['WAITING', 'IN_PROGRESS'].includes(queueEntry.status)) {
+        throw new AppError(`Cannot re-triage a ${queueEntry.status.toLowerCase()} queue entry`, 400);
+      }
+
+      const [patient] = await db
+        .select()
+        .from(patients)
+        .where(eq(patients.patientId, queueEntry.patientId));
+
+      const [department] = await db
+        .select()
+        .from(departments)
+        .where(eq(departments.departmentId, queueEntry.departmentId));
+
+      if (!patient || !department) {
+        throw new AppError('Patient or department not found', 404);
+      }
+
+      const [previousSession] = queueEntry.triageSessionId
+        ? await db
+            .select()
+            .from(triageSessions)
+            .where(eq(triageSessions.sessionId, queueEntry.triageSessionId))
+        : [];
+
+      // The patient stays in the same department; only urgency and position change
+      const assessment = await this.assessUrgency(
+        department.departmentId,
+        TriageCalculator.calculateAge(patient.dateOfBirth),
+        data
+      );
+      const { urgencyLevel } = assessment;
+      const previousUrgency = queueEntry.urgencyLevel;
+      const rankDelta = TriageCalculator.urgencyRank(urgencyLevel) - TriageCalculator.urgencyRank(previousUrgency);
+      const direction = rankDelta > 0 ? 'ESCALATED' : rankDelta < 0 ? 'DEESCALATED' : 'UNCHANGED';
+
+      const result = await db.transaction(async (tx) => {
+        const [aheadCount] = await tx
+          .select({ count: count() })
+          .from(departmentQueues)
+          .where(
+            and(
+              eq(departmentQueues.departmentId, department.departmentId),
+              eq(departmentQueues.status, 'WAITING'),
+              sql`${departmentQueues.queueId} != ${queueId}`
+            )
+          );
+
+        const estimatedWait = TriageCalculator.estimateWaitTime(
+          urgencyLevel,
+          Number(aheadCount?.count || 0),
+          department.averageTreatmentTime
+        );
+
+        const [triageSession] = await tx
+          .insert(triageSessions)
+          .values({
+            patientId: patient.patientId,
+            encounterId: queueEntry.encounterId,
+            nurseId: data.nurseId,
+            parentSessionId: queueEntry.triageSessionId,
+            ...this.buildSessionFields(data, assessment),
+            recommendedDept: department.name,
+            routingRuleId: previousSession?.routingRuleId,
+            estimatedWaitMinutes: estimatedWait,
+            notes: data.reason,
+          })
+          .returning();
+
+        await tx
+          .update(departmentQueues)
+          .set({
+            triageSessionId: triageSession?.sessionId,
+            urgencyLevel,
+            expectedWaitTime: estimatedWait,
+            retriageDueAt: null,
+            retriageDueReason: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(departmentQueues.queueId, queueId));
+
+        // Only waiting entries have a meaningful position to move
+        let newPosition = queueEntry.positionInQueue;
+        if (queueEntry.status === 'WAITING') {
+          const orderedQueueIds = await this.reorderWaitingQueue(tx, department.departmentId);
+          newPosition = orderedQueueIds.indexOf(queueId) + 1;
+        }
+
+        const [change] = await tx
+          .insert(urgencyHistory)
+          .values({
+            queueId,
+            patientId: patient.patientId,
+            previousSessionId: queueEntry.triageSessionId,
+            newSessionId: triageSession!.sessionId,
+            previousUrgency,
+            newUrgency: urgencyLevel,
+            direction,
+            previousPosition: queueEntry.positionInQueue,
+            newPosition,
+            previousScore: previousSession?.triageScore,
+            newScore: assessment.triageScore,
+            reason: data.reason,
+            changedBy: data.nurseId,
+          })
+          .returning();
+
+        const [updatedEntry] = await tx
+          .select()
+          .from(departmentQueues)
+          .where(eq(departmentQueues.queueId, queueId));
+
+        return { triageSession, queueEntry: updatedEntry, change };
+      });
+
+      this.socketService.broadcastToDepartment(department.departmentId, 'queue_update', {
+        action: 'patient_retriaged',
+        queueId,
+        previousUrgency,
+        urgencyLevel,
+        direction,
+        position: result.queueEntry?.positionInQueue,
+      });
+
+      if (direction === 'ESCALATED' && urgencyLevel === 'RED') {
+        this.socketService.broadcastToDepartment(department.departmentId, 'critical_vitals', {
+          source: 'retriage',
+          patientId: patient.patientId,
+          straId: patient.straId,
+          queueId,
+          scoringAlgorithm: assessment.algorithm,
+          triageScore: assessment.triageScore,
+          vitals: data.vitals,
+        });
+
+        await this.notificationService.sendCriticalAlert({
+          patientId: patient.patientId,
+          straId: patient.straId,
+          patientName: `${patient.firstName} ${patient.lastName}`,
+          department: department.name,
+          departmentId: department.departmentId,
+          mewsScore: assessment.triageScore,
+          scoringAlgorithm: assessment.algorithm,
+          vitalSigns: data.vitals,
+        });
+      }
+
+      logger.info(`Re-triage completed for queue entry ${queueId}`, {
+        previousUrgency,
+        urgencyLevel,
+        direction,
+        nurseId: data.nurseId,
+      });
+
+      return {
+        triage: result.triageSession,
+        queue: result.queueEntry,
+        change: result.change,
+      };
+    } catch (error) {
+      logger.error('Re-triage failed:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to re-triage patient', 500);
+    }
+  }
+
+  async getUrgencyHistory(queueId: string): Promise<any> {
+    try {
+      const [queueEntry] = await db
+        .select()
+        .from(departmentQueues)
+        .where(eq(departmentQueues.queueId, queueId));
+
+      if (!queueEntry) {
+        throw new AppError('Queue entry not found', 404);
+      }
+
+      const timeline = await db
+        .select({
+          historyId: urgencyHistory.historyId,
+          previousUrgency: urgencyHistory.previousUrgency,
+          newUrgency: urgencyHistory.newUrgency,
+          direction: urgencyHistory.direction,
+          previousPosition: urgencyHistory.previousPosition,
+          newPosition: urgencyHistory.newPosition,
+          previousScore: urgencyHistory.previousScore,
+          newScore: urgencyHistory.newScore,
+          reason: urgencyHistory.reason,
+          newSessionId: urgencyHistory.newSessionId,
+          changedBy: sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
+          createdAt: urgencyHistory.createdAt,
+        })
+        .from(urgencyHistory)
+        .leftJoin(users, eq(urgencyHistory.changedBy, users.userId))
+        .where(eq(urgencyHistory.queueId, queueId))
+        .orderBy(asc(urgencyHistory.createdAt));
+
+      return {
+        queueId,
+        patientId: queueEntry.patientId,
+        currentUrgency: queueEntry.urgencyLevel,
+        escalations: timeline.filter(t => t.direction === 'ESCALATED').length,
+        deescalations: timeline.filter(t => t.direction === 'DEESCALATED').length,
+        timeline,
+      };
+    } catch (error) {
+      logger.error('Failed to fetch urgency history:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch urgency history', 500);
+    }
+  }
+
   async getPatientQueue(departmentId: string): Promise<any[]> {
     try {
       const queue = await db
@@ -218,6 +530,7 @@ export class TriageService {
           triage: {
             triageScore: triageSessions.triageScore,
             chiefComplaint: triageSessions.chiefComplaint,
+            discriminatorOverride: triageSessions.discriminatorOverride,
           },
         })
         .from(departmentQueues)
@@ -326,42 +639,10 @@ export class TriageService {
   async prioritizeCriticalPatients(departmentId: string): Promise<void> {
     try {
       await db.transaction(async (tx) => {
-        // Get all waiting patients ordered by urgency and arrival time
-        const waitingPatients = await tx
-          .select({
-            queueId: departmentQueues.queueId,
-            urgencyLevel: departmentQueues.urgencyLevel,
-            createdAt: departmentQueues.createdAt,
-          })
-          .from(departmentQueues)
-          .where(
-            and(
-              eq(departmentQueues.departmentId, departmentId),
-              eq(departmentQueues.status, 'WAITING')
-            )
-          )
-          .orderBy(
-            sql`CASE 
-              WHEN ${departmentQueues.urgencyLevel} = 'RED' THEN 1
-              WHEN ${departmentQueues.urgencyLevel} = 'YELLOW' THEN 2
-              ELSE 3
-            END`,
-            departmentQueues.createdAt
-          );
-
-        // Update positions
-        for (let i = 0; i < waitingPatients.length; i++) {
-          await tx
-            .update(departmentQueues)
-            .set({
-              positionInQueue: i + 1,
-              updatedAt: new Date(),
-            })
-            .where(eq(departmentQueues.queueId, waitingPatients[i]?.queueId || ''));
-        }
+        const orderedQueueIds = await this.reorderWaitingQueue(tx, departmentId);
 
         logger.info(`Queue prioritized for department ${departmentId}`, {
-          totalPatients: waitingPatients.length,
+          totalPatients: orderedQueueIds.length,
         });
       });
     } catch (error) {
@@ -370,36 +651,177 @@ export class TriageService {
     }
   }
 
-  private async determineDepartment(
-    symptoms: Record<string, any>,
-    vitals: any
-  ): Promise<string> {
-    // Enhanced department determination logic
-    if (vitals.oxygenSaturation < 92 || symptoms.chest_pain) {
-      return 'Emergency/Cardiology';
-    }
-    
-    if (symptoms.head_trauma || symptoms.seizure || symptoms.stroke_symptoms) {
-      return 'Emergency/Neurology';
-    }
-    
-    if (symptoms.abdominal_pain || symptoms.gastrointestinal_bleeding) {
-      return 'Emergency/Surgery';
-    }
-    
-    if (symptoms.fever && (symptoms.cough || symptoms.shortness_of_breath)) {
-      return 'Emergency/Infectious Diseases';
+  // Renumber WAITING entries by urgency then arrival time; returns queue IDs in their new order
+  private async reorderWaitingQueue(tx: Transaction, departmentId: string): Promise<string[]> {
+    const waitingPatients = await tx
+      .select({
+        queueId: departmentQueues.queueId,
+        urgencyLevel: departmentQueues.urgencyLevel,
+        createdAt: departmentQueues.createdAt,
+      })
+      .from(departmentQueues)
+      .where(
+        and(
+          eq(departmentQueues.departmentId, departmentId),
+          eq(departmentQueues.status, 'WAITING')
+        )
+      )
+      .orderBy(
+        sql`CASE 
+          WHEN ${departmentQueues.urgencyLevel} = 'RED' THEN 1
+          WHEN ${departmentQueues.urgencyLevel} = 'YELLOW' THEN 2
+          ELSE 3
+        END`,
+        departmentQueues.createdAt
+      );
+
+    // Update positions
+    for (let i = 0; i < waitingPatients.length; i++) {
+      await tx
+        .update(departmentQueues)
+        .set({
+          positionInQueue: i + 1,
+          updatedAt: new Date(),
+        })
+        .where(eq(departmentQueues.queueId, waitingPatients[i]?.queueId || ''));
     }
-    
-    if (symptoms.burn || symptoms.trauma) {
-      return 'Emergency/Trauma';
+
+    return waitingPatients.map(p => p.queueId);
+  }
+
+  private async assessUrgency(departmentId: string, ageYears: number, data: {
+    vitals: TriageVitals;
+    symptoms: Record<string, any>;
+    chiefComplaint?: string | undefined;
+    assessment?: TriageAssessment | undefined;
+  }) {
+    // Score with the algorithm configured for the receiving department
+    const algorithm = await this.resolveScoringAlgorithm(departmentId);
+    const scoreResult = TriageCalculator.calculate(algorithm, {
+      ...data.assessment,
+      temperature: data.vitals.temperature,
+      systolicBp: data.vitals.systolicBp,
+      heartRate: data.vitals.heartRate,
+      respiratoryRate: data.vitals.respiratoryRate,
+      oxygenSaturation: data.vitals.oxygenSaturation,
+      painScale: data.vitals.painScale,
+      ageYears,
+    });
+
+    // Red-flag discriminators can only raise the score-derived urgency
+    const discriminator = await this.discriminatorService.evaluate(data.symptoms, data.chiefComplaint);
+    const urgencyLevel = discriminator
+      ? TriageCalculator.escalate(scoreResult.urgencyLevel, discriminator.minimumUrgency)
+      : scoreResult.urgencyLevel;
+
+    return {
+      algorithm,
+      scoreResult,
+      discriminator,
+      triageScore: scoreResult.score,
+      urgencyLevel,
+    };
+  }
+
+  private buildSessionFields(
+    data: { vitals: TriageVitals; symptoms: Record<string, any>; chiefComplaint?: string | undefined },
+    assessment: Awaited<ReturnType<TriageService['assessUrgency']>>
+  ) {
+    // Calculate BMI if weight and height provided
+    let bmi = undefined;
+    if (data.vitals.weight && data.vitals.height) {
+      const heightInMeters = data.vitals.height / 100;
+      bmi = data.vitals.weight / (heightInMeters * heightInMeters);
     }
-    
-    if (symptoms.pediatric && patient.age < 12) {
-      return 'Pediatrics';
+
+    const { scoreResult, discriminator, urgencyLevel } = assessment;
+    const { temperature, oxygenSaturation, bloodGlucose, weight, height, ...wholeVitals } = data.vitals;
+
+    // Decimal columns are written as strings
+    const toDecimal = (value?: number) => value !== undefined ? value.toFixed(2) : undefined;
+
+    return {
+      ...wholeVitals,
+      temperature: toDecimal(temperature),
+      oxygenSaturation: toDecimal(oxygenSaturation),
+      bloodGlucose: toDecimal(bloodGlucose),
+      weight: toDecimal(weight),
+      height: toDecimal(height),
+      bmi: toDecimal(bmi),
+      symptoms: data.symptoms,
+      chiefComplaint: data.chiefComplaint,
+      triageScore: assessment.triageScore,
+      scoringAlgorithm: assessment.algorithm,
+      scoreBreakdown: {
+        category: scoreResult.category,
+        components: scoreResult.components,
+        primaryDrivers: scoreResult.primaryDrivers,
+      },
+      discriminatorOverride: discriminator
+        ? {
+            ...discriminator,
+            scoreUrgencyLevel: scoreResult.urgencyLevel,
+            escalated: urgencyLevel !== scoreResult.urgencyLevel,
+          }
+        : null,
+      urgencyLevel,
+    };
+  }
+
+  getScoringEngines(): any[] {
+    return Object.values(scoringEngines).map(engine => ({
+      algorithm: engine.algorithm,
+      name: engine.name,
+      description: engine.description,
+    }));
+  }
+
+  async getScoringEngineConfig(): Promise<ScoringEngineConfig> {
+    const config = await this.settingsService.get<Partial<ScoringEngineConfig>>(SCORING_ENGINE_SETTING, {});
+
+    return {
+      default: isScoringAlgorithm(config.default) ? config.default : 'MEWS',
+      departments: config.departments || {},
+    };
+  }
+
+  async updateScoringEngineConfig(
+    update: { departmentId?: string | undefined; algorithm: ScoringAlgorithm },
+    updatedBy: string
+  ): Promise<ScoringEngineConfig> {
+    const config = await this.getScoringEngineConfig();
+
+    if (update.departmentId) {
+      const [department] = await db
+        .select({ departmentId: departments.departmentId })
+        .from(departments)
+        .where(eq(departments.departmentId, update.departmentId));
+
+      if (!department) {
+        throw new AppError('Department not found', 404);
+      }
+
+      config.departments[update.departmentId] = update.algorithm;
+    } else {
+      config.default = update.algorithm;
     }
-    
-    return 'Emergency/General';
+
+    await this.settingsService.set(SCORING_ENGINE_SETTING, config, {
+      category: 'triage',
+      description: 'Active triage scoring algorithm for the facility and per department',
+      updatedBy,
+    });
+
+    logger.info('Triage scoring engine updated', { ...update, updatedBy });
+
+    return config;
+  }
+
+  private async resolveScoringAlgorithm(departmentId: string): Promise<ScoringAlgorithm> {
+    const config = await this.getScoringEngineConfig();
+    const departmentAlgorithm = config.departments[departmentId];
+
+    return isScoringAlgorithm(departmentAlgorithm) ? departmentAlgorithm : config.default;
   }
 
   async getTriageStatistics(timeFrame: 'today' | 'week' | 'month'): Promise<any> {
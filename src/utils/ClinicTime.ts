@@ -0,0 +1,99 @@
+// @ts-ignore
+import { FACILITY_TZ } from '../config/env.js';
+
+// The facility's IANA zone, independent of the host's TZ; an unknown zone fails at startup
+export const FACILITY_TIME_ZONE: string = FACILITY_TZ || 'Africa/Nairobi';
+
+const facilityClock = new Intl.DateTimeFormat('en-CA', {
+  timeZone: FACILITY_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+// Wall-clock fields of an instant in the facility's zone
+const wallClock = (date: Date) => {
+  const parts = Object.fromEntries(facilityClock.formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+// Milliseconds the facility's zone is ahead of UTC at the given instant
+const offsetAt = (date: Date): number => {
+  const w = wallClock(date);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Appointment dates are stored as YYYY-MM-DD and times as HH:MM[:SS] in facility local time
+export class ClinicTime {
+  static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  static fromMinutes(total: number): string {
+    const minutes = ((total % 1440) + 1440) % 1440;
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+
+  static addMinutes(time: string, minutes: number): string {
+    return ClinicTime.fromMinutes(ClinicTime.toMinutes(time) + minutes);
+  }
+
+  static formatDate(date: Date): string {
+    const { year, month, day } = wallClock(date);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  static today(): string {
+    return ClinicTime.formatDate(new Date());
+  }
+
+  static minutesOfDay(date: Date = new Date()): number {
+    const { hour, minute } = wallClock(date);
+    return hour * 60 + minute;
+  }
+
+  // Facility-local "YYYY-MM-DD HH:MM:SS" for SQL; LOCALTIMESTAMP follows the database session's timezone instead
+  static timestamp(date: Date = new Date()): string {
+    const seconds = String(wallClock(date).second).padStart(2, '0');
+    return `${ClinicTime.formatDate(date)} ${ClinicTime.fromMinutes(ClinicTime.minutesOfDay(date))}:${seconds}`;
+  }
+
+  // The instant at which the facility's clock shows the given date and HH:MM[:SS]
+  static toInstant(date: string, time: string = '00:00'): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes, seconds] = time.split(':').map(Number);
+    const wall = Date.UTC(year!, month! - 1, day!, hours || 0, minutes || 0, seconds || 0);
+
+    // Second pass picks up a DST change between the guess and the answer
+    const guess = wall - offsetAt(new Date(wall));
+    return new Date(wall - offsetAt(new Date(guess)));
+  }
+
+  // Calendar arithmetic on YYYY-MM-DD strings, independent of the server's timezone
+  static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year!, month! - 1, day! + days)).toISOString().slice(0, 10);
+  }
+
+  static dayOfWeek(date: string): number {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+  }
+
+  static overlaps(startA: string, endA: string, startB: string, endB: string): boolean {
+    return ClinicTime.toMinutes(startA) < ClinicTime.toMinutes(endB)
+      && ClinicTime.toMinutes(startB) < ClinicTime.toMinutes(endA);
+  }
+}
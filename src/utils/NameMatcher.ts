@@ -0,0 +1,66 @@
+export class NameMatcher {
+  static normalize(value: string | null | undefined): string {
+    return (value || '')
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  // Jaro-Winkler similarity in [0, 1]; favours strings that share a prefix
+  static similarity(a: string | null | undefined, b: string | null | undefined): number {
+    const s1 = NameMatcher.normalize(a);
+    const s2 = NameMatcher.normalize(b);
+
+    if (!s1 || !s2) return 0;
+    if (s1 === s2) return 1;
+
+    const matchWindow = Math.max(0, Math.floor(Math.max(s1.length, s2.length) / 2) - 1);
+    const s1Matches = new Array<boolean>(s1.length).fill(false);
+    const s2Matches = new Array<boolean>(s2.length).fill(false);
+
+    let matches = 0;
+    for (let i = 0; i < s1.length; i++) {
+      const start = Math.max(0, i - matchWindow);
+      const end = Math.min(i + matchWindow + 1, s2.length);
+
+      for (let j = start; j < end; j++) {
+        if (s2Matches[j] || s1[i] !== s2[j]) continue;
+        s1Matches[i] = true;
+        s2Matches[j] = true;
+        matches++;
+        break;
+      }
+    }
+
+    if (matches === 0) return 0;
+
+    let transpositions = 0;
+    let k = 0;
+    for (let i = 0; i < s1.length; i++) {
+      if (!s1Matches[i]) continue;
+      while (!s2Matches[k]) k++;
+      if (s1[i] !== s2[k]) transpositions++;
+      k++;
+    }
+
+    const jaro = (matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+
+    let prefix = 0;
+    while (prefix < Math.min(4, s1.length, s2.length) && s1[prefix] === s2[prefix]) prefix++;
+
+    return jaro + prefix * 0.1 * (1 - jaro);
+  }
+
+  // Compares full names, tolerating first and last names entered the wrong way round
+  static fullNameSimilarity(
+    a: { firstName: string; lastName: string },
+    b: { firstName: string; lastName: string }
+  ): number {
+    const direct = (NameMatcher.similarity(a.firstName, b.firstName) + NameMatcher.similarity(a.lastName, b.lastName)) / 2;
+    const swapped = (NameMatcher.similarity(a.firstName, b.lastName) + NameMatcher.similarity(a.lastName, b.firstName)) / 2;
+    return Math.max(direct, swapped);
+  }
+}
@@ -0,0 +1,308 @@
+export type ScoringAlgorithm = 'MEWS' | 'NEWS2' | 'SATS' | 'ESI' | 'PEWS';
+export type UrgencyLevel = 'RED' | 'YELLOW' | 'GREEN';
+export type Consciousness = 'ALERT' | 'CONFUSION' | 'VOICE' | 'PAIN' | 'UNRESPONSIVE';
+
+export interface ScoringInput {
+  temperature?: number | undefined;
+  systolicBp?: number | undefined;
+  heartRate?: number | undefined;
+  respiratoryRate?: number | undefined;
+  oxygenSaturation?: number | undefined;
+  painScale?: number | undefined;
+  ageYears?: number | undefined;
+  consciousness?: Consciousness | undefined;
+  supplementalOxygen?: boolean | undefined;
+  mobility?: 'WALKING' | 'WITH_HELP' | 'STRETCHER' | undefined;
+  trauma?: boolean | undefined;
+  expectedResources?: number | undefined;
+  requiresLifeSavingIntervention?: boolean | undefined;
+  highRiskSituation?: boolean | undefined;
+}
+
+export type TriageAssessment = Pick<
+  ScoringInput,
+  'consciousness' | 'supplementalOxygen' | 'mobility' | 'trauma' |
+  'expectedResources' | 'requiresLifeSavingIntervention' | 'highRiskSituation'
+>;
+
+export interface ScoreComponent {
+  parameter: string;
+  value: number | string | boolean | null;
+  points: number;
+}
+
+export interface ScoreResult {
+  algorithm: ScoringAlgorithm;
+  score: number;
+  urgencyLevel: UrgencyLevel;
+  category: string;
+  components: ScoreComponent[];
+  primaryDrivers: string[];
+}
+
+export interface ScoringEngine {
+  algorithm: ScoringAlgorithm;
+  name: string;
+  description: string;
+  calculate(input: ScoringInput): ScoreResult;
+}
+
+// Points for a value against ordered [upperBound, points] bands; the last band catches everything above
+const band = (value: number | undefined, bands: Array<[number, number]>, fallback: number): number => {
+  if (value === undefined || value === null) return 0;
+  for (const [upper, points] of bands) {
+    if (value <= upper) return points;
+  }
+  return fallback;
+};
+
+const component = (parameter: string, value: ScoreComponent['value'] | undefined, points: number): ScoreComponent => ({
+  parameter,
+  value: value === undefined ? null : value,
+  points: value === undefined || value === null ? 0 : points,
+});
+
+const buildResult = (
+  algorithm: ScoringAlgorithm,
+  components: ScoreComponent[],
+  score: number,
+  urgencyLevel: UrgencyLevel,
+  category: string
+): ScoreResult => {
+  const maxPoints = Math.max(0, ...components.map(c => c.points));
+
+  return {
+    algorithm,
+    score,
+    urgencyLevel,
+    category,
+    components,
+    primaryDrivers: maxPoints > 0
+      ? components.filter(c => c.points === maxPoints).map(c => c.parameter)
+      : [],
+  };
+};
+
+const sumPoints = (components: ScoreComponent[]): number =>
+  components.reduce((sum, c) => sum + c.points, 0);
+
+const avpuPoints: Record<Consciousness, number> = {
+  ALERT: 0,
+  CONFUSION: 1,
+  VOICE: 1,
+  PAIN: 2,
+  UNRESPONSIVE: 3,
+};
+
+// Modified Early Warning Score (Subbe) with the SpO2 extension used on our wards
+export const mewsEngine: ScoringEngine = {
+  algorithm: 'MEWS',
+  name: 'Modified Early Warning Score',
+  description: 'Adult physiological track-and-trigger score',
+  calculate(input) {
+    const components = [
+      component('respiratoryRate', input.respiratoryRate, band(input.respiratoryRate, [[8, 2], [14, 0], [20, 1], [29, 2]], 3)),
+      component('oxygenSaturation', input.oxygenSaturation, band(input.oxygenSaturation, [[85, 3], [89, 2], [93, 1]], 0)),
+      component('temperature', input.temperature, band(input.temperature, [[34.9, 2], [38.4, 0]], 2)),
+      component('systolicBp', input.systolicBp, band(input.systolicBp, [[70, 3], [80, 2], [100, 1], [199, 0]], 2)),
+      component('heartRate', input.heartRate, band(input.heartRate, [[40, 2], [50, 1], [100, 0], [110, 1], [129, 2]], 3)),
+      component('consciousness', input.consciousness, input.consciousness ? avpuPoints[input.consciousness] : 0),
+    ];
+
+    const score = sumPoints(components);
+    const urgencyLevel: UrgencyLevel = score >= 5 ? 'RED' : score >= 3 ? 'YELLOW' : 'GREEN';
+
+    return buildResult('MEWS', components, score, urgencyLevel, urgencyLevel);
+  },
+};
+
+// National Early Warning Score 2 (RCP, SpO2 scale 1)
+export const news2Engine: ScoringEngine = {
+  algorithm: 'NEWS2',
+  name: 'National Early Warning Score 2',
+  description: 'Royal College of Physicians aggregate score for adults',
+  calculate(input) {
+    const components = [
+      component('respiratoryRate', input.respiratoryRate, band(input.respiratoryRate, [[8, 3], [11, 1], [20, 0], [24, 2]], 3)),
+      component('oxygenSaturation', input.oxygenSaturation, band(input.oxygenSaturation, [[91, 3], [93, 2], [95, 1]], 0)),
+      component('supplementalOxygen', input.supplementalOxygen, input.supplementalOxygen ? 2 : 0),
+      component('systolicBp', input.systolicBp, band(input.systolicBp, [[90, 3], [100, 2], [110, 1], [219, 0]], 3)),
+      component('heartRate', input.heartRate, band(input.heartRate, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2]], 3)),
+      component('consciousness', input.consciousness, input.consciousness && input.consciousness !== 'ALERT' ? 3 : 0),
+      component('temperature', input.temperature, band(input.temperature, [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1]], 2)),
+    ];
+
+    const score = sumPoints(components);
+    const hasRedScore = components.some(c => c.points === 3);
+
+    let category = 'LOW';
+    let urgencyLevel: UrgencyLevel = 'GREEN';
+    if (score >= 7) {
+      category = 'HIGH';
+      urgencyLevel = 'RED';
+    } else if (score >= 5) {
+      category = 'MEDIUM';
+      urgencyLevel = 'YELLOW';
+    } else if (hasRedScore) {
+      category = 'LOW_MEDIUM';
+      urgencyLevel = 'YELLOW';
+    }
+
+    return buildResult('NEWS2', components, score, urgencyLevel, category);
+  },
+};
+
+// South African Triage Scale: Triage Early Warning Score (adult)
+export const satsEngine: ScoringEngine = {
+  algorithm: 'SATS',
+  name: 'South African Triage Scale',
+  description: 'TEWS-based triage with RED/ORANGE/YELLOW/GREEN categories',
+  calculate(input) {
+    const mobilityPoints = { WALKING: 0, WITH_HELP: 1, STRETCHER: 2 };
+
+    const components = [
+      component('mobility', input.mobility, input.mobility ? mobilityPoints[input.mobility] : 0),
+      component('respiratoryRate', input.respiratoryRate, band(input.respiratoryRate, [[8, 2], [14, 0], [20, 1], [29, 2]], 3)),
+      component('heartRate', input.heartRate, band(input.heartRate, [[40, 2], [50, 1], [100, 0], [110, 1], [129, 2]], 3)),
+      component('systolicBp', input.systolicBp, band(input.systolicBp, [[70, 3], [80, 2], [100, 1], [199, 0]], 2)),
+      component('temperature', input.temperature, band(input.temperature, [[34.9, 2], [38.4, 0]], 2)),
+      component('consciousness', input.consciousness, input.consciousness ? avpuPoints[input.consciousness] : 0),
+      component('trauma', input.trauma, input.trauma ? 1 : 0),
+    ];
+
+    const score = sumPoints(components);
+
+    // ORANGE (seen within 10 minutes) is handled as RED in our three-level queue
+    let category = 'GREEN';
+    let urgencyLevel: UrgencyLevel = 'GREEN';
+    if (score >= 7) {
+      category = 'RED';
+      urgencyLevel = 'RED';
+    } else if (score >= 5) {
+      category = 'ORANGE';
+      urgencyLevel = 'RED';
+    } else if (score >= 3) {
+      category = 'YELLOW';
+      urgencyLevel = 'YELLOW';
+    }
+
+    return buildResult('SATS', components, score, urgencyLevel, category);
+  },
+};
+
+// Emergency Severity Index v4: decision points A-D, the score is the ESI level (1 = most urgent)
+export const esiEngine: ScoringEngine = {
+  algorithm: 'ESI',
+  name: 'Emergency Severity Index',
+  description: 'Five-level acuity algorithm based on interventions and expected resources',
+  calculate(input) {
+    const age = input.ageYears ?? 18;
+    const dangerZone = age < 3
+      ? { heartRate: 160, respiratoryRate: 40 }
+      : age < 8
+        ? { heartRate: 140, respiratoryRate: 30 }
+        : { heartRate: 100, respiratoryRate: 20 };
+
+    const unresponsive = input.consciousness === 'PAIN' || input.consciousness === 'UNRESPONSIVE';
+    const lifeSaving = !!input.requiresLifeSavingIntervention || unresponsive;
+    const highRisk = !!input.highRiskSituation || input.consciousness === 'CONFUSION' ||
+      input.consciousness === 'VOICE' || (input.painScale ?? 0) >= 7;
+    // Without a nurse estimate assume a multi-resource work-up so danger-zone vitals still count
+    const resources = input.expectedResources ?? 2;
+    const dangerVitals = (input.heartRate ?? 0) > dangerZone.heartRate ||
+      (input.respiratoryRate ?? 0) > dangerZone.respiratoryRate ||
+      (input.oxygenSaturation !== undefined && input.oxygenSaturation < 92);
+
+    const components: ScoreComponent[] = [
+      { parameter: 'lifeSavingIntervention', value: lifeSaving, points: lifeSaving ? 4 : 0 },
+      { parameter: 'highRiskSituation', value: highRisk, points: highRisk ? 3 : 0 },
+      { parameter: 'expectedResources', value: resources, points: resources >= 2 ? 2 : resources },
+      { parameter: 'dangerZoneVitals', value: dangerVitals, points: dangerVitals && resources >= 2 ? 3 : 0 },
+    ];
+
+    let level: number;
+    if (lifeSaving) {
+      level = 1;
+    } else if (highRisk || (dangerVitals && resources >= 2)) {
+      level = 2;
+    } else if (resources >= 2) {
+      level = 3;
+    } else if (resources === 1) {
+      level = 4;
+    } else {
+      level = 5;
+    }
+
+    const urgencyLevel: UrgencyLevel = level <= 2 ? 'RED' : level === 3 ? 'YELLOW' : 'GREEN';
+
+    return buildResult('ESI', components, level, urgencyLevel, `ESI-${level}`);
+  },
+};
+
+// Brighton Paediatric Early Warning Score with age-banded normal ranges
+export const pewsEngine: ScoringEngine = {
+  algorithm: 'PEWS',
+  name: 'Paediatric Early Warning Score',
+  description: 'Brighton PEWS for children under 16',
+  calculate(input) {
+    const age = input.ageYears ?? 5;
+    const normal = age < 1
+      ? { heartRate: 160, respiratoryRate: 60 }
+      : age < 5
+        ? { heartRate: 150, respiratoryRate: 40 }
+        : age < 12
+          ? { heartRate: 120, respiratoryRate: 30 }
+          : { heartRate: 100, respiratoryRate: 20 };
+
+    const behaviourPoints: Record<Consciousness, number> = {
+      ALERT: 0,
+      VOICE: 1,
+      CONFUSION: 2,
+      PAIN: 3,
+      UNRESPONSIVE: 3,
+    };
+
+    let cardiovascular = 0;
+    if (input.heartRate !== undefined) {
+      const excess = input.heartRate - normal.heartRate;
+      if (excess >= 30 || input.heartRate < 60) cardiovascular = 3;
+      else if (excess >= 20) cardiovascular = 2;
+      else if (excess > 0) cardiovascular = 1;
+    }
+    if (input.systolicBp !== undefined && input.systolicBp < 70) cardiovascular = 3;
+
+    let respiratory = 0;
+    if (input.respiratoryRate !== undefined) {
+      const excess = input.respiratoryRate - normal.respiratoryRate;
+      if (excess >= 20 || input.respiratoryRate < 10) respiratory = 3;
+      else if (excess >= 10) respiratory = 2;
+      else if (excess > 0) respiratory = 1;
+    }
+    if (input.oxygenSaturation !== undefined && input.oxygenSaturation < 90) respiratory = 3;
+    if (input.supplementalOxygen) respiratory = Math.max(respiratory, 2);
+
+    const components = [
+      component('behaviour', input.consciousness, input.consciousness ? behaviourPoints[input.consciousness] : 0),
+      component('cardiovascular', input.heartRate ?? input.systolicBp, cardiovascular),
+      component('respiratory', input.respiratoryRate ?? input.oxygenSaturation, respiratory),
+    ];
+
+    const score = sumPoints(components);
+    const urgencyLevel: UrgencyLevel = score >= 5 || components.some(c => c.points === 3)
+      ? 'RED'
+      : score >= 3 ? 'YELLOW' : 'GREEN';
+
+    return buildResult('PEWS', components, score, urgencyLevel, urgencyLevel);
+  },
+};
+
+export const scoringEngines: Record<ScoringAlgorithm, ScoringEngine> = {
+  MEWS: mewsEngine,
+  NEWS2: news2Engine,
+  SATS: satsEngine,
+  ESI: esiEngine,
+  PEWS: pewsEngine,
+};
+
+export const isScoringAlgorithm = (value: unknown): value is ScoringAlgorithm =>
+  typeof value === 'string' && value in scoringEngines;
@@ -0,0 +1,62 @@
+export interface ParsedStraId {
+  prefix: string;
+  facilityCode: string | null;
+  serial: number;
+  checkDigit: number | null;
+}
+
+// STRA[-FAC]-NNNNNN[-C]; IDs issued before check digits were introduced have no -C
+const STRA_ID_PATTERN = /^STRA(?:-([A-Z]{2,4}))?-(\d{6,})(?:-(\d))?$/;
+
+export class StraId {
+  static readonly BASE_PREFIX = 'STRA';
+
+  static prefixFor(facilityCode?: string | null): string {
+    return facilityCode ? `${StraId.BASE_PREFIX}-${facilityCode.toUpperCase()}` : StraId.BASE_PREFIX;
+  }
+
+  static format(prefix: string, serial: number): string {
+    const digits = serial.toString().padStart(6, '0');
+    return `${prefix}-${digits}-${StraId.checkDigit(digits)}`;
+  }
+
+  static normalize(value: string): string {
+    return value.trim().toUpperCase().replace(/\s+/g, '');
+  }
+
+  static parse(value: string): ParsedStraId | null {
+    const match = STRA_ID_PATTERN.exec(StraId.normalize(value));
+    if (!match) return null;
+
+    const [, facilityCode, digits, checkDigit] = match;
+    return {
+      prefix: StraId.prefixFor(facilityCode),
+      facilityCode: facilityCode || null,
+      serial: parseInt(digits!, 10),
+      checkDigit: checkDigit !== undefined ? parseInt(checkDigit, 10) : null,
+    };
+  }
+
+  static isValid(value: string): boolean {
+    const parsed = StraId.parse(value);
+    if (!parsed) return false;
+    if (parsed.checkDigit === null) return true;
+
+    const digits = StraId.normalize(value).split('-').slice(-2, -1)[0]!;
+    return StraId.checkDigit(digits) === parsed.checkDigit;
+  }
+
+  // Luhn: catches every single-digit typo and most adjacent transpositions
+  static checkDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 0) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return (10 - (sum % 10)) % 10;
+  }
+}
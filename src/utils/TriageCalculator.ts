@@ -0,0 +1,58 @@
+import { scoringEngines, mewsEngine } from './ScoringEngines';
+import type { ScoringAlgorithm, ScoringInput, ScoreResult, UrgencyLevel } from './ScoringEngines';
+
+export class TriageCalculator {
+  static calculate(algorithm: ScoringAlgorithm, input: ScoringInput): ScoreResult {
+    const engine = scoringEngines[algorithm] || mewsEngine;
+    return engine.calculate(input);
+  }
+
+  static calculateMEWS(vitals: {
+    respiratoryRate?: number;
+    oxygenSaturation?: number;
+    temperature?: number;
+    systolicBP?: number;
+    heartRate?: number;
+  }): number {
+    return mewsEngine.calculate({
+      respiratoryRate: vitals.respiratoryRate,
+      oxygenSaturation: vitals.oxygenSaturation,
+      temperature: vitals.temperature,
+      systolicBp: vitals.systolicBP,
+      heartRate: vitals.heartRate,
+    }).score;
+  }
+
+  static getUrgencyLevel(mewsScore: number): UrgencyLevel {
+    if (mewsScore >= 5) return 'RED';
+    if (mewsScore >= 3) return 'YELLOW';
+    return 'GREEN';
+  }
+
+  static urgencyRank(urgencyLevel: UrgencyLevel): number {
+    return { RED: 3, YELLOW: 2, GREEN: 1 }[urgencyLevel];
+  }
+
+  static escalate(current: UrgencyLevel, minimum: UrgencyLevel): UrgencyLevel {
+    return TriageCalculator.urgencyRank(minimum) > TriageCalculator.urgencyRank(current) ? minimum : current;
+  }
+
+  static estimateWaitTime(urgencyLevel: UrgencyLevel, queueLength: number, averageTreatmentTime: number): number {
+    // Critical patients jump the queue; others wait behind a share of it
+    switch (urgencyLevel) {
+      case 'RED':
+        return 0;
+      case 'YELLOW':
+        return Math.round((queueLength * averageTreatmentTime) / 2);
+      default:
+        return queueLength * averageTreatmentTime;
+    }
+  }
+
+  static calculateAge(dateOfBirth: string | Date): number {
+    return Math.floor(
+      (new Date().getTime() - new Date(dateOfBirth).getTime()) /
+      (365.25 * 24 * 60 * 60 * 1000)
+    );
+  }
+}
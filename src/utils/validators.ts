@@ -7,11 +7,45 @@ export const patientRegistrationSchema = z.object({
   gender: z.enum(['Male', 'Female', 'Other']),
   phoneNumber: z.string().min(10, 'Valid phone number required'),
   emergencyContact: z.string().optional(),
+  emergencyContactName: z.string().max(100).optional(),
   nationalId: z.string().optional(),
+  nhifNumber: z.string().max(50).optional(),
   address: z.string().optional(),
+  county: z.string().max(100).optional(),
+  subCounty: z.string().max(100).optional(),
   bloodGroup: z.string().optional(),
   allergies: z.array(z.string()).optional(),
   chronicConditions: z.array(z.string()).optional(),
+  facilityCode: z.string().regex(/^[A-Za-z]{2,4}$/, 'Facility code must be 2-4 letters').transform(v => v.toUpperCase()).optional(),
+});
+
+export const duplicateCheckSchema = patientRegistrationSchema.pick({
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  phoneNumber: true,
+  emergencyContact: true,
+  nationalId: true,
+  nhifNumber: true,
+});
+
+export const patientSearchSchema = z.object({
+  q: z.string().trim().min(2, 'Search term must be at least 2 characters').max(100),
+  county: z.string().trim().max(100).optional(),
+  subCounty: z.string().trim().max(100).optional(),
+  status: z.enum(['active', 'inactive', 'merged', 'all']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const patientMergeSchema = z.object({
+  survivingPatientId: z.string().uuid('Valid surviving patient ID required'),
+  mergedPatientId: z.string().uuid('Valid merged patient ID required'),
+  reason: z.string().trim().min(3, 'Reason is required').max(500),
+});
+
+export const patientMergeRevertSchema = z.object({
+  reason: z.string().trim().min(3, 'Reason is required').max(500),
 });
 
 export const triageSchema = z.object({
@@ -31,10 +65,155 @@ export const triageSchema = z.object({
   }),
   symptoms: z.record(z.string(), z.any()),
   chiefComplaint: z.string().optional(),
+  assessment: z.object({
+    consciousness: z.enum(['ALERT', 'CONFUSION', 'VOICE', 'PAIN', 'UNRESPONSIVE']).optional(),
+    supplementalOxygen: z.boolean().optional(),
+    mobility: z.enum(['WALKING', 'WITH_HELP', 'STRETCHER']).optional(),
+    trauma: z.boolean().optional(),
+    expectedResources: z.number().int().min(0).max(10).optional(),
+    requiresLifeSavingIntervention: z.boolean().optional(),
+    highRiskSituation: z.boolean().optional(),
+  }).optional(),
+});
+
+export const retriageSchema = triageSchema.omit({ patientId: true, nurseId: true }).extend({
+  reason: z.string().min(1, 'Reason is required').optional(),
+});
+
+export const scoringEngineConfigSchema = z.object({
+  algorithm: z.enum(['MEWS', 'NEWS2', 'SATS', 'ESI', 'PEWS']),
+  departmentId: z.string().uuid().optional(),
+});
+
+export const retriagePolicySchema = z.object({
+  maxWaitMinutes: z.object({
+    RED: z.number().int().min(1).optional(),
+    YELLOW: z.number().int().min(1).optional(),
+    GREEN: z.number().int().min(1).optional(),
+  }).optional(),
+  retriageIntervalMinutes: z.number().int().min(5).max(1440).optional(),
+  reminderIntervalMinutes: z.number().int().min(1).max(1440).optional(),
+});
+
+export const discriminatorSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().optional(),
+  symptomConditions: z.array(z.object({
+    symptom: z.string().min(1),
+    minValue: z.number().optional(),
+  })).default([]),
+  complaintKeywords: z.array(z.string().min(2)).default([]),
+  minimumUrgency: z.enum(['RED', 'YELLOW', 'GREEN']),
+});
+
+// No defaults here: an omitted field must leave the stored rule unchanged
+export const discriminatorUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  symptomConditions: z.array(z.object({
+    symptom: z.string().min(1),
+    minValue: z.number().optional(),
+  })).optional(),
+  complaintKeywords: z.array(z.string().min(2)).optional(),
+  minimumUrgency: z.enum(['RED', 'YELLOW', 'GREEN']).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const routingConditionsSchema = z.object({
+  anySymptoms: z.array(z.string().min(1)).optional(),
+  allSymptoms: z.array(z.string().min(1)).optional(),
+  vitals: z.array(z.object({
+    parameter: z.enum([
+      'temperature', 'systolicBp', 'diastolicBp', 'heartRate', 'respiratoryRate',
+      'oxygenSaturation', 'bloodGlucose', 'painScale', 'weight', 'height',
+    ]),
+    operator: z.enum(['lt', 'lte', 'gt', 'gte', 'eq']),
+    value: z.number(),
+  })).optional(),
+  minAge: z.number().int().min(0).optional(),
+  maxAge: z.number().int().min(0).optional(),
+  sex: z.enum(['Male', 'Female', 'Other']).optional(),
+});
+
+export const routingRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().optional(),
+  departmentId: z.string().uuid('Valid department ID required'),
+  priority: z.number().int().min(0).default(100),
+  conditions: routingConditionsSchema.default({}),
+  isFallback: z.boolean().default(false),
 });
 
+export const routingRuleUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  departmentId: z.string().uuid().optional(),
+  priority: z.number().int().min(0).optional(),
+  conditions: routingConditionsSchema.optional(),
+  isFallback: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const routingDryRunSchema = z.object({
+  patientId: z.string().uuid().optional(),
+  symptoms: z.record(z.string(), z.any()),
+  vitals: z.record(z.string(), z.number()).optional(),
+  ageYears: z.number().int().min(0).max(130).optional(),
+  sex: z.enum(['Male', 'Female', 'Other']).optional(),
+});
+
+const queueActionReason = z.string().trim().min(3, 'Reason is required').max(500);
+
 export const queueUpdateSchema = z.object({
   position: z.number().int().min(1, 'Position must be at least 1'),
+  reason: queueActionReason.optional(),
+});
+
+export const queueCallNextSchema = z.object({
+  reason: queueActionReason.optional(),
+  room: z.string().trim().min(1).max(50).optional(),
+});
+
+export const queueCompleteSchema = z.object({
+  reason: queueActionReason.optional(),
+});
+
+export const queueSkipSchema = z.object({
+  reason: queueActionReason,
+});
+
+export const queuePositionSchema = queueUpdateSchema.extend({
+  reason: queueActionReason,
+});
+
+export const queueReturnSchema = z.object({
+  reason: queueActionReason,
+});
+
+export const queuePositionLookupSchema = z.object({
+  straId: z.string().trim().min(1, 'STRA-ID is required').max(20),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+});
+
+export const inboundSmsSchema = z.object({
+  from: z.string().min(1),
+  text: z.string().max(480),
+  to: z.string().optional(),
+  id: z.string().optional(),
+  date: z.string().optional(),
+});
+
+export const displayDeviceSchema = z.object({
+  departmentId: z.string().uuid('Valid department ID required'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+});
+
+export const stockUpdateSchema = z.object({
+  adjustment: z.number().int(),
+  reason: z.string().min(1),
+  notes: z.string().optional(),
+  transactionType: z.enum(['RESTOCK', 'DISPENSE', 'ADJUSTMENT', 'WASTE']),
+  referenceId: z.string().optional(),
 });
 
 export const resourceAllocationSchema = z.object({
@@ -50,12 +229,161 @@ export const maintenanceSchema = z.object({
 export const labOrderSchema = z.object({
   patientId: z.string().uuid(),
   tests: z.array(z.object({
-    testCode: z.string(),
-    testName: z.string(),
-    specimenType: z.string(),
+    testCode: z.string().trim().min(1).max(20),
     urgency: z.enum(['ROUTINE', 'URGENT', 'STAT']),
     instructions: z.string().optional(),
-  })),
+  })).min(1, 'At least one test is required'),
+  notes: z.string().max(1000).optional(),
+});
+
+const referenceRangeSchema = z.object({
+  sex: z.enum(['Male', 'Female']).optional(),
+  minAgeYears: z.number().min(0).max(150).optional(),
+  maxAgeYears: z.number().min(0).max(150).optional(),
+  low: z.number().optional(),
+  high: z.number().optional(),
+  text: z.string().max(100).optional(),
+}).refine(r => r.low !== undefined || r.high !== undefined || r.text, {
+  message: 'A reference range needs a low, high or text value',
+});
+
+export const labCatalogueEntrySchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{1,20}$/, 'Codes are letters, digits, - or _'),
+  name: z.string().trim().min(2).max(150),
+  isPanel: z.boolean().optional(),
+  specimenType: z.string().trim().min(1).max(50),
+  container: z.string().trim().min(1).max(50),
+  unit: z.string().max(30).nullable().optional(),
+  referenceRanges: z.array(referenceRangeSchema).max(20).optional(),
+  price: z.number().min(0),
+  turnaroundMinutes: z.number().int().min(5).max(30 * 24 * 60),
+  components: z.array(z.string().trim().min(1)).optional(),
+}).refine(data => !data.isPanel || (data.components?.length ?? 0) > 0, {
+  message: 'A panel needs at least one component test',
+}).refine(data => data.isPanel || !data.components, {
+  message: 'Only panels have component tests',
+});
+
+export const labCatalogueUpdateSchema = z.object({
+  name: z.string().trim().min(2).max(150).optional(),
+  specimenType: z.string().trim().min(1).max(50).optional(),
+  container: z.string().trim().min(1).max(50).optional(),
+  unit: z.string().max(30).nullable().optional(),
+  referenceRanges: z.array(referenceRangeSchema).max(20).optional(),
+  price: z.number().min(0).optional(),
+  turnaroundMinutes: z.number().int().min(5).max(30 * 24 * 60).optional(),
+  components: z.array(z.string().trim().min(1)).min(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const labCatalogueQuerySchema = z.object({
+  search: z.string().trim().max(50).optional(),
+  includeInactive: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+});
+
+export const labWorklistQuerySchema = z.object({
+  status: z.enum(['PENDING', 'COLLECTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'FAILED']).optional(),
+  priority: z.enum(['RED', 'YELLOW', 'GREEN']).optional(),
+  awaitingVerification: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  overdue: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const specimenCollectionSchema = z.object({
+  barcode: z.string().trim().regex(/^[A-Za-z0-9-]{6,32}$/, 'Invalid specimen barcode').optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const labResultEntrySchema = z.object({
+  results: z.array(z.object({
+    testCode: z.string().min(1),
+    analyte: z.string().max(100).optional(),
+    value: z.union([z.number(), z.string().trim().min(1).max(500)]),
+    unit: z.string().max(30).optional(),
+    referenceLow: z.number().optional(),
+    referenceHigh: z.number().optional(),
+    referenceRange: z.string().max(100).optional(),
+    flag: z.enum(['NORMAL', 'LOW', 'HIGH', 'ABNORMAL']).optional(),
+    comment: z.string().max(500).optional(),
+  }).refine(r => r.referenceLow === undefined || r.referenceHigh === undefined || r.referenceLow <= r.referenceHigh, {
+    message: 'Reference low must not exceed reference high',
+  })).min(1, 'At least one result is required'),
+  interpretation: z.string().max(2000).optional(),
+});
+
+export const labVerificationSchema = z.object({
+  approve: z.boolean(),
+  comment: z.string().max(1000).optional(),
+}).refine(data => data.approve || Boolean(data.comment?.trim()), {
+  message: 'A comment is required when returning results for correction',
+});
+
+export const specimenRejectionSchema = z.object({
+  reason: z.string().trim().min(3, 'Rejection reason is required').max(500),
+});
+
+export const labCriticalAlertQuerySchema = z.object({
+  status: z.enum(['OPEN', 'ACKNOWLEDGED', 'RESOLVED']).optional(),
+  patientId: z.string().uuid().optional(),
+  mine: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const labCriticalAcknowledgeSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+export const labCriticalPolicySchema = z.object({
+  acknowledgeMinutes: z.number().int().min(5).max(240).optional(),
+  thresholds: z.array(z.object({
+    code: z.string().trim().min(1).max(20),
+    name: z.string().trim().min(1).max(100),
+    unit: z.string().trim().min(1).max(30),
+    low: z.number().optional(),
+    high: z.number().optional(),
+  }).refine(t => t.low !== undefined || t.high !== undefined, {
+    message: 'A threshold needs a low or high limit',
+  }).refine(t => t.low === undefined || t.high === undefined || t.low < t.high, {
+    message: 'Low limit must be below high limit',
+  })).optional(),
+});
+
+export const radiologyWorklistQuerySchema = z.object({
+  status: z.enum(['PENDING', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'PRELIMINARY', 'FINAL', 'CANCELLED']).optional(),
+  modality: z.string().trim().max(50).optional(),
+  priority: z.enum(['RED', 'YELLOW', 'GREEN']).optional(),
+  resourceId: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const imagingScheduleSchema = z.object({
+  resourceId: z.string().uuid('Valid XRAY resource ID required'),
+  scheduledTime: z.coerce.date(),
+  durationMinutes: z.number().int().min(5).max(240).optional(),
+});
+
+export const imagingReportSchema = z.object({
+  findings: z.string().trim().min(1, 'Findings are required').max(10000),
+  impression: z.string().trim().min(1, 'Impression is required').max(2000),
+  sign: z.boolean().optional().default(false),
+});
+
+export const imagingAddendumSchema = z.object({
+  text: z.string().trim().min(1, 'Addendum text is required').max(5000),
+});
+
+export const imagingCancelSchema = z.object({
+  reason: z.string().trim().min(3, 'Reason is required').max(500),
+});
+
+// Study-completion callback from PACS or a modality gateway
+export const imagingCompletionSchema = z.object({
+  accessionNumber: z.string().trim().min(1).max(16),
+  studyInstanceUid: z.string().trim().max(64).regex(/^\d+(\.\d+)+$/, 'Invalid Study Instance UID'),
+  startedAt: z.coerce.date().optional(),
+  completedAt: z.coerce.date().optional(),
 });
 
 export const prescriptionSchema = z.object({
@@ -72,6 +400,217 @@ export const prescriptionSchema = z.object({
   instructions: z.string().optional(),
 });
 
+export const dispositionSchema = z.object({
+  action: z.enum(['ADMIT', 'DISCHARGE', 'TRANSFER', 'REFER']),
+  departmentId: z.string().uuid().optional(),
+  ward: z.string().max(100).optional(),
+  bedNumber: z.string().max(100).optional(),
+  bedResourceId: z.string().uuid().optional(),
+  dischargeInstructions: z.string().max(5000).optional(),
+  followUpDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  followUpTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM').optional(),
+  followUpDepartmentId: z.string().uuid().optional(),
+  referral: z.object({
+    destinationFacility: z.string().trim().min(2, 'Destination facility is required').max(200),
+    destinationFacilityCode: z.string().max(20).optional(),
+    destinationDepartment: z.string().max(100).optional(),
+    reason: z.string().trim().min(3, 'Referral reason is required'),
+    clinicalSummary: z.string().optional(),
+    urgency: z.enum(['GREEN', 'YELLOW', 'RED']).optional(),
+    transportMode: z.string().max(30).optional(),
+  }).optional(),
+  sendSummary: z.object({
+    sms: z.boolean().optional(),
+    email: z.string().email().optional(),
+  }).optional(),
+  notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if ((data.action === 'ADMIT' || data.action === 'TRANSFER') && !data.departmentId) {
+    ctx.addIssue({ code: 'custom', path: ['departmentId'], message: 'Target department is required' });
+  }
+  if (data.action === 'REFER' && !data.referral) {
+    ctx.addIssue({ code: 'custom', path: ['referral'], message: 'Referral details are required' });
+  }
+  if (data.action === 'DISCHARGE' && !data.dischargeInstructions) {
+    ctx.addIssue({ code: 'custom', path: ['dischargeInstructions'], message: 'Discharge instructions are required' });
+  }
+});
+
+export const dischargeSummarySendSchema = z.object({
+  sms: z.boolean().optional(),
+  email: z.string().email('Valid email required').optional(),
+}).refine(data => data.sms || data.email, { message: 'Choose SMS, email or both' });
+
+const appointmentDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+const appointmentTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+
+export const appointmentBookSchema = z.object({
+  patientId: z.string().uuid('Valid patient ID required'),
+  doctorId: z.string().uuid('Valid doctor ID required'),
+  departmentId: z.string().uuid().optional(),
+  appointmentDate,
+  startTime: appointmentTime,
+  durationMinutes: z.number().int().min(5).max(480).optional(),
+  reason: z.string().max(500).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const appointmentRescheduleSchema = z.object({
+  appointmentDate: appointmentDate.optional(),
+  startTime: appointmentTime.optional(),
+  durationMinutes: z.number().int().min(5).max(480).optional(),
+  doctorId: z.string().uuid().optional(),
+  reason: z.string().max(500).optional(),
+}).refine(
+  data => data.appointmentDate || data.startTime || data.durationMinutes || data.doctorId,
+  { message: 'Provide a new date, time, duration or doctor' }
+);
+
+export const appointmentCancelSchema = z.object({
+  reason: z.string().trim().min(3, 'Cancellation reason is required').max(500),
+});
+
+export const appointmentCheckInSchema = z.object({
+  urgencyLevel: z.enum(['RED', 'YELLOW', 'GREEN']).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const appointmentQuerySchema = z.object({
+  patientId: z.string().uuid().optional(),
+  doctorId: z.string().uuid().optional(),
+  departmentId: z.string().uuid().optional(),
+  status: z.enum(['SCHEDULED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'NO_SHOW']).optional(),
+  from: appointmentDate.optional(),
+  to: appointmentDate.optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const appointmentPolicySchema = z.object({
+  defaultDurationMinutes: z.number().int().min(5).max(240).optional(),
+  noShowGraceMinutes: z.number().int().min(5).max(720).optional(),
+  reminderOffsetsMinutes: z.array(z.number().int().min(15).max(7 * 24 * 60)).max(5).optional(),
+});
+
+export const availabilityTemplateSchema = z.object({
+  blocks: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: appointmentTime,
+    endTime: appointmentTime,
+    departmentId: z.string().uuid().optional(),
+  })).max(50),
+  effectiveFrom: appointmentDate.optional(),
+  effectiveTo: appointmentDate.optional(),
+});
+
+export const availabilityExceptionSchema = z.object({
+  doctorId: z.string().uuid().optional(),
+  exceptionType: z.enum(['LEAVE', 'PUBLIC_HOLIDAY', 'OTHER']),
+  startDate: appointmentDate,
+  endDate: appointmentDate,
+  startTime: appointmentTime.optional(),
+  endTime: appointmentTime.optional(),
+  reason: z.string().max(500).optional(),
+}).superRefine((data, ctx) => {
+  if (data.exceptionType === 'LEAVE' && !data.doctorId) {
+    ctx.addIssue({ code: 'custom', path: ['doctorId'], message: 'Leave must name a doctor' });
+  }
+  if (data.exceptionType === 'PUBLIC_HOLIDAY' && data.doctorId) {
+    ctx.addIssue({ code: 'custom', path: ['doctorId'], message: 'Public holidays apply to all doctors' });
+  }
+  if (!!data.startTime !== !!data.endTime) {
+    ctx.addIssue({ code: 'custom', path: ['endTime'], message: 'Give both start and end time, or neither for whole days' });
+  }
+});
+
+export const availabilityExceptionQuerySchema = z.object({
+  doctorId: z.string().uuid().optional(),
+  from: appointmentDate.optional(),
+  to: appointmentDate.optional(),
+});
+
+export const openSlotsQuerySchema = z.object({
+  departmentId: z.string().uuid().optional(),
+  doctorId: z.string().uuid().optional(),
+  from: appointmentDate,
+  to: appointmentDate,
+}).refine(data => data.departmentId || data.doctorId, { message: 'Choose a department or doctor' });
+
+export const slotLengthSchema = z.object({
+  slotMinutes: z.number().int().min(5).max(240),
+});
+
+export const shiftSchema = z.object({
+  departmentId: z.string().uuid('Valid department ID required'),
+  userId: z.string().uuid('Valid staff ID required'),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  isOnCall: z.boolean().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const shiftCancelSchema = z.object({
+  reason: z.string().trim().min(3, 'Reason is required').max(500),
+});
+
+export const departmentHeadSchema = z.object({
+  userId: z.string().uuid('Valid user ID required').nullable(),
+});
+
+export const rosterQuerySchema = z.object({
+  departmentId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  includeCancelled: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+});
+
+export const onDutyQuerySchema = z.object({
+  departmentId: z.string().uuid().optional(),
+  role: z.enum(['admin', 'doctor', 'nurse', 'pharmacist', 'management', 'lab_tech', 'radiologist']).optional(),
+  includeOnCall: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+});
+
+export const shiftSwapSchema = z.object({
+  shiftId: z.string().uuid('Valid shift ID required'),
+  targetUserId: z.string().uuid('Valid colleague ID required'),
+  targetShiftId: z.string().uuid().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export const shiftSwapReviewSchema = z.object({
+  decision: z.enum(['APPROVED', 'REJECTED']),
+  notes: z.string().max(500).optional(),
+});
+
+export const shiftSwapQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+  departmentId: z.string().uuid().optional(),
+});
+
+export const handoverGenerateSchema = z.object({
+  departmentId: z.string().uuid('Valid department ID required'),
+  shiftStart: z.coerce.date().optional(),
+  shiftEnd: z.coerce.date().optional(),
+}).refine(data => !data.shiftStart || !data.shiftEnd || data.shiftStart < data.shiftEnd, {
+  message: 'Shift must end after it starts',
+});
+
+export const handoverNotesSchema = z.object({
+  notes: z.string().trim().min(1, 'Notes are required').max(5000),
+  submit: z.boolean().optional(),
+});
+
+export const handoverAcknowledgeSchema = z.object({
+  notes: z.string().max(2000).optional(),
+});
+
+export const handoverQuerySchema = z.object({
+  departmentId: z.string().uuid().optional(),
+  status: z.enum(['DRAFT', 'SUBMITTED', 'ACKNOWLEDGED']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
 export const vitalSignsSchema = z.object({
   temperature: z.number().min(30).max(45).optional(),
   systolicBp: z.number().min(50).max(250).optional(),
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { DiscriminatorService, DEFAULT_DISCRIMINATORS, type DiscriminatorRule } from '../../src/services/DiscriminatorService';
+
+const rule = (name: string) => DEFAULT_DISCRIMINATORS.find(d => d.name === name)!;
+
+describe('DiscriminatorService.matchRule', () => {
+  it('matches a symptom reported as true', () => {
+    expect(DiscriminatorService.matchRule(rule('Active seizure'), { seizure: true })).toEqual(['symptom:seizure']);
+  });
+
+  it('ignores symptoms reported as false, zero or free text', () => {
+    expect(DiscriminatorService.matchRule(rule('Chest pain'), { chest_pain: false })).toEqual([]);
+    expect(DiscriminatorService.matchRule(rule('Chest pain'), { chest_pain: 0 })).toEqual([]);
+    expect(DiscriminatorService.matchRule(rule('Chest pain'), { chest_pain: 'no' })).toEqual([]);
+    expect(DiscriminatorService.matchRule(rule('Chest pain'), { chest_pain: 'false' })).toEqual([]);
+  });
+
+  it('counts a positive number as present', () => {
+    expect(DiscriminatorService.matchRule(rule('Chest pain'), { chest_pain: 6 })).toEqual(['symptom:chest_pain']);
+  });
+
+  it('applies minValue conditions to numbers only', () => {
+    const burns = rule('Major burns');
+    expect(DiscriminatorService.matchRule(burns, { burn_percentage: 25 })).toEqual(['symptom:burn_percentage>=20']);
+    expect(DiscriminatorService.matchRule(burns, { burn_percentage: 20 })).toEqual(['symptom:burn_percentage>=20']);
+    expect(DiscriminatorService.matchRule(burns, { burn_percentage: 10 })).toEqual([]);
+    expect(DiscriminatorService.matchRule(burns, { burn_percentage: true })).toEqual([]);
+  });
+
+  it('matches complaint keywords case-insensitively', () => {
+    expect(DiscriminatorService.matchRule(rule('Stroke signs'), {}, 'Sudden FACIAL DROOP this morning'))
+      .toEqual(['complaint:facial droop']);
+  });
+
+  it('reports every condition that matched', () => {
+    const custom: DiscriminatorRule = {
+      discriminatorId: 'local',
+      name: 'Snake bite',
+      symptomConditions: [{ symptom: 'envenomation' }],
+      complaintKeywords: ['snake'],
+      minimumUrgency: 'RED',
+    };
+    expect(DiscriminatorService.matchRule(custom, { envenomation: true }, 'Snake bite to left leg'))
+      .toEqual(['symptom:envenomation', 'complaint:snake']);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { LabCatalogueService, type ReferenceRange } from '../../src/services/LabCatalogueService';
+
+const haemoglobin: ReferenceRange[] = [
+  { low: 11, high: 16 },
+  { maxAgeYears: 12, low: 11.5, high: 15.5 },
+  { sex: 'Male', low: 13, high: 17 },
+  { sex: 'Female', low: 12, high: 15 },
+  { sex: 'Female', minAgeYears: 65, low: 11.5, high: 15 },
+];
+
+describe('LabCatalogueService.referenceRangeFor', () => {
+  it('prefers the most specific matching range', () => {
+    expect(LabCatalogueService.referenceRangeFor(haemoglobin, { ageYears: 40, gender: 'Male' })).toMatchObject({ low: 13 });
+    expect(LabCatalogueService.referenceRangeFor(haemoglobin, { ageYears: 70, gender: 'Female' })).toMatchObject({ low: 11.5, high: 15 });
+  });
+
+  it('matches sex case-insensitively', () => {
+    expect(LabCatalogueService.referenceRangeFor(haemoglobin, { ageYears: 30, gender: 'female' })).toMatchObject({ low: 12 });
+  });
+
+  it('treats maxAgeYears as exclusive', () => {
+    expect(LabCatalogueService.referenceRangeFor(haemoglobin, { ageYears: 11, gender: 'Other' })).toMatchObject({ low: 11.5 });
+    expect(LabCatalogueService.referenceRangeFor(haemoglobin, { ageYears: 12, gender: 'Other' })).toMatchObject({ low: 11 });
+  });
+
+  it('returns null when nothing applies', () => {
+    expect(LabCatalogueService.referenceRangeFor([{ sex: 'Male', low: 1 }], { ageYears: 30, gender: 'Female' })).toBeNull();
+    expect(LabCatalogueService.referenceRangeFor([], { ageYears: 30, gender: 'Female' })).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { LabCriticalAlertService, DEFAULT_LAB_CRITICAL_POLICY } from '../../src/services/LabCriticalAlertService';
+import type { LabResult } from '../../src/services/LabService';
+
+const { thresholds } = DEFAULT_LAB_CRITICAL_POLICY;
+const threshold = (code: string) => thresholds.find(t => t.code === code)!;
+
+const result = (testCode: string, value: string | number, unit: string | null, analyte: string | null = null): LabResult => ({
+  testCode,
+  testName: testCode,
+  analyte,
+  value,
+  unit,
+  referenceLow: null,
+  referenceHigh: null,
+  referenceRange: null,
+  flag: null,
+  comment: null,
+});
+
+describe('LabCriticalAlertService.toThresholdUnit', () => {
+  it('passes through values already in the threshold unit, whatever the spelling', () => {
+    expect(LabCriticalAlertService.toThresholdUnit(4.1, 'mmol/L', threshold('K'))).toBe(4.1);
+    expect(LabCriticalAlertService.toThresholdUnit(150, '10^9/L', threshold('PLT'))).toBe(150);
+    expect(LabCriticalAlertService.toThresholdUnit(150, 'K/µL', threshold('PLT'))).toBe(150);
+  });
+
+  it('converts known units in either direction', () => {
+    expect(LabCriticalAlertService.toThresholdUnit(36, 'mg/dL', threshold('GLU'))).toBeCloseTo(2.0, 1);
+    expect(LabCriticalAlertService.toThresholdUnit(55, 'g/L', threshold('HB'))).toBeCloseTo(5.5);
+  });
+
+  it('returns null for a unit it cannot convert', () => {
+    expect(LabCriticalAlertService.toThresholdUnit(5, 'mg/dL', threshold('K'))).toBeNull();
+  });
+});
+
+describe('LabCriticalAlertService.criticalValuesFor', () => {
+  it('flags values beyond the low and high thresholds', () => {
+    const critical = LabCriticalAlertService.criticalValuesFor([
+      result('UEC', 2.1, 'mmol/L', 'K'),
+      result('UEC', 140, 'mmol/L', 'NA'),
+      result('FBC', 1200, 'x10^9/L', 'PLT'),
+    ], thresholds);
+
+    expect(critical.map(c => [c.threshold.code, c.direction])).toEqual([['K', 'LOW'], ['PLT', 'HIGH']]);
+  });
+
+  it('does not flag values exactly on a threshold', () => {
+    expect(LabCriticalAlertService.criticalValuesFor([result('K', 2.5, 'mmol/L')], thresholds)).toEqual([]);
+  });
+
+  it('compares after converting the result unit', () => {
+    const critical = LabCriticalAlertService.criticalValuesFor([result('GLU', 40, 'mg/dL')], thresholds);
+    expect(critical).toHaveLength(1);
+    expect(critical[0]!.direction).toBe('LOW');
+
+    expect(LabCriticalAlertService.criticalValuesFor([result('GLU', 90, 'mg/dL')], thresholds)).toEqual([]);
+  });
+
+  it('raises a unit mismatch instead of passing an unconvertible result', () => {
+    const critical = LabCriticalAlertService.criticalValuesFor([result('K', 4, 'mg/dL')], thresholds);
+    expect(critical.map(c => c.direction)).toEqual(['UNIT_MISMATCH']);
+  });
+
+  it('skips non-numeric results and analytes without a threshold', () => {
+    expect(LabCriticalAlertService.criticalValuesFor([
+      result('K', 'haemolysed', 'mmol/L'),
+      result('ALT', 900, 'U/L'),
+    ], thresholds)).toEqual([]);
+  });
+});
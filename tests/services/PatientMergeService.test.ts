@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { is } from 'drizzle-orm';
+import { PgTable, getTableConfig, type PgColumn } from 'drizzle-orm/pg-core';
+import * as schema from '../../src/db/schema';
+import { MERGEABLE_RECORDS, MERGE_EXCLUDED_COLUMNS } from '../../src/services/PatientMergeService';
+
+// Every column that points at a patient, as "table.column"
+const patientColumns = (): string[] => {
+  const found: string[] = [];
+
+  for (const table of Object.values(schema)) {
+    if (!is(table, PgTable)) continue;
+    const config = getTableConfig(table);
+
+    for (const column of config.columns) {
+      // Table-level foreign keys hold their own column instances, so compare by name
+      const referencesPatient = config.foreignKeys.some(fk => {
+        const { columns, foreignTable, foreignColumns } = fk.reference();
+        return foreignTable === schema.patients
+          && columns.some(c => c.name === column.name)
+          && foreignColumns.some(c => c.name === schema.patients.patientId.name);
+      });
+      const isPrimaryKey = table === schema.patients && column === schema.patients.patientId;
+
+      if (!isPrimaryKey && (referencesPatient || column.name === 'patient_id')) {
+        found.push(`${config.name}.${column.name}`);
+      }
+    }
+  }
+
+  return found.sort();
+};
+
+const describeColumn = (column: PgColumn) => `${getTableConfig(column.table).name}.${column.name}`;
+
+describe('PatientMergeService', () => {
+  it('moves or explicitly excludes every patient-keyed column', () => {
+    const covered = [
+      ...Object.values(MERGEABLE_RECORDS).map(record => describeColumn(record.patientId)),
+      ...MERGE_EXCLUDED_COLUMNS.map(column => describeColumn(column)),
+    ].sort();
+
+    expect(covered).toEqual(patientColumns());
+  });
+
+  it('uses each table only once', () => {
+    const tables = Object.values(MERGEABLE_RECORDS).map(record => record.table);
+    expect(new Set(tables).size).toBe(tables.length);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { ClinicTime, FACILITY_TIME_ZONE } from '../../src/utils/ClinicTime';
+
+// vitest.config.ts pins FACILITY_TZ to Africa/Nairobi (UTC+3, no DST)
+describe('ClinicTime', () => {
+  it('reads the facility clock rather than the host clock', () => {
+    expect(FACILITY_TIME_ZONE).toBe('Africa/Nairobi');
+
+    const lateEveningUtc = new Date('2026-10-19T22:30:15Z');
+    expect(ClinicTime.formatDate(lateEveningUtc)).toBe('2026-10-20');
+    expect(ClinicTime.minutesOfDay(lateEveningUtc)).toBe(90);
+    expect(ClinicTime.timestamp(lateEveningUtc)).toBe('2026-10-20 01:30:15');
+  });
+
+  it('converts a facility-local date and time back to an instant', () => {
+    expect(ClinicTime.toInstant('2026-10-20', '01:30:15').toISOString()).toBe('2026-10-19T22:30:15.000Z');
+    expect(ClinicTime.toInstant('2026-10-20').toISOString()).toBe('2026-10-19T21:00:00.000Z');
+  });
+
+  it('does time-of-day arithmetic in minutes and wraps at midnight', () => {
+    expect(ClinicTime.toMinutes('09:30')).toBe(570);
+    expect(ClinicTime.fromMinutes(570)).toBe('09:30');
+    expect(ClinicTime.addMinutes('23:45', 30)).toBe('00:15');
+  });
+
+  it('does calendar arithmetic on date strings', () => {
+    expect(ClinicTime.addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(ClinicTime.addDays('2028-03-01', -1)).toBe('2028-02-29');
+    expect(ClinicTime.dayOfWeek('2026-10-19')).toBe(1);
+  });
+
+  it('treats touching slots as not overlapping', () => {
+    expect(ClinicTime.overlaps('09:00', '09:30', '09:30', '10:00')).toBe(false);
+    expect(ClinicTime.overlaps('09:00', '09:31', '09:30', '10:00')).toBe(true);
+  });
+});
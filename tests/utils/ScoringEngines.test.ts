@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { mewsEngine, news2Engine, satsEngine, esiEngine, pewsEngine, isScoringAlgorithm } from '../../src/utils/ScoringEngines';
+
+const points = (result: { components: Array<{ parameter: string; points: number }> }, parameter: string) =>
+  result.components.find(c => c.parameter === parameter)?.points;
+
+describe('mewsEngine', () => {
+  it('scores normal adult vitals as zero', () => {
+    const result = mewsEngine.calculate({
+      respiratoryRate: 14, oxygenSaturation: 98, temperature: 37, systolicBp: 120, heartRate: 80, consciousness: 'ALERT',
+    });
+    expect(result.score).toBe(0);
+    expect(result.urgencyLevel).toBe('GREEN');
+    expect(result.primaryDrivers).toEqual([]);
+  });
+
+  it('applies the respiratory rate bands at their boundaries', () => {
+    expect(points(mewsEngine.calculate({ respiratoryRate: 8 }), 'respiratoryRate')).toBe(2);
+    expect(points(mewsEngine.calculate({ respiratoryRate: 9 }), 'respiratoryRate')).toBe(0);
+    expect(points(mewsEngine.calculate({ respiratoryRate: 15 }), 'respiratoryRate')).toBe(1);
+    expect(points(mewsEngine.calculate({ respiratoryRate: 21 }), 'respiratoryRate')).toBe(2);
+    expect(points(mewsEngine.calculate({ respiratoryRate: 30 }), 'respiratoryRate')).toBe(3);
+  });
+
+  it('triggers RED at 5 and YELLOW at 3', () => {
+    expect(mewsEngine.calculate({ heartRate: 130, respiratoryRate: 21 }).urgencyLevel).toBe('RED');
+    expect(mewsEngine.calculate({ heartRate: 130 }).urgencyLevel).toBe('YELLOW');
+  });
+
+  it('ignores missing vitals', () => {
+    const result = mewsEngine.calculate({});
+    expect(result.score).toBe(0);
+    expect(result.components.every(c => c.value === null)).toBe(true);
+  });
+});
+
+describe('news2Engine', () => {
+  it('scores RR 8 or below and 25 or above as 3', () => {
+    expect(points(news2Engine.calculate({ respiratoryRate: 8 }), 'respiratoryRate')).toBe(3);
+    expect(points(news2Engine.calculate({ respiratoryRate: 9 }), 'respiratoryRate')).toBe(1);
+    expect(points(news2Engine.calculate({ respiratoryRate: 12 }), 'respiratoryRate')).toBe(0);
+    expect(points(news2Engine.calculate({ respiratoryRate: 21 }), 'respiratoryRate')).toBe(2);
+    expect(points(news2Engine.calculate({ respiratoryRate: 25 }), 'respiratoryRate')).toBe(3);
+  });
+
+  it('escalates a single red parameter to LOW_MEDIUM', () => {
+    const result = news2Engine.calculate({ consciousness: 'VOICE' });
+    expect(result.score).toBe(3);
+    expect(result.category).toBe('LOW_MEDIUM');
+    expect(result.urgencyLevel).toBe('YELLOW');
+  });
+
+  it('categorises aggregate scores of 5 and 7', () => {
+    expect(news2Engine.calculate({ respiratoryRate: 22, supplementalOxygen: true, heartRate: 95 }).category).toBe('MEDIUM');
+    const high = news2Engine.calculate({ respiratoryRate: 25, supplementalOxygen: true, systolicBp: 95 });
+    expect(high.score).toBe(7);
+    expect(high.category).toBe('HIGH');
+    expect(high.urgencyLevel).toBe('RED');
+  });
+});
+
+describe('satsEngine', () => {
+  it('scores RR below 9 as 2 per TEWS', () => {
+    expect(points(satsEngine.calculate({ respiratoryRate: 6 }), 'respiratoryRate')).toBe(2);
+    expect(points(satsEngine.calculate({ respiratoryRate: 8 }), 'respiratoryRate')).toBe(2);
+    expect(points(satsEngine.calculate({ respiratoryRate: 9 }), 'respiratoryRate')).toBe(0);
+    expect(points(satsEngine.calculate({ respiratoryRate: 30 }), 'respiratoryRate')).toBe(3);
+  });
+
+  it('maps TEWS to RED, ORANGE, YELLOW and GREEN', () => {
+    expect(satsEngine.calculate({ mobility: 'STRETCHER', heartRate: 130, systolicBp: 70 }).category).toBe('RED');
+
+    const orange = satsEngine.calculate({ mobility: 'STRETCHER', heartRate: 130 });
+    expect(orange.score).toBe(5);
+    expect(orange.category).toBe('ORANGE');
+    expect(orange.urgencyLevel).toBe('RED');
+
+    expect(satsEngine.calculate({ mobility: 'STRETCHER', trauma: true }).category).toBe('YELLOW');
+    expect(satsEngine.calculate({ mobility: 'WALKING', heartRate: 80 }).category).toBe('GREEN');
+  });
+});
+
+describe('esiEngine', () => {
+  it('puts a patient needing a life-saving intervention at level 1', () => {
+    const result = esiEngine.calculate({ requiresLifeSavingIntervention: true });
+    expect(result.score).toBe(1);
+    expect(result.urgencyLevel).toBe('RED');
+  });
+
+  it('up-triages danger-zone vitals to level 2 only when two or more resources are expected', () => {
+    expect(esiEngine.calculate({ heartRate: 120, expectedResources: 2 }).score).toBe(2);
+    expect(esiEngine.calculate({ heartRate: 120, expectedResources: 1 }).score).toBe(4);
+  });
+
+  it('uses expected resources for levels 3 to 5', () => {
+    expect(esiEngine.calculate({ expectedResources: 3 }).category).toBe('ESI-3');
+    expect(esiEngine.calculate({ expectedResources: 1 }).category).toBe('ESI-4');
+    expect(esiEngine.calculate({ expectedResources: 0 }).category).toBe('ESI-5');
+  });
+});
+
+describe('pewsEngine', () => {
+  it('uses age-banded normal ranges', () => {
+    expect(points(pewsEngine.calculate({ ageYears: 0.5, heartRate: 150 }), 'cardiovascular')).toBe(0);
+    expect(points(pewsEngine.calculate({ ageYears: 14, heartRate: 150 }), 'cardiovascular')).toBe(3);
+  });
+
+  it('turns RED on any single 3', () => {
+    const result = pewsEngine.calculate({ ageYears: 6, oxygenSaturation: 88 });
+    expect(result.score).toBe(3);
+    expect(result.urgencyLevel).toBe('RED');
+  });
+});
+
+describe('isScoringAlgorithm', () => {
+  it('accepts known algorithms only', () => {
+    expect(isScoringAlgorithm('NEWS2')).toBe(true);
+    expect(isScoringAlgorithm('news2')).toBe(false);
+    expect(isScoringAlgorithm('TEWS')).toBe(false);
+  });
+});
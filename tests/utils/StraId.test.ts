@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { StraId } from '../../src/utils/StraId';
+
+describe('StraId', () => {
+  it('computes the Luhn check digit', () => {
+    // Standard Luhn example: 7992739871 -> 3
+    expect(StraId.checkDigit('7992739871')).toBe(3);
+    expect(StraId.checkDigit('000000')).toBe(0);
+  });
+
+  it('formats a zero-padded serial with its check digit', () => {
+    const id = StraId.format('STRA', 42);
+    expect(id).toMatch(/^STRA-000042-\d$/);
+    expect(StraId.isValid(id)).toBe(true);
+  });
+
+  it('includes the facility code in the prefix', () => {
+    expect(StraId.prefixFor('knh')).toBe('STRA-KNH');
+    expect(StraId.parse(StraId.format(StraId.prefixFor('KNH'), 7))).toMatchObject({
+      prefix: 'STRA-KNH',
+      facilityCode: 'KNH',
+      serial: 7,
+    });
+  });
+
+  it('rejects a single-digit typo and an adjacent transposition', () => {
+    const id = StraId.format('STRA', 123456);
+    const check = id.slice(-1);
+    expect(StraId.isValid(`STRA-123457-${check}`)).toBe(false);
+    expect(StraId.isValid(`STRA-213456-${check}`)).toBe(false);
+  });
+
+  it('accepts legacy IDs without a check digit', () => {
+    expect(StraId.isValid('STRA-000123')).toBe(true);
+    expect(StraId.parse('STRA-000123')?.checkDigit).toBeNull();
+  });
+
+  it('normalises case and whitespace', () => {
+    const id = StraId.format('STRA', 99);
+    expect(StraId.isValid(` ${id.toLowerCase()} `)).toBe(true);
+  });
+
+  it('rejects malformed values', () => {
+    expect(StraId.parse('ABC-000123')).toBeNull();
+    expect(StraId.isValid('STRA-12-3')).toBe(false);
+  });
+});